@@ -0,0 +1,417 @@
+// scripts/mock-alpr-server.mjs
+// ✅ BACKEND ALPR SIMULADO PARA DESARROLLAR Y PROBAR EL FRONTEND SIN GPU NI RED
+//
+// Implementa la API REST (detección en imagen y video, subidas por partes, imágenes remotas,
+// sesiones de streaming, cámaras IP, health) y el WebSocket /api/v1/streaming/ws/{session_id} con
+// mensajes guionados y frames JPEG sintéticos. Las respuestas son deterministas (MOCK_SEED).
+//
+// Uso:
+//   npm run mock:alpr
+//   MOCK_PORT=8000 MOCK_FRAME_INTERVAL_MS=66 MOCK_VIDEO_FRAMES=450 MOCK_BINARY=0 node scripts/mock-alpr-server.mjs
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { CORS_HEADERS, readForm, readJson, sendJson, sendText } from './mock/http.mjs';
+import { createUploadStore } from './mock/uploads.mjs';
+import { acceptWebSocket, rejectUpgrade } from './mock/websocket.mjs';
+import { MockStreamingHub } from './mock/streaming.mjs';
+import { imageDetection, videoPlates } from './mock/fixtures.mjs';
+
+const PORT = Number(process.env.MOCK_PORT || 8000);
+// Demora de los endpoints de detección, para ver los estados de carga
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 300);
+// Probabilidad de cortar la conexión al recibir una parte de una subida (0 = nunca)
+const DROP_RATE = Number(process.env.MOCK_DROP_RATE || 0);
+// Sesiones sin socket ni procesamiento se olvidan tras este tiempo
+const SESSION_TTL_SECONDS = Number(process.env.MOCK_SESSION_TTL || 600);
+const MAX_SESSIONS = 20;
+// El servidor responde antes de que lleguen los primeros mensajes de la sesión
+const START_DELAY_MS = 500;
+// Descarga de imágenes remotas (POST /api/v1/images/fetch)
+const REMOTE_IMAGE_TIMEOUT_MS = 15_000;
+const REMOTE_IMAGE_MAX_BYTES = 20 * 1024 * 1024;
+const VERSION = '0.0.0-mock';
+
+const uploadStore = await createUploadStore({ dropRate: DROP_RATE });
+const hub = new MockStreamingHub({
+    frameIntervalMs: Number(process.env.MOCK_FRAME_INTERVAL_MS || 66),
+    videoFrames: Number(process.env.MOCK_VIDEO_FRAMES || 450),
+    seed: Number(process.env.MOCK_SEED || 1),
+    binary: process.env.MOCK_BINARY !== '0'
+});
+const cameras = new Map();
+
+const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function fileInfoOf(file, extra = {}) {
+    return { filename: file.filename, size_mb: Number((file.size / 1024 / 1024).toFixed(2)), ...extra };
+}
+
+// 🖼️ DETECCIÓN EN IMAGEN
+function imageResponse(file) {
+    const { detection, dimensions } = imageDetection(file);
+    return {
+        success: true,
+        message: 'Detección simulada completada',
+        timestamp: new Date().toISOString(),
+        data: {
+            success: true,
+            best_result: detection,
+            final_results: [detection],
+            plates_processed: 1,
+            processing_time: LATENCY_MS / 1000,
+            processing_summary: {
+                total_detections: 1,
+                valid_detections: 1,
+                valid_plates: 1,
+                six_char_plates: 1,
+                processing_steps: ['detección de placa', 'reconocimiento de caracteres', 'validación de formato'],
+                enhancement_applied: false
+            },
+            file_info: fileInfoOf(file, { dimensions, format: file.filename.split('.').pop()?.toUpperCase() })
+        }
+    };
+}
+
+function quickImageResponse(file) {
+    const { detection } = imageDetection(file);
+    return {
+        success: true,
+        message: 'Detección rápida simulada',
+        plate_text: detection.plate_text,
+        confidence: detection.overall_confidence,
+        is_valid_format: true,
+        processing_time: LATENCY_MS / 1000 / 2
+    };
+}
+
+// 🎬 DETECCIÓN EN VIDEO
+function videoResponse(file) {
+    const plates = videoPlates(hub.videoFrames);
+    const best = plates.reduce((top, plate) => (plate.best_confidence > top.best_confidence ? plate : top), plates[0]);
+    return {
+        success: true,
+        message: 'Procesamiento simulado completado',
+        data: {
+            success: true,
+            unique_plates: plates,
+            best_plate: best,
+            processing_time: LATENCY_MS / 1000,
+            processing_summary: {
+                frames_processed: hub.videoFrames,
+                frames_with_detections: plates.reduce((sum, plate) => sum + plate.detection_count, 0),
+                total_detections: plates.reduce((sum, plate) => sum + plate.detection_count, 0),
+                unique_plates_found: plates.length
+            },
+            video_info: { duration_seconds: hub.videoFrames / 30, frame_count: hub.videoFrames, fps: 30, resolution: '320x240' },
+            file_info: fileInfoOf(file)
+        }
+    };
+}
+
+function quickVideoResponse() {
+    const plates = videoPlates(hub.videoFrames);
+    const best = plates[0];
+    return {
+        success: true,
+        message: 'Detección rápida simulada',
+        unique_plates_count: plates.length,
+        best_plate_text: best.plate_text,
+        best_confidence: best.best_confidence,
+        detection_count: plates.reduce((sum, plate) => sum + plate.detection_count, 0),
+        is_valid_format: true,
+        processing_time: LATENCY_MS / 1000 / 2,
+        frames_processed: Math.ceil(hub.videoFrames / 3)
+    };
+}
+
+// 📡 VIDEO PARA STREAMING: responde y empieza a emitir por el WebSocket de la sesión
+function streamingUploadResponse(form, file) {
+    const sessionId = String(form.get('session_id') || '');
+    if (!sessionId) throw Object.assign(new Error('session_id es obligatorio'), { status: 400 });
+
+    const options = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === 'string'));
+    setTimeout(() => hub.startVideo(sessionId, file, options), START_DELAY_MS);
+    return {
+        success: true,
+        message: 'Video recibido',
+        session_id: sessionId,
+        file_info: fileInfoOf(file, { file_type: 'video', dimensions: { width: 320, height: 240 } }),
+        next_steps: ['Los resultados llegan por el WebSocket de la sesión']
+    };
+}
+
+const FILE_ENDPOINTS = {
+    '/api/v1/detect/image': { latency: LATENCY_MS, respond: (form, file) => imageResponse(file) },
+    '/api/v1/detect/image/quick': { latency: LATENCY_MS / 2, respond: (form, file) => quickImageResponse(file) },
+    '/api/v1/video/detect': { latency: LATENCY_MS * 3, respond: (form, file) => videoResponse(file) },
+    '/api/v1/video/detect/quick': { latency: LATENCY_MS, respond: () => quickVideoResponse() },
+    '/api/v1/streaming/upload': { latency: 0, respond: streamingUploadResponse }
+};
+
+// 📹 CÁMARAS IP
+function cameraProtocol(url) {
+    if (/^rtsps?:\/\//i.test(url)) return 'rtsp';
+    if (/^https?:\/\//i.test(url)) return 'mjpeg';
+    return null;
+}
+
+async function createCamera(req, res) {
+    const input = await readJson(req);
+    const protocol = cameraProtocol(String(input.url || ''));
+    if (!input.name || !protocol) {
+        return sendJson(res, 422, { detail: 'name y una URL rtsp:// o http(s):// son obligatorios' });
+    }
+
+    const url = new URL(input.url);
+    const hasCredentials = Boolean(input.username || input.password || url.username);
+    url.username = '';
+    url.password = '';
+    const source = {
+        source_id: `cam_${randomUUID().slice(0, 8)}`,
+        name: String(input.name),
+        url: url.toString(),
+        protocol,
+        has_credentials: hasCredentials,
+        status: 'idle',
+        last_error: null,
+        created_at: Date.now() / 1000,
+        defaults: input.defaults,
+        active_session_id: null
+    };
+    cameras.set(source.source_id, source);
+    console.log(`📹 Cámara registrada ${source.source_id} (${source.name})`);
+    sendJson(res, 201, { success: true, message: 'Cámara registrada', source });
+}
+
+async function startCamera(req, res, source) {
+    const body = await readJson(req);
+    const sessionId = String(body.session_id || '');
+    if (!sessionId) return sendJson(res, 400, { detail: 'session_id es obligatorio' });
+    if (source.active_session_id && source.active_session_id !== sessionId) {
+        return sendJson(res, 409, { detail: `La cámara ya transmite en la sesión ${source.active_session_id}` });
+    }
+
+    source.status = 'connecting';
+    source.active_session_id = sessionId;
+    setTimeout(() => {
+        source.status = 'streaming';
+        hub.startCamera(sessionId, source, { ...source.defaults, ...body }, () => {
+            source.status = 'idle';
+            source.active_session_id = null;
+        });
+    }, START_DELAY_MS);
+    sendJson(res, 200, { success: true, message: `Abriendo ${source.name}`, session_id: sessionId, source_id: source.source_id });
+}
+
+// 🏥 HEALTH Y CONECTIVIDAD
+function healthResponse() {
+    const active = hub.sessions.size;
+    return {
+        status: 'healthy',
+        timestamp: Date.now() / 1000,
+        service: 'mock-alpr-server',
+        version: VERSION,
+        issues: [],
+        sessions: { active, max: MAX_SESSIONS, capacity_usage: Number((active / MAX_SESSIONS).toFixed(2)) },
+        models: { loaded: true, device: 'mock' },
+        capabilities: {
+            websocket_streaming: true,
+            real_time_processing: true,
+            video_upload: true,
+            session_management: true
+        }
+    };
+}
+
+function connectionTestResponse() {
+    return {
+        success: true,
+        message: 'Servidor simulado disponible',
+        endpoints: {
+            websocket: `ws://localhost:${PORT}/api/v1/streaming/ws/{session_id}`,
+            upload: '/api/v1/streaming/upload',
+            sessions: '/api/v1/streaming/sessions',
+            health: '/api/v1/streaming/health'
+        },
+        example_usage: {
+            connect: `new WebSocket('ws://localhost:${PORT}/api/v1/streaming/ws/session_demo')`
+        },
+        timestamp: Date.now() / 1000
+    };
+}
+
+// 📋 SESIONES
+function sessionRoutes(req, res, path, url) {
+    if (path === '/api/v1/streaming/sessions' && req.method === 'GET') {
+        const sessions = [...hub.sessions.values()];
+        return sendJson(res, 200, {
+            success: true,
+            total_sessions: sessions.length,
+            sessions: sessions.map(session => hub.summaryOf(session)),
+            server_capacity: {
+                max_connections: MAX_SESSIONS,
+                current_connections: sessions.filter(session => session.connection).length,
+                available_slots: Math.max(0, MAX_SESSIONS - sessions.length)
+            }
+        });
+    }
+
+    const match = path.match(/^\/api\/v1\/streaming\/sessions\/([^/]+)(\/download)?$/);
+    if (!match) return false;
+
+    const session = hub.sessions.get(decodeURIComponent(match[1]));
+    if (!session) return sendJson(res, 404, { detail: 'Sesión no encontrada' });
+
+    if (match[2] && req.method === 'GET') {
+        const format = url.searchParams.get('format') === 'csv' ? 'csv' : 'json';
+        return sendText(res, 200, hub.results(session, format), format === 'csv' ? 'text/csv' : 'application/json');
+    }
+    if (req.method === 'GET') {
+        return sendJson(res, 200, {
+            success: true,
+            session: {
+                ...hub.summaryOf(session),
+                last_activity: session.lastActivity,
+                video_path: session.source?.kind === 'video' ? `/tmp/mock/${session.source.fileInfo.filename}` : null
+            }
+        });
+    }
+    if (req.method === 'DELETE') {
+        hub.remove(session.id);
+        return sendJson(res, 200, { success: true, message: 'Sesión cerrada' });
+    }
+    return sendJson(res, 405, { detail: `Método no soportado: ${req.method}` });
+}
+
+function cameraRoutes(req, res, path) {
+    if (path === '/api/v1/streaming/cameras') {
+        if (req.method === 'GET') {
+            return sendJson(res, 200, { success: true, total: cameras.size, sources: [...cameras.values()] });
+        }
+        if (req.method === 'POST') return createCamera(req, res);
+    }
+
+    const match = path.match(/^\/api\/v1\/streaming\/cameras\/([^/]+)(\/start)?$/);
+    if (!match) return false;
+
+    const source = cameras.get(decodeURIComponent(match[1]));
+    if (!source) return sendJson(res, 404, { detail: 'Cámara no encontrada' });
+
+    if (match[2] && req.method === 'POST') return startCamera(req, res, source);
+    if (!match[2] && req.method === 'DELETE') {
+        const activeSession = source.active_session_id ? hub.sessions.get(source.active_session_id) : null;
+        if (activeSession) hub.finish(activeSession, 'stopped');
+        cameras.delete(source.source_id);
+        return sendJson(res, 200, { success: true, message: 'Cámara eliminada' });
+    }
+    return sendJson(res, 405, { detail: `Método no soportado: ${req.method}` });
+}
+
+// 🌐 IMAGEN REMOTA: el navegador no puede leerla por CORS, el servidor sí
+async function fetchRemoteImage(req, res) {
+    const { url } = await readJson(req);
+    let target;
+    try {
+        target = new URL(url);
+    } catch {
+        return sendJson(res, 400, { detail: 'URL inválida' });
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        return sendJson(res, 400, { detail: 'Solo se aceptan URLs http o https' });
+    }
+
+    let response;
+    try {
+        response = await fetch(target, { signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS) });
+    } catch (error) {
+        return sendJson(res, 502, { detail: `No se pudo descargar la imagen: ${error.message}` });
+    }
+    if (!response.ok) {
+        return sendJson(res, 502, { detail: `El origen respondió ${response.status}` });
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.startsWith('image/')) {
+        return sendJson(res, 415, { detail: `El recurso no es una imagen (${contentType || 'sin Content-Type'})` });
+    }
+    const body = Buffer.from(await response.arrayBuffer());
+    if (body.length > REMOTE_IMAGE_MAX_BYTES) {
+        return sendJson(res, 413, { detail: 'La imagen remota es demasiado grande' });
+    }
+    console.log(`🌐 Imagen remota ${target.href} (${body.length} bytes)`);
+    return sendText(res, 200, body, contentType);
+}
+
+// 🚦 ROUTER
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const path = url.pathname;
+
+    try {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, CORS_HEADERS);
+            return res.end();
+        }
+
+        if (await uploadStore.handle(req, res, path)) return;
+
+        const fileEndpoint = FILE_ENDPOINTS[path];
+        if (req.method === 'POST' && fileEndpoint) {
+            const form = await readForm(req);
+            const file = uploadStore.resolveUploadedFile(form);
+            if (!file) return sendJson(res, 400, { detail: 'Falta el archivo o la subida no está completa' });
+            console.log(`✅ ${path} recibió ${file.filename} (${file.size} bytes)`);
+            await delay(fileEndpoint.latency);
+            return sendJson(res, 200, fileEndpoint.respond(form, file));
+        }
+
+        if (req.method === 'POST' && path === '/api/v1/images/fetch') return fetchRemoteImage(req, res);
+        if (req.method === 'GET' && path === '/api/v1/streaming/health') return sendJson(res, 200, healthResponse());
+        if (req.method === 'GET' && path === '/api/v1/streaming/test-connection') return sendJson(res, 200, connectionTestResponse());
+        if (req.method === 'GET' && path === '/api/v1/test-ngrok') {
+            return sendJson(res, 200, { success: true, message: 'Servidor simulado: sin ngrok', timestamp: Date.now() / 1000 });
+        }
+
+        if (path.startsWith('/api/v1/streaming/sessions') && (await sessionRoutes(req, res, path, url)) !== false) return;
+        if (path.startsWith('/api/v1/streaming/cameras') && (await cameraRoutes(req, res, path)) !== false) return;
+
+        sendJson(res, 404, { detail: `Ruta no simulada: ${req.method} ${path}` });
+    } catch (error) {
+        console.error('❌ Error en el servidor simulado:', error);
+        if (!res.headersSent) sendJson(res, error.status || 500, { detail: error.message });
+    }
+});
+
+// 🔌 WEBSOCKET DE LAS SESIONES
+server.on('upgrade', (req, socket) => {
+    const path = new URL(req.url, `http://localhost:${PORT}`).pathname;
+    const match = path.match(/^\/api\/v1\/streaming\/ws\/([^/]+)$/);
+    if (!match) return rejectUpgrade(socket, 404, 'Not Found');
+
+    const sessionId = decodeURIComponent(match[1]);
+    if (!hub.sessions.has(sessionId) && hub.sessions.size >= MAX_SESSIONS) {
+        return rejectUpgrade(socket, 503, 'Service Unavailable');
+    }
+
+    const connection = acceptWebSocket(req, socket);
+    if (connection) hub.attach(sessionId, connection);
+});
+
+const pruneTimer = setInterval(() => hub.prune(SESSION_TTL_SECONDS), 60_000);
+
+server.listen(PORT, () => {
+    console.log(`🧪 Backend ALPR simulado en http://localhost:${PORT} (ws://localhost:${PORT}/api/v1/streaming/ws/{id})`);
+    console.log(`   frames cada ${hub.frameIntervalMs} ms, ${hub.videoFrames} frames por video, binario ${hub.binary ? 'sí' : 'no'}`);
+});
+
+async function shutdown() {
+    clearInterval(pruneTimer);
+    hub.dispose();
+    server.close();
+    await uploadStore.dispose();
+    process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,133 @@
+// scripts/mock-upload-server.mjs
+// ✅ SERVIDOR LOCAL DE PRUEBA PARA EL PROTOCOLO DE SUBIDAS POR PARTES
+//
+// Implementa /api/v1/uploads (crear, consultar offset, recibir partes con checksum) y
+// respuestas simuladas de los endpoints que consumen el upload_id. Puede cortar
+// conexiones al azar para comprobar que el cliente reanuda en lugar de reiniciar.
+//
+// Uso:
+//   npm run mock:uploads
+//   MOCK_PORT=8010 MOCK_DROP_RATE=0.2 node scripts/mock-upload-server.mjs
+
+import http from 'node:http';
+import { CORS_HEADERS, readForm, sendJson } from './mock/http.mjs';
+import { createUploadStore } from './mock/uploads.mjs';
+
+const PORT = Number(process.env.MOCK_PORT || 8010);
+// Probabilidad de cortar la conexión al recibir una parte (0 = nunca)
+const DROP_RATE = Number(process.env.MOCK_DROP_RATE || 0);
+
+const uploadStore = await createUploadStore({ dropRate: DROP_RATE });
+
+// 🎬 ENDPOINTS QUE CONSUMEN LA SUBIDA
+const SAMPLE_PLATE = {
+    plate_text: 'ABC-123',
+    detection_count: 4,
+    best_confidence: 0.91,
+    avg_confidence: 0.86,
+    is_valid_format: true,
+    is_six_char_valid: true,
+    first_seen_frame: 12,
+    last_seen_frame: 48,
+    best_frame: 30,
+    char_count: 6
+};
+
+function videoResponse(file) {
+    return {
+        success: true,
+        message: 'Procesamiento simulado completado',
+        data: {
+            success: true,
+            unique_plates: [SAMPLE_PLATE],
+            best_plate: SAMPLE_PLATE,
+            processing_time: 1.2,
+            processing_summary: { frames_processed: 90, frames_with_detections: 4, total_detections: 4, unique_plates_found: 1 },
+            video_info: { duration_seconds: 3, frame_count: 90, fps: 30, resolution: '1280x720' },
+            file_info: { filename: file.filename, size_mb: Number((file.size / 1024 / 1024).toFixed(2)) }
+        }
+    };
+}
+
+function quickVideoResponse() {
+    return {
+        success: true,
+        message: 'Detección rápida simulada',
+        unique_plates_count: 1,
+        best_plate_text: SAMPLE_PLATE.plate_text,
+        best_confidence: SAMPLE_PLATE.best_confidence,
+        detection_count: SAMPLE_PLATE.detection_count,
+        is_valid_format: true,
+        processing_time: 0.4,
+        frames_processed: 30
+    };
+}
+
+function streamingUploadResponse(form, file) {
+    return {
+        success: true,
+        message: 'Video recibido',
+        session_id: String(form.get('session_id') || ''),
+        file_info: { filename: file.filename, size_mb: Number((file.size / 1024 / 1024).toFixed(2)), file_type: 'video' },
+        next_steps: ['El servidor simulado no envía mensajes WebSocket']
+    };
+}
+
+const FINAL_ENDPOINTS = {
+    '/api/v1/video/detect': (form, file) => videoResponse(file),
+    '/api/v1/video/detect/quick': () => quickVideoResponse(),
+    '/api/v1/streaming/upload': streamingUploadResponse
+};
+
+// 🚦 ROUTER
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const path = url.pathname;
+
+    try {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, CORS_HEADERS);
+            return res.end();
+        }
+
+        if (await uploadStore.handle(req, res, path)) return;
+
+        if (req.method === 'POST' && FINAL_ENDPOINTS[path]) {
+            const form = await readForm(req);
+            const file = uploadStore.resolveUploadedFile(form);
+            if (!file) return sendJson(res, 400, { detail: 'Falta el archivo o la subida no está completa' });
+            console.log(`✅ ${path} recibió ${file.filename} (${file.size} bytes)`);
+            return sendJson(res, 200, FINAL_ENDPOINTS[path](form, file));
+        }
+
+        if (req.method === 'GET' && path === '/api/v1/streaming/health') {
+            return sendJson(res, 200, {
+                status: 'healthy',
+                timestamp: Date.now() / 1000,
+                service: 'mock-upload-server',
+                version: '0.0.0',
+                issues: [],
+                sessions: { active: 0, max: 10, capacity_usage: 0 },
+                models: { loaded: true, device: 'mock' }
+            });
+        }
+
+        sendJson(res, 404, { detail: `Ruta no simulada: ${req.method} ${path}` });
+    } catch (error) {
+        console.error('❌ Error en el servidor simulado:', error);
+        if (!res.headersSent) sendJson(res, error.status || 500, { detail: error.message });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`🧪 Servidor de subidas simulado en http://localhost:${PORT} (cortes: ${DROP_RATE * 100}%)`);
+});
+
+async function shutdown() {
+    server.close();
+    await uploadStore.dispose();
+    process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,170 @@
+// scripts/mock/fixtures.mjs
+// ✅ DATOS GUIONADOS DEL BACKEND SIMULADO: placas, escena sintética y detecciones
+//
+// Todo es determinista a partir de la semilla (MOCK_SEED) para que dos ejecuciones
+// produzcan la misma secuencia de mensajes.
+
+import { encodeBlockJpeg } from './jpeg.mjs';
+
+export const FRAME_WIDTH = 320;
+export const FRAME_HEIGHT = 240;
+const BLOCK = 8;
+
+// 🎲 PRNG DETERMINISTA (mulberry32)
+export function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function hashString(value) {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+// 🚗 GUION DE PLACAS: cada una cruza el cuadro en una fracción del video y por un carril
+// `misread` es una lectura OCR confundida que aparece a veces con menor confianza
+export const SCRIPTED_PLATES = [
+    { text: 'ABC-123', from: 0.04, to: 0.32, lane: 0, misread: 'A8C-123' },
+    { text: 'B7K-482', from: 0.22, to: 0.55, lane: 1, misread: 'B7K-4B2' },
+    { text: 'C4D-510', from: 0.48, to: 0.78, lane: 0, misread: 'C4D-51O' },
+    { text: 'F2M-906', from: 0.7, to: 0.97, lane: 1, misread: null }
+];
+
+const LANE_ROWS = [12, 19];
+const CAR_SIZE = { width: 12, height: 6 };
+const PLATE_SIZE = { width: 4, height: 2 };
+
+// Posición (en bloques) de cada placa visible en la fracción `t` del recorrido
+export function visiblePlates(t) {
+    return SCRIPTED_PLATES
+        .filter(plate => t >= plate.from && t <= plate.to)
+        .map(plate => {
+            const progress = (t - plate.from) / (plate.to - plate.from);
+            const carX = Math.round(-CAR_SIZE.width + progress * (FRAME_WIDTH / BLOCK + CAR_SIZE.width));
+            const carY = LANE_ROWS[plate.lane];
+            const plateX = carX + Math.floor((CAR_SIZE.width - PLATE_SIZE.width) / 2);
+            const plateY = carY + CAR_SIZE.height - PLATE_SIZE.height - 1;
+            return { plate, carX, carY, plateX, plateY };
+        });
+}
+
+function insideBlocks(bx, by, x, y, width, height) {
+    return bx >= x && bx < x + width && by >= y && by < y + height;
+}
+
+// 🖼️ ESCENA: cielo, pista con líneas, autos oscuros con placa blanca y barra de progreso abajo
+export function renderSceneJpeg(t, positions) {
+    const blocksX = FRAME_WIDTH / BLOCK;
+    const blocksY = FRAME_HEIGHT / BLOCK;
+    const progressBlocks = Math.round(t * blocksX);
+
+    return encodeBlockJpeg(FRAME_WIDTH, FRAME_HEIGHT, (bx, by) => {
+        if (by === blocksY - 1) return bx < progressBlocks ? 200 : 40;
+
+        for (const { carX, carY, plateX, plateY } of positions) {
+            if (insideBlocks(bx, by, plateX, plateY, PLATE_SIZE.width, PLATE_SIZE.height)) return 235;
+            if (insideBlocks(bx, by, carX, carY, CAR_SIZE.width, CAR_SIZE.height)) return 55;
+        }
+
+        if (by < 9) return 190 - by * 6;
+        if (by === 17 && Math.floor(bx / 3) % 2 === 0) return 210;
+        return 95 + ((bx + by) % 2) * 4;
+    });
+}
+
+export function plateBbox({ plateX, plateY }, scaleX = 1, scaleY = 1) {
+    const x1 = Math.max(0, plateX * BLOCK) * scaleX;
+    const y1 = plateY * BLOCK * scaleY;
+    const x2 = Math.min(FRAME_WIDTH, (plateX + PLATE_SIZE.width) * BLOCK) * scaleX;
+    const y2 = (plateY + PLATE_SIZE.height) * BLOCK * scaleY;
+    return [Math.round(x1), Math.round(y1), Math.round(x2), Math.round(y2)];
+}
+
+export function spatialRegion(bbox, frameWidth) {
+    const center = (bbox[0] + bbox[2]) / 2 / frameWidth;
+    if (center < 1 / 3) return 'left';
+    if (center < 2 / 3) return 'center';
+    return 'right';
+}
+
+// 🎯 DETECCIÓN DE UN FRAME (forma de PlateDetection del streaming)
+export function buildDetection({ frame, timestamp, text, confidence, bbox }) {
+    const rawText = text.replace('-', '');
+    const bboxArea = (bbox[2] - bbox[0]) * (bbox[3] - bbox[1]);
+    return {
+        detection_id: `det_${frame}_${rawText}`,
+        frame_num: frame,
+        timestamp,
+        plate_text: text,
+        raw_plate_text: rawText,
+        plate_confidence: Number(Math.min(0.99, confidence + 0.04).toFixed(3)),
+        char_confidence: Number(confidence.toFixed(3)),
+        overall_confidence: Number(confidence.toFixed(3)),
+        plate_bbox: bbox,
+        is_valid_plate: true,
+        char_count: rawText.length,
+        bbox_area: bboxArea,
+        six_char_validated: rawText.length === 6,
+        is_six_char_format: rawText.length === 6,
+        six_char_confidence: Number(confidence.toFixed(3)),
+        auto_formatted: true,
+        is_auto_formatted: true,
+        processing_method: 'mock'
+    };
+}
+
+// 🖼️ DETECCIÓN EN IMAGEN: placa y confianza deterministas a partir del nombre y tamaño del archivo
+export function imageDetection(file) {
+    const random = createRandom(hashString(`${file.filename}:${file.size}`));
+    const scripted = SCRIPTED_PLATES[Math.floor(random() * SCRIPTED_PLATES.length)];
+    const confidence = 0.78 + random() * 0.2;
+    const width = 1280;
+    const height = 720;
+    const x = Math.round(width * (0.35 + random() * 0.1));
+    const y = Math.round(height * (0.55 + random() * 0.1));
+
+    const detection = {
+        plate_text: scripted.text,
+        overall_confidence: Number(confidence.toFixed(3)),
+        is_valid_plate: true,
+        is_six_char_valid: true,
+        char_count: 6,
+        bbox: { x, y, width: 180, height: 60 },
+        plate_region_confidence: Number(Math.min(0.99, confidence + 0.05).toFixed(3)),
+        text_confidence: Number(confidence.toFixed(3)),
+        character_confidences: Array.from({ length: 6 }, () => Number((confidence - 0.05 + random() * 0.1).toFixed(3))),
+        processing_method: 'mock'
+    };
+    return { detection, dimensions: { width, height } };
+}
+
+// 🎬 PLACAS DE UN VIDEO COMPLETO (respuesta de /video/detect)
+export function videoPlates(totalFrames) {
+    return SCRIPTED_PLATES.map((plate, index) => {
+        const first = Math.round(plate.from * totalFrames);
+        const last = Math.round(plate.to * totalFrames);
+        const confidence = 0.93 - index * 0.04;
+        return {
+            plate_text: plate.text,
+            detection_count: Math.max(1, Math.round((last - first) / 6)),
+            best_confidence: Number(confidence.toFixed(3)),
+            avg_confidence: Number((confidence - 0.05).toFixed(3)),
+            is_valid_format: true,
+            is_six_char_valid: true,
+            first_seen_frame: first,
+            last_seen_frame: last,
+            best_frame: Math.round((first + last) / 2),
+            char_count: 6
+        };
+    });
+}
@@ -0,0 +1,50 @@
+// scripts/mock/http.mjs
+// ✅ HELPERS HTTP COMPARTIDOS POR LOS SERVIDORES SIMULADOS
+
+export const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept, X-Chunk-Offset, X-Chunk-Checksum, ngrok-skip-browser-warning'
+};
+
+export function sendJson(res, status, body) {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+export function sendText(res, status, body, contentType) {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': contentType });
+    res.end(body);
+}
+
+export function readBody(req, limit) {
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+        let size = 0;
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > limit) {
+                reject(Object.assign(new Error('Payload demasiado grande'), { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+export async function readJson(req, limit = 64 * 1024) {
+    const body = (await readBody(req, limit)).toString();
+    try {
+        return JSON.parse(body || '{}');
+    } catch {
+        throw Object.assign(new Error('JSON inválido'), { status: 400 });
+    }
+}
+
+export async function readForm(req) {
+    const body = await readBody(req, 600 * 1024 * 1024);
+    return new Request('http://mock.local', { method: 'POST', headers: req.headers, body }).formData();
+}
@@ -0,0 +1,125 @@
+// scripts/mock/jpeg.mjs
+// ✅ JPEG SINTÉTICOS PARA LOS FRAMES SIMULADOS (sin librerías de imagen)
+//
+// Codifica un JPEG baseline en escala de grises donde cada bloque 8x8 es de un solo tono:
+// solo hace falta el coeficiente DC de cada bloque, así que el codificador cabe en pocas líneas
+// y el resultado es un JPEG real que el navegador decodifica igual que los del backend.
+
+const BLOCK = 8;
+// Cuantización uniforme: el DC de un bloque plano es 8 * (valor - 128)
+const QUANT = 16;
+
+// Tabla Huffman DC estándar de luminancia (ITU T.81, K.3)
+const DC_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+// Tabla AC con un único símbolo: EOB (todos los bloques son planos)
+const AC_BITS = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const AC_VALUES = [0x00];
+const EOB_CODE = { code: 0b0, length: 1 };
+
+function buildHuffmanCodes(bits, values) {
+    const codes = new Map();
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < bits[length - 1]; i++) {
+            codes.set(values[k++], { code, length });
+            code++;
+        }
+        code <<= 1;
+    }
+    return codes;
+}
+
+const DC_CODES = buildHuffmanCodes(DC_BITS, DC_VALUES);
+
+class BitWriter {
+    constructor() {
+        this.bytes = [];
+        this.current = 0;
+        this.count = 0;
+    }
+
+    write(value, length) {
+        for (let i = length - 1; i >= 0; i--) {
+            this.current = (this.current << 1) | ((value >> i) & 1);
+            this.count++;
+            if (this.count === 8) this.flushByte();
+        }
+    }
+
+    flushByte() {
+        this.bytes.push(this.current);
+        // Byte stuffing: un 0xFF dentro de los datos va seguido de 0x00
+        if (this.current === 0xff) this.bytes.push(0x00);
+        this.current = 0;
+        this.count = 0;
+    }
+
+    // El último byte se completa con unos
+    finish() {
+        if (this.count > 0) this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+        return Buffer.from(this.bytes);
+    }
+}
+
+function segment(marker, payload) {
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(0xff00 | marker, 0);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+}
+
+function huffmanSegment(tableClassAndId, bits, values) {
+    return segment(0xc4, Buffer.from([tableClassAndId, ...bits, ...values]));
+}
+
+// Categoría y bits de magnitud de una diferencia DC
+function encodeMagnitude(value) {
+    const magnitude = Math.abs(value);
+    const category = magnitude === 0 ? 0 : Math.floor(Math.log2(magnitude)) + 1;
+    const bits = value >= 0 ? value : value + (1 << category) - 1;
+    return { category, bits };
+}
+
+// 🖼️ shade(blockX, blockY) devuelve el tono (0-255) de cada bloque 8x8
+export function encodeBlockJpeg(width, height, shade) {
+    const blocksX = Math.ceil(width / BLOCK);
+    const blocksY = Math.ceil(height / BLOCK);
+
+    const writer = new BitWriter();
+    let previousDc = 0;
+    for (let by = 0; by < blocksY; by++) {
+        for (let bx = 0; bx < blocksX; bx++) {
+            const value = Math.max(0, Math.min(255, Math.round(shade(bx, by))));
+            const dc = Math.round((8 * (value - 128)) / QUANT);
+            const { category, bits } = encodeMagnitude(dc - previousDc);
+            const huffman = DC_CODES.get(category);
+            writer.write(huffman.code, huffman.length);
+            if (category > 0) writer.write(bits, category);
+            writer.write(EOB_CODE.code, EOB_CODE.length);
+            previousDc = dc;
+        }
+    }
+
+    const frameHeader = Buffer.alloc(9);
+    frameHeader[0] = 8;
+    frameHeader.writeUInt16BE(height, 1);
+    frameHeader.writeUInt16BE(width, 3);
+    frameHeader[5] = 1;
+    frameHeader[6] = 1;
+    frameHeader[7] = 0x11;
+    frameHeader[8] = 0;
+
+    return Buffer.concat([
+        Buffer.from([0xff, 0xd8]),
+        segment(0xe0, Buffer.from([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0])),
+        segment(0xdb, Buffer.from([0x00, ...new Array(64).fill(QUANT)])),
+        segment(0xc0, frameHeader),
+        huffmanSegment(0x00, DC_BITS, DC_VALUES),
+        huffmanSegment(0x10, AC_BITS, AC_VALUES),
+        segment(0xda, Buffer.from([1, 1, 0x00, 0, 63, 0])),
+        writer.finish(),
+        Buffer.from([0xff, 0xd9])
+    ]);
+}
@@ -0,0 +1,626 @@
+// scripts/mock/streaming.mjs
+// ✅ SESIONES DE STREAMING SIMULADAS: protocolo WebSocket y mensajes guionados
+//
+// Cada sesión sobrevive a la caída de su socket (para probar la reanudación) y emite
+// streaming_started → streaming_update (uno por tick) → streaming_completed.
+// Soporta ping/pong, negociación del transporte binario 'header-jpeg-v1', adjust_stream,
+// get_status, pausa/reanudación/parada y el modo en vivo (start_live_stream + live_frame).
+
+import {
+    FRAME_HEIGHT,
+    FRAME_WIDTH,
+    buildDetection,
+    createRandom,
+    hashString,
+    plateBbox,
+    renderSceneJpeg,
+    spatialRegion,
+    visiblePlates
+} from './fixtures.mjs';
+
+const BINARY_FRAME_FORMAT = 'header-jpeg-v1';
+const FPS = 30;
+const HISTORY_LIMIT = 20;
+// Con más datos pendientes en el socket se salta el frame (como el backend real con un túnel lento)
+const MAX_BUFFERED_BYTES = 2 * 1024 * 1024;
+
+function now() {
+    return Date.now() / 1000;
+}
+
+function toNumber(value, fallback) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function toBoolean(value, fallback) {
+    if (value === undefined || value === null) return fallback;
+    return value === true || value === 'true';
+}
+
+// Opciones de StreamingOptions llegadas por formulario (strings) o JSON
+export function normalizeOptions(raw = {}) {
+    return {
+        confidence_threshold: toNumber(raw.confidence_threshold, 0.3),
+        iou_threshold: toNumber(raw.iou_threshold, 0.4),
+        frame_skip: Math.max(1, Math.round(toNumber(raw.frame_skip, 2))),
+        max_duration: toNumber(raw.max_duration, 600),
+        send_all_frames: toBoolean(raw.send_all_frames, false),
+        adaptive_quality: toBoolean(raw.adaptive_quality, true),
+        enable_thumbnails: toBoolean(raw.enable_thumbnails, true),
+        roi_enabled: toBoolean(raw.roi_enabled, true),
+        six_char_filter: toBoolean(raw.six_char_filter, true),
+        auto_dash_formatting: toBoolean(raw.auto_dash_formatting, true),
+        roi_percentage: toNumber(raw.roi_percentage, 10),
+        min_detection_frames: toNumber(raw.min_detection_frames, 2)
+    };
+}
+
+// 🧾 PLACA ÚNICA ACUMULADA A PARTIR DE LAS DETECCIONES
+function accumulatePlate(plates, detection, frameWidth) {
+    const existing = plates.get(detection.plate_text);
+    const confidence = detection.overall_confidence;
+    const plate = existing || {
+        plate_text: detection.plate_text,
+        raw_plate_text: detection.raw_plate_text,
+        first_seen_frame: detection.frame_num,
+        first_seen_timestamp: detection.timestamp,
+        detection_count: 0,
+        best_confidence: 0,
+        best_frame: detection.frame_num,
+        best_timestamp: detection.timestamp,
+        total_confidence: 0,
+        is_valid_format: true,
+        is_six_char_valid: detection.is_six_char_format,
+        six_char_detection_count: 0,
+        auto_formatted: true,
+        is_auto_formatted: true,
+        char_count: detection.char_count,
+        frame_history: [],
+        confidence_trend: [],
+        processing_method: 'mock'
+    };
+
+    plate.last_seen_frame = detection.frame_num;
+    plate.last_seen_timestamp = detection.timestamp;
+    plate.detection_count += 1;
+    plate.six_char_detection_count += detection.is_six_char_format ? 1 : 0;
+    plate.total_confidence += confidence;
+    plate.avg_confidence = Number((plate.total_confidence / plate.detection_count).toFixed(3));
+    if (confidence > plate.best_confidence) {
+        plate.best_confidence = confidence;
+        plate.best_six_char_confidence = confidence;
+        plate.best_frame = detection.frame_num;
+        plate.best_timestamp = detection.timestamp;
+        plate.avg_bbox = detection.plate_bbox;
+    }
+    plate.frame_history = [...plate.frame_history, detection.frame_num].slice(-HISTORY_LIMIT);
+    plate.confidence_trend = [...plate.confidence_trend, confidence].slice(-HISTORY_LIMIT);
+    plate.duration_frames = plate.last_seen_frame - plate.first_seen_frame;
+    plate.stability_score = Number(Math.min(1, plate.detection_count / 10).toFixed(2));
+    plate.six_char_validation_score = plate.best_confidence;
+    plate.spatial_region = spatialRegion(detection.plate_bbox, frameWidth);
+    plate.spatial_key = `${plate.spatial_region}_${plate.plate_text}`;
+    plate.status = 'active';
+
+    plates.set(plate.plate_text, plate);
+}
+
+export class MockStreamingHub {
+    constructor({ frameIntervalMs = 66, videoFrames = 450, seed = 1, binary = true, log = console.log } = {}) {
+        this.frameIntervalMs = frameIntervalMs;
+        this.videoFrames = videoFrames;
+        this.seed = seed;
+        this.binary = binary;
+        this.log = log;
+        this.sessions = new Map();
+    }
+
+    getOrCreateSession(sessionId) {
+        let session = this.sessions.get(sessionId);
+        if (!session) {
+            session = {
+                id: sessionId,
+                createdAt: now(),
+                lastActivity: now(),
+                connection: null,
+                transport: 'json',
+                status: 'connected',
+                isPaused: false,
+                source: null,
+                options: normalizeOptions(),
+                quality: 75,
+                frame: 0,
+                plates: new Map(),
+                totalDetections: 0,
+                framesWithDetections: 0,
+                startedAt: null,
+                timer: null,
+                random: createRandom(this.seed ^ hashString(sessionId))
+            };
+            this.sessions.set(sessionId, session);
+        }
+        return session;
+    }
+
+    // 🔌 SOCKET DE UNA SESIÓN (nuevo o reanudado)
+    attach(sessionId, connection) {
+        const existed = this.sessions.has(sessionId);
+        const session = this.getOrCreateSession(sessionId);
+        // Un segundo socket para la misma sesión reemplaza al anterior
+        if (session.connection && session.connection !== connection) {
+            session.connection.close(4001, 'Reemplazado por otra conexión');
+        }
+        session.connection = connection;
+        session.transport = 'json';
+        session.lastActivity = now();
+
+        connection.on('message', (data, isBinary) => {
+            if (isBinary) return;
+            try {
+                this.handleMessage(session, JSON.parse(data));
+            } catch (error) {
+                this.log(`⚠️ Mensaje inválido en ${sessionId}: ${error.message}`);
+            }
+        });
+
+        connection.on('close', code => {
+            if (session.connection !== connection) return;
+            session.connection = null;
+            // La cámara del navegador deja de enviar: la sesión en vivo termina con el socket
+            if (session.source?.kind === 'live' && (session.status === 'processing' || session.status === 'paused')) {
+                this.finish(session, 'stopped');
+            }
+            this.log(`🔌 Socket de ${sessionId} cerrado (${code})`);
+        });
+
+        this.send(session, {
+            type: 'connection_established',
+            data: { session_id: sessionId, resumed: existed, server: 'mock-alpr-server' }
+        });
+        this.log(`🔌 ${existed ? 'Reanudada' : 'Nueva'} sesión ${sessionId}`);
+    }
+
+    send(session, message) {
+        const connection = session.connection;
+        if (!connection?.isOpen) return;
+        connection.sendJson({ ...message, timestamp: now() });
+    }
+
+    // 📨 MENSAJES DEL CLIENTE
+    handleMessage(session, message) {
+        const data = message.data || {};
+        session.lastActivity = now();
+
+        switch (message.type) {
+            case 'ping':
+                this.send(session, { type: 'pong', data: { seq: data.seq, ts: data.ts } });
+                break;
+
+            case 'negotiate_transport': {
+                const wantsBinary = Array.isArray(data.frame_transports) && data.frame_transports.includes('binary');
+                session.transport = this.binary && wantsBinary && data.binary_format === BINARY_FRAME_FORMAT ? 'binary' : 'json';
+                this.send(session, {
+                    type: 'transport_selected',
+                    data: { frame_transport: session.transport, binary_format: session.transport === 'binary' ? BINARY_FRAME_FORMAT : null }
+                });
+                break;
+            }
+
+            case 'adjust_stream':
+                if (Number.isFinite(data.frame_skip)) session.options.frame_skip = Math.max(1, Math.round(data.frame_skip));
+                if (Number.isFinite(data.quality)) session.quality = Math.max(10, Math.min(100, Math.round(data.quality)));
+                this.log(`🐢 ${session.id}: frame_skip ${session.options.frame_skip}, calidad ${session.quality} (${data.reason || 'sin motivo'})`);
+                break;
+
+            case 'get_status':
+                this.send(session, { type: 'status_response', data: this.snapshot(session) });
+                break;
+
+            case 'pause_processing':
+                if (session.status !== 'processing') break;
+                session.isPaused = true;
+                session.status = 'paused';
+                this.send(session, { type: 'processing_paused', data: { session_id: session.id } });
+                break;
+
+            case 'resume_processing':
+                if (session.status !== 'paused') break;
+                session.isPaused = false;
+                session.status = 'processing';
+                this.send(session, { type: 'processing_resumed', data: { session_id: session.id } });
+                break;
+
+            case 'stop_processing':
+                if (!session.source) break;
+                this.finish(session, 'stopped');
+                break;
+
+            case 'start_live_stream':
+                this.startLive(session, data);
+                break;
+
+            case 'live_frame':
+                this.processLiveFrame(session, data);
+                break;
+
+            default:
+                this.log(`❔ ${session.id}: mensaje no simulado '${message.type}'`);
+        }
+    }
+
+    // ▶️ INICIO DE UNA FUENTE (video subido, cámara IP o cámara del navegador)
+    begin(session, source, options) {
+        this.stopTimer(session);
+        session.source?.onFinish?.();
+        session.source = source;
+        session.options = normalizeOptions(options);
+        session.quality = 75;
+        session.frame = 0;
+        session.plates = new Map();
+        session.totalDetections = 0;
+        session.framesWithDetections = 0;
+        session.isPaused = false;
+        session.status = 'processing';
+        session.startedAt = now();
+        session.random = createRandom(this.seed ^ hashString(session.id));
+
+        this.send(session, {
+            type: 'streaming_started',
+            data: {
+                session_id: session.id,
+                file_info: source.fileInfo,
+                processing_params: session.options,
+                streaming_config: { frame_interval_ms: this.frameIntervalMs, frame_transport: session.transport },
+                estimated_duration: source.totalFrames > 0 ? {
+                    estimated_seconds: Math.round(source.totalFrames / session.options.frame_skip * this.frameIntervalMs / 1000),
+                    estimated_minutes: Number((source.totalFrames / session.options.frame_skip * this.frameIntervalMs / 60000).toFixed(2)),
+                    frames_to_process: Math.ceil(source.totalFrames / session.options.frame_skip),
+                    factors: { resolution: 1, device: 1, frame_skip: session.options.frame_skip }
+                } : undefined
+            }
+        });
+    }
+
+    startVideo(sessionId, file, options) {
+        const session = this.getOrCreateSession(sessionId);
+        const fileInfo = {
+            filename: file.filename,
+            original_filename: file.filename,
+            content_type: 'video/mp4',
+            size_bytes: file.size,
+            size_mb: Number((file.size / 1024 / 1024).toFixed(2)),
+            dimensions: { width: FRAME_WIDTH, height: FRAME_HEIGHT },
+            file_type: 'video'
+        };
+        this.begin(session, { kind: 'video', totalFrames: this.videoFrames, fileInfo }, options);
+        this.startTimer(session);
+        this.log(`🎬 ${sessionId}: procesando ${file.filename} (${this.videoFrames} frames)`);
+        return session;
+    }
+
+    // Una cámara IP no termina sola: el guion se repite hasta stop_processing
+    startCamera(sessionId, camera, options, onFinish) {
+        const session = this.getOrCreateSession(sessionId);
+        const fileInfo = {
+            filename: camera.name,
+            original_filename: camera.url,
+            content_type: camera.protocol === 'mjpeg' ? 'multipart/x-mixed-replace' : 'video/h264',
+            size_bytes: 0,
+            size_mb: 0,
+            dimensions: { width: FRAME_WIDTH, height: FRAME_HEIGHT },
+            file_type: 'video'
+        };
+        this.begin(session, { kind: 'camera', totalFrames: 0, loopFrames: this.videoFrames, fileInfo, onFinish }, options);
+        this.startTimer(session);
+        this.log(`📹 ${sessionId}: cámara ${camera.name}`);
+        return session;
+    }
+
+    startLive(session, data) {
+        const fileInfo = {
+            filename: 'webcam',
+            original_filename: 'webcam',
+            content_type: 'image/jpeg',
+            size_bytes: 0,
+            size_mb: 0,
+            dimensions: { width: toNumber(data.width, FRAME_WIDTH), height: toNumber(data.height, FRAME_HEIGHT) },
+            file_type: 'video'
+        };
+        this.begin(session, { kind: 'live', totalFrames: 0, loopFrames: this.videoFrames, fileInfo }, data);
+        this.log(`📷 ${session.id}: modo en vivo (${data.frame_rate} fps, ${data.width}x${data.height})`);
+    }
+
+    startTimer(session) {
+        session.timer = setInterval(() => this.tick(session), this.frameIntervalMs);
+    }
+
+    stopTimer(session) {
+        if (session.timer) clearInterval(session.timer);
+        session.timer = null;
+    }
+
+    tick(session) {
+        if (session.status !== 'processing') return;
+
+        const { source } = session;
+        session.frame += session.options.frame_skip;
+        if (source.totalFrames > 0 && session.frame >= source.totalFrames) {
+            session.frame = source.totalFrames;
+            this.finish(session, 'completed');
+            return;
+        }
+
+        // Sin socket el procesamiento sigue (la reanudación lo recupera con get_status)
+        const connection = session.connection;
+        if (!connection?.isOpen) {
+            this.detect(session, this.positionsFor(session), 1, 1);
+            return;
+        }
+        if (connection.bufferedAmount > MAX_BUFFERED_BYTES) return;
+
+        const positions = this.positionsFor(session);
+        const detections = this.detect(session, positions, 1, 1);
+        const jpeg = renderSceneJpeg(this.scriptProgress(session), positions);
+        this.sendUpdate(session, detections, jpeg, [FRAME_WIDTH, FRAME_HEIGHT]);
+    }
+
+    // Fracción del guion de placas (las fuentes sin fin lo repiten)
+    scriptProgress(session) {
+        const { source } = session;
+        if (source.totalFrames > 0) return session.frame / source.totalFrames;
+        return (session.frame % source.loopFrames) / source.loopFrames;
+    }
+
+    positionsFor(session) {
+        return visiblePlates(this.scriptProgress(session));
+    }
+
+    // 🎯 DETECCIONES DEL FRAME ACTUAL: placas visibles con confianza aleatoria y alguna lectura confundida
+    detect(session, positions, scaleX, scaleY) {
+        const timestamp = session.frame / FPS;
+        const detections = positions
+            .filter(() => session.random() > 0.15)
+            .map(position => {
+                const bbox = plateBbox(position, scaleX, scaleY);
+                const misread = position.plate.misread && session.random() < 0.12;
+                return buildDetection({
+                    frame: session.frame,
+                    timestamp,
+                    text: misread ? position.plate.misread : position.plate.text,
+                    confidence: misread ? 0.45 + session.random() * 0.15 : 0.72 + session.random() * 0.25,
+                    bbox
+                });
+            })
+            .filter(detection => detection.overall_confidence >= session.options.confidence_threshold);
+
+        const frameWidth = FRAME_WIDTH * scaleX;
+        detections.forEach(detection => accumulatePlate(session.plates, detection, frameWidth));
+        session.totalDetections += detections.length;
+        if (detections.length > 0) session.framesWithDetections += 1;
+        return detections;
+    }
+
+    // 📦 CONTENIDO COMÚN A streaming_update Y status_response
+    summary(session) {
+        const plates = [...session.plates.values()].sort((a, b) => b.best_confidence - a.best_confidence);
+        const valid = plates.filter(plate => plate.is_valid_format);
+        const regions = {};
+        const platesByRegion = {};
+        plates.forEach(plate => {
+            regions[plate.spatial_region] = (regions[plate.spatial_region] || 0) + 1;
+            (platesByRegion[plate.spatial_region] ||= []).push(plate);
+        });
+        const avgConfidence = plates.length > 0
+            ? plates.reduce((sum, plate) => sum + plate.avg_confidence, 0) / plates.length
+            : 0;
+        const total = session.source?.totalFrames || 0;
+        const elapsed = session.startedAt ? now() - session.startedAt : 0;
+        const processedFrames = Math.ceil(session.frame / session.options.frame_skip);
+        const sixCharRate = session.totalDetections > 0 ? 1 : 0;
+
+        return {
+            progress: {
+                processed_frames: session.frame,
+                total_frames: total,
+                progress_percent: total > 0 ? Number((session.frame / total * 100).toFixed(1)) : 0,
+                processing_speed: elapsed > 0 ? Number((processedFrames / elapsed).toFixed(1)) : 0
+            },
+            detection_summary: {
+                total_detections: session.totalDetections,
+                unique_plates_count: plates.length,
+                valid_plates_count: valid.length,
+                frames_with_detections: session.framesWithDetections,
+                best_plates: plates.slice(0, 5),
+                latest_detections: [],
+                six_char_plates_count: plates.filter(plate => plate.is_six_char_valid).length,
+                auto_formatted_plates_count: plates.length,
+                detection_density: processedFrames > 0 ? Number((session.framesWithDetections / processedFrames).toFixed(3)) : 0,
+                six_char_detection_rate: sixCharRate,
+                auto_formatted_rate: sixCharRate,
+                session_id: session.id,
+                spatial_regions_count: Object.keys(regions).length,
+                spatial_distribution: regions
+            },
+            timing: {
+                elapsed_time: Number(elapsed.toFixed(2)),
+                estimated_remaining: total > 0 && session.frame > 0
+                    ? Number((elapsed / session.frame * (total - session.frame)).toFixed(2))
+                    : 0
+            },
+            quality_info: {
+                current_quality: session.quality,
+                recommended_frame_skip: session.options.frame_skip,
+                adaptive_enabled: session.options.adaptive_quality
+            },
+            enhancement_stats: {
+                roi_processing: session.options.roi_enabled,
+                six_char_filter_active: session.options.six_char_filter,
+                auto_dash_formatting: session.options.auto_dash_formatting,
+                total_six_char_detections: session.totalDetections,
+                total_auto_formatted_detections: session.totalDetections,
+                six_char_plates_found: plates.filter(plate => plate.is_six_char_valid).length,
+                auto_formatted_plates_found: plates.length,
+                six_char_detection_rate: sixCharRate,
+                auto_formatted_rate: sixCharRate
+            },
+            all_plates_summary: {
+                complete_list: plates,
+                count_by_confidence: {
+                    high: plates.filter(plate => plate.best_confidence >= 0.8).length,
+                    medium: plates.filter(plate => plate.best_confidence >= 0.6 && plate.best_confidence < 0.8).length,
+                    low: plates.filter(plate => plate.best_confidence < 0.6).length
+                },
+                spatial_coverage: { regions_active: Object.keys(regions).length, distribution: regions },
+                detection_metrics: {
+                    total_unique_plates: plates.length,
+                    plates_per_region: Object.keys(regions).length > 0 ? Number((plates.length / Object.keys(regions).length).toFixed(2)) : 0,
+                    avg_confidence: Number(avgConfidence.toFixed(3))
+                }
+            },
+            spatial_analysis: {
+                regions_found: regions,
+                region_count: Object.keys(regions).length,
+                plates_by_region: platesByRegion
+            }
+        };
+    }
+
+    snapshot(session) {
+        return {
+            session_id: session.id,
+            status: session.status,
+            is_processing: session.status === 'processing' || session.status === 'paused',
+            is_paused: session.isPaused,
+            ...this.summary(session)
+        };
+    }
+
+    // 📤 streaming_update: JPEG en base64 (JSON) o cabecera + JPEG en un mensaje binario
+    sendUpdate(session, detections, jpeg, originalSize) {
+        const connection = session.connection;
+        if (!connection?.isOpen) return;
+
+        const data = {
+            frame_info: {
+                frame_number: session.frame,
+                timestamp: session.frame / FPS,
+                processing_time: Number((0.02 + session.random() * 0.03).toFixed(3)),
+                success: true,
+                roi_used: session.options.roi_enabled,
+                six_char_filter_applied: session.options.six_char_filter,
+                six_char_detections_in_frame: detections.length,
+                auto_formatted_detections_in_frame: detections.length
+            },
+            current_detections: detections,
+            ...this.summary(session),
+            frame_data: {
+                original_size: originalSize,
+                compressed_size: jpeg.length,
+                quality_used: session.quality
+            }
+        };
+        data.detection_summary.latest_detections = detections;
+
+        if (session.transport === 'binary') {
+            const header = Buffer.from(JSON.stringify({ type: 'streaming_update', data, timestamp: now() }));
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(header.length, 0);
+            connection.send(Buffer.concat([length, header, jpeg]));
+            return;
+        }
+
+        data.frame_data.image_base64 = jpeg.toString('base64');
+        this.send(session, { type: 'streaming_update', data });
+    }
+
+    // 📷 FRAME DE LA CÁMARA DEL NAVEGADOR: se devuelve la misma imagen con las placas del guion
+    processLiveFrame(session, frame) {
+        if (session.source?.kind !== 'live' || session.status !== 'processing') return;
+        if (!frame.image_base64) return;
+
+        session.frame = toNumber(frame.frame_number, session.frame + 1);
+        const width = toNumber(frame.width, FRAME_WIDTH);
+        const height = toNumber(frame.height, FRAME_HEIGHT);
+        const detections = this.detect(session, this.positionsFor(session), width / FRAME_WIDTH, height / FRAME_HEIGHT);
+        this.sendUpdate(session, detections, Buffer.from(frame.image_base64, 'base64'), [width, height]);
+    }
+
+    finish(session, status) {
+        this.stopTimer(session);
+        session.status = status;
+        session.isPaused = false;
+        session.source?.onFinish?.();
+
+        const summary = this.summary(session);
+        if (status === 'completed') {
+            this.send(session, {
+                type: 'streaming_completed',
+                data: { session_id: session.id, ...summary, message: 'Procesamiento simulado completado' }
+            });
+            this.log(`✅ ${session.id}: completado con ${session.plates.size} placas`);
+        } else {
+            this.send(session, { type: 'processing_stopped', data: { session_id: session.id, ...summary } });
+            this.log(`⏹️ ${session.id}: detenido`);
+        }
+    }
+
+    remove(sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session) return false;
+        this.stopTimer(session);
+        session.source?.onFinish?.();
+        session.connection?.close(1000, 'Sesión cerrada');
+        this.sessions.delete(sessionId);
+        return true;
+    }
+
+    // 🧹 Sesiones sin socket ni actividad durante `idleSeconds`
+    prune(idleSeconds) {
+        const cutoff = now() - idleSeconds;
+        [...this.sessions.values()]
+            .filter(session => !session.connection && !session.timer && session.lastActivity < cutoff)
+            .forEach(session => this.remove(session.id));
+    }
+
+    summaryOf(session) {
+        return {
+            session_id: session.id,
+            status: session.status,
+            created_at: session.createdAt,
+            uptime: Number((now() - session.createdAt).toFixed(1)),
+            is_processing: session.status === 'processing' || session.status === 'paused',
+            has_video: session.source?.kind === 'video'
+        };
+    }
+
+    // 📥 RESULTADOS DESCARGABLES
+    results(session, format) {
+        const plates = [...session.plates.values()];
+        if (format === 'csv') {
+            const header = 'plate_text,detection_count,best_confidence,avg_confidence,first_seen_frame,last_seen_frame,best_frame';
+            const rows = plates.map(plate => [
+                plate.plate_text,
+                plate.detection_count,
+                plate.best_confidence,
+                plate.avg_confidence,
+                plate.first_seen_frame,
+                plate.last_seen_frame,
+                plate.best_frame
+            ].join(','));
+            return [header, ...rows].join('\n') + '\n';
+        }
+        return JSON.stringify({
+            session_id: session.id,
+            status: session.status,
+            exported_at: now(),
+            unique_plates: plates,
+            timeline: plates.flatMap(plate => plate.frame_history.map(frame => ({ frame, plate_text: plate.plate_text })))
+                .sort((a, b) => a.frame - b.frame)
+        }, null, 2);
+    }
+
+    dispose() {
+        [...this.sessions.keys()].forEach(sessionId => this.remove(sessionId));
+    }
+}
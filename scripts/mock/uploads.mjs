@@ -0,0 +1,152 @@
+// scripts/mock/uploads.mjs
+// ✅ PROTOCOLO DE SUBIDAS POR PARTES (/api/v1/uploads) COMPARTIDO POR LOS SERVIDORES SIMULADOS
+//
+// Crear, consultar offset y recibir partes con checksum. Puede cortar conexiones al azar
+// (dropRate) para comprobar que el cliente reanuda en lugar de reiniciar.
+
+import { createHash, randomUUID } from 'node:crypto';
+import { open, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readBody, readJson, sendJson } from './http.mjs';
+
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// 🔢 CHECKSUMS (mismos algoritmos que el cliente)
+const CRC32_TABLE = new Uint32Array(256).map((_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(buffer) {
+    let crc = 0xffffffff;
+    for (const byte of buffer) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+function verifyChecksum(header, buffer) {
+    const [algorithm, expected] = String(header || '').split('=');
+    if (algorithm === 'sha256') return createHash('sha256').update(buffer).digest('hex') === expected;
+    if (algorithm === 'crc32') return crc32(buffer) === expected;
+    return false;
+}
+
+function statusOf(upload) {
+    return {
+        upload_id: upload.id,
+        size: upload.size,
+        chunk_size: upload.chunkSize,
+        received_bytes: upload.receivedBytes,
+        next_chunk_index: Math.floor(upload.receivedBytes / upload.chunkSize),
+        completed: upload.receivedBytes >= upload.size
+    };
+}
+
+export async function createUploadStore({ dropRate = 0 } = {}) {
+    const uploadDir = await mkdtemp(join(tmpdir(), 'carid-uploads-'));
+    const uploads = new Map();
+
+    async function createUpload(req, res) {
+        const body = await readJson(req);
+        if (!Number.isFinite(body.size) || body.size <= 0) {
+            return sendJson(res, 400, { detail: 'size es obligatorio' });
+        }
+
+        const id = randomUUID();
+        const upload = {
+            id,
+            size: body.size,
+            chunkSize: Math.min(Number(body.chunk_size) || 4 * 1024 * 1024, MAX_CHUNK_SIZE),
+            filename: body.filename || 'video',
+            purpose: body.purpose || 'video_detect',
+            receivedBytes: 0,
+            path: join(uploadDir, id),
+            consumed: false
+        };
+        uploads.set(id, upload);
+        console.log(`📥 Nueva subida ${id} (${upload.filename}, ${upload.size} bytes, partes de ${upload.chunkSize})`);
+        sendJson(res, 201, statusOf(upload));
+    }
+
+    async function writeChunk(upload, offset, buffer) {
+        const handle = await open(upload.path, upload.receivedBytes === 0 && offset === 0 ? 'w' : 'r+');
+        try {
+            await handle.write(buffer, 0, buffer.length, offset);
+        } finally {
+            await handle.close();
+        }
+        upload.receivedBytes = Math.max(upload.receivedBytes, offset + buffer.length);
+    }
+
+    async function receiveChunk(req, res, upload, index) {
+        const offset = Number(req.headers['x-chunk-offset']);
+        const expectedIndex = Math.floor(upload.receivedBytes / upload.chunkSize);
+
+        if (index !== expectedIndex || offset !== index * upload.chunkSize) {
+            await readBody(req, MAX_CHUNK_SIZE).catch(() => null);
+            return sendJson(res, 409, { detail: { message: `Se esperaba la parte ${expectedIndex}`, ...statusOf(upload) } });
+        }
+
+        const buffer = await readBody(req, MAX_CHUNK_SIZE);
+
+        if (Math.random() < dropRate) {
+            // La mitad de las veces se guarda la parte antes de cortar: el cliente debe resincronizar
+            if (Math.random() < 0.5) await writeChunk(upload, offset, buffer);
+            console.log(`💥 Cortando conexión en la parte ${index} de ${upload.id}`);
+            req.socket.destroy();
+            return;
+        }
+
+        if (!verifyChecksum(req.headers['x-chunk-checksum'], buffer)) {
+            return sendJson(res, 422, { detail: { message: `Checksum inválido en la parte ${index}` } });
+        }
+
+        await writeChunk(upload, offset, buffer);
+        sendJson(res, 200, statusOf(upload));
+    }
+
+    return {
+        // true si la ruta pertenece al protocolo de subidas (y ya se respondió)
+        async handle(req, res, path) {
+            if (req.method === 'POST' && path === '/api/v1/uploads') {
+                await createUpload(req, res);
+                return true;
+            }
+
+            const uploadMatch = path.match(/^\/api\/v1\/uploads\/([^/]+)(?:\/chunks\/(\d+))?$/);
+            if (!uploadMatch) return false;
+
+            const upload = uploads.get(uploadMatch[1]);
+            if (!upload) {
+                sendJson(res, 404, { detail: 'Subida desconocida' });
+            } else if (req.method === 'GET' && !uploadMatch[2]) {
+                sendJson(res, 200, statusOf(upload));
+            } else if (req.method === 'PUT' && uploadMatch[2]) {
+                await receiveChunk(req, res, upload, Number(uploadMatch[2]));
+            } else {
+                sendJson(res, 405, { detail: `Método no soportado: ${req.method}` });
+            }
+            return true;
+        },
+
+        // Archivo del formulario de un endpoint final: `file` directo o `upload_id` completo (se consume una vez)
+        resolveUploadedFile(form) {
+            const uploadId = form.get('upload_id');
+            if (!uploadId) {
+                const file = form.get('file');
+                return file ? { filename: file.name, size: file.size } : null;
+            }
+
+            const upload = uploads.get(String(uploadId));
+            if (!upload || upload.receivedBytes < upload.size || upload.consumed) return null;
+            upload.consumed = true;
+            rm(upload.path, { force: true }).catch(() => undefined);
+            return { filename: upload.filename, size: upload.size };
+        },
+
+        async dispose() {
+            await rm(uploadDir, { recursive: true, force: true });
+        }
+    };
+}
@@ -0,0 +1,192 @@
+// scripts/mock/websocket.mjs
+// ✅ SERVIDOR WEBSOCKET MÍNIMO (RFC 6455) SIN DEPENDENCIAS
+//
+// Suficiente para el navegador: handshake, mensajes de texto y binarios (con fragmentación),
+// ping/pong de control y cierre. No implementa extensiones (permessage-deflate).
+
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 32 * 1024 * 1024;
+
+const OPCODES = {
+    CONTINUATION: 0x0,
+    TEXT: 0x1,
+    BINARY: 0x2,
+    CLOSE: 0x8,
+    PING: 0x9,
+    PONG: 0xa
+};
+
+function encodeFrame(opcode, payload) {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.alloc(2);
+        header[1] = length;
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+}
+
+// 🔌 CONEXIÓN ACEPTADA: emite 'message' (data, isBinary) y 'close' (code, reason)
+export class WebSocketConnection extends EventEmitter {
+    constructor(socket) {
+        super();
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+        this.fragmentOpcode = null;
+        this.closed = false;
+
+        socket.on('data', chunk => this.onData(chunk));
+        socket.on('close', () => this.finish(1006, ''));
+        socket.on('error', () => this.finish(1006, ''));
+    }
+
+    get isOpen() {
+        return !this.closed;
+    }
+
+    // Bytes pendientes de enviar (equivalente a bufferedAmount del navegador)
+    get bufferedAmount() {
+        return this.socket.writableLength;
+    }
+
+    send(data) {
+        if (this.closed) return;
+        const isBinary = Buffer.isBuffer(data);
+        this.socket.write(encodeFrame(isBinary ? OPCODES.BINARY : OPCODES.TEXT, isBinary ? data : Buffer.from(data)));
+    }
+
+    sendJson(message) {
+        this.send(JSON.stringify(message));
+    }
+
+    close(code = 1000, reason = '') {
+        if (this.closed) return;
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        this.socket.write(encodeFrame(OPCODES.CLOSE, payload));
+        this.socket.end();
+        this.finish(code, reason);
+    }
+
+    finish(code, reason) {
+        if (this.closed) return;
+        this.closed = true;
+        this.emit('close', code, reason);
+    }
+
+    onData(chunk) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while (this.buffer.length >= 2) {
+            const first = this.buffer[0];
+            const second = this.buffer[1];
+            const fin = (first & 0x80) !== 0;
+            const opcode = first & 0x0f;
+            const masked = (second & 0x80) !== 0;
+            let length = second & 0x7f;
+            let offset = 2;
+
+            if (length === 126) {
+                if (this.buffer.length < 4) return;
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffer.length < 10) return;
+                length = Number(this.buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            if (length > MAX_MESSAGE_BYTES) {
+                this.close(1009, 'Mensaje demasiado grande');
+                return;
+            }
+
+            const maskOffset = offset;
+            if (masked) offset += 4;
+            if (this.buffer.length < offset + length) return;
+
+            const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= this.buffer[maskOffset + (i % 4)];
+                }
+            }
+            this.buffer = this.buffer.subarray(offset + length);
+            this.onFrame(fin, opcode, payload);
+            if (this.closed) return;
+        }
+    }
+
+    onFrame(fin, opcode, payload) {
+        switch (opcode) {
+            case OPCODES.PING:
+                this.socket.write(encodeFrame(OPCODES.PONG, payload));
+                return;
+            case OPCODES.PONG:
+                return;
+            case OPCODES.CLOSE: {
+                const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+                this.close(code === 1005 ? 1000 : code, payload.subarray(2).toString());
+                return;
+            }
+            case OPCODES.TEXT:
+            case OPCODES.BINARY:
+                this.fragmentOpcode = opcode;
+                this.fragments = [payload];
+                break;
+            case OPCODES.CONTINUATION:
+                if (this.fragmentOpcode === null) return;
+                this.fragments.push(payload);
+                break;
+            default:
+                this.close(1002, 'Opcode desconocido');
+                return;
+        }
+
+        if (!fin) return;
+        const message = Buffer.concat(this.fragments);
+        const isBinary = this.fragmentOpcode === OPCODES.BINARY;
+        this.fragments = [];
+        this.fragmentOpcode = null;
+        this.emit('message', isBinary ? message : message.toString('utf8'), isBinary);
+    }
+}
+
+// 🤝 HANDSHAKE sobre el evento 'upgrade' de http.Server; null si la petición no es un WebSocket válido
+export function acceptWebSocket(req, socket) {
+    const key = req.headers['sec-websocket-key'];
+    if (String(req.headers.upgrade || '').toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return null;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+    return new WebSocketConnection(socket);
+}
+
+export function rejectUpgrade(socket, status, message) {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+}
@@ -7,8 +7,13 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Recognition from "./pages/Recognition";
 import ImageRecognition from "./pages/ImageRecognition";
+import BatchImageRecognition from "./pages/BatchImageRecognition";
 import VideoRecognition from "./pages/VideoRecognition";
 import StreamingRecognition from "./pages/StreamingRecognition";
+import BackendSettings from "./pages/BackendSettings";
+import Monitor from "./pages/Monitor";
+import History from "./pages/History";
+import HistoryRun from "./pages/HistoryRun";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,8 +28,13 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/recognition" element={<Recognition />} />
             <Route path="/recognition/image" element={<ImageRecognition />} />
+            <Route path="/recognition/image/batch" element={<BatchImageRecognition />} />
             <Route path="/recognition/video" element={<VideoRecognition />} />
             <Route path="/recognition/streaming" element={<StreamingRecognition />} />
+            <Route path="/monitor" element={<Monitor />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/history/:runId" element={<HistoryRun />} />
+            <Route path="/settings" element={<BackendSettings />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,83 @@
+// src/components/CameraSnapshot.tsx
+// ✅ FOTO ÚNICA CON LA CÁMARA DEL DISPOSITIVO: se abre al montar y se libera al capturar o cancelar
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Camera, X } from "lucide-react";
+import { useWebcamCapture } from '../hooks/useWebcamCapture';
+import { timestampedName } from '../services/imageSources';
+
+interface CameraSnapshotProps {
+    onCapture: (file: File) => void;
+    onClose: () => void;
+}
+
+const CameraSnapshot: React.FC<CameraSnapshotProps> = ({ onCapture, onClose }) => {
+    const { videoRef, isCameraOn, error, devices, startCamera, stopCamera, takeSnapshot } = useWebcamCapture({ frameRate: 1 });
+    const [deviceId, setDeviceId] = useState<string>('');
+
+    useEffect(() => {
+        void startCamera();
+        return () => stopCamera();
+    }, [startCamera, stopCamera]);
+
+    const handleDeviceChange = (id: string) => {
+        setDeviceId(id);
+        void startCamera(id || undefined);
+    };
+
+    const handleCapture = async () => {
+        const blob = await takeSnapshot();
+        if (!blob) return;
+        stopCamera();
+        onCapture(new File([blob], timestampedName('camara', 'image/jpeg'), { type: 'image/jpeg' }));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="bg-black rounded-lg overflow-hidden aspect-video flex items-center justify-center">
+                {error ? (
+                    <p className="text-red-400 text-sm p-4 text-center">{error}</p>
+                ) : (
+                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+                )}
+            </div>
+
+            {devices.length > 1 && (
+                <select
+                    value={deviceId}
+                    onChange={(e) => handleDeviceChange(e.target.value)}
+                    aria-label="Cámara"
+                    className="w-full bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-white text-sm"
+                >
+                    <option value="" className="bg-slate-800">Cámara trasera (por defecto)</option>
+                    {devices.map(device => (
+                        <option key={device.deviceId} value={device.deviceId} className="bg-slate-800">
+                            {device.label}
+                        </option>
+                    ))}
+                </select>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+                <Button
+                    onClick={handleCapture}
+                    disabled={!isCameraOn}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                    <Camera className="w-4 h-4 mr-2" />
+                    Capturar
+                </Button>
+                <Button
+                    onClick={onClose}
+                    className="bg-white/10 text-white border border-white/30 hover:bg-white/20"
+                >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancelar
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default CameraSnapshot;
@@ -0,0 +1,219 @@
+// src/components/CameraSourceForm.tsx
+// ✅ FORMULARIO PARA REGISTRAR UNA CÁMARA IP (RTSP / HTTP MJPEG) EN EL BACKEND
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Plus } from "lucide-react";
+import { STREAMING_CONSTANTS } from '../types/streaming';
+import type { CameraSourceInput } from '../types/alpr';
+
+interface CameraSourceFormProps {
+    onSubmit: (input: CameraSourceInput) => Promise<void>;
+    onCancel: () => void;
+}
+
+const CAMERA_URL_PATTERN = /^(rtsps?|https?):\/\/[^\s/]+/i;
+
+interface CameraSourceFormState {
+    name: string;
+    url: string;
+    username: string;
+    password: string;
+    roi_enabled: boolean;
+    roi_percentage: number;
+    six_char_filter: boolean;
+    confidence_threshold: number;
+    frame_skip: number;
+}
+
+const EMPTY_FORM: CameraSourceFormState = {
+    name: '',
+    url: '',
+    username: '',
+    password: '',
+    roi_enabled: true,
+    roi_percentage: STREAMING_CONSTANTS.DEFAULT_ROI_PERCENTAGE,
+    six_char_filter: true,
+    confidence_threshold: STREAMING_CONSTANTS.DEFAULT_CONFIDENCE_THRESHOLD,
+    frame_skip: STREAMING_CONSTANTS.DEFAULT_FRAME_SKIP
+};
+
+function validateCameraForm(form: CameraSourceFormState): string | null {
+    if (!form.name.trim()) return 'El nombre es obligatorio';
+    if (!CAMERA_URL_PATTERN.test(form.url.trim())) return 'La URL debe empezar con rtsp://, rtsps://, http:// o https://';
+    // Las credenciales van en campos aparte para que el backend no las devuelva en la URL
+    if (/^[a-z]+:\/\/[^/]*@/i.test(form.url.trim())) return 'Ingresa usuario y contraseña en sus campos, no en la URL';
+    if (form.password && !form.username) return 'Falta el usuario para la contraseña indicada';
+    return null;
+}
+
+const CameraSourceForm: React.FC<CameraSourceFormProps> = ({ onSubmit, onCancel }) => {
+    const [form, setForm] = useState<CameraSourceFormState>(EMPTY_FORM);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+
+        const validationError = validateCameraForm(form);
+        if (validationError) {
+            setFormError(validationError);
+            return;
+        }
+
+        setIsSaving(true);
+        setFormError(null);
+        try {
+            await onSubmit({
+                name: form.name.trim(),
+                url: form.url.trim(),
+                username: form.username || undefined,
+                password: form.password || undefined,
+                defaults: {
+                    roi_enabled: form.roi_enabled,
+                    roi_percentage: form.roi_percentage,
+                    six_char_filter: form.six_char_filter,
+                    confidence_threshold: form.confidence_threshold,
+                    frame_skip: form.frame_skip
+                }
+            });
+            setForm(EMPTY_FORM);
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'No se pudo registrar la cámara');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div>
+                <Label htmlFor="camera-name" className="text-gray-300">Nombre</Label>
+                <Input
+                    id="camera-name"
+                    value={form.name}
+                    onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="Puerta principal"
+                    className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-gray-500"
+                />
+            </div>
+            <div>
+                <Label htmlFor="camera-url" className="text-gray-300">URL RTSP o MJPEG</Label>
+                <Input
+                    id="camera-url"
+                    value={form.url}
+                    onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                    placeholder="rtsp://192.168.1.64:554/Streaming/Channels/101"
+                    className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-gray-500 font-mono"
+                />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <Label htmlFor="camera-username" className="text-gray-300">Usuario</Label>
+                    <Input
+                        id="camera-username"
+                        value={form.username}
+                        onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                        autoComplete="off"
+                        className="mt-1 bg-white/10 border-white/20 text-white"
+                    />
+                </div>
+                <div>
+                    <Label htmlFor="camera-password" className="text-gray-300">Contraseña</Label>
+                    <Input
+                        id="camera-password"
+                        type="password"
+                        value={form.password}
+                        onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                        autoComplete="new-password"
+                        className="mt-1 bg-white/10 border-white/20 text-white"
+                    />
+                </div>
+            </div>
+
+            {/* Parámetros por defecto de la cámara */}
+            <div className="space-y-2 pt-2 border-t border-white/10">
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-400 text-sm">ROI central</span>
+                    <input
+                        type="checkbox"
+                        checked={form.roi_enabled}
+                        onChange={(e) => setForm(prev => ({ ...prev, roi_enabled: e.target.checked }))}
+                        className="w-4 h-4"
+                    />
+                </div>
+                {form.roi_enabled && (
+                    <div>
+                        <label className="text-gray-400 text-sm">Tamaño del ROI (%)</label>
+                        <input
+                            type="range"
+                            min="5"
+                            max="50"
+                            step="5"
+                            value={form.roi_percentage}
+                            onChange={(e) => setForm(prev => ({ ...prev, roi_percentage: parseInt(e.target.value) }))}
+                            className="w-full mt-1"
+                        />
+                        <span className="text-white text-sm">{form.roi_percentage}%</span>
+                    </div>
+                )}
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-400 text-sm">Filtro de 6 caracteres</span>
+                    <input
+                        type="checkbox"
+                        checked={form.six_char_filter}
+                        onChange={(e) => setForm(prev => ({ ...prev, six_char_filter: e.target.checked }))}
+                        className="w-4 h-4"
+                    />
+                </div>
+                <div>
+                    <label className="text-gray-400 text-sm">Confianza mínima</label>
+                    <input
+                        type="range"
+                        min="0.1"
+                        max="0.9"
+                        step="0.1"
+                        value={form.confidence_threshold}
+                        onChange={(e) => setForm(prev => ({ ...prev, confidence_threshold: parseFloat(e.target.value) }))}
+                        className="w-full mt-1"
+                    />
+                    <span className="text-white text-sm">{form.confidence_threshold}</span>
+                </div>
+                <div>
+                    <label className="text-gray-400 text-sm">Salto de frames</label>
+                    <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="1"
+                        value={form.frame_skip}
+                        onChange={(e) => setForm(prev => ({ ...prev, frame_skip: parseInt(e.target.value) }))}
+                        className="w-full mt-1"
+                    />
+                    <span className="text-white text-sm">{form.frame_skip}</span>
+                </div>
+            </div>
+
+            {formError && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center space-x-2">
+                    <AlertCircle className="w-4 h-4 text-red-400" />
+                    <span className="text-red-400 text-sm">{formError}</span>
+                </div>
+            )}
+
+            <div className="flex space-x-2">
+                <Button type="submit" disabled={isSaving} className="flex-1 bg-green-600 hover:bg-green-700 text-white">
+                    <Plus className="w-4 h-4 mr-2" />
+                    {isSaving ? 'Guardando...' : 'Registrar cámara'}
+                </Button>
+                <Button type="button" variant="ghost" onClick={onCancel} className="text-gray-400 hover:text-white">
+                    Cancelar
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default CameraSourceForm;
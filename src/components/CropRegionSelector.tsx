@@ -0,0 +1,93 @@
+// src/components/CropRegionSelector.tsx
+// ✅ DIBUJO DE LA REGIÓN DE INTERÉS SOBRE LA IMAGEN ORIGINAL (arrastrar para marcar, coordenadas normalizadas)
+
+import React, { useRef, useState } from 'react';
+import type { CropRegion } from '../types/preprocessing';
+
+interface CropRegionSelectorProps {
+    src: string;
+    region: CropRegion | null;
+    onChange: (region: CropRegion | null) => void;
+    disabled?: boolean;
+}
+
+// Arrastres más pequeños (fracción de cada lado) se toman como clic y no cambian la región
+const MIN_REGION = 0.02;
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+function normalizedPoint(element: HTMLElement, event: React.PointerEvent): { x: number; y: number } {
+    const bounds = element.getBoundingClientRect();
+    return {
+        x: clamp01((event.clientX - bounds.left) / bounds.width),
+        y: clamp01((event.clientY - bounds.top) / bounds.height)
+    };
+}
+
+function regionBetween(a: { x: number; y: number }, b: { x: number; y: number }): CropRegion {
+    return {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(a.x - b.x),
+        height: Math.abs(a.y - b.y)
+    };
+}
+
+const CropRegionSelector: React.FC<CropRegionSelectorProps> = ({ src, region, onChange, disabled = false }) => {
+    const frameRef = useRef<HTMLDivElement>(null);
+    const startRef = useRef<{ x: number; y: number } | null>(null);
+    const [draft, setDraft] = useState<CropRegion | null>(null);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (disabled || !frameRef.current) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        startRef.current = normalizedPoint(frameRef.current, event);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!startRef.current || !frameRef.current) return;
+        setDraft(regionBetween(startRef.current, normalizedPoint(frameRef.current, event)));
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!startRef.current || !frameRef.current) return;
+        const next = regionBetween(startRef.current, normalizedPoint(frameRef.current, event));
+        startRef.current = null;
+        setDraft(null);
+        if (next.width >= MIN_REGION && next.height >= MIN_REGION) onChange(next);
+    };
+
+    const shown = draft ?? region;
+
+    return (
+        <div className="bg-black rounded-lg flex justify-center">
+            <div
+                ref={frameRef}
+                className={`relative inline-block overflow-hidden select-none touch-none ${disabled ? '' : 'cursor-crosshair'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => { startRef.current = null; setDraft(null); }}
+            >
+                <img src={src} alt="Original" draggable={false} className="block max-w-full max-h-72" />
+                {shown && (
+                    <div
+                        className="absolute border-2 border-blue-400 pointer-events-none"
+                        style={{
+                            left: `${shown.x * 100}%`,
+                            top: `${shown.y * 100}%`,
+                            width: `${shown.width * 100}%`,
+                            height: `${shown.height * 100}%`,
+                            // Oscurece lo que queda fuera de la región
+                            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                        }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CropRegionSelector;
@@ -0,0 +1,234 @@
+// src/components/DetectionOverlay.tsx
+// ✅ VISOR CON LAS CAJAS DE TODAS LAS PLACAS SOBRE LA IMAGEN ORIGINAL (zoom con rueda, arrastre y resaltado)
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import type { PlateDetection } from '../types/alpr';
+import {
+    OVERLAY_ZOOM,
+    boxAtPoint,
+    clampView,
+    fitScale,
+    screenToImage,
+    zoomAround,
+    type OverlayBox,
+    type Point,
+    type Size,
+    type ViewTransform
+} from '../services/imageOverlay';
+
+interface DetectionOverlayProps {
+    image: HTMLImageElement;
+    boxes: OverlayBox[];
+    highlighted: PlateDetection | null;
+    onHighlight: (plate: PlateDetection | null) => void;
+    maxHeight?: number;
+}
+
+// Mismos colores que los bordes de la lista de resultados
+function boxColor(plate: PlateDetection): string {
+    if (plate.is_six_char_valid) return '#4ade80';
+    if (plate.is_valid_plate) return '#facc15';
+    return '#f87171';
+}
+
+const INITIAL_VIEW: ViewTransform = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+function pointerPosition(canvas: HTMLCanvasElement, event: { clientX: number; clientY: number }): Point {
+    const bounds = canvas.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+}
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+                                                               image,
+                                                               boxes,
+                                                               highlighted,
+                                                               onHighlight,
+                                                               maxHeight = 384
+                                                           }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ start: Point; view: ViewTransform } | null>(null);
+    const viewRef = useRef<ViewTransform>(INITIAL_VIEW);
+    const [containerWidth, setContainerWidth] = useState<number>(0);
+    const [view, setView] = useState<ViewTransform>(INITIAL_VIEW);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+
+    const natural = useMemo<Size>(() => ({ width: image.naturalWidth, height: image.naturalHeight }), [image]);
+    const viewport = useMemo<Size>(() => ({
+        width: containerWidth,
+        height: Math.min(maxHeight, containerWidth * (natural.height / (natural.width || 1)))
+    }), [containerWidth, natural, maxHeight]);
+
+    // Ancho disponible (el alto sale de la proporción de la imagen)
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(entries => setContainerWidth(entries[0].contentRect.width));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // Imagen nueva o visor redimensionado: volver a encajar
+    useEffect(() => {
+        setView(clampView(INITIAL_VIEW, natural, viewport));
+    }, [natural, viewport]);
+
+    // 🎨 DIBUJO
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context || !viewport.width || !viewport.height) return;
+
+        const pixelRatio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(viewport.width * pixelRatio);
+        canvas.height = Math.round(viewport.height * pixelRatio);
+
+        const scale = fitScale(natural, viewport) * view.zoom;
+        context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        context.fillStyle = '#000';
+        context.fillRect(0, 0, viewport.width, viewport.height);
+        context.drawImage(image, view.offsetX, view.offsetY, natural.width * scale, natural.height * scale);
+
+        // El resaltado se dibuja al final para quedar encima
+        const ordered = [...boxes].sort((a, b) => Number(a.plate === highlighted) - Number(b.plate === highlighted));
+        context.font = '600 12px ui-monospace, monospace';
+        context.textBaseline = 'bottom';
+
+        ordered.forEach(({ plate, rect }) => {
+            const isHighlighted = plate === highlighted;
+            const x = view.offsetX + rect.x * scale;
+            const y = view.offsetY + rect.y * scale;
+            const width = rect.width * scale;
+            const height = rect.height * scale;
+            const color = boxColor(plate);
+
+            if (isHighlighted) {
+                context.fillStyle = `${color}33`;
+                context.fillRect(x, y, width, height);
+            }
+            context.strokeStyle = color;
+            context.lineWidth = isHighlighted ? 3 : 2;
+            context.strokeRect(x, y, width, height);
+
+            const label = `${plate.plate_text} ${(plate.overall_confidence * 100).toFixed(0)}%`;
+            const labelWidth = context.measureText(label).width + 8;
+            const labelY = y >= 18 ? y : y + height + 18;
+            context.fillStyle = color;
+            context.fillRect(x, labelY - 18, labelWidth, 18);
+            context.fillStyle = '#0f172a';
+            context.fillText(label, x + 4, labelY - 3);
+        });
+    }, [image, boxes, highlighted, view, natural, viewport]);
+
+    useEffect(() => {
+        viewRef.current = view;
+    }, [view]);
+
+    const setHovered = useCallback((plate: PlateDetection | null) => {
+        if (plate !== highlighted) onHighlight(plate);
+    }, [highlighted, onHighlight]);
+
+    // 🖱️ RUEDA: listener nativo para poder cancelar el scroll de la página
+    // (sin zoom, girar hacia abajo sigue desplazando la página)
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (event: WheelEvent) => {
+            if (event.deltaY > 0 && viewRef.current.zoom <= OVERLAY_ZOOM.MIN) return;
+            event.preventDefault();
+            const anchor = pointerPosition(canvas, event);
+            setView(current => zoomAround(current, current.zoom * Math.exp(-event.deltaY * 0.002), anchor, natural, viewport));
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, [natural, viewport]);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (view.zoom <= OVERLAY_ZOOM.MIN) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { start: pointerPosition(event.currentTarget, event), view };
+        setIsDragging(true);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const position = pointerPosition(event.currentTarget, event);
+        const drag = dragRef.current;
+        if (drag) {
+            setView(clampView({
+                zoom: drag.view.zoom,
+                offsetX: drag.view.offsetX + position.x - drag.start.x,
+                offsetY: drag.view.offsetY + position.y - drag.start.y
+            }, natural, viewport));
+            return;
+        }
+        setHovered(boxAtPoint(boxes, screenToImage(view, position, natural, viewport))?.plate ?? null);
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        setIsDragging(false);
+    };
+
+    const zoomFromCenter = (factor: number) => {
+        const center = { x: viewport.width / 2, y: viewport.height / 2 };
+        setView(current => zoomAround(current, current.zoom * factor, center, natural, viewport));
+    };
+
+    const resetView = () => setView(clampView(INITIAL_VIEW, natural, viewport));
+
+    const cursor = isDragging ? 'grabbing' : highlighted ? 'pointer' : view.zoom > OVERLAY_ZOOM.MIN ? 'grab' : 'default';
+
+    return (
+        <div ref={containerRef} className="relative w-full bg-black rounded-lg overflow-hidden">
+            <canvas
+                ref={canvasRef}
+                style={{ width: viewport.width, height: viewport.height, cursor, touchAction: 'none' }}
+                className="block mx-auto"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onPointerLeave={() => setHovered(null)}
+                onDoubleClick={resetView}
+            />
+
+            <div className="absolute top-2 left-2 flex items-center space-x-1 bg-black/60 rounded-md p-1">
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => zoomFromCenter(1 / OVERLAY_ZOOM.STEP)}
+                    disabled={view.zoom <= OVERLAY_ZOOM.MIN}
+                    title="Alejar"
+                    className="h-7 w-7 p-0 text-white hover:bg-white/20"
+                >
+                    <ZoomOut className="w-4 h-4" />
+                </Button>
+                <span className="text-xs text-white font-mono w-10 text-center">{Math.round(view.zoom * 100)}%</span>
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => zoomFromCenter(OVERLAY_ZOOM.STEP)}
+                    disabled={view.zoom >= OVERLAY_ZOOM.MAX}
+                    title="Acercar"
+                    className="h-7 w-7 p-0 text-white hover:bg-white/20"
+                >
+                    <ZoomIn className="w-4 h-4" />
+                </Button>
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={resetView}
+                    disabled={view.zoom <= OVERLAY_ZOOM.MIN}
+                    title="Encajar (doble clic)"
+                    className="h-7 w-7 p-0 text-white hover:bg-white/20"
+                >
+                    <Maximize className="w-4 h-4" />
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,25 @@
+// src/components/HistoryModeBadge.tsx
+// ✅ CHIP DEL MODO DE UN ANÁLISIS DEL HISTORIAL (imagen, video o streaming)
+
+import React from 'react';
+import { Image as ImageIcon, Radio, Video } from "lucide-react";
+import { HISTORY_MODE_LABELS } from '../services/detectionHistory';
+import type { HistoryMode } from '../types/history';
+
+const MODE_STYLES: Record<HistoryMode, { icon: React.ElementType; className: string }> = {
+    image: { icon: ImageIcon, className: 'bg-blue-500/15 text-blue-300 border-blue-500/30' },
+    video: { icon: Video, className: 'bg-green-500/15 text-green-300 border-green-500/30' },
+    streaming: { icon: Radio, className: 'bg-purple-500/15 text-purple-300 border-purple-500/30' }
+};
+
+const HistoryModeBadge: React.FC<{ mode: HistoryMode }> = ({ mode }) => {
+    const { icon: ModeIcon, className } = MODE_STYLES[mode];
+    return (
+        <span className={`inline-flex items-center space-x-1 rounded border px-1.5 py-0.5 text-xs font-semibold ${className}`}>
+            <ModeIcon className="w-3 h-3" />
+            <span>{HISTORY_MODE_LABELS[mode].toUpperCase()}</span>
+        </span>
+    );
+};
+
+export default HistoryModeBadge;
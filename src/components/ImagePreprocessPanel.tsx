@@ -0,0 +1,176 @@
+// src/components/ImagePreprocessPanel.tsx
+// ✅ PREPROCESADO ANTES DE SUBIR: reducción, región de interés y ajustes con vista antes/después
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Crop, RotateCcw, SlidersHorizontal, Target } from "lucide-react";
+import CropRegionSelector from './CropRegionSelector';
+import { DEFAULT_PREPROCESS_OPTIONS, MAX_DIMENSION_CHOICES } from '../services/imagePipeline';
+import type { PreprocessOptions, PreprocessResult } from '../types/preprocessing';
+
+interface ImagePreprocessPanelProps {
+    file: File;
+    // Object URL del archivo original
+    originalUrl: string;
+    options: PreprocessOptions;
+    onChange: (options: PreprocessOptions) => void;
+    result: PreprocessResult | null;
+    previewUrl: string | null;
+    isProcessing: boolean;
+    error: string | null;
+    usesWorker: boolean;
+    disabled?: boolean;
+}
+
+type AdjustmentKey = 'brightness' | 'contrast' | 'sharpen';
+
+const ADJUSTMENTS: Array<{ key: AdjustmentKey; label: string; min: number }> = [
+    { key: 'brightness', label: 'Brillo', min: -100 },
+    { key: 'contrast', label: 'Contraste', min: -100 },
+    { key: 'sharpen', label: 'Enfoque', min: 0 }
+];
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    return `${(bytes / 1024).toFixed(0)} KB`;
+}
+
+const ImagePreprocessPanel: React.FC<ImagePreprocessPanelProps> = ({
+                                                                       file,
+                                                                       originalUrl,
+                                                                       options,
+                                                                       onChange,
+                                                                       result,
+                                                                       previewUrl,
+                                                                       isProcessing,
+                                                                       error,
+                                                                       usesWorker,
+                                                                       disabled = false
+                                                                   }) => {
+    const update = (changes: Partial<PreprocessOptions>) => onChange({ ...options, ...changes });
+    const unchanged = result !== null && result.unchanged;
+    const reduction = result ? 1 - result.blob.size / file.size : 0;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-white flex items-center space-x-2">
+                    <SlidersHorizontal className="w-5 h-5 text-blue-400" />
+                    <span>Preprocesado antes de subir</span>
+                </h3>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onChange({ ...DEFAULT_PREPROCESS_OPTIONS, quality: options.quality })}
+                    disabled={disabled}
+                    className="bg-white/10 text-white border-white/30 hover:bg-white/20"
+                >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restablecer
+                </Button>
+            </div>
+
+            <div className="grid md:grid-cols-4 gap-4">
+                <div>
+                    <label className="text-gray-300 text-sm">Lado mayor</label>
+                    <select
+                        value={options.maxDimension ?? ''}
+                        onChange={(e) => update({ maxDimension: e.target.value ? parseInt(e.target.value) : null })}
+                        disabled={disabled}
+                        className="w-full mt-2 bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-white text-sm"
+                    >
+                        {MAX_DIMENSION_CHOICES.map(choice => (
+                            <option key={choice ?? 'original'} value={choice ?? ''} className="bg-slate-800">
+                                {choice ? `${choice}px` : 'Tamaño original'}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {ADJUSTMENTS.map(({ key, label, min }) => (
+                    <div key={key}>
+                        <label className="text-gray-300 text-sm">{label}</label>
+                        <input
+                            type="range"
+                            min={min}
+                            max="100"
+                            step="5"
+                            value={options[key]}
+                            onChange={(e) => update({ [key]: parseInt(e.target.value) })}
+                            disabled={disabled}
+                            className="w-full mt-2"
+                        />
+                        <span className="text-white text-sm">{options[key] > 0 && min < 0 ? `+${options[key]}` : options[key]}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+                {/* Antes: aquí se dibuja la región */}
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-300 flex items-center space-x-1">
+                            <Crop className="w-4 h-4" />
+                            <span>Original · arrastra para marcar la región</span>
+                        </span>
+                        {options.crop && (
+                            <button
+                                onClick={() => update({ crop: null })}
+                                disabled={disabled}
+                                className="text-blue-300 hover:text-blue-200 text-xs"
+                            >
+                                Quitar región
+                            </button>
+                        )}
+                    </div>
+                    <CropRegionSelector
+                        src={originalUrl}
+                        region={options.crop}
+                        onChange={(crop) => update({ crop })}
+                        disabled={disabled}
+                    />
+                    <p className="text-xs text-gray-400">
+                        {result ? `${result.original_width}×${result.original_height}px · ` : ''}{formatBytes(file.size)}
+                        {result && result.orientation !== 1 && ` · orientación EXIF ${result.orientation} corregida`}
+                    </p>
+                </div>
+
+                {/* Después: lo que realmente se sube */}
+                <div className="space-y-2">
+                    <div className="text-sm text-gray-300 flex items-center space-x-1">
+                        <Target className="w-4 h-4" />
+                        <span>Se subirá</span>
+                    </div>
+                    <div className="bg-black rounded-lg flex items-center justify-center min-h-[8rem] relative">
+                        {previewUrl && (
+                            <img src={previewUrl} alt="Preprocesada" className="block max-w-full max-h-72" />
+                        )}
+                        {isProcessing && (
+                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+                            </div>
+                        )}
+                    </div>
+                    {error ? (
+                        <p className="text-xs text-red-400">Se subirá el original: {error}</p>
+                    ) : result && (
+                        <p className="text-xs text-gray-400">
+                            {unchanged ? (
+                                'Sin cambios: se sube el archivo original'
+                            ) : (
+                                <>
+                                    {result.width}×{result.height}px · {formatBytes(result.blob.size)}
+                                    <span className={reduction > 0 ? 'text-green-400' : 'text-yellow-400'}>
+                                        {' '}({reduction > 0 ? '-' : '+'}{Math.abs(reduction * 100).toFixed(0)}%)
+                                    </span>
+                                </>
+                            )}
+                            {' · '}{result.elapsed_ms.toFixed(0)} ms {usesWorker ? 'en segundo plano' : 'en el hilo principal'}
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImagePreprocessPanel;
@@ -0,0 +1,71 @@
+// src/components/ImageUrlImport.tsx
+// ✅ IMPORTAR UNA IMAGEN DESDE SU URL (directa con CORS o a través del backend)
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Link2, Loader2 } from "lucide-react";
+import { ApiError } from '../services/apiClient';
+import { importImageFromUrl, isValidImageUrl } from '../services/imageSources';
+
+interface ImageUrlImportProps {
+    onImport: (file: File) => void;
+    disabled?: boolean;
+}
+
+const ImageUrlImport: React.FC<ImageUrlImportProps> = ({ onImport, disabled = false }) => {
+    const [url, setUrl] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = new AbortController();
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const file = await importImageFromUrl(url, abortControllerRef.current.signal);
+            setUrl('');
+            onImport(file);
+        } catch (err) {
+            if (err instanceof ApiError && err.isAborted) return;
+            setError(err instanceof Error ? err.message : 'No se pudo importar la imagen');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex items-center space-x-2">
+                <Input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://…/captura.jpg"
+                    aria-label="URL de la imagen"
+                    disabled={disabled || isLoading}
+                    className="h-8 bg-white/10 border-white/20 text-white placeholder:text-gray-500 text-sm"
+                />
+                <Button
+                    type="submit"
+                    size="sm"
+                    disabled={disabled || isLoading || !isValidImageUrl(url)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                    {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                </Button>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </form>
+    );
+};
+
+export default ImageUrlImport;
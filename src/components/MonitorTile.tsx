@@ -0,0 +1,220 @@
+// src/components/MonitorTile.tsx
+// ✅ CELDA DEL MONITOR MULTICÁMARA: una sesión WebSocket propia por fuente
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Cctv, Upload, X, Eye, Target } from "lucide-react";
+import { useStreamingWebSocket } from '../hooks/useStreamingWebSocket';
+import { streamingApi } from '../services/streamingApi';
+import type { CameraSource } from '../types/alpr';
+import type { StreamingStatus, UniquePlate } from '../types/streaming';
+
+interface MonitorTileProps {
+    tileId: string;
+    title: string;
+    cameraSources: CameraSource[];
+    // Se invoca con la lista completa de placas de la celda cada vez que cambia
+    onPlatesChange: (tileId: string, sourceLabel: string, plates: UniquePlate[]) => void;
+}
+
+type PendingSource =
+    | { kind: 'camera'; source: CameraSource }
+    | { kind: 'file'; file: File };
+
+const STATUS_BADGES: Record<StreamingStatus, { text: string; className: string }> = {
+    disconnected: { text: 'Libre', className: 'bg-gray-500/20 text-gray-400' },
+    connected: { text: 'Conectado', className: 'bg-green-500/20 text-green-400' },
+    uploading: { text: 'Subiendo', className: 'bg-purple-500/20 text-purple-400' },
+    initializing: { text: 'Iniciando', className: 'bg-blue-500/20 text-blue-400' },
+    processing: { text: 'En vivo', className: 'bg-red-500/20 text-red-400' },
+    paused: { text: 'Pausado', className: 'bg-yellow-500/20 text-yellow-400' },
+    completed: { text: 'Completado', className: 'bg-green-500/20 text-green-400' },
+    stopped: { text: 'Detenido', className: 'bg-gray-500/20 text-gray-400' },
+    error: { text: 'Error', className: 'bg-red-500/20 text-red-400' }
+};
+
+const MonitorTile: React.FC<MonitorTileProps> = ({ tileId, title, cameraSources, onPlatesChange }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingSource, setPendingSource] = useState<PendingSource | null>(null);
+    const [sourceLabel, setSourceLabel] = useState<string>('');
+
+    // Cada celda tiene su propio socket; sin trazas por mensaje para no inundar la consola
+    const {
+        isConnected,
+        sessionId,
+        status,
+        error,
+        currentFrame,
+        allUniquePlates,
+        connect,
+        disconnect,
+        startStreaming,
+        startCameraStreaming,
+        stopStreaming
+    } = useStreamingWebSocket({
+        label: title,
+        verbose: false,
+        autoConnect: false,
+        persistSession: false,
+        reconnectInterval: 3000,
+        maxReconnectAttempts: 5
+    });
+
+    // La fuente elegida se inicia en cuanto la sesión está abierta
+    useEffect(() => {
+        if (!isConnected || !pendingSource) return;
+        const pending = pendingSource;
+        setPendingSource(null);
+
+        const start = pending.kind === 'camera'
+            ? startCameraStreaming(pending.source)
+            : startStreaming(pending.file);
+
+        start.catch(err => {
+            toast.error(`${title}: no se pudo iniciar`, {
+                description: err instanceof Error ? err.message : 'Error desconocido'
+            });
+        });
+    }, [isConnected, pendingSource, startCameraStreaming, startStreaming, title]);
+
+    useEffect(() => {
+        onPlatesChange(tileId, sourceLabel || title, allUniquePlates);
+    }, [tileId, title, sourceLabel, allUniquePlates, onPlatesChange]);
+
+    // Al quitar la celda del grid sus placas dejan de contar en el feed
+    useEffect(() => {
+        return () => onPlatesChange(tileId, '', []);
+    }, [tileId, onPlatesChange]);
+
+    const latestPlate = useMemo(() => {
+        return allUniquePlates.reduce<UniquePlate | null>(
+            (latest, plate) => (!latest || plate.last_seen_frame > latest.last_seen_frame ? plate : latest),
+            null
+        );
+    }, [allUniquePlates]);
+
+    const assignSource = (pending: PendingSource, label: string) => {
+        setSourceLabel(label);
+        setPendingSource(pending);
+        if (!isConnected) connect();
+    };
+
+    const handleCameraSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        const source = cameraSources.find(camera => camera.source_id === event.target.value);
+        if (source) assignSource({ kind: 'camera', source }, source.name);
+    };
+
+    const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) assignSource({ kind: 'file', file }, file.name);
+    };
+
+    const handleRelease = () => {
+        stopStreaming();
+        if (sessionId) {
+            streamingApi.disconnectSession(sessionId).catch(() => undefined);
+        }
+        disconnect();
+        setPendingSource(null);
+        setSourceLabel('');
+    };
+
+    const badge = STATUS_BADGES[status] || STATUS_BADGES.disconnected;
+    const isIdle = !sourceLabel;
+
+    return (
+        <div className="bg-white/10 border border-white/20 rounded-lg overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between px-3 py-2 bg-black/20">
+                <div className="min-w-0">
+                    <p className="text-white text-sm font-semibold truncate">{title}</p>
+                    {sourceLabel && <p className="text-xs text-gray-400 truncate">{sourceLabel}</p>}
+                </div>
+                <div className="flex items-center space-x-1 shrink-0">
+                    <span className={`text-xs px-2 py-0.5 rounded ${badge.className}`}>{badge.text}</span>
+                    {!isIdle && (
+                        <Button
+                            onClick={handleRelease}
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-1 text-gray-400 hover:text-red-400"
+                            title="Liberar celda"
+                        >
+                            <X className="w-3 h-3" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-black aspect-video relative">
+                {currentFrame ? (
+                    <img
+                        src={currentFrame.image}
+                        alt={`Frame actual de ${title}`}
+                        className="w-full h-full object-contain"
+                    />
+                ) : isIdle ? (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center space-y-2 p-3">
+                        {cameraSources.length > 0 && (
+                            <select
+                                value=""
+                                onChange={handleCameraSelect}
+                                className="w-full bg-white/10 border border-white/20 rounded px-2 py-1 text-white text-xs"
+                            >
+                                <option value="" className="text-black">Elegir cámara...</option>
+                                {cameraSources.map(source => (
+                                    <option key={source.source_id} value={source.source_id} className="text-black">
+                                        {source.name}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        <Button
+                            onClick={() => fileInputRef.current?.click()}
+                            size="sm"
+                            variant="ghost"
+                            className="text-gray-400 hover:text-white text-xs"
+                        >
+                            <Upload className="w-3 h-3 mr-1" />
+                            Video
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                        <Eye className="w-8 h-8 text-gray-600" />
+                    </div>
+                )}
+
+                {latestPlate && (
+                    <div className="absolute bottom-1 left-1 bg-green-600/90 rounded px-2 py-0.5 text-xs text-white font-mono flex items-center space-x-1">
+                        <Target className="w-3 h-3" />
+                        <span>{latestPlate.plate_text}</span>
+                    </div>
+                )}
+                {allUniquePlates.length > 0 && (
+                    <div className="absolute bottom-1 right-1 bg-blue-600/90 rounded px-2 py-0.5 text-xs text-white">
+                        {allUniquePlates.length}
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="px-3 py-1 text-xs text-red-400 truncate flex items-center space-x-1" title={error}>
+                    <Cctv className="w-3 h-3 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="video/*"
+                onChange={handleFileSelect}
+                className="hidden"
+            />
+        </div>
+    );
+};
+
+export default MonitorTile;
@@ -0,0 +1,103 @@
+// src/components/PlateCropPreview.tsx
+// ✅ RECORTE LOCAL DE UNA PLACA (a partir del bbox) CON LA CONFIANZA DE CADA CARÁCTER DEBAJO
+
+import React, { useEffect, useRef } from 'react';
+import type { PlateDetection } from '../types/alpr';
+import { paddedCrop, type Rect } from '../services/imageOverlay';
+import { getConfidenceColor } from '../types/streaming';
+import PlateFormatBadge from './PlateFormatBadge';
+
+interface PlateCropPreviewProps {
+    image: HTMLImageElement;
+    plate: PlateDetection;
+    rect: Rect;
+    highlighted: boolean;
+    onHighlight: (plate: PlateDetection | null) => void;
+}
+
+// Ancho del recorte en pantalla (px CSS)
+const CROP_WIDTH = 240;
+
+function barColor(confidence: number): string {
+    if (confidence >= 0.8) return 'bg-green-400';
+    if (confidence >= 0.6) return 'bg-yellow-400';
+    return 'bg-red-400';
+}
+
+const CharacterConfidenceBars: React.FC<{ plate: PlateDetection }> = ({ plate }) => {
+    // character_confidences va alineado con el texto sin guion
+    const characters = plate.plate_text.replace(/-/g, '').split('');
+    const confidences = plate.character_confidences || [];
+
+    if (confidences.length === 0) {
+        return <p className="text-xs text-gray-500 text-center">Sin confianza por carácter</p>;
+    }
+
+    return (
+        <div className="flex items-end justify-center space-x-1">
+            {characters.map((character, index) => {
+                const confidence = confidences[index];
+                return (
+                    <div
+                        key={index}
+                        className="flex flex-col items-center w-6"
+                        title={confidence !== undefined ? `${character}: ${(confidence * 100).toFixed(1)}%` : character}
+                    >
+                        <div className="h-10 w-3 bg-white/10 rounded-sm flex items-end overflow-hidden">
+                            {confidence !== undefined && (
+                                <div className={`w-full ${barColor(confidence)}`} style={{ height: `${confidence * 100}%` }} />
+                            )}
+                        </div>
+                        <span className={`font-mono text-sm mt-1 ${confidence !== undefined ? getConfidenceColor(confidence) : 'text-gray-500'}`}>
+                            {character}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const PlateCropPreview: React.FC<PlateCropPreviewProps> = ({ image, plate, rect, highlighted, onHighlight }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+
+        const crop = paddedCrop(rect, { width: image.naturalWidth, height: image.naturalHeight });
+        const pixelRatio = window.devicePixelRatio || 1;
+        const height = CROP_WIDTH * (crop.height / crop.width);
+        canvas.width = Math.round(CROP_WIDTH * pixelRatio);
+        canvas.height = Math.round(height * pixelRatio);
+        canvas.style.height = `${height}px`;
+
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    }, [image, rect]);
+
+    return (
+        <div
+            className={`bg-white/5 rounded-lg p-3 border transition-all space-y-3 ${
+                highlighted ? 'border-blue-400 bg-blue-500/10' : 'border-white/10'
+            }`}
+            onMouseEnter={() => onHighlight(plate)}
+            onMouseLeave={() => onHighlight(null)}
+        >
+            <canvas ref={canvasRef} style={{ width: CROP_WIDTH }} className="block mx-auto rounded bg-black" />
+            <div className="flex items-center justify-between">
+                <span className="text-white font-mono">{plate.plate_text}</span>
+                <span className={`text-sm font-semibold ${getConfidenceColor(plate.overall_confidence)}`}>
+                    {(plate.overall_confidence * 100).toFixed(1)}%
+                </span>
+            </div>
+            <div className="flex justify-center">
+                <PlateFormatBadge plateText={plate.plate_text} characterConfidences={plate.character_confidences} />
+            </div>
+            <CharacterConfidenceBars plate={plate} />
+        </div>
+    );
+};
+
+export default PlateCropPreview;
@@ -0,0 +1,67 @@
+// src/components/PlateFormatBadge.tsx
+// ✅ CATEGORÍA DE LA PLACA SEGÚN EL FORMATO PERUANO Y CORRECCIÓN OCR SUGERIDA
+
+import React, { useMemo } from 'react';
+import { Car, Bike, Landmark, Siren, Timer, HelpCircle, Wand2 } from "lucide-react";
+import { analyzePlate, PLATE_CATEGORY_LABELS, PlateCategory } from '../services/plateFormats';
+
+interface PlateFormatBadgeProps {
+    plateText: string;
+    characterConfidences?: number[] | null;
+}
+
+const CATEGORY_STYLES: Record<PlateCategory, { icon: React.ElementType; className: string }> = {
+    particular: { icon: Car, className: 'bg-blue-500/15 text-blue-300 border-blue-500/30' },
+    motorcycle: { icon: Bike, className: 'bg-cyan-500/15 text-cyan-300 border-cyan-500/30' },
+    diplomatic: { icon: Landmark, className: 'bg-purple-500/15 text-purple-300 border-purple-500/30' },
+    police: { icon: Siren, className: 'bg-red-500/15 text-red-300 border-red-500/30' },
+    temporary: { icon: Timer, className: 'bg-orange-500/15 text-orange-300 border-orange-500/30' },
+    unknown: { icon: HelpCircle, className: 'bg-white/10 text-gray-400 border-white/10' }
+};
+
+const PlateFormatBadge: React.FC<PlateFormatBadgeProps> = ({ plateText, characterConfidences }) => {
+    const analysis = useMemo(
+        () => analyzePlate(plateText, characterConfidences),
+        [plateText, characterConfidences]
+    );
+    const { icon: CategoryIcon, className } = CATEGORY_STYLES[analysis.category];
+    const suggestion = analysis.suggestion;
+
+    // Con formato reconocido el título nombra el formato; sin él, la categoría es solo una suposición
+    const categoryTitle = analysis.format
+        ? `${analysis.format.label} (${analysis.format.example})`
+        : analysis.category === 'unknown'
+            ? 'No coincide con ningún formato peruano'
+            : `Formato no válido; parece ${PLATE_CATEGORY_LABELS[analysis.category].toLowerCase()}`;
+
+    const suggestionTitle = suggestion
+        ? suggestion.changes
+            .map(change => `${change.from}→${change.to} en la posición ${change.index + 1}` +
+                (change.confidence !== null ? ` (OCR ${(change.confidence * 100).toFixed(0)}%)` : ''))
+            .join(', ')
+        : '';
+
+    return (
+        <div className="flex items-center space-x-2">
+            <span
+                className={`inline-flex items-center space-x-1 rounded border px-1.5 py-0.5 text-xs font-semibold ${className}`}
+                title={categoryTitle}
+            >
+                <CategoryIcon className="w-3 h-3" />
+                <span>{PLATE_CATEGORY_LABELS[analysis.category].toUpperCase()}</span>
+            </span>
+            {suggestion && (
+                <span
+                    className="inline-flex items-center space-x-1 rounded border border-amber-500/30 bg-amber-500/10 px-1.5 py-0.5 text-xs text-amber-300"
+                    title={suggestionTitle}
+                >
+                    <Wand2 className="w-3 h-3" />
+                    <span>¿<span className="font-mono font-semibold">{suggestion.text}</span>?</span>
+                    <span className="text-amber-400/70">{(suggestion.confidence * 100).toFixed(0)}%</span>
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default PlateFormatBadge;
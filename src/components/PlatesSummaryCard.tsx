@@ -1,13 +1,13 @@
 // src/components/PlatesSummaryCard.tsx
 // ✅ COMPONENTE PARA MOSTRAR RESUMEN COMPLETO DE TODAS LAS PLACAS DETECTADAS
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
     Target, Shield, CheckCircle, Zap, Eye, EyeOff, Filter,
     TrendingUp, TrendingDown, BarChart3, MapPin, Clock,
-    Download, Search, SortAsc, SortDesc
+    Download, Search, SortAsc, SortDesc, Layers, List, GitMerge, CornerDownRight
 } from "lucide-react";
 import { UniquePlate, EnhancementStats } from '../types/streaming';
 import {
@@ -22,6 +22,8 @@ import {
     getConfidenceColor,
     getConfidenceLabel
 } from '../types/streaming';
+import PlateFormatBadge from './PlateFormatBadge';
+import { consolidatePlates, ConsolidatedPlate } from '../services/plateFusion';
 
 interface PlatesSummaryCardProps {
     allUniquePlates: UniquePlate[];
@@ -33,6 +35,17 @@ interface PlatesSummaryCardProps {
 
 type FilterType = 'all' | 'six_char' | 'valid' | 'auto_formatted' | 'high_confidence';
 type SortType = 'confidence' | 'detection_count' | 'frame_range' | 'alphabetical';
+// raw: placas tal como las envía el servidor; consolidated: lecturas casi iguales fusionadas
+type PlateViewMode = 'raw' | 'consolidated';
+
+function isConsolidatedPlate(plate: UniquePlate): plate is ConsolidatedPlate {
+    return 'cluster_id' in plate;
+}
+
+// Las posiciones cambian al filtrar, ordenar o cambiar de vista; la clave identifica la placa
+function plateKey(plate: UniquePlate): string {
+    return isConsolidatedPlate(plate) ? plate.cluster_id : plate.plate_text;
+}
 
 const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                                                                  allUniquePlates,
@@ -47,13 +60,21 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
     const [sortDescending, setSortDescending] = useState(true);
     const [showDetails, setShowDetails] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
-    const [expandedPlateIndex, setExpandedPlateIndex] = useState<number | null>(null);
+    const [expandedPlateKey, setExpandedPlateKey] = useState<string | null>(null);
+    const [viewMode, setViewMode] = useState<PlateViewMode>('raw');
+    // Lectura cruda a la que se llegó desde un grupo consolidado
+    const [highlightedPlateKey, setHighlightedPlateKey] = useState<string | null>(null);
+    const listRef = useRef<HTMLDivElement>(null);
 
     // ✅ CÁLCULOS MEMOIZADOS PARA RENDIMIENTO
-    const stats = useMemo(() => calculateDetectionStats(allUniquePlates), [allUniquePlates]);
+    const consolidatedPlates = useMemo(() => consolidatePlates(allUniquePlates), [allUniquePlates]);
+    const mergedReadings = allUniquePlates.length - consolidatedPlates.length;
+    const viewPlates: UniquePlate[] = viewMode === 'consolidated' ? consolidatedPlates : allUniquePlates;
+
+    const stats = useMemo(() => calculateDetectionStats(viewPlates), [viewPlates]);
 
     const filteredPlates = useMemo(() => {
-        let plates = [...allUniquePlates];
+        let plates = [...viewPlates];
 
         // Aplicar filtro de búsqueda
         if (searchTerm) {
@@ -109,13 +130,35 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
         }
 
         return plates;
-    }, [allUniquePlates, currentFilter, currentSort, sortDescending, searchTerm]);
+    }, [viewPlates, currentFilter, currentSort, sortDescending, searchTerm]);
 
     const confidenceBreakdown = useMemo(() =>
-        groupPlatesByConfidence(allUniquePlates), [allUniquePlates]
+        groupPlatesByConfidence(viewPlates), [viewPlates]
     );
 
+    // Al volver a una lectura cruda desde su grupo, se lleva a la vista
+    useEffect(() => {
+        if (!highlightedPlateKey) return;
+        const element = listRef.current?.querySelector(`[data-plate-key="${CSS.escape(highlightedPlateKey)}"]`);
+        element?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [highlightedPlateKey, viewMode]);
+
     // ✅ FUNCIONES HELPER
+    const changeViewMode = (mode: PlateViewMode) => {
+        setViewMode(mode);
+        setExpandedPlateKey(null);
+        setHighlightedPlateKey(null);
+    };
+
+    // 🔗 De un grupo consolidado a la lectura original que lo compone
+    const showMemberPlate = (member: UniquePlate) => {
+        setViewMode('raw');
+        setCurrentFilter('all');
+        setSearchTerm('');
+        setExpandedPlateKey(member.plate_text);
+        setHighlightedPlateKey(member.plate_text);
+    };
+
     const getFilterCount = (filter: FilterType): number => {
         switch (filter) {
             case 'six_char': return stats.sixCharPlates;
@@ -167,6 +210,7 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                 enhancement_stats: enhancementStats,
                 spatial_regions: spatialRegions,
                 all_plates: allUniquePlates,
+                consolidated_plates: consolidatedPlates,
                 filtered_plates: filteredPlates,
                 confidence_breakdown: confidenceBreakdown
             };
@@ -222,10 +266,39 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                             <span className="text-blue-400">
                 ⚡ {stats.autoFormattedPlates} auto-formateadas
               </span>
+                            {viewMode === 'consolidated' && mergedReadings > 0 && (
+                                <span className="text-amber-400">
+                                    🔗 {mergedReadings} lecturas fusionadas
+                                </span>
+                            )}
                         </div>
                     </div>
 
                     <div className="flex items-center space-x-2">
+                        {/* Vista cruda o consolidada */}
+                        <div className="flex items-center bg-white/5 rounded-lg p-0.5">
+                            <Button
+                                onClick={() => changeViewMode('raw')}
+                                variant="ghost"
+                                size="sm"
+                                className={viewMode === 'raw' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}
+                                title="Placas tal como las envía el servidor"
+                            >
+                                <List className="w-4 h-4 mr-1" />
+                                Crudas ({allUniquePlates.length})
+                            </Button>
+                            <Button
+                                onClick={() => changeViewMode('consolidated')}
+                                variant="ghost"
+                                size="sm"
+                                className={viewMode === 'consolidated' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}
+                                title="Lecturas casi iguales del mismo vehículo fusionadas por votación de caracteres"
+                            >
+                                <Layers className="w-4 h-4 mr-1" />
+                                Consolidadas ({consolidatedPlates.length})
+                            </Button>
+                        </div>
+
                         <Button
                             onClick={() => setShowDetails(!showDetails)}
                             variant="ghost"
@@ -333,16 +406,20 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                 </div>
 
                 {/* Lista de placas filtradas */}
-                <div className="space-y-3 max-h-96 overflow-y-auto">
+                <div ref={listRef} className="space-y-3 max-h-96 overflow-y-auto">
                     {filteredPlates.map((plate, index) => {
-                        const isExpanded = expandedPlateIndex === index;
-                        const plateNumber = allUniquePlates.findIndex(p => p.plate_text === plate.plate_text) + 1;
+                        const key = plateKey(plate);
+                        const isExpanded = expandedPlateKey === key;
+                        const plateNumber = viewPlates.findIndex(p => plateKey(p) === key) + 1;
+                        const members = isConsolidatedPlate(plate) ? plate.members : [];
 
                         return (
                             <div
-                                key={`${plate.plate_text}-${index}`}
+                                key={`${key}-${index}`}
+                                data-plate-key={key}
                                 className={`
                   bg-white/5 rounded-lg border transition-all hover:bg-white/10 cursor-pointer
+                  ${highlightedPlateKey === key ? 'ring-2 ring-amber-400/70' : ''}
                   ${plate.is_six_char_valid
                                     ? 'border-green-500/30 bg-green-500/5'
                                     : plate.is_valid_format
@@ -350,7 +427,7 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                                         : 'border-white/10'
                                 }
                 `}
-                                onClick={() => setExpandedPlateIndex(isExpanded ? null : index)}
+                                onClick={() => setExpandedPlateKey(isExpanded ? null : key)}
                             >
                                 <div className="p-4">
                                     {/* Información principal */}
@@ -367,7 +444,16 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                                             {/* Indicadores */}
                                             <div className="flex items-center space-x-2">
                                                 {getPlateIndicators(plate)}
+                                                {members.length > 1 && (
+                                                    <div className="flex items-center space-x-1 text-amber-400" title="Lecturas fusionadas">
+                                                        <GitMerge className="w-4 h-4" />
+                                                        <span className="text-xs font-semibold">×{members.length}</span>
+                                                    </div>
+                                                )}
                                             </div>
+
+                                            {/* Categoría y corrección OCR */}
+                                            <PlateFormatBadge plateText={plate.plate_text} />
                                         </div>
 
                                         {/* Confianza */}
@@ -439,6 +525,55 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                                                 </div>
                                             )}
 
+                                            {/* Lecturas que forman el grupo consolidado */}
+                                            {isConsolidatedPlate(plate) && members.length > 1 && (
+                                                <div className="bg-amber-500/10 border border-amber-500/20 rounded p-3">
+                                                    <div className="flex items-center justify-between text-amber-400 text-sm mb-2">
+                                                        <div className="flex items-center space-x-2">
+                                                            <GitMerge className="w-4 h-4" />
+                                                            <span className="font-semibold">Lecturas fusionadas</span>
+                                                        </div>
+                                                        {/* Acuerdo de la votación en cada carácter */}
+                                                        <div className="flex font-mono">
+                                                            {plate.plate_text.replace(/-/g, '').split('').map((char, charIndex) => {
+                                                                const agreement = plate.character_agreement[charIndex] ?? 1;
+                                                                return (
+                                                                    <span
+                                                                        key={charIndex}
+                                                                        className={agreement >= 0.8 ? 'text-green-400' : agreement >= 0.6 ? 'text-yellow-400' : 'text-red-400'}
+                                                                        title={`${(agreement * 100).toFixed(0)}% del peso votó "${char}"`}
+                                                                    >
+                                                                        {char}
+                                                                    </span>
+                                                                );
+                                                            })}
+                                                        </div>
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        {members.map(member => (
+                                                            <button
+                                                                type="button"
+                                                                key={member.plate_text}
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    showMemberPlate(member);
+                                                                }}
+                                                                className="w-full flex items-center justify-between rounded px-2 py-1 text-xs hover:bg-white/10"
+                                                                title="Ver esta lectura en la vista cruda"
+                                                            >
+                                                                <span className="flex items-center space-x-2">
+                                                                    <CornerDownRight className="w-3 h-3 text-amber-400" />
+                                                                    <span className="font-mono text-white">{member.plate_text}</span>
+                                                                </span>
+                                                                <span className="text-gray-400">
+                                                                    {member.detection_count} det. · {formatConfidence(member.best_confidence)} · {formatFrameRange(member.first_seen_frame, member.last_seen_frame)}
+                                                                </span>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+
                                             {/* Detalles técnicos */}
                                             <div className="grid grid-cols-2 gap-4 text-sm">
                                                 <div>
@@ -551,7 +686,7 @@ const PlatesSummaryCard: React.FC<PlatesSummaryCardProps> = ({
                     <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                         <div className="flex items-center justify-between text-sm">
                             <div className="text-blue-400">
-                                Mostrando {filteredPlates.length} de {allUniquePlates.length} placas
+                                Mostrando {filteredPlates.length} de {viewPlates.length} placas
                                 {searchTerm && ` · Búsqueda: "${searchTerm}"`}
                                 {currentFilter !== 'all' && ` · Filtro: ${currentFilter}`}
                             </div>
@@ -0,0 +1,174 @@
+// src/components/ProcessingConfigPanel.tsx
+// ✅ PARÁMETROS DE DETECCIÓN DEL MODO (imagen / video) con presets guardados y validación por campo
+
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { RotateCcw, Save, Settings, Trash2 } from "lucide-react";
+import { useProcessingConfig } from '../hooks/useProcessingConfig';
+import { MODE_FIELDS, PROCESSING_FIELDS, processingConfig, validateProcessingConfig } from '../services/processingConfig';
+import type { ProcessingField, ProcessingMode } from '../types/processing';
+
+interface ProcessingConfigPanelProps {
+    mode: ProcessingMode;
+    disabled?: boolean;
+}
+
+const ProcessingConfigPanel: React.FC<ProcessingConfigPanelProps> = ({ mode, disabled = false }) => {
+    const { configs, activePresetIds, presets } = useProcessingConfig();
+    const [presetName, setPresetName] = useState('');
+    const config = configs[mode];
+    const errors = useMemo(() => validateProcessingConfig(config, mode), [config, mode]);
+    const activePreset = presets.find(p => p.id === activePresetIds[mode]) ?? null;
+
+    const update = (field: ProcessingField, value: number | boolean) => processingConfig.update(mode, { [field]: value });
+
+    const handleSavePreset = (event: React.FormEvent) => {
+        event.preventDefault();
+        try {
+            const preset = processingConfig.savePreset(mode, presetName);
+            setPresetName('');
+            toast.success(`Preset "${preset.name}" guardado`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No se pudo guardar el preset');
+        }
+    };
+
+    const handleDeletePreset = () => {
+        if (!activePreset || activePreset.readOnly) return;
+        processingConfig.deletePreset(activePreset.id);
+        toast.success(`Preset "${activePreset.name}" eliminado`);
+    };
+
+    return (
+        <div className="bg-white/5 rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <h4 className="text-white font-semibold text-sm flex items-center space-x-2">
+                    <Settings className="w-4 h-4 text-blue-400" />
+                    <span>Parámetros de detección</span>
+                </h4>
+                <button
+                    onClick={() => processingConfig.reset(mode)}
+                    disabled={disabled}
+                    className="text-xs text-blue-300 hover:text-blue-200 flex items-center space-x-1 disabled:opacity-50"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>Restablecer</span>
+                </button>
+            </div>
+
+            {/* Presets */}
+            <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                    <select
+                        value={activePreset?.id ?? ''}
+                        onChange={(e) => e.target.value && processingConfig.applyPreset(mode, e.target.value)}
+                        disabled={disabled}
+                        aria-label="Preset"
+                        className="flex-1 bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-white text-sm"
+                    >
+                        <option value="" className="bg-slate-800">Personalizada</option>
+                        {presets.map(preset => (
+                            <option key={preset.id} value={preset.id} className="bg-slate-800">
+                                {preset.name}
+                            </option>
+                        ))}
+                    </select>
+                    {activePreset && !activePreset.readOnly && (
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={handleDeletePreset}
+                            disabled={disabled}
+                            title="Eliminar preset"
+                            className="bg-white/10 text-white border-white/30 hover:bg-red-600/70"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </Button>
+                    )}
+                </div>
+                {activePreset?.description && (
+                    <p className="text-xs text-gray-400">{activePreset.description}</p>
+                )}
+            </div>
+
+            {/* Campos del modo */}
+            <div className="space-y-3">
+                {MODE_FIELDS[mode].map(field => {
+                    const spec = PROCESSING_FIELDS[field];
+                    const value = config[field];
+
+                    if (spec.kind === 'boolean') {
+                        return (
+                            <div key={field} className="flex items-center justify-between">
+                                <span className="text-gray-400 text-sm">{spec.label}</span>
+                                <input
+                                    type="checkbox"
+                                    checked={value === true}
+                                    onChange={(e) => update(field, e.target.checked)}
+                                    disabled={disabled}
+                                    className="rounded"
+                                />
+                            </div>
+                        );
+                    }
+
+                    const numeric = typeof value === 'number' ? value : Number.NaN;
+                    return (
+                        <div key={field}>
+                            <div className="flex items-center justify-between">
+                                <label className="text-gray-400 text-sm" title={spec.hint}>{spec.label}</label>
+                                <input
+                                    type="number"
+                                    min={spec.min}
+                                    max={spec.max}
+                                    step={spec.step}
+                                    value={Number.isNaN(numeric) ? '' : numeric}
+                                    onChange={(e) => update(field, e.target.value === '' ? Number.NaN : Number(e.target.value))}
+                                    disabled={disabled}
+                                    aria-label={spec.label}
+                                    className="w-20 bg-white/10 border border-white/20 rounded-md px-2 py-0.5 text-white text-sm text-right"
+                                />
+                            </div>
+                            <input
+                                type="range"
+                                min={spec.min}
+                                max={spec.max}
+                                step={spec.step}
+                                value={Number.isNaN(numeric) ? spec.min : numeric}
+                                onChange={(e) => update(field, parseFloat(e.target.value))}
+                                disabled={disabled}
+                                className="w-full mt-1"
+                            />
+                            {errors[field] && <p className="text-xs text-red-400">{errors[field]}</p>}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Guardar como preset */}
+            <form onSubmit={handleSavePreset} className="flex items-center space-x-2">
+                <Input
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Nombre del preset"
+                    aria-label="Nombre del preset"
+                    disabled={disabled}
+                    className="h-8 bg-white/10 border-white/20 text-white placeholder:text-gray-500 text-sm"
+                />
+                <Button
+                    type="submit"
+                    size="sm"
+                    disabled={disabled || !presetName.trim()}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                    <Save className="w-4 h-4 mr-1" />
+                    Guardar
+                </Button>
+            </form>
+        </div>
+    );
+};
+
+export default ProcessingConfigPanel;
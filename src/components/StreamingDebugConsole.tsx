@@ -1,4 +1,7 @@
-import React, { useState, useRef, useEffect } from 'react';
+// src/components/StreamingDebugConsole.tsx
+// ✅ CONSOLA DE DEBUG: muestra el buffer del logger y ajusta su nivel sin tocar la consola del navegador
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,15 +14,8 @@ import {
     Eye,
     EyeOff
 } from "lucide-react";
-
-interface DebugMessage {
-    id: string;
-    timestamp: string;
-    type: 'info' | 'error' | 'warning' | 'success' | 'websocket' | 'api';
-    category: string;
-    message: string;
-    data?: unknown;
-}
+import { useDebugLog } from '../hooks/useDebugLog';
+import { debugLogBuffer, logger, ndjsonLog, LOG_LEVELS, type LogEntry, type LogLevel } from '../services/logger';
 
 interface StreamingDebugConsoleProps {
     isVisible: boolean;
@@ -27,55 +23,38 @@ interface StreamingDebugConsoleProps {
     className?: string;
 }
 
-// 🔧 DECLARACIÓN GLOBAL CORREGIDA
-declare global {
-    interface Window {
-        streamingDebug?: {
-            addMessage: (type: string, category: string, message: string, data?: unknown) => void;
-            info: (category: string, message: string, data?: unknown) => void;
-            error: (category: string, message: string, data?: unknown) => void;
-            warning: (category: string, message: string, data?: unknown) => void;
-            success: (category: string, message: string, data?: unknown) => void;
-            websocket: (category: string, message: string, data?: unknown) => void;
-            api: (category: string, message: string, data?: unknown) => void;
-        };
-    }
-}
+// 🎨 COLOR Y BADGE POR NIVEL
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    debug: 'text-gray-400',
+    info: 'text-blue-400',
+    warn: 'text-yellow-400',
+    error: 'text-red-400'
+};
+
+const LEVEL_BADGES: Record<LogLevel, "default" | "destructive" | "outline" | "secondary"> = {
+    debug: 'secondary',
+    info: 'default',
+    warn: 'outline',
+    error: 'destructive'
+};
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
 
 export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                                                                                 isVisible,
                                                                                 onToggleVisibility,
                                                                                 className = ""
                                                                             }) => {
-    const [messages, setMessages] = useState<DebugMessage[]>([]);
+    const { entries, config } = useDebugLog();
     const [isAutoScroll, setIsAutoScroll] = useState(true);
-    const [isPaused, setIsPaused] = useState(false);
-    const [filter, setFilter] = useState<string>('all');
+    const [levelFilter, setLevelFilter] = useState<LogLevel>('debug');
+    const [categoryFilter, setCategoryFilter] = useState<string>('all');
+    // Entradas congeladas mientras la consola está en pausa (el logger sigue registrando)
+    const [pausedEntries, setPausedEntries] = useState<LogEntry[] | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
-    // 📝 AGREGAR MENSAJE DE DEBUG
-    const addDebugMessage = (
-        type: DebugMessage['type'],
-        category: string,
-        message: string,
-        data?: unknown
-    ) => {
-        if (isPaused) return;
-
-        const newMessage: DebugMessage = {
-            id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            timestamp: new Date().toLocaleTimeString(),
-            type,
-            category,
-            message,
-            data
-        };
-
-        setMessages(prev => {
-            const updated = [...prev, newMessage];
-            return updated.slice(-200); // Mantener solo los últimos 200 mensajes
-        });
-    };
+    const isPaused = pausedEntries !== null;
+    const messages = pausedEntries ?? entries;
 
     // 🔄 AUTO-SCROLL
     useEffect(() => {
@@ -84,128 +63,32 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
         }
     }, [messages, isAutoScroll]);
 
-    // 🎨 OBTENER COLOR DEL TIPO DE MENSAJE
-    const getMessageTypeColor = (type: DebugMessage['type']): string => {
-        const colors: Record<DebugMessage['type'], string> = {
-            info: 'text-blue-400',
-            error: 'text-red-400',
-            warning: 'text-yellow-400',
-            success: 'text-green-400',
-            websocket: 'text-purple-400',
-            api: 'text-cyan-400'
-        };
-        return colors[type] || 'text-gray-400';
+    const togglePause = () => {
+        setPausedEntries(isPaused ? null : entries);
     };
 
-    // 🎨 OBTENER BADGE DEL TIPO
-    const getMessageTypeBadge = (type: DebugMessage['type']) => {
-        const variantMap: Record<DebugMessage['type'], "default" | "destructive" | "outline" | "secondary"> = {
-            info: 'default',
-            error: 'destructive',
-            warning: 'outline',
-            success: 'default',
-            websocket: 'secondary',
-            api: 'outline'
-        };
-
-        return (
-            <Badge variant={variantMap[type]} className="text-xs">
-                {type.toUpperCase()}
-            </Badge>
-        );
-    };
+    const categories = useMemo(
+        () => Array.from(new Set(messages.map(msg => msg.category))).sort(),
+        [messages]
+    );
 
     // 🔍 FILTRAR MENSAJES
-    const filteredMessages = messages.filter(msg => {
-        if (filter === 'all') return true;
-        return msg.type === filter;
-    });
+    const filteredMessages = messages.filter(msg =>
+        LEVEL_PRIORITY[msg.level] >= LEVEL_PRIORITY[levelFilter] &&
+        (categoryFilter === 'all' || msg.category === categoryFilter)
+    );
 
     // 🧹 LIMPIAR CONSOLA
     const clearMessages = () => {
-        setMessages([]);
+        debugLogBuffer.clear();
+        if (isPaused) setPausedEntries([]);
     };
 
-    // 📥 DESCARGAR LOGS
+    // 📥 DESCARGAR LOGS (NDJSON de toda la sesión, no solo lo visible)
     const downloadLogs = () => {
-        const logData = messages.map(msg => ({
-            timestamp: msg.timestamp,
-            type: msg.type,
-            category: msg.category,
-            message: msg.message,
-            data: msg.data
-        }));
-
-        const blob = new Blob([JSON.stringify(logData, null, 2)], {
-            type: 'application/json'
-        });
-
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `streaming_debug_${Date.now()}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        ndjsonLog.download(`streaming_debug_${Date.now()}.ndjson`);
     };
 
-    // 🔧 EXPONER FUNCIÓN PARA AGREGAR MENSAJES GLOBALMENTE
-    useEffect(() => {
-        // Agregar al objeto window para uso global
-        window.streamingDebug = {
-            addMessage: addDebugMessage,
-            info: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('info', category, message, data),
-            error: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('error', category, message, data),
-            warning: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('warning', category, message, data),
-            success: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('success', category, message, data),
-            websocket: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('websocket', category, message, data),
-            api: (category: string, message: string, data?: unknown) =>
-                addDebugMessage('api', category, message, data)
-        };
-
-        // Interceptar console methods
-        const originalConsoleLog = console.log;
-        const originalConsoleError = console.error;
-        const originalConsoleWarn = console.warn;
-
-        console.log = (...args: unknown[]) => {
-            originalConsoleLog(...args);
-            const firstArg = args[0];
-            if (typeof firstArg === 'string' && firstArg.includes('[StreamingWebSocket]')) {
-                addDebugMessage('websocket', 'WebSocket', args.join(' '));
-            }
-        };
-
-        console.error = (...args: unknown[]) => {
-            originalConsoleError(...args);
-            const firstArg = args[0];
-            if (typeof firstArg === 'string') {
-                addDebugMessage('error', 'Console', args.join(' '));
-            }
-        };
-
-        console.warn = (...args: unknown[]) => {
-            originalConsoleWarn(...args);
-            const firstArg = args[0];
-            if (typeof firstArg === 'string') {
-                addDebugMessage('warning', 'Console', args.join(' '));
-            }
-        };
-
-        return () => {
-            console.log = originalConsoleLog;
-            console.error = originalConsoleError;
-            console.warn = originalConsoleWarn;
-            delete window.streamingDebug;
-        };
-    }, [isPaused]);
-
     if (!isVisible) {
         return (
             <Button
@@ -232,24 +115,31 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                     </CardTitle>
 
                     <div className="flex items-center space-x-2">
-                        {/* Filtros */}
+                        {/* Filtros de lo visible */}
                         <select
-                            value={filter}
-                            onChange={(e) => setFilter(e.target.value)}
+                            value={levelFilter}
+                            onChange={(e) => setLevelFilter(e.target.value as LogLevel)}
                             className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                            title="Nivel mínimo a mostrar"
                         >
-                            <option value="all">Todos</option>
-                            <option value="info">Info</option>
-                            <option value="error">Errores</option>
-                            <option value="warning">Warnings</option>
-                            <option value="success">Success</option>
-                            <option value="websocket">WebSocket</option>
-                            <option value="api">API</option>
+                            {LOG_LEVELS.map(level => (
+                                <option key={level} value={level}>{level.toUpperCase()}+</option>
+                            ))}
+                        </select>
+                        <select
+                            value={categoryFilter}
+                            onChange={(e) => setCategoryFilter(e.target.value)}
+                            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                        >
+                            <option value="all">Todas</option>
+                            {categories.map(category => (
+                                <option key={category} value={category}>{category}</option>
+                            ))}
                         </select>
 
                         {/* Controles */}
                         <Button
-                            onClick={() => setIsPaused(!isPaused)}
+                            onClick={togglePause}
                             size="sm"
                             variant="ghost"
                             className="text-gray-400 hover:text-white"
@@ -271,6 +161,7 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                             size="sm"
                             variant="ghost"
                             className="text-gray-400 hover:text-white"
+                            title="Descargar NDJSON"
                         >
                             <Download className="w-4 h-4" />
                         </Button>
@@ -301,7 +192,7 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                     {filteredMessages.length === 0 ? (
                         <div className="p-4 text-center text-gray-500">
                             No hay mensajes de debug
-                            {filter !== 'all' && ` para el filtro "${filter}"`}
+                            {categoryFilter !== 'all' && ` en la categoría "${categoryFilter}"`}
                         </div>
                     ) : (
                         <div className="p-2 space-y-1">
@@ -311,11 +202,13 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                                     className="flex items-start space-x-2 py-1 px-2 hover:bg-gray-800/50 rounded group"
                                 >
                   <span className="text-gray-500 w-20 flex-shrink-0">
-                    {msg.timestamp}
+                    {new Date(msg.timestamp).toLocaleTimeString()}
                   </span>
 
                                     <div className="flex-shrink-0">
-                                        {getMessageTypeBadge(msg.type)}
+                                        <Badge variant={LEVEL_BADGES[msg.level]} className="text-xs">
+                                            {msg.level.toUpperCase()}
+                                        </Badge>
                                     </div>
 
                                     <span className="text-gray-400 w-24 flex-shrink-0 truncate">
@@ -323,11 +216,11 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
                   </span>
 
                                     <div className="flex-1 min-w-0">
-                                        <div className={`${getMessageTypeColor(msg.type)} break-words`}>
+                                        <div className={`${LEVEL_COLORS[msg.level]} break-words`}>
                                             {msg.message}
                                         </div>
 
-                                        {msg.data && (
+                                        {msg.data !== undefined && (
                                             <details className="mt-1 group">
                                                 <summary className="text-gray-500 cursor-pointer hover:text-gray-400 text-xs">
                                                     Ver datos adicionales
@@ -357,8 +250,36 @@ export const StreamingDebugConsole: React.FC<StreamingDebugConsoleProps> = ({
             </span>
                     </div>
 
-                    <div className="text-gray-600">
-                        Streaming Debug Console v1.0
+                    {/* Configuración del logger (AdvancedStreamingConfig.debug) */}
+                    <div className="flex items-center space-x-3">
+                        <label className="flex items-center space-x-1">
+                            <input
+                                type="checkbox"
+                                checked={config.enable_frame_logging}
+                                onChange={(e) => logger.configure({ enable_frame_logging: e.target.checked })}
+                                className="w-3 h-3"
+                            />
+                            <span>Frames</span>
+                        </label>
+                        <label className="flex items-center space-x-1">
+                            <input
+                                type="checkbox"
+                                checked={config.enable_detection_logging}
+                                onChange={(e) => logger.configure({ enable_detection_logging: e.target.checked })}
+                                className="w-3 h-3"
+                            />
+                            <span>Detecciones</span>
+                        </label>
+                        <select
+                            value={config.log_level}
+                            onChange={(e) => logger.configure({ log_level: e.target.value as LogLevel })}
+                            className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-white"
+                            title="Nivel que registra el logger"
+                        >
+                            {LOG_LEVELS.map(level => (
+                                <option key={level} value={level}>Registrar {level}</option>
+                            ))}
+                        </select>
                     </div>
                 </div>
             </CardContent>
@@ -0,0 +1,81 @@
+// src/components/UploadProgressBar.tsx
+// ✅ BARRA DE PROGRESO DE SUBIDA CON VELOCIDAD, ETA Y CANCELACIÓN
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import type { UploadProgress } from '../types/alpr';
+
+interface UploadProgressBarProps {
+    progress: UploadProgress | null;
+    label?: string;
+    // Mensaje a mostrar cuando la subida terminó pero el servidor sigue trabajando
+    completedLabel?: string;
+    barClassName?: string;
+    onCancel?: () => void;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${bytes} B`;
+}
+
+function formatEta(seconds: number | null): string {
+    if (seconds === null || !isFinite(seconds)) return 'calculando...';
+    if (seconds < 1) return 'menos de 1 s';
+    // Se redondea el total antes de separar: 119.5 s son "2 min 0 s", no "1 min 60 s"
+    const total = Math.ceil(seconds);
+    if (total < 60) return `${total} s restantes`;
+    return `${Math.floor(total / 60)} min ${total % 60} s restantes`;
+}
+
+const UploadProgressBar: React.FC<UploadProgressBarProps> = ({
+                                                                 progress,
+                                                                 label = 'Subiendo',
+                                                                 completedLabel = 'Subida completa, procesando en el servidor...',
+                                                                 barClassName = 'bg-gradient-to-r from-green-500 to-blue-500',
+                                                                 onCancel
+                                                             }) => {
+    const percent = progress?.percent ?? 0;
+    const isUploaded = !!progress && progress.loaded >= progress.total;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-400">{isUploaded ? completedLabel : label}</span>
+                <div className="flex items-center space-x-2">
+                    <span className="text-white">{percent.toFixed(0)}%</span>
+                    {onCancel && (
+                        <Button
+                            onClick={onCancel}
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2 text-gray-400 hover:text-red-400"
+                            title="Cancelar"
+                        >
+                            <X className="w-3 h-3" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+            <div className="w-full bg-white/10 rounded-full h-2">
+                <div
+                    className={`${barClassName} h-2 rounded-full transition-all duration-300`}
+                    style={{ width: `${Math.min(percent, 100)}%` }}
+                />
+            </div>
+            {progress && !isUploaded && (
+                <div className="flex justify-between text-xs text-gray-400">
+                    <span>{formatBytes(progress.loaded)} / {formatBytes(progress.total)}</span>
+                    <span>
+                        {progress.bytesPerSecond > 0 ? `${formatBytes(progress.bytesPerSecond)}/s · ` : ''}
+                        {formatEta(progress.etaSeconds)}
+                    </span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UploadProgressBar;
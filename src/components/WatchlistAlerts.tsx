@@ -0,0 +1,112 @@
+// src/components/WatchlistAlerts.tsx
+// ✅ ALERTAS DE LA LISTA DE VIGILANCIA: banner de la última aparición y registro de todas
+
+import React from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Siren, Trash2, X } from "lucide-react";
+import type { WatchlistHit } from '../types/watchlist';
+import WatchlistPriorityBadge from './WatchlistPriorityBadge';
+
+function formatHitTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString();
+}
+
+function describeHit(hit: WatchlistHit): string {
+    const frame = hit.frame_number !== null ? ` · frame ${hit.frame_number}` : '';
+    return `${(hit.confidence * 100).toFixed(1)}%${frame} · ${formatHitTime(hit.timestamp)}`;
+}
+
+interface WatchlistAlertBannerProps {
+    hit: WatchlistHit;
+    // Alertas acumuladas desde que se descartó el último banner
+    pendingCount: number;
+    onDismiss: () => void;
+}
+
+// 🚨 BANNER: la aparición más reciente con su frame
+export const WatchlistAlertBanner: React.FC<WatchlistAlertBannerProps> = ({ hit, pendingCount, onDismiss }) => (
+    <div
+        role="alert"
+        className={`mb-6 p-4 rounded-lg border-2 flex items-center justify-between space-x-4 ${
+            hit.priority === 'high'
+                ? 'bg-red-600/20 border-red-500 animate-pulse'
+                : 'bg-amber-500/15 border-amber-500/60'
+        }`}
+    >
+        <div className="flex items-center space-x-4 min-w-0">
+            {hit.snapshot ? (
+                <img src={hit.snapshot} alt={`Frame con ${hit.plate_text}`} className="h-20 w-32 rounded object-cover border border-white/20" />
+            ) : (
+                <Siren className="w-10 h-10 text-red-400 shrink-0" />
+            )}
+            <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                    <span className="text-red-300 font-bold uppercase tracking-wide">Placa vigilada detectada</span>
+                    <WatchlistPriorityBadge priority={hit.priority} />
+                </div>
+                <div className="text-3xl font-mono font-bold text-white">{hit.plate_text}</div>
+                <div className="text-sm text-gray-300 truncate">
+                    {hit.label || 'Sin etiqueta'} · patrón {hit.pattern} · {describeHit(hit)}
+                </div>
+                {pendingCount > 1 && (
+                    <div className="text-xs text-gray-400">{pendingCount - 1} alertas más en el registro</div>
+                )}
+            </div>
+        </div>
+        <Button onClick={onDismiss} variant="ghost" size="sm" className="text-gray-300 hover:text-white shrink-0">
+            <X className="w-4 h-4" />
+        </Button>
+    </div>
+);
+
+interface WatchlistHitsLogProps {
+    hits: WatchlistHit[];
+    onClear: () => void;
+}
+
+// 📋 REGISTRO: todas las apariciones, la más reciente primero
+export const WatchlistHitsLog: React.FC<WatchlistHitsLogProps> = ({ hits, onClear }) => (
+    <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+        <CardContent className="p-6 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-white flex items-center space-x-2">
+                    <Siren className="w-5 h-5 text-red-400" />
+                    <span>Alertas de Vigilancia</span>
+                    <span className="text-sm text-gray-400 font-normal">({hits.length})</span>
+                </h3>
+                <Button onClick={onClear} variant="ghost" size="sm" title="Vaciar registro" className="text-gray-400 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+                {hits.map(hit => (
+                    <div key={hit.id} className="flex items-center space-x-3 rounded bg-white/5 p-2">
+                        {hit.snapshot ? (
+                            <a href={hit.snapshot} target="_blank" rel="noreferrer" title="Abrir frame">
+                                <img src={hit.snapshot} alt={`Frame con ${hit.plate_text}`} className="h-12 w-20 rounded object-cover" />
+                            </a>
+                        ) : (
+                            <div className="h-12 w-20 rounded bg-white/5 flex items-center justify-center">
+                                <Siren className="w-5 h-5 text-gray-500" />
+                            </div>
+                        )}
+                        <div className="min-w-0 flex-1">
+                            <div className="flex items-center space-x-2">
+                                <span className="font-mono font-bold text-white">{hit.plate_text}</span>
+                                <WatchlistPriorityBadge priority={hit.priority} />
+                                {hit.source === 'summary' && (
+                                    <span className="text-xs text-gray-500" title="Detectada en el resumen de placas, no en un frame">resumen</span>
+                                )}
+                            </div>
+                            <div className="text-xs text-gray-400 truncate">
+                                {hit.label || hit.pattern} · {describeHit(hit)}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </CardContent>
+    </Card>
+);
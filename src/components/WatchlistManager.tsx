@@ -0,0 +1,174 @@
+// src/components/WatchlistManager.tsx
+// ✅ GESTIÓN DE LA LISTA DE VIGILANCIA: agregar, importar, exportar y quitar placas de interés
+
+import React, { useRef, useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { AlertCircle, Download, Eye, FolderOpen, Plus, Trash2 } from "lucide-react";
+import { useWatchlist } from '../hooks/useWatchlist';
+import { watchlist, WATCHLIST_PRIORITY_LABELS } from '../services/watchlist';
+import type { WatchlistPriority } from '../types/watchlist';
+import WatchlistPriorityBadge from './WatchlistPriorityBadge';
+
+const PRIORITIES: WatchlistPriority[] = ['high', 'medium', 'low'];
+
+const WatchlistManager: React.FC = () => {
+    const entries = useWatchlist();
+    const [pattern, setPattern] = useState('');
+    const [label, setLabel] = useState('');
+    const [priority, setPriority] = useState<WatchlistPriority>('medium');
+    const [formError, setFormError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleAdd = (event: React.FormEvent) => {
+        event.preventDefault();
+        try {
+            watchlist.add({ pattern, label, priority });
+            setPattern('');
+            setLabel('');
+            setFormError(null);
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'No se pudo agregar la placa');
+        }
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            const result = watchlist.importText(await file.text());
+            const details = [
+                result.skipped > 0 ? `${result.skipped} ya estaban en la lista` : null,
+                result.errors.length > 0 ? `${result.errors.length} con error` : null
+            ].filter(Boolean).join(', ');
+
+            if (result.errors.length > 0) {
+                toast.warning(`Importadas ${result.added} placas`, {
+                    description: [details, ...result.errors.slice(0, 3)].join('\n')
+                });
+            } else {
+                toast.success(`Importadas ${result.added} placas`, details ? { description: details } : undefined);
+            }
+        } catch (err) {
+            toast.error('No se pudo importar la lista', {
+                description: err instanceof Error ? err.message : 'Archivo no válido'
+            });
+        }
+    };
+
+    return (
+        <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+            <CardContent className="p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-white flex items-center space-x-2">
+                        <Eye className="w-5 h-5 text-red-400" />
+                        <span>Lista de Vigilancia</span>
+                    </h3>
+                    <span className="text-sm text-gray-400">{entries.length} placas</span>
+                </div>
+
+                <form onSubmit={handleAdd} className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input
+                            value={pattern}
+                            onChange={(e) => setPattern(e.target.value)}
+                            placeholder="ABC-123 o ABC-*"
+                            aria-label="Placa o patrón"
+                            className="bg-white/10 border-white/20 text-white placeholder:text-gray-500 font-mono uppercase"
+                        />
+                        <select
+                            value={priority}
+                            onChange={(e) => setPriority(e.target.value as WatchlistPriority)}
+                            aria-label="Prioridad"
+                            className="bg-white/10 border border-white/20 rounded-md px-2 text-sm text-white"
+                        >
+                            {PRIORITIES.map(option => (
+                                <option key={option} value={option} className="bg-gray-800">
+                                    Prioridad {WATCHLIST_PRIORITY_LABELS[option].toLowerCase()}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex space-x-2">
+                        <Input
+                            value={label}
+                            onChange={(e) => setLabel(e.target.value)}
+                            placeholder="Etiqueta (robado, requisitoria...)"
+                            aria-label="Etiqueta"
+                            className="bg-white/10 border-white/20 text-white placeholder:text-gray-500"
+                        />
+                        <Button type="submit" disabled={!pattern.trim()} className="bg-red-600 hover:bg-red-700 text-white">
+                            <Plus className="w-4 h-4" />
+                        </Button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        * = cualquier cantidad de caracteres, ? = uno solo. El guion es opcional.
+                    </p>
+                    {formError && (
+                        <div className="flex items-center space-x-2 text-sm text-red-300">
+                            <AlertCircle className="w-4 h-4 text-red-400" />
+                            <span>{formError}</span>
+                        </div>
+                    )}
+                </form>
+
+                {entries.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto space-y-1">
+                        {entries.map(entry => (
+                            <div key={entry.id} className="flex items-center justify-between rounded bg-white/5 px-3 py-2">
+                                <div className="flex items-center space-x-2 min-w-0">
+                                    <span className="font-mono font-bold text-white">{entry.pattern}</span>
+                                    <WatchlistPriorityBadge priority={entry.priority} />
+                                    {entry.label && <span className="text-xs text-gray-400 truncate">{entry.label}</span>}
+                                </div>
+                                <Button
+                                    onClick={() => watchlist.remove(entry.id)}
+                                    variant="ghost"
+                                    size="sm"
+                                    title={`Quitar ${entry.pattern}`}
+                                    className="text-gray-500 hover:text-red-400"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json,text/csv,.csv,text/plain,.txt"
+                    onChange={handleImportFile}
+                    className="hidden"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    <Button
+                        onClick={() => fileInputRef.current?.click()}
+                        variant="outline"
+                        title="JSON exportado o CSV con columnas patrón,etiqueta,prioridad"
+                        className="text-gray-300 border-gray-600 hover:text-white hover:border-gray-400 flex items-center justify-center space-x-2"
+                    >
+                        <FolderOpen className="w-4 h-4" />
+                        <span>Importar</span>
+                    </Button>
+                    <Button
+                        onClick={() => watchlist.download()}
+                        disabled={entries.length === 0}
+                        variant="outline"
+                        className="text-gray-300 border-gray-600 hover:text-white hover:border-gray-400 flex items-center justify-center space-x-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        <span>Exportar</span>
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default WatchlistManager;
@@ -0,0 +1,20 @@
+// src/components/WatchlistPriorityBadge.tsx
+// ✅ CHIP DE PRIORIDAD DE UNA PLACA VIGILADA
+
+import React from 'react';
+import { WATCHLIST_PRIORITY_LABELS } from '../services/watchlist';
+import type { WatchlistPriority } from '../types/watchlist';
+
+const PRIORITY_STYLES: Record<WatchlistPriority, string> = {
+    high: 'bg-red-500/20 text-red-300 border-red-500/40',
+    medium: 'bg-amber-500/20 text-amber-300 border-amber-500/40',
+    low: 'bg-blue-500/20 text-blue-300 border-blue-500/40'
+};
+
+const WatchlistPriorityBadge: React.FC<{ priority: WatchlistPriority }> = ({ priority }) => (
+    <span className={`rounded border px-1.5 py-0.5 text-xs font-semibold ${PRIORITY_STYLES[priority]}`}>
+        {WATCHLIST_PRIORITY_LABELS[priority].toUpperCase()}
+    </span>
+);
+
+export default WatchlistPriorityBadge;
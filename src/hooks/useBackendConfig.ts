@@ -0,0 +1,10 @@
+// src/hooks/useBackendConfig.ts
+// ✅ SUSCRIPCIÓN A LA CONFIGURACIÓN DEL BACKEND: re-renderiza al cambiar de perfil
+
+import { useSyncExternalStore } from 'react';
+import { backendConfig } from '../services/backendConfig';
+import type { BackendConfigSnapshot } from '../types/config';
+
+export function useBackendConfig(): BackendConfigSnapshot {
+    return useSyncExternalStore(backendConfig.subscribe, backendConfig.getSnapshot);
+}
@@ -0,0 +1,50 @@
+// src/hooks/useBestFrameThumbnails.ts
+// ✅ MINIATURAS DEL MEJOR FRAME DE CADA PLACA DURANTE UN STREAMING (para guardarlas en el historial)
+//
+// El servidor no reenvía frames antiguos, así que la miniatura se toma del frame en pantalla:
+// al aparecer una placa nueva y cada vez que el frame pintado es su best_frame.
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { createThumbnail, HISTORY_THUMBNAIL } from '../services/detectionHistory';
+import type { HistoryThumbnail } from '../types/history';
+import type { StreamingFrame, UniquePlate } from '../types/streaming';
+
+interface CapturedThumbnail {
+    frame_number: number;
+    blob: Promise<Blob | null>;
+}
+
+export function useBestFrameThumbnails(plates: UniquePlate[], currentFrame: StreamingFrame | null) {
+    const capturedRef = useRef(new Map<string, CapturedThumbnail>());
+
+    useEffect(() => {
+        if (!currentFrame) return;
+        const captured = capturedRef.current;
+
+        plates.forEach(plate => {
+            const previous = captured.get(plate.plate_text);
+            const isBestFrame = plate.best_frame === currentFrame.frameNumber && previous?.frame_number !== currentFrame.frameNumber;
+            if (previous ? !isBestFrame : captured.size >= HISTORY_THUMBNAIL.MAX_PER_RUN) return;
+
+            // La imagen del frame se libera al pintar el siguiente: se decodifica ahora
+            captured.set(plate.plate_text, {
+                frame_number: currentFrame.frameNumber,
+                blob: createThumbnail(currentFrame.image)
+            });
+        });
+    }, [plates, currentFrame]);
+
+    // Miniaturas de las placas indicadas (las de mayor confianza primero, según el orden recibido)
+    const collect = useCallback(async (forPlates: UniquePlate[]): Promise<HistoryThumbnail[]> => {
+        const thumbnails = await Promise.all(forPlates.map(async plate => {
+            const captured = capturedRef.current.get(plate.plate_text);
+            const blob = captured ? await captured.blob : null;
+            return blob ? { plate_text: plate.plate_text, frame_number: captured.frame_number, blob } : null;
+        }));
+        return thumbnails.filter((thumbnail): thumbnail is HistoryThumbnail => thumbnail !== null);
+    }, []);
+
+    const reset = useCallback(() => capturedRef.current.clear(), []);
+
+    return useMemo(() => ({ collect, reset }), [collect, reset]);
+}
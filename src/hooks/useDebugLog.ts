@@ -0,0 +1,11 @@
+// src/hooks/useDebugLog.ts
+// ✅ SUSCRIPCIÓN AL LOGGER: entradas del buffer de la consola de debug y configuración activa
+
+import { useSyncExternalStore } from 'react';
+import { debugLogBuffer, logger, type DebugConfig, type LogEntry } from '../services/logger';
+
+export function useDebugLog(): { entries: LogEntry[]; config: DebugConfig } {
+    const entries = useSyncExternalStore(debugLogBuffer.subscribe, debugLogBuffer.getSnapshot);
+    const config = useSyncExternalStore(logger.subscribe, logger.getConfig);
+    return { entries, config };
+}
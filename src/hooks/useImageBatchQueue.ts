@@ -0,0 +1,15 @@
+// src/hooks/useImageBatchQueue.ts
+// ✅ COLA DE LOTE LIGADA A LA PÁGINA: una instancia por montaje, cancelada al salir
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { ImageBatchQueue } from '../services/imageBatchQueue';
+import type { BatchProcessor, BatchQueueSnapshot } from '../types/batch';
+
+export function useImageBatchQueue(processor: BatchProcessor): { queue: ImageBatchQueue; snapshot: BatchQueueSnapshot } {
+    const [queue] = useState(() => new ImageBatchQueue(processor));
+    const snapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+
+    useEffect(() => () => queue.cancel(), [queue]);
+
+    return { queue, snapshot };
+}
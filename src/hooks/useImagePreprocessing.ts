@@ -0,0 +1,65 @@
+// src/hooks/useImagePreprocessing.ts
+// ✅ PREPROCESA LA IMAGEN ELEGIDA CADA VEZ QUE CAMBIAN LAS OPCIONES (con espera para no saturar al mover sliders)
+
+import { useEffect, useState } from 'react';
+import { imagePreprocessor, toUploadFile } from '../services/imagePreprocessing';
+import { logger } from '../services/logger';
+import type { PreprocessOptions, PreprocessResult } from '../types/preprocessing';
+
+const DEBOUNCE_MS = 250;
+
+interface ImagePreprocessingState {
+    result: PreprocessResult | null;
+    // Archivo listo para subir (null mientras no hay resultado)
+    uploadFile: File | null;
+    // Vista previa del resultado (object URL, se libera al cambiar)
+    previewUrl: string | null;
+    isProcessing: boolean;
+    error: string | null;
+}
+
+const IDLE: ImagePreprocessingState = { result: null, uploadFile: null, previewUrl: null, isProcessing: false, error: null };
+
+export function useImagePreprocessing(file: File | null, options: PreprocessOptions): ImagePreprocessingState {
+    const [state, setState] = useState<ImagePreprocessingState>(IDLE);
+
+    useEffect(() => {
+        if (!file) {
+            setState(IDLE);
+            return;
+        }
+
+        let cancelled = false;
+        let previewUrl: string | null = null;
+        setState(prev => ({ ...prev, isProcessing: true, error: null }));
+
+        const timer = window.setTimeout(() => {
+            imagePreprocessor.process(file, options)
+                .then(result => {
+                    if (cancelled) return;
+                    previewUrl = URL.createObjectURL(result.blob);
+                    setState({ result, uploadFile: toUploadFile(file, result), previewUrl, isProcessing: false, error: null });
+                })
+                .catch(error => {
+                    if (cancelled) return;
+                    logger.warn('Preprocess', 'No se pudo preprocesar la imagen', error);
+                    // Sin preprocesado se sube el original
+                    setState({
+                        result: null,
+                        uploadFile: file,
+                        previewUrl: null,
+                        isProcessing: false,
+                        error: error instanceof Error ? error.message : 'No se pudo preprocesar la imagen'
+                    });
+                });
+        }, DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+            if (previewUrl) URL.revokeObjectURL(previewUrl);
+        };
+    }, [file, options]);
+
+    return state;
+}
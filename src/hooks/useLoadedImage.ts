@@ -0,0 +1,29 @@
+// src/hooks/useLoadedImage.ts
+// ✅ IMAGEN DECODIFICADA A PARTIR DE UNA URL, lista para dibujar en canvas (null mientras carga o si falla)
+
+import { useEffect, useState } from 'react';
+import { logger } from '../services/logger';
+
+export function useLoadedImage(url: string | null): HTMLImageElement | null {
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+    useEffect(() => {
+        setImage(null);
+        if (!url) return;
+
+        let cancelled = false;
+        const next = new Image();
+        next.src = url;
+        next.decode()
+            .then(() => {
+                if (!cancelled) setImage(next);
+            })
+            .catch(error => logger.warn('Image', 'No se pudo decodificar la imagen', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [url]);
+
+    return image;
+}
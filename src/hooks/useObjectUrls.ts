@@ -0,0 +1,16 @@
+// src/hooks/useObjectUrls.ts
+// ✅ OBJECT URLS PARA MOSTRAR BLOBS (miniaturas del historial), liberadas al cambiar o desmontar
+
+import { useEffect, useState } from 'react';
+
+export function useObjectUrls(blobs: Array<Blob | null | undefined>): Array<string | null> {
+    const [urls, setUrls] = useState<Array<string | null>>([]);
+
+    useEffect(() => {
+        const created = blobs.map(blob => (blob ? URL.createObjectURL(blob) : null));
+        setUrls(created);
+        return () => created.forEach(url => url && URL.revokeObjectURL(url));
+    }, [blobs]);
+
+    return urls;
+}
@@ -0,0 +1,10 @@
+// src/hooks/useProcessingConfig.ts
+// ✅ SUSCRIPCIÓN A LA CONFIGURACIÓN DE DETECCIÓN: re-renderiza al mover un ajuste o aplicar un preset
+
+import { useSyncExternalStore } from 'react';
+import { processingConfig } from '../services/processingConfig';
+import type { ProcessingConfigSnapshot } from '../types/processing';
+
+export function useProcessingConfig(): ProcessingConfigSnapshot {
+    return useSyncExternalStore(processingConfig.subscribe, processingConfig.getSnapshot);
+}
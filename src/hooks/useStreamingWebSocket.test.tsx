@@ -0,0 +1,587 @@
+// src/hooks/useStreamingWebSocket.test.tsx
+// ✅ TESTS DEL HOOK DE STREAMING CONTRA UN WEBSOCKET FALSO
+
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeBackpressureAdjustment, useStreamingWebSocket } from './useStreamingWebSocket';
+import { StreamingApiService } from '../services/streamingApi';
+import { savedStreamingSessions } from '../services/streamingSessions';
+import { ApiError } from '../services/apiClient';
+import { watchlist } from '../services/watchlist';
+import { FakeWebSocket } from '../test/fakeWebSocket';
+import { encodeBinaryFrame } from '../test/fixtures';
+import type { SessionInfoResponse, StreamingUploadResponse } from '../types/alpr';
+import { STREAMING_CONSTANTS, type UseStreamingWebSocketConfig } from '../types/streaming';
+
+const WS_BASE_URL = 'ws://alpr.test';
+
+// Sin transporte binario ni backpressure: el test solo ve los mensajes que provoca
+const BASE_CONFIG: UseStreamingWebSocketConfig = {
+    wsBaseUrl: WS_BASE_URL,
+    label: 'Test',
+    verbose: false,
+    persistSession: false,
+    binaryFrames: false,
+    adaptiveBackpressure: false
+};
+
+function renderStreamingHook(config: Partial<UseStreamingWebSocketConfig> = {}) {
+    return renderHook(() => useStreamingWebSocket({ ...BASE_CONFIG, ...config }));
+}
+
+function sessionIdOf(socket: FakeWebSocket): string {
+    return socket.url.slice(`${WS_BASE_URL}/api/v1/streaming/ws/`.length);
+}
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(res => {
+        resolve = res;
+    });
+    return { promise, resolve };
+}
+
+const videoFile = () => new File([new Uint8Array([0, 0, 0, 24])], 'clip.mp4', { type: 'video/mp4' });
+
+beforeEach(() => {
+    FakeWebSocket.reset();
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+});
+
+afterEach(() => {
+    FakeWebSocket.reset();
+});
+
+// 🔄 CICLO DE VIDA DE UN STREAMING
+describe('useStreamingWebSocket: transiciones de estado', () => {
+    it('recorre connected → uploading → initializing → processing → completed', async () => {
+        const upload = deferred<StreamingUploadResponse>();
+        const uploadSpy = vi.spyOn(StreamingApiService.prototype, 'uploadVideoForStreaming').mockReturnValue(upload.promise);
+        const { result } = renderStreamingHook();
+
+        const socket = FakeWebSocket.latest();
+        expect(socket.url.startsWith(`${WS_BASE_URL}/api/v1/streaming/ws/`)).toBe(true);
+        expect(result.current.status).toBe('disconnected');
+
+        act(() => socket.open());
+        expect(result.current.status).toBe('connected');
+        expect(result.current.isConnected).toBe(true);
+        expect(result.current.sessionId).toBe(sessionIdOf(socket));
+
+        const file = videoFile();
+        let streaming!: Promise<void>;
+        act(() => {
+            streaming = result.current.startStreaming(file, { frame_skip: 2 });
+        });
+        expect(result.current.status).toBe('uploading');
+        expect(result.current.isUploading).toBe(true);
+        expect(uploadSpy).toHaveBeenCalledWith(sessionIdOf(socket), file, { frame_skip: 2 }, expect.any(Object));
+
+        await act(async () => {
+            upload.resolve({ success: true } as StreamingUploadResponse);
+            await streaming;
+        });
+        expect(result.current.status).toBe('initializing');
+        expect(result.current.isInitializing).toBe(true);
+
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+        expect(result.current.status).toBe('processing');
+        expect(result.current.isStreaming).toBe(true);
+        expect(result.current.canControl).toBe(true);
+
+        act(() => socket.receive({ type: 'streaming_completed', data: {} }));
+        expect(result.current.status).toBe('completed');
+        expect(result.current.isStreaming).toBe(false);
+        expect(result.current.isCompleted).toBe(true);
+    });
+
+    it('marca error si la subida falla', async () => {
+        vi.spyOn(StreamingApiService.prototype, 'uploadVideoForStreaming')
+            .mockRejectedValue(new ApiError('http', 'Archivo demasiado grande', '/api/v1/streaming/upload', 413));
+        const { result } = renderStreamingHook();
+        act(() => FakeWebSocket.latest().open());
+
+        await act(async () => {
+            await expect(result.current.startStreaming(videoFile())).rejects.toThrow('Archivo demasiado grande');
+        });
+        expect(result.current.status).toBe('error');
+        expect(result.current.error).toBe('Archivo demasiado grande');
+    });
+
+    it('no inicia el streaming sin conexión abierta', async () => {
+        const uploadSpy = vi.spyOn(StreamingApiService.prototype, 'uploadVideoForStreaming');
+        const { result } = renderStreamingHook();
+
+        await expect(result.current.startStreaming(videoFile())).rejects.toThrow('No hay conexión WebSocket activa');
+        expect(uploadSpy).not.toHaveBeenCalled();
+    });
+});
+
+// ⏯️ CONTROLES
+describe('useStreamingWebSocket: pausa, reanudación y parada', () => {
+    it('envía los comandos y refleja la confirmación del servidor', () => {
+        const { result } = renderStreamingHook();
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        act(() => result.current.pauseStreaming());
+        expect(socket.sentTypes()).toContain('pause_processing');
+        // El estado solo cambia cuando el servidor confirma
+        expect(result.current.status).toBe('processing');
+
+        act(() => socket.receive({ type: 'processing_paused', data: {} }));
+        expect(result.current.status).toBe('paused');
+        expect(result.current.isPaused).toBe(true);
+
+        act(() => result.current.resumeStreaming());
+        expect(socket.sentTypes()).toContain('resume_processing');
+        act(() => socket.receive({ type: 'processing_resumed', data: {} }));
+        expect(result.current.status).toBe('processing');
+        expect(result.current.isPaused).toBe(false);
+
+        act(() => result.current.stopStreaming());
+        expect(socket.sentTypes()).toContain('stop_processing');
+        act(() => socket.receive({ type: 'processing_stopped', data: {} }));
+        expect(result.current.status).toBe('stopped');
+        expect(result.current.isStreaming).toBe(false);
+        expect(result.current.isPaused).toBe(false);
+    });
+
+    it('no envía comandos con el socket cerrado', () => {
+        const { result } = renderStreamingHook();
+
+        act(() => result.current.pauseStreaming());
+        expect(FakeWebSocket.latest().sent).toEqual([]);
+    });
+});
+
+// 🔁 RECONEXIÓN
+describe('useStreamingWebSocket: reconexión', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    it('reanuda la misma sesión tras una caída y pide el snapshot', async () => {
+        const sessionInfoSpy = vi.spyOn(StreamingApiService.prototype, 'getSessionInfo')
+            .mockResolvedValue({ success: true } as SessionInfoResponse);
+        const { result } = renderStreamingHook({ reconnectInterval: 1000 });
+
+        const first = FakeWebSocket.latest();
+        act(() => first.open());
+        const sessionId = sessionIdOf(first);
+
+        act(() => first.drop(1006));
+        expect(result.current.status).toBe('disconnected');
+        expect(result.current.isConnected).toBe(false);
+        expect(result.current.connectionMetrics.reconnectAttempt).toBe(1);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        expect(sessionInfoSpy).toHaveBeenCalledWith(sessionId, expect.any(Object));
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        const second = FakeWebSocket.latest();
+        expect(sessionIdOf(second)).toBe(sessionId);
+
+        act(() => second.open());
+        expect(result.current.status).toBe('connected');
+        expect(result.current.sessionId).toBe(sessionId);
+        expect(second.sentTypes()).toContain('get_status');
+    });
+
+    it('abre una sesión nueva si el servidor ya no conoce la anterior', async () => {
+        vi.spyOn(StreamingApiService.prototype, 'getSessionInfo')
+            .mockRejectedValue(new ApiError('http', 'Sesión no encontrada', '/api/v1/streaming/sessions', 404));
+        renderStreamingHook({ reconnectInterval: 1000 });
+
+        const first = FakeWebSocket.latest();
+        act(() => first.open());
+        act(() => first.drop(1006));
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        const second = FakeWebSocket.latest();
+        expect(second).not.toBe(first);
+        expect(sessionIdOf(second)).not.toBe(sessionIdOf(first));
+
+        act(() => second.open());
+        expect(second.sentTypes()).not.toContain('get_status');
+    });
+
+    it('tras cambiar de backend reconecta contra el nuevo wsBaseUrl', async () => {
+        vi.spyOn(StreamingApiService.prototype, 'getSessionInfo').mockResolvedValue({ success: true } as SessionInfoResponse);
+        const { rerender } = renderHook(
+            (props: { wsBaseUrl: string }) => useStreamingWebSocket({ ...BASE_CONFIG, reconnectInterval: 1000, ...props }),
+            { initialProps: { wsBaseUrl: WS_BASE_URL } }
+        );
+        act(() => FakeWebSocket.latest().open());
+
+        // La sesión en curso se intenta reanudar en el nuevo backend (consulta asíncrona)
+        await act(async () => {
+            rerender({ wsBaseUrl: 'ws://campo.test' });
+        });
+        const switched = FakeWebSocket.latest();
+        expect(switched.url.startsWith('ws://campo.test/api/v1/streaming/ws/')).toBe(true);
+        act(() => switched.open());
+
+        act(() => switched.drop(1006));
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        const reconnected = FakeWebSocket.latest();
+        expect(reconnected).not.toBe(switched);
+        expect(reconnected.url.startsWith('ws://campo.test/api/v1/streaming/ws/')).toBe(true);
+    });
+
+    it('consulta la sesión en la API del backend del hook, no en el perfil activo', async () => {
+        const queriedAt: string[] = [];
+        vi.spyOn(StreamingApiService.prototype, 'getSessionInfo').mockImplementation(async function (this: StreamingApiService) {
+            queriedAt.push(this.baseUrl);
+            return { success: true } as SessionInfoResponse;
+        });
+        renderStreamingHook({ apiBaseUrl: 'http://alpr.test', reconnectInterval: 1000 });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+
+        act(() => socket.drop(1006));
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        expect(queriedAt).toEqual(['http://alpr.test']);
+    });
+
+    it('descarta la sesión guardada en otro backend sin consultarla', () => {
+        const sessionInfoSpy = vi.spyOn(StreamingApiService.prototype, 'getSessionInfo');
+        savedStreamingSessions.save('Test', 'sesion-de-campo', 'ws://campo.test');
+
+        renderStreamingHook({ persistSession: true });
+
+        expect(sessionInfoSpy).not.toHaveBeenCalled();
+        expect(sessionIdOf(FakeWebSocket.latest())).not.toBe('sesion-de-campo');
+        expect(window.localStorage.getItem('carid.streaming.session.Test')).toBeNull();
+    });
+
+    it('no reconecta tras un cierre normal', async () => {
+        const { result } = renderStreamingHook({ reconnectInterval: 1000 });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+
+        act(() => socket.drop(1000));
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(60_000);
+        });
+        expect(result.current.status).toBe('disconnected');
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('deja de intentar al alcanzar maxReconnectAttempts', async () => {
+        vi.spyOn(StreamingApiService.prototype, 'getSessionInfo').mockResolvedValue({ success: true } as SessionInfoResponse);
+        renderStreamingHook({ reconnectInterval: 1000, maxReconnectAttempts: 2 });
+        act(() => FakeWebSocket.latest().open());
+
+        for (let attempt = 1; attempt <= 3; attempt++) {
+            act(() => FakeWebSocket.latest().drop(1006));
+            await act(async () => {
+                await vi.advanceTimersByTimeAsync(60_000);
+            });
+        }
+        // Conexión inicial + dos reintentos
+        expect(FakeWebSocket.instances).toHaveLength(3);
+    });
+
+    it('cierra y reemplaza un socket medio abierto cuando vence el heartbeat', async () => {
+        vi.spyOn(StreamingApiService.prototype, 'getSessionInfo').mockResolvedValue({ success: true } as SessionInfoResponse);
+        const { result } = renderStreamingHook({ reconnectInterval: 1000, heartbeatInterval: 1000, heartbeatTimeout: 3000 });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        expect(socket.sentTypes()).toContain('ping');
+        // El servidor responde una vez y luego el túnel queda mudo sin cerrar el socket
+        act(() => socket.receive({ type: 'pong', data: { seq: 1, ts: Date.now() } }));
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(3000);
+        });
+        expect(socket.closedWith).toBeNull();
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        expect(socket.closedWith).toEqual({ code: 4000, reason: 'Heartbeat vencido' });
+        expect(result.current.isConnected).toBe(false);
+        expect(result.current.connectionMetrics.quality).toBe('offline');
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        expect(sessionIdOf(FakeWebSocket.latest())).toBe(sessionIdOf(socket));
+    });
+
+    it('no da por muerto el socket si el servidor nunca respondió un pong', async () => {
+        renderStreamingHook({ reconnectInterval: 1000, heartbeatInterval: 1000, heartbeatTimeout: 3000 });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(10_000);
+        });
+        expect(socket.closedWith).toBeNull();
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    it('disconnect() cierra el socket y cancela la reconexión pendiente', async () => {
+        const { result } = renderStreamingHook({ reconnectInterval: 1000 });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.drop(1006));
+
+        act(() => result.current.disconnect());
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(60_000);
+        });
+        expect(result.current.sessionId).toBe('');
+        expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+});
+
+// 🚨 LISTA DE VIGILANCIA
+describe('useStreamingWebSocket: lista de vigilancia', () => {
+    const detection = (plate_text: string, frame_num: number) => ({
+        frame_num,
+        plate_text,
+        overall_confidence: 0.92,
+        plate_bbox: [100, 200, 180, 230]
+    });
+
+    const update = (data: Record<string, unknown>) => ({ type: 'streaming_update', data });
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: new Date('2024-05-01T10:00:00Z') });
+        watchlist.clear();
+        watchlist.add({ pattern: 'ABC-*', label: 'Robado', priority: 'high' });
+    });
+
+    afterEach(() => {
+        watchlist.clear();
+    });
+
+    it('registra la aparición con el frame del mensaje y no repite mientras la placa sigue en cuadro', () => {
+        const { result } = renderStreamingHook();
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        act(() => socket.receive(update({
+            frame_info: { frame_number: 12 },
+            current_detections: [detection('XYZ-999', 12), detection('ABC-123', 12)],
+            frame_data: { image_base64: 'QUJD', original_size: [640, 480], compressed_size: 3, quality_used: 70 }
+        })));
+
+        expect(result.current.watchlistHits).toHaveLength(1);
+        expect(result.current.watchlistHits[0]).toMatchObject({
+            plate_text: 'ABC-123',
+            label: 'Robado',
+            priority: 'high',
+            frame_number: 12,
+            confidence: 0.92,
+            source: 'detection',
+            session_id: sessionIdOf(socket),
+            snapshot: 'data:image/jpeg;base64,QUJD'
+        });
+
+        // Sigue viéndose cada pocos segundos: no vuelve a alertar aunque pase el tiempo de realerta en total
+        for (let frame = 13; frame <= 18; frame++) {
+            vi.advanceTimersByTime(10_000);
+            act(() => socket.receive(update({ current_detections: [detection('ABC-123', frame)] })));
+        }
+        expect(result.current.watchlistHits).toHaveLength(1);
+
+        // Tras un rato sin verla, su regreso sí alerta
+        vi.advanceTimersByTime(31_000);
+        act(() => socket.receive(update({ current_detections: [detection('ABC123', 40)] })));
+        expect(result.current.watchlistHits.map(hit => hit.frame_number)).toEqual([40, 12]);
+        expect(result.current.watchlistHits[0].snapshot).toBeNull();
+    });
+
+    it('el resumen de placas alerta una sola vez por sesión', () => {
+        const { result } = renderStreamingHook();
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        const summary = update({
+            all_plates_summary: {
+                complete_list: [{ plate_text: 'ABC-777', detection_count: 3, best_confidence: 0.8, best_frame: 55 }]
+            }
+        });
+        act(() => socket.receive(summary));
+        vi.advanceTimersByTime(120_000);
+        act(() => socket.receive(summary));
+
+        expect(result.current.watchlistHits).toHaveLength(1);
+        expect(result.current.watchlistHits[0]).toMatchObject({ plate_text: 'ABC-777', frame_number: 55, source: 'summary' });
+
+        // Una sesión nueva vuelve a alertar; clearWatchlistHits vacía el registro
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+        act(() => socket.receive(summary));
+        expect(result.current.watchlistHits).toHaveLength(2);
+
+        act(() => result.current.clearWatchlistHits());
+        expect(result.current.watchlistHits).toEqual([]);
+    });
+});
+
+// 🧬 TRANSPORTE BINARIO
+describe('useStreamingWebSocket: frames binarios', () => {
+    let nextUrl = 0;
+    const created: Blob[] = [];
+    // jsdom no implementa las URLs de objeto
+    class TestURL extends URL {
+        static createObjectURL = vi.fn((blob: Blob) => {
+            created.push(blob);
+            return `blob:frame-${++nextUrl}`;
+        });
+        static revokeObjectURL = vi.fn();
+    }
+
+    const frameMessage = (frame_number: number) => encodeBinaryFrame(
+        { type: 'streaming_update', data: { frame_info: { frame_number } } },
+        new Uint8Array([0xff, 0xd8, frame_number, 0xff, 0xd9])
+    );
+
+    beforeEach(() => {
+        nextUrl = 0;
+        created.length = 0;
+        TestURL.createObjectURL.mockClear();
+        TestURL.revokeObjectURL.mockClear();
+        vi.stubGlobal('URL', TestURL);
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+    });
+
+    it('pinta el JPEG del mensaje binario y revoca la URL del frame reemplazado', () => {
+        const { result, unmount } = renderStreamingHook({ binaryFrames: true });
+        const socket = FakeWebSocket.latest();
+        expect(socket.binaryType).toBe('arraybuffer');
+        act(() => socket.open());
+        expect(socket.sentMessages().find(message => message.type === 'negotiate_transport')?.data)
+            .toMatchObject({ frame_transports: ['binary', 'json'], binary_format: 'header-jpeg-v1' });
+
+        act(() => socket.receive({ type: 'transport_selected', data: { frame_transport: 'binary', binary_format: 'header-jpeg-v1' } }));
+        expect(result.current.frameTransport).toBe('binary');
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        act(() => socket.receiveBinary(frameMessage(1)));
+        act(() => {
+            vi.advanceTimersByTime(16);
+        });
+        expect(result.current.currentFrame).toMatchObject({ image: 'blob:frame-1', frameNumber: 1 });
+        expect(created[0].type).toBe('image/jpeg');
+        expect(created[0].size).toBe(5);
+        expect(TestURL.revokeObjectURL).not.toHaveBeenCalled();
+
+        act(() => socket.receiveBinary(frameMessage(2)));
+        act(() => {
+            vi.advanceTimersByTime(16);
+        });
+        expect(result.current.currentFrame).toMatchObject({ image: 'blob:frame-2', frameNumber: 2 });
+        expect(TestURL.revokeObjectURL).toHaveBeenCalledWith('blob:frame-1');
+        expect(TestURL.revokeObjectURL).not.toHaveBeenCalledWith('blob:frame-2');
+
+        unmount();
+        expect(TestURL.revokeObjectURL).toHaveBeenCalledWith('blob:frame-2');
+    });
+
+    it('descarta un mensaje binario truncado sin cerrar el socket', () => {
+        const { result } = renderStreamingHook({ binaryFrames: true });
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        act(() => socket.receiveBinary(frameMessage(1).slice(0, 10)));
+        act(() => {
+            vi.advanceTimersByTime(16);
+        });
+        expect(result.current.currentFrame).toBeNull();
+        expect(TestURL.createObjectURL).not.toHaveBeenCalled();
+        expect(socket.closedWith).toBeNull();
+        expect(result.current.isConnected).toBe(true);
+    });
+});
+
+// 🐢 RENDER Y BACKPRESSURE
+describe('computeBackpressureAdjustment', () => {
+    const { MAX_FRAME_SKIP, QUALITY_STEP } = STREAMING_CONSTANTS.RENDER_BACKPRESSURE;
+    const { MIN_QUALITY } = STREAMING_CONSTANTS.QUALITY_SETTINGS;
+    const qualityInfo = (current_quality: number, recommended_frame_skip: number) =>
+        ({ current_quality, recommended_frame_skip, adaptive_enabled: true });
+
+    it('sube frame_skip en uno y baja la calidad un paso', () => {
+        expect(computeBackpressureAdjustment(null, 2, 70)).toEqual({ frame_skip: 3, quality: 70 - QUALITY_STEP });
+    });
+
+    it('respeta el frame_skip recomendado y parte de la calidad que informa el servidor', () => {
+        expect(computeBackpressureAdjustment(qualityInfo(50, 6), 2, 70)).toEqual({ frame_skip: 6, quality: 50 - QUALITY_STEP });
+        // Una recomendación menor que el frame_skip actual no lo baja
+        expect(computeBackpressureAdjustment(qualityInfo(50, 1), 4, 70)).toEqual({ frame_skip: 5, quality: 50 - QUALITY_STEP });
+    });
+
+    it('no pasa de MAX_FRAME_SKIP ni baja de MIN_QUALITY', () => {
+        expect(computeBackpressureAdjustment(qualityInfo(70, 50), 2, 70)).toEqual({ frame_skip: MAX_FRAME_SKIP, quality: 70 - QUALITY_STEP });
+        expect(computeBackpressureAdjustment(null, MAX_FRAME_SKIP, 70)).toEqual({ frame_skip: MAX_FRAME_SKIP, quality: 70 - QUALITY_STEP });
+        expect(computeBackpressureAdjustment(null, 3, MIN_QUALITY + 1)).toEqual({ frame_skip: 4, quality: MIN_QUALITY });
+    });
+
+    it('devuelve null si ya está en ambos límites', () => {
+        expect(computeBackpressureAdjustment(null, MAX_FRAME_SKIP, MIN_QUALITY)).toBeNull();
+        expect(computeBackpressureAdjustment(qualityInfo(MIN_QUALITY, MAX_FRAME_SKIP + 5), MAX_FRAME_SKIP, 70)).toBeNull();
+    });
+});
+
+describe('useStreamingWebSocket: render por animation frame', () => {
+    const frameUpdate = (frame_number: number, image_base64: string) => ({
+        type: 'streaming_update',
+        data: {
+            frame_info: { frame_number },
+            frame_data: { image_base64, original_size: [640, 480], quality_used: 70 }
+        }
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+    });
+
+    it('dos actualizaciones en el mismo frame pintan solo la más nueva y cuentan la descartada', () => {
+        const { result } = renderStreamingHook();
+        const socket = FakeWebSocket.latest();
+        act(() => socket.open());
+        act(() => socket.receive({ type: 'streaming_started', data: {} }));
+
+        act(() => {
+            socket.receive(frameUpdate(1, 'VU5P'));
+            socket.receive(frameUpdate(2, 'RE9T'));
+        });
+        // Nada se pinta hasta el próximo animation frame
+        expect(result.current.currentFrame).toBeNull();
+
+        act(() => {
+            vi.advanceTimersByTime(16);
+        });
+        expect(result.current.currentFrame).toMatchObject({ image: 'data:image/jpeg;base64,RE9T', frameNumber: 2 });
+        expect(result.current.renderStats).toMatchObject({ framesReceived: 2, framesRendered: 1, framesDropped: 1 });
+
+        act(() => socket.receive(frameUpdate(3, 'VFJFUw==')));
+        act(() => {
+            vi.advanceTimersByTime(16);
+        });
+        expect(result.current.currentFrame?.frameNumber).toBe(3);
+        expect(result.current.renderStats).toMatchObject({ framesReceived: 3, framesRendered: 2, framesDropped: 1 });
+    });
+});
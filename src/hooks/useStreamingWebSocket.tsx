@@ -1,8 +1,19 @@
 // src/hooks/useStreamingWebSocket.tsx
 // ✅ VERSIÓN CORREGIDA CON MANEJO CORRECTO DE PLACAS DETECTADAS
 
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { streamingApi } from '../services/streamingApi';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { z } from 'zod';
+import { StreamingApiService } from '../services/streamingApi';
+import { ApiError, reportSchemaMismatch } from '../services/apiClient';
+import { useBackendConfig } from './useBackendConfig';
+import { savedStreamingSessions } from '../services/streamingSessions';
+import { logger, LOG_CATEGORIES } from '../services/logger';
+import { BINARY_FRAME_FORMAT, decodeBinaryFrame } from '../services/binaryFrames';
+import { CONNECTION_HEALTH, MessageRateMeter, backoffDelay, classifyConnectionQuality } from '../services/connectionHealth';
+import { SessionRecorder, SessionReplayer, base64ToBlob } from '../services/sessionRecorder';
+import { watchlist } from '../services/watchlist';
+import type { CameraSource } from '../types/alpr';
+import type { WatchlistHit, WatchlistHitSource } from '../types/watchlist';
 import {
     StreamingFrame,
     PlateDetection,
@@ -11,12 +22,21 @@ import {
     StreamingState,
     StreamingStatus,
     StreamingOptions,
+    ConnectionMetrics,
+    RenderStats,
+    LiveStreamingOptions,
+    LiveFrame,
+    STREAMING_CONSTANTS,
     UseStreamingWebSocketConfig,
     UseStreamingWebSocketReturn,
     MessageHandler,
     WebSocketMessage,
+    StreamingUpdateData,
+    SessionSnapshotState,
+    SessionRecording,
     isStreamingUpdateData,
 } from '../types/streaming';
+import { StreamingUpdateDataSchema, SessionSnapshotStateSchema, HeartbeatPongSchema, TransportSelectionSchema, WebSocketMessageSchema, parsePayload, type ParsedPayload } from '../types/schemas';
 
 // ✅ INTERFACE EXTENDIDA PARA MANEJO COMPLETO DE PLACAS
 interface ExtendedStreamingState extends StreamingState {
@@ -35,6 +55,86 @@ interface ExtendedStreamingState extends StreamingState {
     } | null;
 }
 
+const SNAPSHOT_MESSAGE_TYPES = ['status_response', 'session_status'];
+
+const SNAPSHOT_STATUSES: StreamingStatus[] = ['processing', 'paused', 'completed', 'stopped', 'error', 'initializing'];
+
+// El servidor informa su propio estado; solo se aceptan los que el frontend sabe mostrar
+function resolveSnapshotStatus(snapshot: SessionSnapshotState): StreamingStatus | null {
+    const status = snapshot.status as StreamingStatus | undefined;
+    if (status && SNAPSHOT_STATUSES.includes(status)) return status;
+    if (snapshot.is_paused) return 'paused';
+    if (snapshot.is_processing) return 'processing';
+    return null;
+}
+
+const OFFLINE_METRICS: ConnectionMetrics = {
+    rttMs: null,
+    messageRate: 0,
+    quality: 'offline',
+    lastMessageAt: null,
+    reconnectAttempt: 0
+};
+
+// Mensaje con formato inesperado: se registra y quien lo recibe lo descarta
+function parseMessage<Output>(schema: z.ZodType<Output, z.ZodTypeDef, unknown>, raw: unknown, source: string): ParsedPayload<Output> {
+    const result = parsePayload(schema, raw);
+    if (!result.success) reportSchemaMismatch(source, result.issues, raw);
+    return result;
+}
+
+// Cada cuánto se revisan heartbeat, silencio y métricas
+const HEALTH_TICK_MS = 1000;
+
+const EMPTY_RENDER_STATS: RenderStats = {
+    framesReceived: 0,
+    framesRendered: 0,
+    framesDropped: 0,
+    backpressureRequests: 0
+};
+
+// Cada cuánto se reflejan en el estado el contador de la grabación y el avance de la reproducción
+const RECORDING_SYNC_MS = 500;
+
+// Mensajes que pasan por el planificador de render; el resto lo vacía antes para conservar el orden
+const RENDERED_MESSAGE_TYPES = ['streaming_update', 'frame_update', 'detection_update', 'progress_update'];
+
+// 🚨 LISTA DE VIGILANCIA
+// Una placa que sigue en cuadro no vuelve a alertar; si desaparece este tiempo, su regreso sí alerta
+const WATCHLIST_REALERT_MS = 30_000;
+// Alertas que conserva el registro (las más viejas liberan su snapshot)
+const MAX_WATCHLIST_HITS = 100;
+
+function compactPlateText(text: string): string {
+    return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function releaseSnapshot(hit: WatchlistHit): void {
+    if (hit.snapshot?.startsWith('blob:')) URL.revokeObjectURL(hit.snapshot);
+}
+
+interface PendingFrame {
+    // JPEG binario o base64 del transporte JSON
+    source: Blob | string;
+    frameInfo: StreamingUpdateData['frame_info'];
+}
+
+// 🐢 CÓMO ALIGERAR EL STREAM: más frame_skip (al menos el recomendado) y menos calidad JPEG
+// null si ya está en los límites y no hay nada que pedir
+export function computeBackpressureAdjustment(
+    qualityInfo: StreamingUpdateData['quality_info'] | null,
+    currentFrameSkip: number,
+    currentQuality: number
+): { frame_skip: number; quality: number } | null {
+    const { MAX_FRAME_SKIP, QUALITY_STEP } = STREAMING_CONSTANTS.RENDER_BACKPRESSURE;
+    const baseQuality = qualityInfo?.current_quality || currentQuality;
+    const frameSkip = Math.min(MAX_FRAME_SKIP, Math.max(currentFrameSkip + 1, qualityInfo?.recommended_frame_skip || 0));
+    const quality = Math.max(STREAMING_CONSTANTS.QUALITY_SETTINGS.MIN_QUALITY, baseQuality - QUALITY_STEP);
+
+    if (frameSkip <= currentFrameSkip && quality >= baseQuality) return null;
+    return { frame_skip: frameSkip, quality };
+}
+
 export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseStreamingWebSocketReturn {
     // ✅ ESTADO EXTENDIDO CON INFORMACIÓN COMPLETA DE PLACAS
     const [state, setState] = useState<ExtendedStreamingState>({
@@ -49,6 +149,16 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
         uniquePlates: [],
         progress: { processed: 0, total: 0, percent: 0 },
         processingSpeed: 0,
+        uploadProgress: null,
+        isLive: false,
+        cameraSourceId: null,
+        connectionMetrics: OFFLINE_METRICS,
+        frameTransport: 'json',
+        renderStats: EMPTY_RENDER_STATS,
+        isRecording: false,
+        recordedMessages: 0,
+        replay: null,
+        watchlistHits: [],
         // ✅ NUEVOS CAMPOS PARA MANEJO COMPLETO
         allUniquePlates: [],
         spatialRegions: {},
@@ -60,6 +170,49 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
     const messageHandlersRef = useRef<Map<string, MessageHandler[]>>(new Map());
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const reconnectAttemptsRef = useRef(0);
+    const uploadAbortRef = useRef<AbortController | null>(null);
+    // Sesión a la que volver tras una caída del socket
+    const sessionIdRef = useRef<string | null>(null);
+    const connectingRef = useRef(false);
+    // Invalida la comprobación de sesión en curso si el socket se cierra antes de que termine
+    const connectAttemptRef = useRef(0);
+
+    // 💓 HEARTBEAT Y MÉTRICAS DE CONEXIÓN
+    const healthTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const rateMeterRef = useRef(new MessageRateMeter());
+    const lastMessageAtRef = useRef<number | null>(null);
+    const lastPingAtRef = useRef(0);
+    const pingSeqRef = useRef(0);
+    // Ping más antiguo sin respuesta: mide el RTT y cuánto lleva esperando
+    const pendingPingRef = useRef<{ seq: number; sentAt: number } | null>(null);
+    const rttRef = useRef<number | null>(null);
+    // Un backend que nunca respondió un pong no puede juzgarse por el silencio
+    const pongSupportedRef = useRef(false);
+    // Object URL del frame binario mostrado; se revoca al reemplazarlo
+    const frameUrlRef = useRef<string | null>(null);
+
+    // 🎞️ PLANIFICADOR DE RENDER: las actualizaciones se acumulan y se aplican una vez por animation frame
+    const renderFrameRef = useRef<number | null>(null);
+    const pendingUpdateRef = useRef<StreamingUpdateData | null>(null);
+    const pendingFrameRef = useRef<PendingFrame | null>(null);
+    const renderCountersRef = useRef<RenderStats>({ ...EMPTY_RENDER_STATS });
+    // Contadores al inicio de la ventana de evaluación de backpressure
+    const backpressureWindowRef = useRef({ startedAt: Date.now(), received: 0, dropped: 0 });
+    const lastBackpressureAtRef = useRef(0);
+    const latestQualityInfoRef = useRef<StreamingUpdateData['quality_info'] | null>(null);
+    // Parámetros con los que el servidor está enviando (se actualizan al pedir un ajuste)
+    const frameSkipRef = useRef<number>(STREAMING_CONSTANTS.DEFAULT_FRAME_SKIP);
+    const jpegQualityRef = useRef<number>(STREAMING_CONSTANTS.QUALITY_SETTINGS.DEFAULT_QUALITY);
+
+    // Grabación de mensajes entrantes y reproducción offline
+    const recorderRef = useRef(new SessionRecorder());
+    const replayerRef = useRef(new SessionReplayer());
+    const recordingSyncAtRef = useRef(0);
+    const replaySyncAtRef = useRef(0);
+
+    // Lista de vigilancia: última vez que se vio cada placa vigilada en esta sesión y alertas guardadas
+    const watchlistSeenRef = useRef(new Map<string, number>());
+    const watchlistHitsRef = useRef<WatchlistHit[]>([]);
 
     // ✅ REFERENCIAS PARA DEBUGGING Y CONTROL
     const messageCountRef = useRef(0);
@@ -67,26 +220,37 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
     const lastFrameNumberRef = useRef(0);
     const plateUpdateCountRef = useRef(0);
 
-    // Configuración
-    const wsBaseUrl = config.wsBaseUrl || streamingApi.wsBaseUrl;
+    // Configuración (se re-suscribe al cambiar el perfil del backend)
+    const backend = useBackendConfig();
+    const wsBaseUrl = config.wsBaseUrl || backend.wsBaseUrl;
+    const apiBaseUrl = config.apiBaseUrl || backend.apiBaseUrl;
+    // Las consultas REST van al mismo backend que el socket, no al perfil activo global
+    const api = useMemo(() => new StreamingApiService(apiBaseUrl, wsBaseUrl), [apiBaseUrl, wsBaseUrl]);
     const reconnectInterval = config.reconnectInterval || 3000;
     const maxReconnectAttempts = config.maxReconnectAttempts || 5;
-
-    // ✅ LOGGING MEJORADO con colores y timestamps
+    const maxReconnectDelay = config.maxReconnectDelay || CONNECTION_HEALTH.MAX_RECONNECT_DELAY_MS;
+    const heartbeatInterval = config.heartbeatInterval || CONNECTION_HEALTH.HEARTBEAT_INTERVAL_MS;
+    const heartbeatTimeout = config.heartbeatTimeout || CONNECTION_HEALTH.HEARTBEAT_TIMEOUT_MS;
+    // Varias instancias (p. ej. /monitor) se distinguen por la etiqueta y pueden silenciar el detalle
+    const label = config.label || 'WebSocket';
+    const verbose = config.verbose ?? true;
+    const autoConnect = config.autoConnect ?? true;
+    const persistSession = config.persistSession ?? true;
+    const binaryFrames = config.binaryFrames ?? true;
+    const adaptiveBackpressure = config.adaptiveBackpressure ?? true;
+
+    // ✅ LOGS DE CONEXIÓN (la categoría es la etiqueta de la instancia)
     const log = useCallback((level: 'info' | 'warn' | 'error', message: string, data?: unknown) => {
-        const timestamp = new Date().toISOString().split('T')[1].slice(0, -1);
-        const colors = {
-            info: 'color: #3b82f6',
-            warn: 'color: #f59e0b',
-            error: 'color: #ef4444'
-        };
+        // Las advertencias y errores se registran siempre; el resto solo en modo detallado
+        if (level === 'info' && !verbose) return;
+        logger.log(level, label, message, data);
+    }, [label, verbose]);
 
-        console.log(
-            `%c[${timestamp}] [WebSocket] ${message}`,
-            colors[level],
-            data || ''
-        );
-    }, []);
+    // 🔇 TRAZAS DETALLADAS (nivel debug; Frames y Detections dependen de la configuración de debug)
+    const trace = useCallback((category: string, message: string, data?: unknown) => {
+        if (!verbose) return;
+        logger.debug(category, category === label ? message : `[${label}] ${message}`, data);
+    }, [label, verbose]);
 
     // Generar session ID único
     const generateSessionId = useCallback(() => {
@@ -96,6 +260,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
     // ✅ FUNCIÓN DE DEBUG MEJORADO PARA PLACAS
     const debugStreamingUpdate = useCallback((data: any, source: string = 'unknown') => {
         messageCountRef.current += 1;
+        if (!verbose || !logger.isEnabled('debug', LOG_CATEGORIES.FRAMES)) return null;
 
         const debugInfo = {
             messageCount: messageCountRef.current,
@@ -122,24 +287,95 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             timestamp: new Date().toISOString()
         };
 
-        console.group(`%c🔍 STREAMING UPDATE #${messageCountRef.current}`, 'color: #8b5cf6; font-weight: bold');
-        console.table(debugInfo);
-        console.log('📦 Raw data:', data);
-        console.groupEnd();
+        trace(LOG_CATEGORIES.FRAMES, `🔍 STREAMING UPDATE #${messageCountRef.current}`, debugInfo);
 
         return debugInfo;
+    }, [verbose, trace]);
+
+    const releaseFrameUrl = useCallback(() => {
+        if (frameUrlRef.current) URL.revokeObjectURL(frameUrlRef.current);
+        frameUrlRef.current = null;
     }, []);
 
-    // ✅ FUNCIÓN COMPLETAMENTE REESCRITA PARA MANEJO DE PLACAS
-    const handleStreamingUpdate = useCallback((data: unknown) => {
-        const debugInfo = debugStreamingUpdate(data, 'handleStreamingUpdate');
+    // 🐢 BACKPRESSURE: si el cliente descarta demasiados frames se pide al servidor que aligere
+    const evaluateBackpressure = useCallback(() => {
+        const { WINDOW_MS, MIN_FRAMES, DROP_RATIO, COOLDOWN_MS } = STREAMING_CONSTANTS.RENDER_BACKPRESSURE;
+        const now = Date.now();
+        const counters = renderCountersRef.current;
+        const windowStart = backpressureWindowRef.current;
+        if (now - windowStart.startedAt < WINDOW_MS) return;
+
+        const received = counters.framesReceived - windowStart.received;
+        const dropped = counters.framesDropped - windowStart.dropped;
+        backpressureWindowRef.current = { startedAt: now, received: counters.framesReceived, dropped: counters.framesDropped };
+
+        // Con la pestaña oculta no se pinta nada y todo cuenta como descartado
+        if (!adaptiveBackpressure || document.hidden) return;
+        if (received < MIN_FRAMES || dropped / received < DROP_RATIO) return;
+        if (now - lastBackpressureAtRef.current < COOLDOWN_MS) return;
+
+        const adjustment = computeBackpressureAdjustment(latestQualityInfoRef.current, frameSkipRef.current, jpegQualityRef.current);
+        const ws = wsRef.current;
+        if (!adjustment || !ws || ws.readyState !== WebSocket.OPEN) return;
+
+        ws.send(JSON.stringify({
+            type: 'adjust_stream',
+            data: { ...adjustment, reason: 'client_backpressure', dropped_ratio: Number((dropped / received).toFixed(2)) }
+        }));
+        lastBackpressureAtRef.current = now;
+        frameSkipRef.current = adjustment.frame_skip;
+        jpegQualityRef.current = adjustment.quality;
+        counters.backpressureRequests += 1;
+        log('warn', `El cliente descarta ${dropped}/${received} frames: se pide frame_skip ${adjustment.frame_skip} y calidad ${adjustment.quality}`);
+    }, [adaptiveBackpressure, log]);
+
+    // Descarta lo pendiente (nueva sesión o desconexión) y reinicia los contadores
+    const resetRenderQueue = useCallback(() => {
+        if (renderFrameRef.current !== null) cancelAnimationFrame(renderFrameRef.current);
+        renderFrameRef.current = null;
+        pendingUpdateRef.current = null;
+        pendingFrameRef.current = null;
+        renderCountersRef.current = { ...EMPTY_RENDER_STATS };
+        backpressureWindowRef.current = { startedAt: Date.now(), received: 0, dropped: 0 };
+        latestQualityInfoRef.current = null;
+    }, []);
 
-        if (!data || typeof data !== 'object') {
-            console.error('❌ Invalid data received:', data);
-            return;
+    // Nueva fuente: contadores a cero y parámetros de partida para el backpressure
+    const prepareRenderForStream = useCallback((frameSkip?: number) => {
+        resetRenderQueue();
+        frameSkipRef.current = frameSkip || STREAMING_CONSTANTS.DEFAULT_FRAME_SKIP;
+        jpegQualityRef.current = STREAMING_CONSTANTS.QUALITY_SETTINGS.DEFAULT_QUALITY;
+    }, [resetRenderQueue]);
+
+    // 🖌️ APLICAR TODO LO ACUMULADO DESDE EL ÚLTIMO ANIMATION FRAME
+    const flushRender = useCallback(() => {
+        if (renderFrameRef.current !== null) cancelAnimationFrame(renderFrameRef.current);
+        renderFrameRef.current = null;
+
+        const pendingUpdate = pendingUpdateRef.current;
+        const pendingFrame = pendingFrameRef.current;
+        pendingUpdateRef.current = null;
+        pendingFrameRef.current = null;
+        if (!pendingUpdate && !pendingFrame) return;
+
+        const updateData: StreamingUpdateData = {
+            ...pendingUpdate,
+            // El frame pintado conserva sus propios metadatos
+            ...(pendingFrame ? { frame_info: pendingFrame.frameInfo } : {})
+        };
+        debugStreamingUpdate(updateData, 'flushRender');
+
+        // Solo el frame más nuevo llega a decodificarse; la URL se crea fuera del updater de setState
+        let frameImage: string | null = null;
+        if (pendingFrame) {
+            const { source } = pendingFrame;
+            frameImage = source instanceof Blob ? URL.createObjectURL(source) : `data:image/jpeg;base64,${source}`;
+            const previousUrl = frameUrlRef.current;
+            frameUrlRef.current = source instanceof Blob ? frameImage : null;
+            if (previousUrl) URL.revokeObjectURL(previousUrl);
+            renderCountersRef.current.framesRendered += 1;
         }
-
-        const updateData = data as any;
+        const renderStats = { ...renderCountersRef.current };
 
         setState(prev => {
             const newState = { ...prev };
@@ -150,22 +386,24 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             let enhancementUpdated = false;
 
             // ✅ 1. ACTUALIZAR FRAME (CRÍTICO PARA STREAMING CONTINUO)
-            if (updateData.frame_data?.image_base64) {
+            if (frameImage) {
                 frameUpdateCountRef.current += 1;
                 const frameNumber = updateData.frame_info?.frame_number || (lastFrameNumberRef.current + 1);
                 lastFrameNumberRef.current = frameNumber;
 
                 newState.currentFrame = {
-                    image: `data:image/jpeg;base64,${updateData.frame_data.image_base64}`,
+                    image: frameImage,
                     frameNumber: frameNumber,
                     timestamp: updateData.frame_info?.timestamp || Date.now(),
                     processingTime: updateData.frame_info?.processing_time || 0
                 };
 
                 frameUpdated = true;
-                console.log(`%c🖼️ FRAME UPDATED #${frameUpdateCountRef.current}`, 'color: #10b981; font-weight: bold', {
+                trace(LOG_CATEGORIES.FRAMES, `🖼️ FRAME UPDATED #${frameUpdateCountRef.current}`, {
                     frameNumber: frameNumber,
-                    imageLength: updateData.frame_data.image_base64.length,
+                    transport: pendingFrame.source instanceof Blob ? 'binary' : 'json',
+                    imageLength: pendingFrame.source instanceof Blob ? pendingFrame.source.size : pendingFrame.source.length,
+                    droppedFrames: renderStats.framesDropped,
                     processingTime: newState.currentFrame.processingTime,
                     roiUsed: updateData.frame_info?.roi_used || false,
                     sixCharFilter: updateData.frame_info?.six_char_filter_applied || false
@@ -183,7 +421,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                     processingTime: updateData.frame_info.processing_time || prev.currentFrame.processingTime
                 };
 
-                console.log(`%c📋 FRAME METADATA UPDATED`, 'color: #f59e0b', {
+                trace(LOG_CATEGORIES.FRAMES, `📋 FRAME METADATA UPDATED`, {
                     frameNumber: frameNumber,
                     keptPreviousImage: true
                 });
@@ -199,7 +437,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 newState.processingSpeed = Number(updateData.progress.processing_speed || prev.processingSpeed);
                 progressUpdated = true;
 
-                console.log(`%c📊 PROGRESS UPDATED`, 'color: #3b82f6', {
+                trace(LOG_CATEGORIES.FRAMES, `📊 PROGRESS UPDATED`, {
                     processed: newState.progress.processed,
                     total: newState.progress.total,
                     percent: newState.progress.percent.toFixed(1) + '%'
@@ -207,13 +445,11 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             }
 
             // ✅ 3. ACTUALIZAR DETECCIONES DEL FRAME ACTUAL
-            if (updateData.hasOwnProperty('current_detections')) {
-                newState.detections = Array.isArray(updateData.current_detections)
-                    ? updateData.current_detections
-                    : [];
+            if (updateData.current_detections !== undefined) {
+                newState.detections = updateData.current_detections;
                 detectionsUpdated = true;
 
-                console.log(`%c🎯 DETECTIONS UPDATED`, 'color: #ef4444', {
+                trace(LOG_CATEGORIES.DETECTIONS, `🎯 DETECTIONS UPDATED`, {
                     count: newState.detections.length,
                     frameNumber: updateData.frame_info?.frame_number || 'unknown',
                     sixCharDetections: newState.detections.filter(d => d.six_char_validated).length
@@ -229,11 +465,11 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 newState.uniquePlates = completeList.slice(0, 10); // Mantener compatibilidad con uniquePlates original
                 platesUpdated = true;
 
-                console.log(`%c🏆 ALL PLATES UPDATED #${plateUpdateCountRef.current}`, 'color: #8b5cf6; font-weight: bold', {
+                trace(LOG_CATEGORIES.DETECTIONS, `🏆 ALL PLATES UPDATED #${plateUpdateCountRef.current}`, {
                     totalPlates: completeList.length,
                     sixCharPlates: completeList.filter(p => p.is_six_char_valid).length,
                     validPlates: completeList.filter(p => p.is_valid_format).length,
-                    autoFormattedPlates: completeList.filter(p => (p as any).auto_formatted || (p as any).is_auto_formatted).length
+                    autoFormattedPlates: completeList.filter(p => p.auto_formatted).length
                 });
             }
             // Fallback: usar detection_summary si no hay all_plates_summary
@@ -247,7 +483,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 }
 
                 platesUpdated = true;
-                console.log(`%c🥈 FALLBACK PLATES UPDATED`, 'color: #f59e0b', {
+                trace(LOG_CATEGORIES.DETECTIONS, `🥈 FALLBACK PLATES UPDATED`, {
                     bestPlates: bestPlates.length,
                     usingAsFallback: newState.allUniquePlates.length === bestPlates.length
                 });
@@ -256,7 +492,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             // ✅ 5. ACTUALIZAR INFORMACIÓN ESPACIAL
             if (updateData.spatial_analysis?.regions_found) {
                 newState.spatialRegions = updateData.spatial_analysis.regions_found;
-                console.log(`%c🗺️ SPATIAL DATA UPDATED`, 'color: #06b6d4', {
+                trace(LOG_CATEGORIES.DETECTIONS, `🗺️ SPATIAL DATA UPDATED`, {
                     regionsCount: Object.keys(newState.spatialRegions).length,
                     regions: Object.keys(newState.spatialRegions)
                 });
@@ -277,7 +513,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 };
                 enhancementUpdated = true;
 
-                console.log(`%c⚡ ENHANCEMENT STATS UPDATED`, 'color: #8b5cf6', {
+                trace(LOG_CATEGORIES.DETECTIONS, `⚡ ENHANCEMENT STATS UPDATED`, {
                     roiProcessing: newState.enhancementStats.roi_processing,
                     sixCharFilter: newState.enhancementStats.six_char_filter_active,
                     autoFormatting: newState.enhancementStats.auto_dash_formatting,
@@ -288,7 +524,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             }
 
             // ✅ 7. LOG DEL RESULTADO FINAL COMPLETO
-            console.log(`%c📈 STATE UPDATE SUMMARY`, 'color: #059669; font-weight: bold', {
+            trace(LOG_CATEGORIES.FRAMES, `📈 STATE UPDATE SUMMARY`, {
                 frameUpdated,
                 detectionsUpdated,
                 progressUpdated,
@@ -302,16 +538,163 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 enhancementStatsAvailable: !!newState.enhancementStats
             });
 
+            newState.renderStats = renderStats;
             return newState;
         });
-    }, [debugStreamingUpdate]);
+
+        evaluateBackpressure();
+    }, [debugStreamingUpdate, evaluateBackpressure, trace]);
+
+    // 🚨 COMPARAR CADA ACTUALIZACIÓN CON LA LISTA DE VIGILANCIA
+    // Se hace por mensaje, antes de agrupar el render, para no perder detecciones de frames descartados.
+    // Las detecciones realertan tras WATCHLIST_REALERT_MS sin ver la placa; el resumen solo alerta una vez.
+    const checkWatchlist = useCallback((update: StreamingUpdateData, frameSource: Blob | string | null) => {
+        if (watchlist.getSnapshot().length === 0) return;
+
+        const candidates: Array<{ plate_text: string; confidence: number; frame_number: number | null; source: WatchlistHitSource }> = [
+            ...(update.current_detections || []).map(detection => ({
+                plate_text: detection.plate_text,
+                confidence: detection.overall_confidence || detection.plate_confidence || 0,
+                frame_number: detection.frame_num ?? update.frame_info?.frame_number ?? null,
+                source: 'detection' as const
+            })),
+            ...(update.all_plates_summary?.complete_list || []).map(plate => ({
+                plate_text: plate.plate_text,
+                confidence: plate.best_confidence || plate.avg_confidence || 0,
+                frame_number: plate.best_frame ?? null,
+                source: 'summary' as const
+            }))
+        ];
+
+        const now = Date.now();
+        const seen = watchlistSeenRef.current;
+        const hits: WatchlistHit[] = [];
+
+        candidates.forEach(candidate => {
+            const key = compactPlateText(candidate.plate_text || '');
+            if (!key) return;
+            const [entry] = watchlist.match(key);
+            if (!entry) return;
+
+            const lastSeen = seen.get(key);
+            if (candidate.source === 'summary') {
+                if (lastSeen !== undefined) return;
+            } else if (lastSeen !== undefined && now - lastSeen < WATCHLIST_REALERT_MS) {
+                seen.set(key, now);
+                return;
+            }
+            seen.set(key, now);
+
+            // Cada alerta tiene su propia URL para poder liberarla sin afectar al frame pintado ni a otras alertas
+            const snapshot = frameSource
+                ? frameSource instanceof Blob ? URL.createObjectURL(frameSource) : `data:image/jpeg;base64,${frameSource}`
+                : null;
+
+            hits.push({
+                id: `hit_${now}_${hits.length}_${key}`,
+                entry_id: entry.id,
+                pattern: entry.pattern,
+                label: entry.label,
+                priority: entry.priority,
+                plate_text: candidate.plate_text,
+                confidence: candidate.confidence,
+                frame_number: candidate.frame_number,
+                timestamp: now,
+                session_id: sessionIdRef.current || '',
+                snapshot,
+                source: candidate.source
+            });
+        });
+
+        if (hits.length === 0) return;
+
+        hits.forEach(hit => log('warn', `🚨 Placa vigilada: ${hit.plate_text} (${hit.pattern}${hit.label ? ` · ${hit.label}` : ''})`, {
+            priority: hit.priority,
+            frame: hit.frame_number,
+            source: hit.source
+        }));
+
+        const next = [...hits.reverse(), ...watchlistHitsRef.current];
+        next.slice(MAX_WATCHLIST_HITS).forEach(releaseSnapshot);
+        watchlistHitsRef.current = next.slice(0, MAX_WATCHLIST_HITS);
+        setState(prev => ({ ...prev, watchlistHits: watchlistHitsRef.current }));
+    }, [log]);
+
+    const clearWatchlistHits = useCallback(() => {
+        watchlistHitsRef.current.forEach(releaseSnapshot);
+        watchlistHitsRef.current = [];
+        setState(prev => ({ ...prev, watchlistHits: [] }));
+    }, []);
+
+    // ✅ ENCOLAR UNA ACTUALIZACIÓN DE STREAMING (validada aquí, aplicada en el próximo animation frame)
+    // frameBlob: JPEG recibido por el transporte binario (sustituye a frame_data.image_base64)
+    const handleStreamingUpdate = useCallback((data: unknown, frameBlob: Blob | null = null) => {
+        if (!data || typeof data !== 'object') {
+            log('error', 'Datos de streaming inválidos', data);
+            return;
+        }
+
+        // Validar y normalizar; si no coincide se reporta en la consola de debug y se descarta
+        const parsed = parseMessage(StreamingUpdateDataSchema, data, 'ws:streaming_update');
+        if (!parsed.success) return;
+
+        const { frame_data: frameData, ...update } = parsed.data;
+        const frameSource = frameBlob || frameData?.image_base64 || null;
+
+        if (frameSource) {
+            const counters = renderCountersRef.current;
+            counters.framesReceived += 1;
+            // El frame anterior aún no se pintó: se reemplaza por el más nuevo
+            if (pendingFrameRef.current) counters.framesDropped += 1;
+            pendingFrameRef.current = { source: frameSource, frameInfo: update.frame_info };
+        }
+        if (update.quality_info) latestQualityInfoRef.current = update.quality_info;
+        checkWatchlist(update, frameSource);
+
+        // Los campos de la última actualización prevalecen, igual que si se aplicaran una por una
+        pendingUpdateRef.current = { ...pendingUpdateRef.current, ...update };
+
+        if (renderFrameRef.current === null) {
+            renderFrameRef.current = requestAnimationFrame(flushRender);
+        }
+    }, [flushRender, checkWatchlist, log]);
+
+    // 📶 RECALCULAR MÉTRICAS (solo re-renderiza si algo visible cambió)
+    const updateConnectionMetrics = useCallback(() => {
+        const now = Date.now();
+        const pending = pendingPingRef.current;
+        const awaitingPongMs = pending && pongSupportedRef.current ? now - pending.sentAt : 0;
+        const next: ConnectionMetrics = {
+            rttMs: rttRef.current,
+            messageRate: Math.round(rateMeterRef.current.rate(now) * 10) / 10,
+            quality: classifyConnectionQuality(true, rttRef.current, awaitingPongMs),
+            lastMessageAt: lastMessageAtRef.current,
+            reconnectAttempt: 0
+        };
+
+        setState(prev => {
+            const current = prev.connectionMetrics;
+            if (current.rttMs === next.rttMs
+                && current.messageRate === next.messageRate
+                && current.quality === next.quality
+                && current.reconnectAttempt === next.reconnectAttempt) {
+                return prev;
+            }
+            return { ...prev, connectionMetrics: next };
+        });
+    }, []);
+
+    const stopHeartbeat = useCallback(() => {
+        if (healthTimerRef.current) clearInterval(healthTimerRef.current);
+        healthTimerRef.current = null;
+    }, []);
 
     // ✅ MANEJAR MENSAJES WEBSOCKET CON DEBUG EXTENDIDO
-    const handleWebSocketMessage = useCallback((message: WebSocketMessage) => {
+    const handleWebSocketMessage = useCallback((message: WebSocketMessage, frameBlob: Blob | null = null) => {
         const messageType = message.type || 'unknown';
         const data = message.data || {};
 
-        console.log(`%c📨 WebSocket Message Received`, 'color: #6366f1; font-weight: bold', {
+        trace(label, `📨 WebSocket Message Received`, {
             type: messageType,
             hasData: !!data,
             dataKeys: Object.keys(data),
@@ -320,7 +703,11 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
 
         // Manejar handlers personalizados primero
         if (typeof data === 'object' && data !== null) {
-            const handlers = messageHandlersRef.current.get(messageType) || [];
+            const handlers = [...(messageHandlersRef.current.get(messageType) || [])];
+            // El snapshot trae el mismo contenido que un streaming_update: sus suscriptores también se reconstruyen
+            if (SNAPSHOT_MESSAGE_TYPES.includes(messageType)) {
+                handlers.push(...(messageHandlersRef.current.get('streaming_update') || []));
+            }
             handlers.forEach(handler => {
                 try {
                     handler(data as Record<string, unknown>);
@@ -330,18 +717,42 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             });
         }
 
+        // Lo que aún espera al animation frame se aplica antes que un cambio de estado posterior
+        if (!RENDERED_MESSAGE_TYPES.includes(messageType)) flushRender();
+
         // Manejar mensajes del sistema
         switch (messageType) {
             case 'connection_established':
                 log('info', 'Conexión establecida confirmada');
                 break;
 
+            case 'pong': {
+                // El RTT de una grabación no dice nada de la conexión actual
+                if (replayerRef.current.isActive) break;
+                const parsed = parseMessage(HeartbeatPongSchema, data, 'ws:pong');
+                const pending = pendingPingRef.current;
+                if (!parsed.success) break;
+
+                pongSupportedRef.current = true;
+                // Se mide contra el ping que responde; un pong sin seq se mide con su propio ts
+                const sentAt = pending && (parsed.data.seq === undefined || parsed.data.seq === pending.seq)
+                    ? pending.sentAt
+                    : parsed.data.ts;
+                if (sentAt !== undefined) rttRef.current = Math.max(0, Date.now() - sentAt);
+                pendingPingRef.current = null;
+                updateConnectionMetrics();
+                break;
+            }
+
             case 'streaming_started':
+                resetRenderQueue();
+                watchlistSeenRef.current.clear();
                 setState(prev => ({
                     ...prev,
                     isStreaming: true,
                     status: 'processing',
                     error: null,
+                    renderStats: EMPTY_RENDER_STATS,
                     // ✅ LIMPIAR DATOS ANTERIORES AL INICIAR
                     allUniquePlates: [],
                     spatialRegions: {},
@@ -349,33 +760,56 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                     detections: [],
                     uniquePlates: []
                 }));
-                console.log(`%c🚀 STREAMING STARTED`, 'color: #10b981; font-weight: bold');
+                trace(label, `🚀 STREAMING STARTED`);
+                break;
+
+            // 📸 SNAPSHOT (respuesta a get_status): reconstruye el estado de una sesión reanudada
+            case 'status_response':
+            case 'session_status': {
+                handleStreamingUpdate(data);
+                const parsed = parseMessage(SessionSnapshotStateSchema, data, `ws:${messageType}`);
+                if (!parsed.success) break;
+
+                const snapshot = parsed.data;
+                const status = resolveSnapshotStatus(snapshot);
+                setState(prev => ({
+                    ...prev,
+                    status: status || prev.status,
+                    isStreaming: snapshot.is_processing ?? (status ? status === 'processing' || status === 'paused' : prev.isStreaming),
+                    isPaused: snapshot.is_paused ?? (status ? status === 'paused' : prev.isPaused)
+                }));
+                log('info', `Snapshot de sesión recibido (${snapshot.status || 'sin estado'})`);
                 break;
+            }
 
             case 'streaming_update':
             case 'frame_update':
             case 'detection_update':
             case 'progress_update':
-                handleStreamingUpdate(data);
+                handleStreamingUpdate(data, frameBlob);
+                break;
+
+            case 'transport_selected': {
+                const parsed = parseMessage(TransportSelectionSchema, data, 'ws:transport_selected');
+                if (!parsed.success) break;
+                setState(prev => ({ ...prev, frameTransport: parsed.data.frame_transport }));
+                log('info', `Transporte de frames: ${parsed.data.frame_transport}`);
                 break;
+            }
 
             case 'streaming_completed':
                 setState(prev => {
-                    console.log(
-                        `%c✅ STREAMING COMPLETED`,
-                        'color: #10b981; font-weight: bold',
-                        {
-                            finalPlatesCount: (prev as ExtendedStreamingState).allUniquePlates.length,
-                            finalSixCharPlates: (prev as ExtendedStreamingState).allUniquePlates.filter(p => p.is_six_char_valid).length
-                        }
-                    );
-                    return { ...prev, isStreaming: false, status: 'completed' };
+                    trace(label, `✅ STREAMING COMPLETED`, {
+                        finalPlatesCount: (prev as ExtendedStreamingState).allUniquePlates.length,
+                        finalSixCharPlates: (prev as ExtendedStreamingState).allUniquePlates.filter(p => p.is_six_char_valid).length
+                    });
+                    return { ...prev, isStreaming: false, isLive: false, cameraSourceId: null, status: 'completed' };
                 });
                 break;
 
             case 'streaming_error':
-                setState(prev => ({ ...prev, isStreaming: false, status: 'error', error: message.error || 'Error de streaming' }));
-                console.log(`%c❌ STREAMING ERROR`, 'color: #ef4444; font-weight: bold', message.error);
+                setState(prev => ({ ...prev, isStreaming: false, isLive: false, cameraSourceId: null, status: 'error', error: message.error || 'Error de streaming' }));
+                trace(label, `❌ STREAMING ERROR`, message.error);
                 break;
 
             case 'processing_paused':
@@ -387,70 +821,205 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 break;
 
             case 'processing_stopped':
-                setState(prev => ({ ...prev, isStreaming: false, isPaused: false, status: 'stopped' }));
+                setState(prev => ({ ...prev, isStreaming: false, isPaused: false, isLive: false, cameraSourceId: null, status: 'stopped' }));
                 break;
 
             default:
-                console.log(`%c⚠️ UNHANDLED MESSAGE TYPE: ${messageType}`, 'color: #f59e0b');
+                trace(label, `⚠️ UNHANDLED MESSAGE TYPE: ${messageType}`);
         }
-    }, [log, handleStreamingUpdate]);
-
-    // ✅ FUNCIONES DE CONEXIÓN Y CONTROL (SIN CAMBIOS PERO CON LIMPIEZA MEJORADA)
-    const connect = useCallback(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-            log('info', 'Ya conectado');
+    }, [label, log, trace, handleStreamingUpdate, flushRender, resetRenderQueue, updateConnectionMetrics]);
+
+    // 🎬 GRABAR UN MENSAJE ENTRANTE (el contador del estado se actualiza como mucho cada RECORDING_SYNC_MS)
+    const recordIncoming = useCallback((message: WebSocketMessage, frameBlob: Blob | null = null) => {
+        const recorder = recorderRef.current;
+        if (!recorder.record(message, frameBlob)) {
+            if (recorder.isActive && recorder.isFull) {
+                recorder.stop();
+                log('warn', `Grabación detenida: se alcanzó el límite de ${Math.round(recorder.byteSize / (1024 * 1024))} MB (${recorder.size} mensajes)`);
+                setState(prev => ({ ...prev, isRecording: false, recordedMessages: recorder.size }));
+            }
             return;
         }
 
-        const sessionId = generateSessionId();
+        const now = Date.now();
+        if (now - recordingSyncAtRef.current >= RECORDING_SYNC_MS) {
+            recordingSyncAtRef.current = now;
+            setState(prev => ({ ...prev, recordedMessages: recorder.size }));
+        }
+    }, [log]);
+
+    // ✅ FUNCIONES DE CONEXIÓN Y CONTROL
+    // 🔁 ¿La sesión sigue viva en el servidor? null = hay que crear una nueva
+    const resolveResumableSession = useCallback(async (candidateId: string): Promise<string | null> => {
+        try {
+            await api.getSessionInfo(candidateId, { timeoutMs: 10_000 });
+            return candidateId;
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 404) {
+                log('info', `La sesión ${candidateId} ya no existe en el servidor`);
+                return null;
+            }
+            // Sin respuesta del backend se intenta igual: el WebSocket decidirá
+            return candidateId;
+        }
+    }, [api, log]);
+
+    // 🔌 SOCKET PERDIDO (cierre del servidor o heartbeat vencido)
+    // scheduleReconnect → connect → openSocket → handleSocketLost forman un ciclo: se llama a la última
+    // versión por ref para que la reconexión use el wsBaseUrl actual y no el de cuando se creó el callback
+    const scheduleReconnectRef = useRef<() => void>(() => undefined);
+    const handleSocketLost = useCallback((shouldReconnect: boolean) => {
+        stopHeartbeat();
+        // La cámara del navegador deja de enviar; el procesamiento del servidor se recupera al reanudar
+        setState(prev => ({
+            ...prev,
+            isConnected: false,
+            isLive: false,
+            isStreaming: prev.isLive ? false : prev.isStreaming,
+            status: 'disconnected',
+            connectionMetrics: { ...prev.connectionMetrics, quality: 'offline', messageRate: 0 }
+        }));
+        if (shouldReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
+            scheduleReconnectRef.current();
+        }
+    }, [stopHeartbeat, maxReconnectAttempts]);
+
+    // 💓 PING PERIÓDICO, DETECCIÓN DE SOCKETS MEDIO ABIERTOS Y MÉTRICAS
+    const startHeartbeat = useCallback((ws: WebSocket) => {
+        stopHeartbeat();
+        const openedAt = Date.now();
+        lastMessageAtRef.current = openedAt;
+        lastPingAtRef.current = 0;
+        pendingPingRef.current = null;
+        rttRef.current = null;
+        pongSupportedRef.current = false;
+        rateMeterRef.current.reset();
+
+        healthTimerRef.current = setInterval(() => {
+            if (wsRef.current !== ws || ws.readyState !== WebSocket.OPEN) {
+                stopHeartbeat();
+                return;
+            }
+
+            const now = Date.now();
+            const silenceMs = now - (lastMessageAtRef.current ?? openedAt);
+            if (pongSupportedRef.current && silenceMs > heartbeatTimeout) {
+                log('warn', `Sin mensajes del servidor en ${Math.round(silenceMs / 1000)} s, reconectando`);
+                // Se suelta el socket antes de cerrarlo para que su onclose no repita la limpieza
+                wsRef.current = null;
+                ws.close(4000, 'Heartbeat vencido');
+                handleSocketLost(true);
+                return;
+            }
+
+            if (now - lastPingAtRef.current >= heartbeatInterval) {
+                const seq = ++pingSeqRef.current;
+                lastPingAtRef.current = now;
+                if (!pendingPingRef.current) pendingPingRef.current = { seq, sentAt: now };
+                ws.send(JSON.stringify({ type: 'ping', data: { seq, ts: now } }));
+            }
+
+            updateConnectionMetrics();
+        }, HEALTH_TICK_MS);
+    }, [heartbeatInterval, heartbeatTimeout, stopHeartbeat, updateConnectionMetrics, handleSocketLost, log]);
+
+    const openSocket = useCallback((sessionId: string, resumed: boolean) => {
         const wsUrl = `${wsBaseUrl}/api/v1/streaming/ws/${sessionId}`;
 
-        log('info', `Conectando a: ${wsUrl}`);
+        log('info', `${resumed ? 'Reanudando sesión en' : 'Conectando a'}: ${wsUrl}`);
 
         try {
             const ws = new WebSocket(wsUrl);
+            ws.binaryType = 'arraybuffer';
             wsRef.current = ws;
 
+            // Los eventos de un socket reemplazado (reconexión, otra sesión) no tocan el estado actual
+            const isCurrent = () => wsRef.current === ws;
+
             ws.onopen = () => {
+                if (!isCurrent()) return;
                 log('info', 'WebSocket conectado exitosamente');
+                sessionIdRef.current = sessionId;
+                if (persistSession) savedStreamingSessions.save(label, sessionId, wsBaseUrl);
+
                 setState(prev => ({
                     ...prev,
                     isConnected: true,
                     sessionId,
                     status: 'connected',
                     error: null,
-                    // ✅ LIMPIAR DATOS AL CONECTAR
-                    allUniquePlates: [],
-                    spatialRegions: {},
-                    enhancementStats: null
+                    // Sin RTT medido todavía; el primer pong fija la calidad real
+                    connectionMetrics: { ...OFFLINE_METRICS, quality: classifyConnectionQuality(true, null, 0) },
+                    // Hasta que el servidor confirme el binario los frames llegan en JSON
+                    frameTransport: 'json',
+                    // ✅ LIMPIAR DATOS AL CONECTAR (al reanudar se conservan hasta recibir el snapshot)
+                    ...(resumed ? {} : {
+                        allUniquePlates: [],
+                        spatialRegions: {},
+                        enhancementStats: null
+                    })
                 }));
                 reconnectAttemptsRef.current = 0;
+                startHeartbeat(ws);
 
                 // Reset debugging counters
                 messageCountRef.current = 0;
                 frameUpdateCountRef.current = 0;
                 lastFrameNumberRef.current = 0;
                 plateUpdateCountRef.current = 0;
+
+                // Un servidor sin soporte ignora el mensaje y sigue enviando base64
+                if (binaryFrames) {
+                    ws.send(JSON.stringify({
+                        type: 'negotiate_transport',
+                        data: { frame_transports: ['binary', 'json'], binary_format: BINARY_FRAME_FORMAT }
+                    }));
+                }
+
+                // El snapshot reconstruye placas, progreso y estadísticas de la sesión existente
+                if (resumed) {
+                    ws.send(JSON.stringify({ type: 'get_status' }));
+                }
             };
 
             ws.onmessage = (event) => {
+                if (!isCurrent()) return;
+                const receivedAt = Date.now();
+                lastMessageAtRef.current = receivedAt;
+                rateMeterRef.current.record(receivedAt);
                 try {
-                    const message = JSON.parse(event.data) as WebSocketMessage;
-                    handleWebSocketMessage(message);
+                    if (event.data instanceof ArrayBuffer) {
+                        const frame = decodeBinaryFrame(event.data);
+                        if (!frame) {
+                            log('warn', `Mensaje binario con formato inválido (${event.data.byteLength} bytes)`);
+                            return;
+                        }
+                        const parsedHeader = parseMessage(WebSocketMessageSchema, frame.header, 'ws:binary_frame');
+                        if (parsedHeader.success) {
+                            recordIncoming(parsedHeader.data, frame.jpeg);
+                            handleWebSocketMessage(parsedHeader.data, frame.jpeg);
+                        }
+                        return;
+                    }
+
+                    const parsed = parseMessage(WebSocketMessageSchema, JSON.parse(event.data), 'ws:message');
+                    if (parsed.success) {
+                        recordIncoming(parsed.data);
+                        handleWebSocketMessage(parsed.data);
+                    }
                 } catch (error) {
                     log('error', 'Error parseando mensaje WebSocket', error);
                 }
             };
 
             ws.onclose = (event) => {
+                if (!isCurrent()) return;
                 log('warn', `WebSocket cerrado: ${event.code} - ${event.reason}`);
-                setState(prev => ({ ...prev, isConnected: false, status: 'disconnected' }));
-                if (event.code !== 1000 && reconnectAttemptsRef.current < maxReconnectAttempts) {
-                    scheduleReconnect();
-                }
+                handleSocketLost(event.code !== 1000);
             };
 
             ws.onerror = (error) => {
+                if (!isCurrent()) return;
                 log('error', 'Error en WebSocket', error);
                 setState(prev => ({ ...prev, error: 'Error de conexión WebSocket', status: 'error' }));
             };
@@ -459,12 +1028,48 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             log('error', 'Error creando WebSocket', error);
             setState(prev => ({ ...prev, error: 'No se pudo crear la conexión WebSocket', status: 'error' }));
         }
-    }, [wsBaseUrl, generateSessionId, maxReconnectAttempts, log, handleWebSocketMessage]);
+    }, [wsBaseUrl, label, persistSession, binaryFrames, log, handleWebSocketMessage, recordIncoming, startHeartbeat, handleSocketLost]);
+
+    const connect = useCallback(() => {
+        // Conectar al backend termina la reproducción en curso
+        if (replayerRef.current.isActive) {
+            replayerRef.current.stop();
+            setState(prev => ({ ...prev, replay: null }));
+        }
+
+        const readyState = wsRef.current?.readyState;
+        if (readyState === WebSocket.OPEN || readyState === WebSocket.CONNECTING || connectingRef.current) {
+            log('info', 'Ya conectado');
+            return;
+        }
+
+        // Tras una caída se reutiliza la sesión en memoria; tras recargar, la guardada
+        const candidateId = sessionIdRef.current || (persistSession ? savedStreamingSessions.get(label, wsBaseUrl) : null);
+        if (!candidateId) {
+            openSocket(generateSessionId(), false);
+            return;
+        }
+
+        connectingRef.current = true;
+        const attempt = ++connectAttemptRef.current;
+        resolveResumableSession(candidateId).then(resumeId => {
+            if (attempt !== connectAttemptRef.current) return;
+            connectingRef.current = false;
+            if (!resumeId) {
+                sessionIdRef.current = null;
+                if (persistSession) savedStreamingSessions.remove(label);
+            }
+            openSocket(resumeId || generateSessionId(), !!resumeId);
+        });
+    }, [wsBaseUrl, label, persistSession, generateSessionId, resolveResumableSession, openSocket, log]);
 
     const scheduleReconnect = useCallback(() => {
         if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
         reconnectAttemptsRef.current += 1;
-        log('info', `Programando reconexión (intento ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
+        const attempt = reconnectAttemptsRef.current;
+        const delay = backoffDelay(attempt, reconnectInterval, maxReconnectDelay);
+        log('info', `Programando reconexión en ${delay} ms (intento ${attempt}/${maxReconnectAttempts})`);
+        setState(prev => ({ ...prev, connectionMetrics: { ...prev.connectionMetrics, quality: 'offline', reconnectAttempt: attempt } }));
 
         reconnectTimeoutRef.current = setTimeout(() => {
             if (reconnectAttemptsRef.current <= maxReconnectAttempts) {
@@ -473,19 +1078,41 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
                 log('error', 'Máximo de intentos de reconexión alcanzado');
                 setState(prev => ({ ...prev, error: 'No se pudo reconectar.' }));
             }
-        }, reconnectInterval);
-    }, [connect, reconnectInterval, maxReconnectAttempts, log]);
+        }, delay);
+    }, [connect, reconnectInterval, maxReconnectDelay, maxReconnectAttempts, log]);
+    scheduleReconnectRef.current = scheduleReconnect;
 
-    const disconnect = useCallback(() => {
+    // Cierra el socket conservando la sesión guardada (desmontaje, cambio de backend)
+    const closeSocket = useCallback(() => {
         if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+        stopHeartbeat();
+        connectAttemptRef.current += 1;
+        connectingRef.current = false;
+        uploadAbortRef.current?.abort();
         wsRef.current?.close(1000, 'Desconexión manual');
         wsRef.current = null;
+    }, [stopHeartbeat]);
+
+    // Desconexión explícita: la sesión se olvida y la próxima conexión empieza de cero
+    const disconnect = useCallback(() => {
+        closeSocket();
+        replayerRef.current.stop();
+        resetRenderQueue();
+        releaseFrameUrl();
+        sessionIdRef.current = null;
+        if (persistSession) savedStreamingSessions.remove(label);
         setState(prev => ({
             ...prev,
             isConnected: false,
             isStreaming: false,
+            isLive: false,
+            cameraSourceId: null,
             status: 'disconnected',
             sessionId: '',
+            connectionMetrics: OFFLINE_METRICS,
+            frameTransport: 'json',
+            renderStats: EMPTY_RENDER_STATS,
+            replay: null,
             // ✅ LIMPIAR TODOS LOS DATOS AL DESCONECTAR
             allUniquePlates: [],
             spatialRegions: {},
@@ -495,7 +1122,7 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
             currentFrame: null
         }));
         log('info', 'Desconectado y datos limpiados');
-    }, [log]);
+    }, [closeSocket, resetRenderQueue, releaseFrameUrl, persistSession, label, log]);
 
     const sendMessage = useCallback((message: Record<string, unknown>): boolean => {
         if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
@@ -526,38 +1153,219 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
         }
 
         // ✅ LIMPIAR DATOS ANTES DE INICIAR NUEVO STREAMING
+        prepareRenderForStream(options?.frame_skip);
         setState(prev => ({
             ...prev,
             status: 'uploading',
             error: null,
+            renderStats: EMPTY_RENDER_STATS,
             allUniquePlates: [],
             spatialRegions: {},
             enhancementStats: null,
             detections: [],
             uniquePlates: [],
-            currentFrame: null
+            currentFrame: null,
+            uploadProgress: null
         }));
 
+        uploadAbortRef.current?.abort();
+        const uploadController = new AbortController();
+        uploadAbortRef.current = uploadController;
+
         try {
-            console.log('🚀 Starting enhanced streaming with ROI + 6 chars:', options);
-            await streamingApi.uploadVideoForStreaming(state.sessionId, file, options);
-            setState(prev => ({ ...prev, status: 'initializing' }));
+            log('info', 'Iniciando streaming mejorado con ROI + 6 chars', options);
+            await api.uploadVideoForStreaming(state.sessionId, file, options, {
+                signal: uploadController.signal,
+                onUploadProgress: (uploadProgress) => setState(prev => ({ ...prev, uploadProgress }))
+            });
+            setState(prev => ({ ...prev, status: 'initializing', uploadProgress: null }));
         } catch (error) {
+            if (error instanceof ApiError && error.isAborted) {
+                setState(prev => ({ ...prev, status: prev.isConnected ? 'connected' : 'disconnected', uploadProgress: null }));
+                throw error;
+            }
             const errorMessage = error instanceof Error ? error.message : 'Error desconocido al subir video';
-            setState(prev => ({ ...prev, status: 'error', error: errorMessage, isStreaming: false }));
+            setState(prev => ({ ...prev, status: 'error', error: errorMessage, isStreaming: false, uploadProgress: null }));
             throw error;
+        } finally {
+            if (uploadAbortRef.current === uploadController) {
+                uploadAbortRef.current = null;
+            }
         }
-    }, [state.isConnected, state.sessionId]);
+    }, [api, state.isConnected, state.sessionId, prepareRenderForStream, log]);
+
+    const cancelUpload = useCallback(() => {
+        uploadAbortRef.current?.abort();
+    }, []);
+
+    // 📹 CÁMARA IP: el servidor abre el stream y publica los resultados en esta sesión
+    const startCameraStreaming = useCallback(async (source: CameraSource, options?: StreamingOptions) => {
+        if (!state.isConnected || !state.sessionId) {
+            throw new Error('No hay conexión WebSocket activa para iniciar la cámara');
+        }
+
+        const cameraOptions = { ...source.defaults, ...options };
+        prepareRenderForStream(cameraOptions.frame_skip);
+        setState(prev => ({
+            ...prev,
+            status: 'initializing',
+            error: null,
+            cameraSourceId: source.source_id,
+            renderStats: EMPTY_RENDER_STATS,
+            allUniquePlates: [],
+            spatialRegions: {},
+            enhancementStats: null,
+            detections: [],
+            uniquePlates: [],
+            currentFrame: null
+        }));
+
+        try {
+            log('info', `Abriendo cámara ${source.name} (${source.protocol})`);
+            await api.startCameraSource(source.source_id, state.sessionId, cameraOptions);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Error desconocido al abrir la cámara';
+            setState(prev => ({ ...prev, status: 'error', error: errorMessage, isStreaming: false, cameraSourceId: null }));
+            throw error;
+        }
+    }, [api, state.isConnected, state.sessionId, prepareRenderForStream, log]);
+
+    // 📷 MODO EN VIVO: la sesión se abre con un mensaje y los frames llegan por el mismo socket
+    const startLiveStreaming = useCallback((options: LiveStreamingOptions): boolean => {
+        if (!state.isConnected || !state.sessionId) {
+            throw new Error('No hay conexión WebSocket activa para iniciar la cámara');
+        }
+
+        const sent = sendMessage({ type: 'start_live_stream', data: { ...options, source: 'webcam' } });
+        if (!sent) return false;
+
+        prepareRenderForStream(options.frame_skip);
+        setState(prev => ({
+            ...prev,
+            isStreaming: true,
+            isPaused: false,
+            isLive: true,
+            status: 'processing',
+            error: null,
+            renderStats: EMPTY_RENDER_STATS,
+            allUniquePlates: [],
+            spatialRegions: {},
+            enhancementStats: null,
+            detections: [],
+            uniquePlates: [],
+            currentFrame: null,
+            progress: { processed: 0, total: 0, percent: 0 }
+        }));
+        log('info', `Sesión en vivo iniciada (${options.frame_rate} fps, ${options.width}x${options.height})`);
+        return true;
+    }, [state.isConnected, state.sessionId, sendMessage, prepareRenderForStream, log]);
+
+    const sendLiveFrame = useCallback((frame: LiveFrame): boolean => {
+        const ws = wsRef.current;
+        if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+
+        // Con un enlace lento es mejor perder frames que acumular latencia
+        if (ws.bufferedAmount > STREAMING_CONSTANTS.LIVE_CAPTURE.MAX_BUFFERED_BYTES) return false;
+
+        ws.send(JSON.stringify({ type: 'live_frame', data: frame }));
+        return true;
+    }, []);
 
     const pauseStreaming = useCallback(() => sendMessage({ type: 'pause_processing' }), [sendMessage]);
     const resumeStreaming = useCallback(() => sendMessage({ type: 'resume_processing' }), [sendMessage]);
-    const stopStreaming = useCallback(() => sendMessage({ type: 'stop_processing' }), [sendMessage]);
+    const stopStreaming = useCallback(() => {
+        sendMessage({ type: 'stop_processing' });
+        // La cámara deja de enviar de inmediato aunque el servidor tarde en confirmar
+        setState(prev => (prev.isLive ? { ...prev, isLive: false } : prev));
+    }, [sendMessage]);
     const requestStatus = useCallback(() => sendMessage({ type: 'get_status' }), [sendMessage]);
 
     const downloadResults = useCallback(async (format: 'json' | 'csv') => {
         if (!state.sessionId) throw new Error('No hay sesión activa para descargar resultados');
-        await streamingApi.downloadResults(state.sessionId, format);
-    }, [state.sessionId]);
+        await api.downloadResults(state.sessionId, format);
+    }, [api, state.sessionId]);
+
+    // 🎬 GRABACIÓN
+    const startRecording = useCallback(() => {
+        recorderRef.current.start(sessionIdRef.current || state.sessionId);
+        recordingSyncAtRef.current = 0;
+        setState(prev => ({ ...prev, isRecording: true, recordedMessages: 0 }));
+        log('info', 'Grabación de mensajes iniciada');
+    }, [state.sessionId, log]);
+
+    const stopRecording = useCallback(() => {
+        const recorder = recorderRef.current;
+        recorder.stop();
+        setState(prev => ({ ...prev, isRecording: false, recordedMessages: recorder.size }));
+        log('info', `Grabación detenida (${recorder.size} mensajes)`);
+    }, [log]);
+
+    const downloadRecording = useCallback(async () => {
+        if (recorderRef.current.size === 0) throw new Error('No hay mensajes grabados para descargar');
+        await recorderRef.current.download();
+    }, []);
+
+    // ▶️ REPRODUCCIÓN OFFLINE: sin socket, cada mensaje grabado pasa por handleWebSocketMessage
+    const startReplay = useCallback((recording: SessionRecording, speed: number = 1) => {
+        closeSocket();
+        resetRenderQueue();
+        releaseFrameUrl();
+        replaySyncAtRef.current = 0;
+        const total = recording.messages.length;
+
+        setState(prev => ({
+            ...prev,
+            isConnected: false,
+            isStreaming: false,
+            isPaused: false,
+            isLive: false,
+            cameraSourceId: null,
+            status: 'disconnected',
+            sessionId: recording.session_id,
+            error: null,
+            connectionMetrics: OFFLINE_METRICS,
+            frameTransport: 'json',
+            renderStats: EMPTY_RENDER_STATS,
+            replay: { played: 0, total, speed },
+            allUniquePlates: [],
+            spatialRegions: {},
+            enhancementStats: null,
+            detections: [],
+            uniquePlates: [],
+            currentFrame: null,
+            progress: { processed: 0, total: 0, percent: 0 }
+        }));
+        log('info', `Reproduciendo grabación de ${recording.session_id} (${total} mensajes, x${speed})`);
+
+        replayerRef.current.start(
+            recording,
+            speed,
+            (entry, index) => {
+                handleWebSocketMessage(entry.message, entry.frame_base64 ? base64ToBlob(entry.frame_base64) : null);
+                const now = Date.now();
+                if (now - replaySyncAtRef.current < RECORDING_SYNC_MS) return;
+                replaySyncAtRef.current = now;
+                setState(prev => (prev.replay ? { ...prev, replay: { ...prev.replay, played: index + 1 } } : prev));
+            },
+            () => {
+                flushRender();
+                setState(prev => (prev.replay ? { ...prev, replay: { ...prev.replay, played: total } } : prev));
+                log('info', 'Reproducción finalizada');
+            }
+        );
+    }, [closeSocket, resetRenderQueue, releaseFrameUrl, handleWebSocketMessage, flushRender, log]);
+
+    const setReplaySpeed = useCallback((speed: number) => {
+        replayerRef.current.setSpeed(speed);
+        setState(prev => (prev.replay ? { ...prev, replay: { ...prev.replay, speed } } : prev));
+    }, []);
+
+    // Sale del modo reproducción; con autoConnect se vuelve al backend
+    const stopReplay = useCallback(() => {
+        replayerRef.current.stop();
+        setState(prev => ({ ...prev, replay: null }));
+        if (autoConnect) connect();
+    }, [autoConnect, connect]);
 
     const clearError = useCallback(() => setState(prev => ({ ...prev, error: null })), []);
 
@@ -572,22 +1380,27 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
         hasError: state.status === 'error' || !!state.error,
         // ✅ NUEVOS HELPERS PARA PLACAS
         hasSixCharPlates: (state as ExtendedStreamingState).allUniquePlates.some(p => p.is_six_char_valid),
-        hasAutoFormattedPlates: (state as ExtendedStreamingState).allUniquePlates.some(p => (p as any).auto_formatted || (p as any).is_auto_formatted),
+        hasAutoFormattedPlates: (state as ExtendedStreamingState).allUniquePlates.some(p => p.auto_formatted),
         totalPlatesCount: (state as ExtendedStreamingState).allUniquePlates.length,
         spatialRegionsCount: Object.keys((state as ExtendedStreamingState).spatialRegions).length
     };
 
     // Effects
     useEffect(() => {
-        connect();
-        return () => disconnect();
-    }, [connect, disconnect]);
+        if (autoConnect) connect();
+        return () => closeSocket();
+    }, [autoConnect, connect, closeSocket]);
 
     useEffect(() => {
+        const replayer = replayerRef.current;
         return () => {
             if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+            if (renderFrameRef.current !== null) cancelAnimationFrame(renderFrameRef.current);
+            replayer.stop();
+            releaseFrameUrl();
+            watchlistHitsRef.current.forEach(releaseSnapshot);
         };
-    }, []);
+    }, [releaseFrameUrl]);
 
     // ✅ RETURN EXTENDIDO CON NUEVOS CAMPOS
     return {
@@ -607,6 +1420,16 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
         connect,
         disconnect,
         startStreaming,
+        cancelUpload,
+        startLiveStreaming,
+        sendLiveFrame,
+        startCameraStreaming,
+        startRecording,
+        stopRecording,
+        downloadRecording,
+        startReplay,
+        setReplaySpeed,
+        stopReplay,
         pauseStreaming,
         resumeStreaming,
         stopStreaming,
@@ -615,5 +1438,6 @@ export function useStreamingWebSocket(config: UseStreamingWebSocketConfig): UseS
         sendMessage,
         onMessage,
         clearError,
+        clearWatchlistHits,
     };
 }
\ No newline at end of file
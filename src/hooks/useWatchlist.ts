@@ -0,0 +1,10 @@
+// src/hooks/useWatchlist.ts
+// ✅ SUSCRIPCIÓN A LA LISTA DE VIGILANCIA: re-renderiza al agregar, importar o quitar placas
+
+import { useSyncExternalStore } from 'react';
+import { watchlist } from '../services/watchlist';
+import type { WatchlistEntry } from '../types/watchlist';
+
+export function useWatchlist(): WatchlistEntry[] {
+    return useSyncExternalStore(watchlist.subscribe, watchlist.getSnapshot);
+}
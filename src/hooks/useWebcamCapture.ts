@@ -0,0 +1,243 @@
+// src/hooks/useWebcamCapture.ts
+// ✅ CAPTURA DE LA CÁMARA DEL NAVEGADOR: getUserMedia + muestreo de frames JPEG a una tasa configurable
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { STREAMING_CONSTANTS, type LiveFrame } from '../types/streaming';
+
+const SNAPSHOT_JPEG_QUALITY = 0.92;
+
+interface UseWebcamCaptureConfig {
+    frameRate: number;
+    jpegQuality?: number;
+    maxWidth?: number;
+    // Devuelve false si el frame no se pudo enviar (se cuenta como descartado). Sin él solo se sacan fotos sueltas
+    onFrame?: (frame: LiveFrame) => boolean;
+}
+
+export interface WebcamDevice {
+    deviceId: string;
+    label: string;
+}
+
+function describeMediaError(error: unknown): string {
+    if (error instanceof DOMException) {
+        switch (error.name) {
+            case 'NotAllowedError':
+                return 'Permiso de cámara denegado';
+            case 'NotFoundError':
+            case 'OverconstrainedError':
+                return 'No se encontró ninguna cámara disponible';
+            case 'NotReadableError':
+                return 'La cámara está en uso por otra aplicación';
+        }
+    }
+    return error instanceof Error ? error.message : 'No se pudo abrir la cámara';
+}
+
+export function useWebcamCapture(config: UseWebcamCaptureConfig) {
+    const { frameRate } = config;
+    const jpegQuality = config.jpegQuality ?? STREAMING_CONSTANTS.LIVE_CAPTURE.JPEG_QUALITY;
+    const maxWidth = config.maxWidth ?? STREAMING_CONSTANTS.LIVE_CAPTURE.MAX_WIDTH;
+
+    const [isCameraOn, setIsCameraOn] = useState(false);
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [devices, setDevices] = useState<WebcamDevice[]>([]);
+    const [stats, setStats] = useState({ sent: 0, dropped: 0 });
+
+    // Referencias
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const frameNumberRef = useRef(0);
+    // Cada apertura o cierre lo incrementa: un getUserMedia que resuelve tarde sabe que ya no le toca
+    const cameraRequestRef = useRef(0);
+    // El callback cambia en cada render; el intervalo siempre usa el último
+    const onFrameRef = useRef(config.onFrame);
+    onFrameRef.current = config.onFrame;
+
+    const isSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+    // 🎥 ABRIR / CERRAR LA CÁMARA
+    const startCamera = useCallback(async (deviceId?: string) => {
+        if (!isSupported) {
+            setError('La cámara requiere HTTPS o localhost');
+            return false;
+        }
+
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        const request = ++cameraRequestRef.current;
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                audio: false,
+                video: deviceId
+                    ? { deviceId: { exact: deviceId }, width: { ideal: 1280 }, height: { ideal: 720 } }
+                    : { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } }
+            });
+            // Se cerró la cámara (o se pidió otra) mientras el permiso estaba pendiente: se libera ya
+            if (request !== cameraRequestRef.current) {
+                stream.getTracks().forEach(track => track.stop());
+                return false;
+            }
+            streamRef.current = stream;
+
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play().catch(() => undefined);
+            }
+
+            // Las etiquetas de los dispositivos solo están disponibles tras conceder el permiso
+            const allDevices = await navigator.mediaDevices.enumerateDevices();
+            setDevices(allDevices
+                .filter(device => device.kind === 'videoinput')
+                .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Cámara ${index + 1}` })));
+
+            setError(null);
+            setIsCameraOn(true);
+            return true;
+        } catch (err) {
+            if (request !== cameraRequestRef.current) return false;
+            setError(describeMediaError(err));
+            setIsCameraOn(false);
+            return false;
+        }
+    }, [isSupported]);
+
+    const stopCapture = useCallback(() => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        timerRef.current = null;
+        setIsCapturing(false);
+    }, []);
+
+    const stopCamera = useCallback(() => {
+        cameraRequestRef.current += 1;
+        stopCapture();
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        if (videoRef.current) videoRef.current.srcObject = null;
+        setIsCameraOn(false);
+    }, [stopCapture]);
+
+    // 🖼️ CODIFICAR UN FRAME
+    const grabFrame = useCallback((): LiveFrame | null => {
+        const video = videoRef.current;
+        if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+
+        const scale = Math.min(1, maxWidth / video.videoWidth);
+        const width = Math.round(video.videoWidth * scale);
+        const height = Math.round(video.videoHeight * scale);
+
+        const canvas = canvasRef.current ?? document.createElement('canvas');
+        canvasRef.current = canvas;
+        canvas.width = width;
+        canvas.height = height;
+
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.drawImage(video, 0, 0, width, height);
+
+        const dataUrl = canvas.toDataURL('image/jpeg', jpegQuality);
+        frameNumberRef.current += 1;
+
+        return {
+            frame_number: frameNumberRef.current,
+            timestamp: Date.now(),
+            image_base64: dataUrl.slice(dataUrl.indexOf(',') + 1),
+            width,
+            height
+        };
+    }, [jpegQuality, maxWidth]);
+
+    // 📸 FOTO SUELTA a resolución completa (sin la reducción ni la calidad de los frames en vivo)
+    const takeSnapshot = useCallback((): Promise<Blob | null> => {
+        const video = videoRef.current;
+        if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return Promise.resolve(null);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d');
+        if (!context) return Promise.resolve(null);
+        context.drawImage(video, 0, 0);
+
+        return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', SNAPSHOT_JPEG_QUALITY));
+    }, []);
+
+    // Resolución a la que se enviarán los frames (para anunciarla al iniciar la sesión)
+    const getFrameSize = useCallback((): { width: number; height: number } => {
+        const video = videoRef.current;
+        if (!video?.videoWidth) return { width: 0, height: 0 };
+        const scale = Math.min(1, maxWidth / video.videoWidth);
+        return { width: Math.round(video.videoWidth * scale), height: Math.round(video.videoHeight * scale) };
+    }, [maxWidth]);
+
+    // ⏱️ MUESTREO PERIÓDICO
+    const scheduleCapture = useCallback(() => {
+        if (timerRef.current) clearInterval(timerRef.current);
+
+        const rate = Math.min(
+            Math.max(frameRate, STREAMING_CONSTANTS.LIVE_CAPTURE.MIN_FRAME_RATE),
+            STREAMING_CONSTANTS.LIVE_CAPTURE.MAX_FRAME_RATE
+        );
+
+        timerRef.current = setInterval(() => {
+            const frame = grabFrame();
+            if (!frame) return;
+            const delivered = onFrameRef.current?.(frame) ?? false;
+            setStats(prev => (delivered ? { ...prev, sent: prev.sent + 1 } : { ...prev, dropped: prev.dropped + 1 }));
+        }, 1000 / rate);
+    }, [frameRate, grabFrame]);
+
+    // resetCounters = false al reanudar tras una pausa para no reiniciar la numeración de frames
+    const startCapture = useCallback((resetCounters: boolean = true) => {
+        if (!streamRef.current) return;
+        if (resetCounters) {
+            frameNumberRef.current = 0;
+            setStats({ sent: 0, dropped: 0 });
+        }
+        scheduleCapture();
+        setIsCapturing(true);
+    }, [scheduleCapture]);
+
+    // Al cambiar la tasa durante la captura se reprograma el intervalo sin reiniciar la numeración
+    useEffect(() => {
+        if (timerRef.current) scheduleCapture();
+    }, [scheduleCapture]);
+
+    // Si el <video> se montó después de abrir la cámara, se le asigna el stream ahora
+    useEffect(() => {
+        const video = videoRef.current;
+        if (isCameraOn && video && streamRef.current && video.srcObject !== streamRef.current) {
+            video.srcObject = streamRef.current;
+            video.play().catch(() => undefined);
+        }
+    }, [isCameraOn]);
+
+    // Liberar la cámara al desmontar
+    useEffect(() => {
+        return () => {
+            cameraRequestRef.current += 1;
+            if (timerRef.current) clearInterval(timerRef.current);
+            streamRef.current?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    return {
+        videoRef,
+        isSupported,
+        isCameraOn,
+        isCapturing,
+        error,
+        devices,
+        stats,
+        startCamera,
+        stopCamera,
+        startCapture,
+        stopCapture,
+        getFrameSize,
+        takeSnapshot
+    };
+}
@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { backendConfig } from './services/backendConfig'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Resolver config.json antes del primer render para no conectar al backend equivocado
+backendConfig.loadRuntimeConfig().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
@@ -0,0 +1,294 @@
+// src/pages/BackendSettings.tsx
+// ✅ SELECCIÓN DE PERFILES DE BACKEND (local, staging, laptop de campo, personalizados)
+
+import React, { useState, useCallback } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import {
+  ArrowLeft, Server, CheckCircle, AlertCircle, Trash2, Plus, Activity, Wifi
+} from "lucide-react";
+import { Link } from "react-router-dom";
+import { useBackendConfig } from "@/hooks/useBackendConfig";
+import { backendConfig } from "@/services/backendConfig";
+import { streamingApi } from "@/services/streamingApi";
+import type { BackendConfigSource, BackendProfile } from "@/types/config";
+
+type ProbeResult = { status: 'ok' | 'warning' | 'error'; message: string };
+
+const SOURCE_LABELS: Record<BackendConfigSource, string> = {
+  user: 'Perfil seleccionado',
+  runtime: 'config.json',
+  env: 'Variables VITE_*',
+  location: 'Origen de la página'
+};
+
+const BackendSettings: React.FC = () => {
+  const backend = useBackendConfig();
+  const [probeResults, setProbeResults] = useState<Record<string, ProbeResult>>({});
+  const [probingId, setProbingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', apiBaseUrl: '', wsBaseUrl: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const probe = useCallback(async (key: string, apiBaseUrl: string) => {
+    setProbingId(key);
+    try {
+      const health = await streamingApi.getStreamingHealthAt(apiBaseUrl);
+      setProbeResults(prev => ({
+        ...prev,
+        [key]: {
+          status: health.status === 'healthy' ? 'ok' : health.status === 'warning' ? 'warning' : 'error',
+          message: `${health.service || 'backend'} ${health.version || ''} · modelos ${health.models?.loaded ? 'cargados' : 'no cargados'}`
+        }
+      }));
+    } catch (err) {
+      setProbeResults(prev => ({
+        ...prev,
+        [key]: { status: 'error', message: err instanceof Error ? err.message : 'Sin respuesta' }
+      }));
+    } finally {
+      setProbingId(null);
+    }
+  }, []);
+
+  const handleActivate = useCallback((profile: BackendProfile | null) => {
+    backendConfig.setActiveProfile(profile ? profile.id : null);
+    toast.success('Backend actualizado', {
+      description: profile ? `Usando ${profile.name}` : 'Usando la configuración por defecto'
+    });
+  }, []);
+
+  const handleDelete = useCallback((profile: BackendProfile) => {
+    backendConfig.deleteProfile(profile.id);
+    toast.info('Perfil eliminado', { description: profile.name });
+  }, []);
+
+  const handleSave = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    setFormError(null);
+
+    if (!form.name.trim()) {
+      setFormError('El nombre es obligatorio');
+      return;
+    }
+
+    try {
+      const saved = backendConfig.saveProfile({
+        name: form.name.trim(),
+        apiBaseUrl: form.apiBaseUrl.trim(),
+        wsBaseUrl: form.wsBaseUrl.trim() || undefined
+      });
+      setForm({ name: '', apiBaseUrl: '', wsBaseUrl: '' });
+      toast.success('Perfil guardado', { description: saved.name });
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'No se pudo guardar el perfil');
+    }
+  }, [form]);
+
+  const renderProbe = (key: string) => {
+    const result = probeResults[key];
+    if (!result) return null;
+    const color = result.status === 'ok' ? 'text-green-400' : result.status === 'warning' ? 'text-yellow-400' : 'text-red-400';
+    const Icon = result.status === 'error' ? AlertCircle : CheckCircle;
+    return (
+        <div className={`flex items-center space-x-2 text-xs mt-2 ${color}`}>
+          <Icon className="w-3 h-3" />
+          <span className="truncate">{result.message}</span>
+        </div>
+    );
+  };
+
+  return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
+        {/* Header */}
+        <header className="bg-black/20 backdrop-blur-sm border-b border-white/10">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link to="/recognition" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <ArrowLeft className="w-5 h-5 text-white" />
+                <span className="text-white">Volver a métodos</span>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-slate-500 to-slate-600 rounded-lg flex items-center justify-center">
+                  <Server className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-lg font-bold text-white">Configuración del Backend</span>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-12">
+          <div className="max-w-4xl mx-auto space-y-8">
+            {/* Endpoint activo */}
+            <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold text-white">Endpoint Activo</h3>
+                  <span className="text-xs text-blue-300 bg-blue-500/10 border border-blue-500/20 rounded px-2 py-1">
+                    {SOURCE_LABELS[backend.source]}
+                  </span>
+                </div>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">API:</span>
+                    <span className="text-white font-mono break-all">{backend.apiBaseUrl}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">WebSocket:</span>
+                    <span className="text-white font-mono break-all">{backend.wsBaseUrl}</span>
+                  </div>
+                </div>
+                <Button
+                    onClick={() => probe('active', backend.apiBaseUrl)}
+                    disabled={probingId !== null}
+                    size="sm"
+                    className="mt-4 bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <Activity className={`w-4 h-4 mr-2 ${probingId === 'active' ? 'animate-pulse' : ''}`} />
+                  Probar conexión
+                </Button>
+                {renderProbe('active')}
+              </CardContent>
+            </Card>
+
+            {/* Perfiles */}
+            <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <h3 className="text-lg font-bold text-white mb-4">Perfiles Guardados</h3>
+
+                <div className="space-y-3">
+                  <div className={`rounded-lg p-4 border ${backend.activeProfileId === null ? 'border-green-500/30 bg-green-500/5' : 'border-white/10 bg-white/5'}`}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white font-medium">Predeterminado</p>
+                        <p className="text-gray-400 text-xs">config.json o variables VITE_API_BASE_URL / VITE_WS_BASE_URL</p>
+                      </div>
+                      {backend.activeProfileId === null ? (
+                          <span className="flex items-center space-x-1 text-green-400 text-xs font-semibold">
+                            <Wifi className="w-4 h-4" />
+                            <span>EN USO</span>
+                          </span>
+                      ) : (
+                          <Button onClick={() => handleActivate(null)} size="sm" variant="ghost" className="text-gray-300 hover:text-white">
+                            Usar
+                          </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {backend.profiles.map(profile => {
+                    const isActive = backend.activeProfileId === profile.id;
+                    return (
+                        <div
+                            key={profile.id}
+                            className={`rounded-lg p-4 border ${isActive ? 'border-green-500/30 bg-green-500/5' : 'border-white/10 bg-white/5'}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="min-w-0">
+                              <p className="text-white font-medium">{profile.name}</p>
+                              {profile.description && (
+                                  <p className="text-gray-400 text-xs">{profile.description}</p>
+                              )}
+                              <p className="text-gray-500 text-xs font-mono truncate">{profile.apiBaseUrl}</p>
+                            </div>
+                            <div className="flex items-center space-x-2 flex-shrink-0">
+                              <Button
+                                  onClick={() => probe(profile.id, profile.apiBaseUrl)}
+                                  disabled={probingId !== null}
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-gray-400 hover:text-white"
+                              >
+                                <Activity className={`w-4 h-4 ${probingId === profile.id ? 'animate-pulse' : ''}`} />
+                              </Button>
+                              {!profile.readOnly && (
+                                  <Button
+                                      onClick={() => handleDelete(profile)}
+                                      size="sm"
+                                      variant="ghost"
+                                      className="text-gray-400 hover:text-red-400"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                              )}
+                              {isActive ? (
+                                  <span className="flex items-center space-x-1 text-green-400 text-xs font-semibold">
+                                    <Wifi className="w-4 h-4" />
+                                    <span>EN USO</span>
+                                  </span>
+                              ) : (
+                                  <Button onClick={() => handleActivate(profile)} size="sm" variant="ghost" className="text-gray-300 hover:text-white">
+                                    Usar
+                                  </Button>
+                              )}
+                            </div>
+                          </div>
+                          {renderProbe(profile.id)}
+                        </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Nuevo perfil */}
+            <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <h3 className="text-lg font-bold text-white mb-4">Nuevo Perfil</h3>
+
+                <form onSubmit={handleSave} className="space-y-4">
+                  <div>
+                    <Label htmlFor="profile-name" className="text-gray-300">Nombre</Label>
+                    <Input
+                        id="profile-name"
+                        value={form.name}
+                        onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="Servidor GPU oficina"
+                        className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-gray-500"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-api" className="text-gray-300">URL de la API</Label>
+                    <Input
+                        id="profile-api"
+                        value={form.apiBaseUrl}
+                        onChange={(e) => setForm(prev => ({ ...prev, apiBaseUrl: e.target.value }))}
+                        placeholder="http://192.168.1.20:8000"
+                        className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-gray-500 font-mono"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-ws" className="text-gray-300">URL del WebSocket (opcional)</Label>
+                    <Input
+                        id="profile-ws"
+                        value={form.wsBaseUrl}
+                        onChange={(e) => setForm(prev => ({ ...prev, wsBaseUrl: e.target.value }))}
+                        placeholder="Se deriva de la URL de la API"
+                        className="mt-1 bg-white/10 border-white/20 text-white placeholder:text-gray-500 font-mono"
+                    />
+                  </div>
+
+                  {formError && (
+                      <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center space-x-2">
+                        <AlertCircle className="w-4 h-4 text-red-400" />
+                        <span className="text-red-400 text-sm">{formError}</span>
+                      </div>
+                  )}
+
+                  <Button type="submit" className="bg-green-600 hover:bg-green-700 text-white">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Guardar perfil
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default BackendSettings;
@@ -0,0 +1,399 @@
+// src/pages/BatchImageRecognition.tsx
+// ✅ RECONOCIMIENTO EN LOTE: carpetas o varios archivos procesados en cola contra /api/v1/detect/image
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import {
+  ArrowLeft, Layers, Upload, FolderOpen, Play, Pause, Square, RotateCcw, Trash2, X,
+  Download, FileText, CheckCircle, AlertCircle, Loader2, Clock, Target
+} from "lucide-react";
+import { Link } from "react-router-dom";
+import { apiClient } from "@/services/apiClient";
+import {
+  BATCH_QUEUE,
+  BATCH_STATUS_LABELS,
+  batchCounts,
+  batchToCsv,
+  batchToJson,
+  collectDroppedFiles,
+  filesFromInput,
+  isSupportedImage
+} from "@/services/imageBatchQueue";
+import { processingConfig, toRequestParams } from "@/services/processingConfig";
+import { useImageBatchQueue } from "@/hooks/useImageBatchQueue";
+import type { BatchFileInput, BatchItemResult, BatchItemStatus } from "@/types/batch";
+
+// Misma configuración de detección que la página de imagen, pero sin imagen anotada ni resultados guardados
+// en el servidor: en lote solo interesan las placas
+async function detectBatchImage(file: File, signal: AbortSignal): Promise<BatchItemResult> {
+  const params = {
+    ...toRequestParams(processingConfig.getConfig('image'), 'image'),
+    return_visualization: false,
+    save_results: false
+  };
+  const data = await apiClient.detectImage(file, params, { signal });
+  if (!data.success || !data.data) {
+    throw new Error(data.message || 'No se pudo procesar la imagen');
+  }
+  const { final_results, best_result, processing_time } = data.data;
+  return { plates: final_results || [], best_plate: best_result, processing_time };
+}
+
+function downloadFile(content: string, type: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'text-gray-400',
+  processing: 'text-blue-400',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-orange-400'
+};
+
+const BatchImageRecognition: React.FC = () => {
+  const { queue, snapshot } = useImageBatchQueue(detectBatchImage);
+  const { items, state, concurrency } = snapshot;
+  const counts = batchCounts(items);
+  const finished = counts.done + counts.error + counts.cancelled;
+  const progress = items.length > 0 ? (finished / items.length) * 100 : 0;
+
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory no está en los tipos de React
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const enqueue = useCallback((files: BatchFileInput[]) => {
+    const supported = files.filter(({ file }) => isSupportedImage(file));
+    const added = queue.add(supported);
+    const rejected = files.length - supported.length;
+    const repeated = supported.length - added;
+
+    if (added > 0) {
+      toast.success(`${added} imagen${added !== 1 ? 'es' : ''} en cola`);
+    }
+    if (rejected > 0 || repeated > 0) {
+      toast.warning('Algunos archivos no se agregaron', {
+        description: [
+          rejected > 0 ? `${rejected} sin formato JPG/PNG/WEBP o de más de 50MB` : null,
+          repeated > 0 ? `${repeated} ya estaban en la cola` : null
+        ].filter(Boolean).join(' · ')
+      });
+    }
+  }, [queue]);
+
+  const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    enqueue(filesFromInput(event.target.files));
+    event.target.value = '';
+  }, [enqueue]);
+
+  const handleDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      enqueue(await collectDroppedFiles(event.dataTransfer));
+    } catch (err) {
+      toast.error('No se pudo leer la carpeta', {
+        description: err instanceof Error ? err.message : undefined
+      });
+    }
+  }, [enqueue]);
+
+  const exportCsv = () => downloadFile(batchToCsv(items), 'text/csv', `lote_placas_${Date.now()}.csv`);
+  const exportJson = () => downloadFile(batchToJson(items), 'application/json', `lote_placas_${Date.now()}.json`);
+
+  return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
+        {/* Header */}
+        <header className="bg-black/20 backdrop-blur-sm border-b border-white/10">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link to="/recognition/image" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <ArrowLeft className="w-5 h-5 text-white" />
+                <span className="text-white">Volver a imagen</span>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg flex items-center justify-center">
+                  <Layers className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-lg font-bold text-white">Reconocimiento en Lote</span>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-12">
+          <div className="max-w-6xl mx-auto space-y-8">
+            {/* Title */}
+            <div className="text-center">
+              <h1 className="text-3xl font-bold text-white mb-2">Reconocimiento en Lote</h1>
+              <p className="text-gray-300">
+                Arrastra una carpeta o varias imágenes y procésalas en cola
+              </p>
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-8">
+              {/* Agregar imágenes */}
+              <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                <CardContent className="p-6">
+                  <h3 className="text-lg font-bold text-white mb-4">Agregar Imágenes</h3>
+                  <div
+                      className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                          isDragging ? 'border-blue-400 bg-blue-500/10' : 'border-white/30'
+                      }`}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDragging(true);
+                      }}
+                      onDragLeave={() => setIsDragging(false)}
+                      onDrop={handleDrop}
+                  >
+                    <Upload className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                    <p className="text-white mb-1 text-sm">Suelta aquí imágenes o carpetas</p>
+                    <p className="text-gray-400 text-xs mb-4">JPG, PNG, WEBP (máx. 50MB cada una)</p>
+                    <div className="flex justify-center space-x-2">
+                      <Button
+                          size="sm"
+                          onClick={() => fileInputRef.current?.click()}
+                          className="bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        <FileText className="w-4 h-4 mr-1" />
+                        Archivos
+                      </Button>
+                      <Button
+                          size="sm"
+                          onClick={() => folderInputRef.current?.click()}
+                          className="bg-white/10 text-white border border-white/30 hover:bg-blue-600/70"
+                      >
+                        <FolderOpen className="w-4 h-4 mr-1" />
+                        Carpeta
+                      </Button>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept="image/jpeg,image/jpg,image/png,image/webp"
+                        onChange={handleInputChange}
+                        className="hidden"
+                    />
+                    <input
+                        ref={folderInputRef}
+                        type="file"
+                        multiple
+                        onChange={handleInputChange}
+                        className="hidden"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Control de la cola */}
+              <Card className="lg:col-span-2 bg-white/10 border-white/20 backdrop-blur-sm">
+                <CardContent className="p-6 space-y-6">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-white">Cola de Procesamiento</h3>
+                    <label className="flex items-center space-x-2 text-sm text-gray-300">
+                      <span>Simultáneas</span>
+                      <select
+                          value={concurrency}
+                          onChange={(e) => queue.setConcurrency(Number(e.target.value))}
+                          className="bg-white/10 border border-white/20 rounded-md px-2 py-1 text-white"
+                      >
+                        {Array.from({ length: BATCH_QUEUE.MAX_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                            <option key={value} value={value} className="bg-gray-800">{value}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {[
+                      { label: 'Imágenes', value: items.length, icon: Layers, color: 'text-blue-400' },
+                      { label: 'En cola', value: counts.pending + counts.processing, icon: Clock, color: 'text-gray-400' },
+                      { label: 'Completadas', value: counts.done, icon: CheckCircle, color: 'text-green-400' },
+                      { label: 'Con error', value: counts.error, icon: AlertCircle, color: 'text-red-400' },
+                      { label: 'Placas', value: counts.plates, icon: Target, color: 'text-purple-400' }
+                    ].map(stat => (
+                        <div key={stat.label} className="bg-white/5 rounded-lg p-3 text-center">
+                          <stat.icon className={`w-5 h-5 mx-auto mb-1 ${stat.color}`} />
+                          <p className="text-xl font-bold text-white">{stat.value}</p>
+                          <p className="text-gray-400 text-xs">{stat.label}</p>
+                        </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span>
+                        {state === 'running' ? 'Procesando...' : state === 'paused' ? 'En pausa' : 'Detenida'}
+                      </span>
+                      <span>{finished} / {items.length}</span>
+                    </div>
+                    <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                      <div className="h-full bg-gradient-to-r from-blue-500 to-green-500 transition-all" style={{ width: `${progress}%` }} />
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {state === 'running' ? (
+                        <Button onClick={() => queue.pause()} className="bg-yellow-600 hover:bg-yellow-700 text-white">
+                          <Pause className="w-4 h-4 mr-2" />
+                          Pausar
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={() => queue.start()}
+                            disabled={counts.pending === 0}
+                            className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white"
+                        >
+                          <Play className="w-4 h-4 mr-2" />
+                          {state === 'paused' ? 'Reanudar' : 'Iniciar'}
+                        </Button>
+                    )}
+                    <Button
+                        onClick={() => queue.cancel()}
+                        disabled={counts.pending + counts.processing === 0}
+                        variant="outline"
+                        className="border-red-500/30 text-red-300 hover:bg-red-500/10"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Cancelar
+                    </Button>
+                    <Button
+                        onClick={() => queue.retryFailed()}
+                        disabled={counts.error === 0}
+                        variant="outline"
+                        className="border-white/20 text-white hover:bg-white/10"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Reintentar fallidas
+                    </Button>
+                    <Button
+                        onClick={() => queue.clear()}
+                        disabled={items.length === 0}
+                        variant="ghost"
+                        className="text-gray-400 hover:text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Vaciar
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Resultados consolidados */}
+            {items.length > 0 && (
+                <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-bold text-white">Resultados por Archivo</h3>
+                      <div className="flex space-x-2">
+                        <Button onClick={exportCsv} size="sm" disabled={finished === 0} className="bg-green-600 hover:bg-green-700 text-white">
+                          <Download className="w-4 h-4 mr-1" />
+                          CSV
+                        </Button>
+                        <Button onClick={exportJson} size="sm" disabled={finished === 0} className="bg-blue-600 hover:bg-blue-700 text-white">
+                          <Download className="w-4 h-4 mr-1" />
+                          JSON
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-400 border-b border-white/10">
+                            <th className="py-2 pr-4 font-medium">Archivo</th>
+                            <th className="py-2 pr-4 font-medium">Estado</th>
+                            <th className="py-2 pr-4 font-medium">Placas</th>
+                            <th className="py-2 pr-4 font-medium text-right">Tiempo</th>
+                            <th className="py-2 font-medium text-right">Acciones</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {items.map(item => (
+                              <tr key={item.id} className="border-b border-white/5 align-top">
+                                <td className="py-2 pr-4 text-white max-w-xs truncate" title={item.path}>{item.path}</td>
+                                <td className={`py-2 pr-4 whitespace-nowrap ${STATUS_STYLES[item.status]}`}>
+                                  <span className="flex items-center space-x-1">
+                                    {item.status === 'processing' && <Loader2 className="w-3 h-3 animate-spin" />}
+                                    <span>{BATCH_STATUS_LABELS[item.status]}</span>
+                                    {item.attempts > 1 && <span className="text-gray-500 text-xs">(intento {item.attempts})</span>}
+                                  </span>
+                                  {item.error && <span className="block text-xs text-red-300/80">{item.error}</span>}
+                                </td>
+                                <td className="py-2 pr-4">
+                                  {item.result && item.result.plates.length === 0 && (
+                                      <span className="text-gray-500">Sin placas</span>
+                                  )}
+                                  <div className="flex flex-wrap gap-1">
+                                    {item.result?.plates.map((plate, index) => (
+                                        <span
+                                            key={`${plate.plate_text}-${index}`}
+                                            title={`${(plate.overall_confidence * 100).toFixed(1)}%`}
+                                            className={`font-mono text-xs rounded px-1.5 py-0.5 ${
+                                                plate.plate_text === item.result?.best_plate?.plate_text
+                                                    ? 'bg-green-500/20 text-green-300'
+                                                    : 'bg-white/10 text-gray-300'
+                                            }`}
+                                        >
+                                          {plate.plate_text} {(plate.overall_confidence * 100).toFixed(0)}%
+                                        </span>
+                                    ))}
+                                  </div>
+                                </td>
+                                <td className="py-2 pr-4 text-right text-gray-400 whitespace-nowrap">
+                                  {item.result ? `${item.result.processing_time.toFixed(2)}s` : '—'}
+                                </td>
+                                <td className="py-2 text-right whitespace-nowrap">
+                                  {(item.status === 'error' || item.status === 'cancelled') && (
+                                      <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          onClick={() => queue.retry(item.id)}
+                                          title="Reintentar"
+                                          className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+                                      >
+                                        <RotateCcw className="w-4 h-4" />
+                                      </Button>
+                                  )}
+                                  <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => queue.remove(item.id)}
+                                      title="Quitar de la cola"
+                                      className="h-7 w-7 p-0 text-gray-400 hover:text-red-400"
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </Button>
+                                </td>
+                              </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+            )}
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default BatchImageRecognition;
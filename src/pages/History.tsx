@@ -0,0 +1,255 @@
+// src/pages/History.tsx
+// ✅ HISTORIAL LOCAL: análisis guardados en el navegador, con búsqueda por placa y filtros de fecha y modo
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { ArrowLeft, AlertCircle, History as HistoryIcon, Search, Trash2, X, Target } from "lucide-react";
+import { Link } from "react-router-dom";
+import {
+  detectionHistory,
+  filterHistoryRuns,
+  EMPTY_HISTORY_FILTERS,
+  HISTORY_MODE_LABELS
+} from "@/services/detectionHistory";
+import { useObjectUrls } from "@/hooks/useObjectUrls";
+import HistoryModeBadge from "@/components/HistoryModeBadge";
+import type { HistoryFilters, HistoryMode, HistoryRun } from "@/types/history";
+
+const MODES: HistoryMode[] = ['image', 'video', 'streaming'];
+
+// Placas que se muestran por análisis en la lista (el resto se ve al abrirlo)
+const PREVIEW_PLATES = 6;
+
+const History: React.FC = () => {
+  const [runs, setRuns] = useState<HistoryRun[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await detectionHistory.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo leer el historial');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Recargar al guardar o borrar (también desde otra página abierta en esta pestaña)
+  useEffect(() => {
+    loadRuns();
+    return detectionHistory.subscribe(loadRuns);
+  }, [loadRuns]);
+
+  const visibleRuns = useMemo(() => filterHistoryRuns(runs, filters), [runs, filters]);
+  const thumbnailBlobs = useMemo(() => visibleRuns.map(run => run.thumbnails[0]?.blob), [visibleRuns]);
+  const thumbnailUrls = useObjectUrls(thumbnailBlobs);
+  const hasFilters = filters.query !== '' || filters.mode !== 'all' || filters.from !== '' || filters.to !== '';
+
+  const handleDelete = useCallback(async (run: HistoryRun) => {
+    try {
+      await detectionHistory.remove(run.id);
+      toast.success('Análisis eliminado', { description: run.source?.name });
+    } catch (err) {
+      toast.error('No se pudo eliminar', { description: err instanceof Error ? err.message : undefined });
+    }
+  }, []);
+
+  const handleClearAll = useCallback(async () => {
+    if (!window.confirm('¿Borrar todo el historial de este navegador?')) return;
+    try {
+      await detectionHistory.clear();
+      toast.success('Historial borrado');
+    } catch (err) {
+      toast.error('No se pudo borrar el historial', { description: err instanceof Error ? err.message : undefined });
+    }
+  }, []);
+
+  const matchesQuery = (plateText: string): boolean => {
+    const query = filters.query.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return query !== '' && plateText.toUpperCase().replace(/[^A-Z0-9]/g, '').includes(query);
+  };
+
+  return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
+        {/* Header */}
+        <header className="bg-black/20 backdrop-blur-sm border-b border-white/10">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link to="/recognition" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <ArrowLeft className="w-5 h-5 text-white" />
+                <span className="text-white">Volver a métodos</span>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-slate-500 to-slate-600 rounded-lg flex items-center justify-center">
+                  <HistoryIcon className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-lg font-bold text-white">Historial de Detecciones</span>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-12">
+          <div className="max-w-5xl mx-auto space-y-6">
+            {/* Filtros */}
+            <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <div className="grid md:grid-cols-4 gap-3">
+                  <div className="relative md:col-span-2">
+                    <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <Input
+                        value={filters.query}
+                        onChange={(e) => setFilters(prev => ({ ...prev, query: e.target.value }))}
+                        placeholder="Buscar placa (ABC-123, ABC, 123...)"
+                        aria-label="Buscar placa"
+                        className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-gray-500 font-mono uppercase"
+                    />
+                  </div>
+                  <select
+                      value={filters.mode}
+                      onChange={(e) => setFilters(prev => ({ ...prev, mode: e.target.value as HistoryFilters['mode'] }))}
+                      aria-label="Modo"
+                      className="bg-white/10 border border-white/20 rounded-md px-2 text-sm text-white"
+                  >
+                    <option value="all" className="bg-gray-800">Todos los modos</option>
+                    {MODES.map(mode => (
+                        <option key={mode} value={mode} className="bg-gray-800">{HISTORY_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                        type="date"
+                        value={filters.from}
+                        onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+                        aria-label="Desde"
+                        className="bg-white/10 border-white/20 text-white"
+                    />
+                    <Input
+                        type="date"
+                        value={filters.to}
+                        onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+                        aria-label="Hasta"
+                        className="bg-white/10 border-white/20 text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between mt-4 text-sm">
+                  <span className="text-gray-400">
+                    {visibleRuns.length} de {runs.length} análisis
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {hasFilters && (
+                        <Button
+                            onClick={() => setFilters(EMPTY_HISTORY_FILTERS)}
+                            variant="ghost"
+                            size="sm"
+                            className="text-gray-400 hover:text-white"
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Quitar filtros
+                        </Button>
+                    )}
+                    <Button
+                        onClick={handleClearAll}
+                        disabled={runs.length === 0}
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Borrar todo
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center space-x-3">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  <p className="text-red-300 text-sm">{error}</p>
+                </div>
+            )}
+
+            {!isLoading && !error && visibleRuns.length === 0 && (
+                <div className="text-center py-16">
+                  <HistoryIcon className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+                  <p className="text-gray-400">
+                    {runs.length === 0
+                        ? 'Todavía no hay análisis guardados. Cada análisis de imagen, video o streaming se guarda aquí al terminar.'
+                        : 'Ningún análisis coincide con los filtros'}
+                  </p>
+                </div>
+            )}
+
+            {/* Lista de análisis */}
+            <div className="space-y-3">
+              {visibleRuns.map((run, index) => {
+                const thumbnailUrl = thumbnailUrls[index];
+                return (
+                    <Card key={run.id} className="bg-white/10 border-white/20 backdrop-blur-sm hover:bg-white/15 transition-colors">
+                      <CardContent className="p-4">
+                        <div className="flex items-center space-x-4">
+                          <Link to={`/history/${run.id}`} className="flex items-center space-x-4 flex-1 min-w-0">
+                            {thumbnailUrl ? (
+                                <img src={thumbnailUrl} alt="" className="h-16 w-24 rounded object-cover flex-shrink-0" />
+                            ) : (
+                                <div className="h-16 w-24 rounded bg-white/5 flex items-center justify-center flex-shrink-0">
+                                  <Target className="w-6 h-6 text-gray-600" />
+                                </div>
+                            )}
+                            <div className="min-w-0 flex-1">
+                              <div className="flex items-center space-x-2">
+                                <HistoryModeBadge mode={run.mode} />
+                                <span className="text-white font-medium truncate">{run.source?.name || 'Sin nombre'}</span>
+                              </div>
+                              <div className="text-xs text-gray-400 mt-1">
+                                {new Date(run.created_at).toLocaleString()} · {run.plate_texts.length} placas
+                                {run.processing_time !== null && ` · ${run.processing_time.toFixed(1)}s`}
+                              </div>
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {run.plate_texts.slice(0, PREVIEW_PLATES).map(text => (
+                                    <span
+                                        key={text}
+                                        className={`font-mono text-xs rounded px-1.5 py-0.5 ${
+                                            matchesQuery(text) ? 'bg-amber-500/30 text-amber-200' : 'bg-white/10 text-gray-300'
+                                        }`}
+                                    >
+                                      {text}
+                                    </span>
+                                ))}
+                                {run.plate_texts.length > PREVIEW_PLATES && (
+                                    <span className="text-xs text-gray-500">+{run.plate_texts.length - PREVIEW_PLATES}</span>
+                                )}
+                              </div>
+                            </div>
+                          </Link>
+                          <Button
+                              onClick={() => handleDelete(run)}
+                              variant="ghost"
+                              size="sm"
+                              title="Eliminar del historial"
+                              className="text-gray-500 hover:text-red-400 flex-shrink-0"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default History;
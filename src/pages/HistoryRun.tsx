@@ -0,0 +1,261 @@
+// src/pages/HistoryRun.tsx
+// ✅ DETALLE DE UN ANÁLISIS GUARDADO: resumen, parámetros, miniaturas y placas sin volver a procesar
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { ArrowLeft, AlertCircle, Download, History as HistoryIcon, Loader2, Trash2, Target } from "lucide-react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { detectionHistory, historyPlateRows } from "@/services/detectionHistory";
+import { useObjectUrls } from "@/hooks/useObjectUrls";
+import HistoryModeBadge from "@/components/HistoryModeBadge";
+import PlateFormatBadge from "@/components/PlateFormatBadge";
+import PlatesSummaryCard from "@/components/PlatesSummaryCard";
+import type { HistoryRun as HistoryRunRecord } from "@/types/history";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// JSON sin las miniaturas (Blob no se serializa)
+function downloadRun(run: HistoryRunRecord): void {
+  const { thumbnails, ...data } = run;
+  const payload = { ...data, thumbnails: thumbnails.length };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `carid_${run.mode}_${new Date(run.created_at).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const HistoryRun: React.FC = () => {
+  const { runId } = useParams<{ runId: string }>();
+  const navigate = useNavigate();
+  const [run, setRun] = useState<HistoryRunRecord | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    detectionHistory.get(runId || '')
+        .then(found => {
+          if (cancelled) return;
+          setRun(found);
+          setError(found ? null : 'El análisis no existe o fue eliminado');
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'No se pudo leer el historial');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId]);
+
+  const thumbnailBlobs = useMemo(() => run?.thumbnails.map(thumbnail => thumbnail.blob) || [], [run]);
+  const thumbnailUrls = useObjectUrls(thumbnailBlobs);
+  const plateRows = useMemo(() => run ? historyPlateRows(run) : [], [run]);
+
+  const handleDelete = async () => {
+    if (!run || !window.confirm('¿Eliminar este análisis del historial?')) return;
+    try {
+      await detectionHistory.remove(run.id);
+      toast.success('Análisis eliminado');
+      navigate('/history');
+    } catch (err) {
+      toast.error('No se pudo eliminar', { description: err instanceof Error ? err.message : undefined });
+    }
+  };
+
+  return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
+        {/* Header */}
+        <header className="bg-black/20 backdrop-blur-sm border-b border-white/10">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link to="/history" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <ArrowLeft className="w-5 h-5 text-white" />
+                <span className="text-white">Volver al historial</span>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-slate-500 to-slate-600 rounded-lg flex items-center justify-center">
+                  <HistoryIcon className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-lg font-bold text-white">Análisis Guardado</span>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-12">
+          <div className="max-w-6xl mx-auto space-y-6">
+            {isLoading && (
+                <div className="flex items-center justify-center py-16 text-gray-400">
+                  <Loader2 className="w-6 h-6 animate-spin mr-3" />
+                  Cargando análisis...
+                </div>
+            )}
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center space-x-3">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  <p className="text-red-300 text-sm">{error}</p>
+                </div>
+            )}
+
+            {run && (
+                <>
+                  {/* Cabecera del análisis */}
+                  <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                    <CardContent className="p-6">
+                      <div className="flex flex-wrap items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <HistoryModeBadge mode={run.mode} />
+                            <h1 className="text-xl font-bold text-white">{run.source?.name || 'Sin nombre'}</h1>
+                          </div>
+                          <p className="text-sm text-gray-400 mt-1">
+                            {new Date(run.created_at).toLocaleString()}
+                            {run.source?.size_bytes ? ` · ${formatBytes(run.source.size_bytes)}` : ''}
+                            {run.processing_time !== null && ` · ${run.processing_time.toFixed(1)}s de procesamiento`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                              onClick={() => downloadRun(run)}
+                              variant="outline"
+                              size="sm"
+                              className="border-white/20 text-white hover:bg-white/10"
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Exportar JSON
+                          </Button>
+                          <Button
+                              onClick={handleDelete}
+                              variant="outline"
+                              size="sm"
+                              className="border-red-500/30 text-red-300 hover:bg-red-500/10"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Eliminar
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-6">
+                        {[
+                          { label: 'Frames procesados', value: run.summary.frames_processed },
+                          { label: 'Frames con placas', value: run.summary.frames_with_detections },
+                          { label: 'Detecciones', value: run.summary.total_detections },
+                          { label: 'Placas únicas', value: run.summary.unique_plates_found },
+                          { label: 'Placas válidas', value: run.summary.valid_plates }
+                        ].map(stat => (
+                            <div key={stat.label} className="bg-white/5 rounded-lg p-3 text-center">
+                              <div className="text-2xl font-bold text-white">{stat.value}</div>
+                              <div className="text-xs text-gray-400">{stat.label}</div>
+                            </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  {/* Miniaturas de los mejores frames */}
+                  {thumbnailUrls.length > 0 && (
+                      <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                        <CardHeader>
+                          <CardTitle className="text-white">Mejores frames</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {thumbnailUrls.map((url, index) => url && (
+                                <figure key={index} className="bg-black/30 rounded-lg overflow-hidden">
+                                  <img src={url} alt={run.thumbnails[index].plate_text || 'Frame'} className="w-full object-cover" />
+                                  <figcaption className="px-2 py-1 text-xs text-gray-300 flex justify-between">
+                                    <span className="font-mono">{run.thumbnails[index].plate_text || '—'}</span>
+                                    {run.thumbnails[index].frame_number !== null && (
+                                        <span className="text-gray-500">frame {run.thumbnails[index].frame_number}</span>
+                                    )}
+                                  </figcaption>
+                                </figure>
+                            ))}
+                          </div>
+                        </CardContent>
+                      </Card>
+                  )}
+
+                  {/* Placas */}
+                  {run.mode === 'streaming' ? (
+                      <PlatesSummaryCard
+                          allUniquePlates={run.plates}
+                          spatialRegions={{}}
+                          enhancementStats={null}
+                          isStreaming={false}
+                      />
+                  ) : (
+                      <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                        <CardHeader>
+                          <CardTitle className="text-white">Placas detectadas ({plateRows.length})</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          {plateRows.length === 0 ? (
+                              <div className="text-center py-8">
+                                <Target className="w-10 h-10 text-gray-600 mx-auto mb-3" />
+                                <p className="text-gray-400">No se detectaron placas en este análisis</p>
+                              </div>
+                          ) : (
+                              <div className="space-y-2">
+                                {plateRows.map(row => (
+                                    <div key={row.plate_text} className="flex items-center justify-between bg-white/5 rounded-lg px-4 py-3">
+                                      <div className="flex items-center space-x-3">
+                                        <span className="font-mono text-lg font-bold text-white">{row.plate_text}</span>
+                                        <PlateFormatBadge plateText={row.plate_text} characterConfidences={row.character_confidences} />
+                                        {row.is_valid && (
+                                            <Badge className="bg-green-500/20 text-green-300 border-green-500/30">Válida</Badge>
+                                        )}
+                                      </div>
+                                      <div className="text-right text-sm">
+                                        <div className="text-white">{(row.confidence * 100).toFixed(1)}%</div>
+                                        {run.mode === 'video' && (
+                                            <div className="text-xs text-gray-400">{row.detection_count} detecciones</div>
+                                        )}
+                                      </div>
+                                    </div>
+                                ))}
+                              </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                  )}
+
+                  {/* Parámetros */}
+                  <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                    <CardHeader>
+                      <CardTitle className="text-white">Parámetros del análisis</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+                        {Object.entries(run.params).map(([key, value]) => (
+                            <div key={key} className="flex justify-between border-b border-white/5 py-1">
+                              <dt className="text-gray-400 font-mono">{key}</dt>
+                              <dd className="text-white">{String(value)}</dd>
+                            </div>
+                        ))}
+                      </dl>
+                    </CardContent>
+                  </Card>
+                </>
+            )}
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default HistoryRun;
@@ -1,76 +1,56 @@
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import {
   ArrowLeft, Image as ImageIcon, Upload, Target, Download,
-  AlertCircle, CheckCircle, Zap, Eye, Clock, Shield, FileText
+  AlertCircle, CheckCircle, Zap, Eye, Clock, Shield, FileText, Crop, Layers, Link2, Camera, ClipboardPaste
 } from "lucide-react";
 import { Link } from "react-router-dom";
-import {streamingApi} from "@/services/streamingApi.ts";
-
-// Tipos TypeScript para evitar any
-interface PlateDetection {
-  plate_text: string;
-  overall_confidence: number;
-  is_valid_plate: boolean;
-  is_six_char_valid?: boolean;
-  char_count?: number;
-  bbox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  plate_region_confidence?: number;
-  text_confidence?: number;
-  character_confidences?: number[];
-}
-
-interface ProcessingSummary {
-  total_detections: number;
-  valid_detections: number;
-  processing_steps: string[];
-  enhancement_applied?: boolean;
-}
-
-interface FileInfo {
-  filename: string;
-  size_mb: number;
-  dimensions?: {
-    width: number;
-    height: number;
-  };
-  format?: string;
-}
-
-interface ImageDetectionResponse {
-  success: boolean;
-  message: string;
-  data?: {
-    success: boolean;
-    best_result: PlateDetection | null;
-    final_results: PlateDetection[];
-    plates_processed: number;
-    processing_time: number;
-    processing_summary: ProcessingSummary;
-    file_info: FileInfo;
-    result_urls?: {
-      annotated_image_url?: string;
-      cropped_plates_urls?: string[];
-      original?: string;
-    };
-  };
-  timestamp?: string;
-}
-
-interface QuickDetectionResponse {
-  success: boolean;
-  plate_text: string;
-  confidence: number;
-  is_valid_format: boolean;
-  processing_time: number;
-  message?: string;
+import { apiClient, ApiError } from "@/services/apiClient";
+import { logger } from "@/services/logger";
+import type { PlateDetection, ProcessingSummary, FileInfo } from "@/types/alpr";
+import PlateFormatBadge from "@/components/PlateFormatBadge";
+import DetectionOverlay from "@/components/DetectionOverlay";
+import PlateCropPreview from "@/components/PlateCropPreview";
+import ImagePreprocessPanel from "@/components/ImagePreprocessPanel";
+import ProcessingConfigPanel from "@/components/ProcessingConfigPanel";
+import ImageUrlImport from "@/components/ImageUrlImport";
+import CameraSnapshot from "@/components/CameraSnapshot";
+import { useLoadedImage } from "@/hooks/useLoadedImage";
+import { useObjectUrls } from "@/hooks/useObjectUrls";
+import { useImagePreprocessing } from "@/hooks/useImagePreprocessing";
+import { useProcessingConfig } from "@/hooks/useProcessingConfig";
+import { overlayBoxes } from "@/services/imageOverlay";
+import { detectionHistory, createThumbnail } from "@/services/detectionHistory";
+import { imagePreprocessor, loadPreprocessOptions, preprocessParams, savePreprocessOptions } from "@/services/imagePreprocessing";
+import { processingConfig, toRequestParams, validateProcessingConfig } from "@/services/processingConfig";
+import { imageFromClipboard, validateImageFile } from "@/services/imageSources";
+import type { PreprocessOptions } from "@/types/preprocessing";
+import type { ImageHistoryRun } from "@/types/history";
+
+// overlay: cajas dibujadas en el navegador sobre la imagen original; annotated: imagen renderizada por el servidor
+type PreviewMode = 'overlay' | 'annotated';
+
+// Orígenes alternativos al selector de archivos (el portapapeles funciona siempre con Ctrl+V)
+type ImageSourceMode = 'url' | 'camera';
+
+type ImageRunResult = Pick<ImageHistoryRun, 'plates' | 'best_plate' | 'file_info' | 'summary' | 'processing_time' | 'params'>;
+
+// 🗂️ Guardar el análisis en el historial local; si falla solo se registra
+// La fuente es el archivo elegido; la miniatura sale de lo que se subió (ya recortado y orientado)
+async function saveToHistory(file: File, uploaded: File, result: ImageRunResult): Promise<void> {
+  try {
+    const thumbnail = await createThumbnail(uploaded);
+    await detectionHistory.save({
+      mode: 'image',
+      source: { name: file.name, size_bytes: file.size, type: file.type },
+      thumbnails: thumbnail ? [{ plate_text: result.best_plate?.plate_text ?? null, frame_number: null, blob: thumbnail }] : [],
+      ...result
+    });
+  } catch (err) {
+    logger.warn('History', 'No se pudo guardar el análisis en el historial', err);
+  }
 }
 
 const ImageRecognition: React.FC = () => {
@@ -84,70 +64,131 @@ const ImageRecognition: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [annotatedImageUrl, setAnnotatedImageUrl] = useState<string | null>(null);
   const [processingTime, setProcessingTime] = useState<number>(0);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('overlay');
+  const [highlightedPlate, setHighlightedPlate] = useState<PlateDetection | null>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+  // Archivo que recibió el servidor en el último análisis: las cajas vienen en sus coordenadas
+  const [analyzedFile, setAnalyzedFile] = useState<File | null>(null);
+  // Parámetros con los que se hizo el último análisis (van al historial y a la exportación)
+  const [runParams, setRunParams] = useState<Record<string, unknown> | null>(null);
+  const [sourceMode, setSourceMode] = useState<ImageSourceMode | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const preprocessing = useImagePreprocessing(selectedFile, preprocessOptions);
+  const uploadFile = preprocessing.uploadFile ?? selectedFile;
+  const isBusy = isProcessing || preprocessing.isProcessing;
+
+  const { configs } = useProcessingConfig();
+  const configErrors = useMemo(() => Object.values(validateProcessingConfig(configs.image, 'image')), [configs.image]);
+  const canAnalyze = !isBusy && configErrors.length === 0;
+
+  const analyzedBlobs = useMemo(() => [analyzedFile], [analyzedFile]);
+  const [analyzedImageUrl] = useObjectUrls(analyzedBlobs);
+  const loadedImage = useLoadedImage(analyzedImageUrl ?? selectedImage);
+
+  // Cajas de final_results en píxeles de la imagen cargada (las placas sin bbox no se dibujan)
+  const plateBoxes = useMemo(() => {
+    if (!loadedImage) return [];
+    return overlayBoxes(
+        results,
+        { width: loadedImage.naturalWidth, height: loadedImage.naturalHeight },
+        fileInfo?.dimensions
+    );
+  }, [loadedImage, results, fileInfo]);
+
+  // best_result llega como objeto aparte: su entrada equivalente en final_results para enlazar el resaltado
+  const bestResultPlate = useMemo(() => {
+    if (!bestResult) return null;
+    return results.find(p =>
+        p.plate_text === bestResult.plate_text && p.bbox?.x === bestResult.bbox?.x && p.bbox?.y === bestResult.bbox?.y
+    ) ?? null;
+  }, [results, bestResult]);
+
+  const showOverlay = !isProcessing && loadedImage !== null && plateBoxes.length > 0 &&
+      (previewMode === 'overlay' || !annotatedImageUrl);
+
+  // Cancelar peticiones en curso al salir de la página
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
-  const API_BASE_URL = streamingApi.baseUrl;
+  const handlePreprocessChange = useCallback((options: PreprocessOptions) => {
+    setPreprocessOptions(options);
+    savePreprocessOptions(options);
+  }, []);
+
+  // 📥 Punto de entrada común: selector, portapapeles, URL y cámara
+  const acceptFile = useCallback((file: File) => {
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSelectedFile(file);
+    setSelectedImage(URL.createObjectURL(file));
+    setAnalyzedFile(null);
+    setRunParams(null);
+    setPreprocessOptions(prev => ({ ...prev, crop: null }));
+    setResults([]);
+    setBestResult(null);
+    setError(null);
+    setProcessingStats(null);
+    setFileInfo(null);
+    setAnnotatedImageUrl(null);
+    setHighlightedPlate(null);
+    setProcessingTime(0);
+    setSourceMode(null);
+  }, []);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-      if (!validTypes.includes(file.type)) {
-        setError('Formato de imagen no soportado. Use JPG, PNG o WEBP');
-        return;
-      }
-
-      const maxSize = 50 * 1024 * 1024; // 50MB
-      if (file.size > maxSize) {
-        setError('El archivo es muy grande. Máximo 50MB permitido');
-        return;
-      }
-
-      setSelectedFile(file);
-      setSelectedImage(URL.createObjectURL(file));
-      setResults([]);
-      setBestResult(null);
-      setError(null);
-      setProcessingStats(null);
-      setFileInfo(null);
-      setAnnotatedImageUrl(null);
-      setProcessingTime(0);
+      acceptFile(file);
     }
     // Limpiar el input para permitir seleccionar el mismo archivo
     if (event.target) {
       event.target.value = '';
     }
-  }, []);
+  }, [acceptFile]);
+
+  // 📋 Ctrl+V en cualquier parte de la página (el texto pegado en campos no se toca)
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isProcessing) return;
+      const file = imageFromClipboard(event.clipboardData);
+      if (!file) return;
+      event.preventDefault();
+      acceptFile(file);
+      toast.success('Imagen pegada desde el portapapeles');
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [acceptFile, isProcessing]);
+
+  const handleImportedFile = useCallback((file: File) => {
+    acceptFile(file);
+    toast.success('Imagen importada', { description: file.name });
+  }, [acceptFile]);
 
   const handleProcess = useCallback(async () => {
-    if (!selectedFile) return;
+    if (!selectedFile || !uploadFile) return;
 
     setIsProcessing(true);
     setError(null);
     setResults([]);
     setBestResult(null);
 
-    try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('confidence_threshold', '0.5');
-      formData.append('iou_threshold', '0.4');
-      formData.append('max_detections', '5');
-      formData.append('enhance_image', 'true');
-      formData.append('return_visualization', 'true');
-      formData.append('save_results', 'true');
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/detect/image`, {
-        method: 'POST',
-        body: formData,
-      });
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
 
-      if (!response.ok) {
-        throw new Error(`Error HTTP: ${response.status}`);
-      }
+    const params = toRequestParams(processingConfig.getConfig('image'), 'image');
+    const recorded = { ...processingConfig.recordedParams('image', params), ...preprocessParams(preprocessOptions, preprocessing.result) };
 
-      const data: ImageDetectionResponse = await response.json();
+    try {
+      const data = await apiClient.detectImage(uploadFile, params, { signal: abortControllerRef.current.signal });
 
       if (data.success && data.data) {
         const { final_results, best_result, processing_summary, file_info, result_urls, processing_time } = data.data;
@@ -159,9 +200,21 @@ const ImageRecognition: React.FC = () => {
         setProcessingTime(processing_time);
 
         if (result_urls?.annotated_image_url) {
-          setAnnotatedImageUrl(`${API_BASE_URL}${result_urls.annotated_image_url}`);
+          setAnnotatedImageUrl(apiClient.resolveUrl(result_urls.annotated_image_url));
         }
 
+        setAnalyzedFile(uploadFile);
+        setRunParams(recorded);
+
+        void saveToHistory(selectedFile, uploadFile, {
+          plates: final_results || [],
+          best_plate: best_result,
+          file_info,
+          summary: processing_summary,
+          processing_time,
+          params: recorded
+        });
+
         const validPlates = final_results?.filter(p => p.is_valid_plate) || [];
         const sixCharPlates = final_results?.filter(p => p.is_six_char_valid) || [];
 
@@ -176,7 +229,8 @@ const ImageRecognition: React.FC = () => {
       }
 
     } catch (err) {
-      console.error('Error al procesar imagen:', err);
+      if (err instanceof ApiError && err.isAborted) return;
+      logger.error('Image', 'Error al procesar imagen', err);
       const errorMessage = err instanceof Error ? err.message : 'Error de conexión con el servidor';
       setError(errorMessage);
       toast.error('Error de conexión', {
@@ -185,31 +239,29 @@ const ImageRecognition: React.FC = () => {
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedFile]);
+  }, [selectedFile, uploadFile, preprocessOptions, preprocessing.result]);
 
   const handleQuickProcess = useCallback(async () => {
-    if (!selectedFile) return;
+    if (!selectedFile || !uploadFile) return;
 
     setIsProcessing(true);
     setError(null);
     setResults([]);
     setBestResult(null);
 
-    try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('confidence_threshold', '0.6');
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
 
-      const response = await fetch(`${API_BASE_URL}/api/v1/detect/image/quick`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Error HTTP: ${response.status}`);
-      }
+    // El endpoint rápido solo acepta el umbral de confianza
+    const params = { confidence_threshold: processingConfig.getConfig('image').confidence_threshold };
+    const recorded = {
+      ...processingConfig.recordedParams('image', params),
+      quick: true,
+      ...preprocessParams(preprocessOptions, preprocessing.result)
+    };
 
-      const data: QuickDetectionResponse = await response.json();
+    try {
+      const data = await apiClient.detectImageQuick(uploadFile, params, { signal: abortControllerRef.current.signal });
 
       if (data.success && data.plate_text) {
         const quickResult: PlateDetection = {
@@ -224,6 +276,18 @@ const ImageRecognition: React.FC = () => {
         setBestResult(quickResult);
         setProcessingTime(data.processing_time);
 
+        setAnalyzedFile(uploadFile);
+        setRunParams(recorded);
+
+        void saveToHistory(selectedFile, uploadFile, {
+          plates: [quickResult],
+          best_plate: quickResult,
+          file_info: null,
+          summary: { total_detections: 1, valid_plates: quickResult.is_valid_plate ? 1 : 0 },
+          processing_time: data.processing_time,
+          params: recorded
+        });
+
         toast.success('Detección rápida completada', {
           description: `Placa encontrada: ${data.plate_text}`
         });
@@ -235,7 +299,8 @@ const ImageRecognition: React.FC = () => {
       }
 
     } catch (err) {
-      console.error('Error en detección rápida:', err);
+      if (err instanceof ApiError && err.isAborted) return;
+      logger.error('Image', 'Error en detección rápida', err);
       const errorMessage = err instanceof Error ? err.message : 'Error de conexión con el servidor';
       setError(errorMessage);
       toast.error('Error en detección rápida', {
@@ -244,21 +309,26 @@ const ImageRecognition: React.FC = () => {
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedFile]);
+  }, [selectedFile, uploadFile, preprocessOptions, preprocessing.result]);
 
   const triggerFileSelect = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
   const resetForm = useCallback(() => {
+    abortControllerRef.current?.abort();
     setSelectedFile(null);
     setSelectedImage(null);
+    setAnalyzedFile(null);
+    setRunParams(null);
+    setPreprocessOptions(prev => ({ ...prev, crop: null }));
     setResults([]);
     setBestResult(null);
     setError(null);
     setProcessingStats(null);
     setFileInfo(null);
     setAnnotatedImageUrl(null);
+    setHighlightedPlate(null);
     setProcessingTime(0);
   }, []);
 
@@ -268,6 +338,7 @@ const ImageRecognition: React.FC = () => {
       file_info: fileInfo,
       processing_stats: processingStats,
       processing_time: processingTime,
+      params: runParams,
       best_result: bestResult,
       all_results: results,
       total_plates: results.length,
@@ -286,7 +357,7 @@ const ImageRecognition: React.FC = () => {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [fileInfo, processingStats, processingTime, bestResult, results]);
+  }, [fileInfo, processingStats, processingTime, runParams, bestResult, results]);
 
   // Helper functions
   const getConfidenceColor = (confidence: number): string => {
@@ -350,28 +421,58 @@ const ImageRecognition: React.FC = () => {
                 <CardContent className="p-6">
                   <h3 className="text-lg font-bold text-white mb-4">Subir Imagen</h3>
 
-                  {!selectedFile ? (
-                      <div
-                          className="border-2 border-dashed border-white/30 rounded-lg p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
-                          onClick={triggerFileSelect}
-                      >
-                        <Upload className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-                        <p className="text-white mb-1 text-sm">Selecciona tu imagen</p>
-                        <p className="text-gray-400 text-xs mb-3">JPG, PNG, WEBP (máx. 50MB)</p>
-                        <input
-                            ref={fileInputRef}
-                            type="file"
-                            accept="image/jpeg,image/jpg,image/png,image/webp"
-                            onChange={handleFileSelect}
-                            className="hidden"
-                        />
-                        <Button
-                            size="sm"
-                            className="bg-blue-600 hover:bg-blue-700 text-white pointer-events-none"
-                            type="button"
+                  {!selectedFile && sourceMode === 'camera' ? (
+                      <CameraSnapshot onCapture={handleImportedFile} onClose={() => setSourceMode(null)} />
+                  ) : !selectedFile ? (
+                      <div className="space-y-3">
+                        <div
+                            className="border-2 border-dashed border-white/30 rounded-lg p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
+                            onClick={triggerFileSelect}
                         >
-                          Seleccionar
-                        </Button>
+                          <Upload className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                          <p className="text-white mb-1 text-sm">Selecciona tu imagen</p>
+                          <p className="text-gray-400 text-xs mb-3">JPG, PNG, WEBP (máx. 50MB)</p>
+                          <input
+                              ref={fileInputRef}
+                              type="file"
+                              accept="image/jpeg,image/jpg,image/png,image/webp"
+                              onChange={handleFileSelect}
+                              className="hidden"
+                          />
+                          <Button
+                              size="sm"
+                              className="bg-blue-600 hover:bg-blue-700 text-white pointer-events-none"
+                              type="button"
+                          >
+                            Seleccionar
+                          </Button>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                          <Button
+                              size="sm"
+                              onClick={() => setSourceMode(sourceMode === 'url' ? null : 'url')}
+                              className={`text-white border border-white/30 hover:bg-blue-600/70 ${sourceMode === 'url' ? 'bg-blue-600/70' : 'bg-white/10'}`}
+                          >
+                            <Link2 className="w-4 h-4 mr-2" />
+                            Desde URL
+                          </Button>
+                          <Button
+                              size="sm"
+                              onClick={() => setSourceMode('camera')}
+                              className="bg-white/10 text-white border border-white/30 hover:bg-blue-600/70"
+                          >
+                            <Camera className="w-4 h-4 mr-2" />
+                            Cámara
+                          </Button>
+                        </div>
+
+                        {sourceMode === 'url' && <ImageUrlImport onImport={handleImportedFile} />}
+
+                        <p className="text-gray-500 text-xs text-center flex items-center justify-center space-x-1">
+                          <ClipboardPaste className="w-3 h-3" />
+                          <span>También puedes pegar una imagen con Ctrl+V</span>
+                        </p>
                       </div>
                   ) : (
                       <div className="space-y-4">
@@ -396,7 +497,7 @@ const ImageRecognition: React.FC = () => {
                         <div className="grid grid-cols-2 gap-3">
                           <Button
                               onClick={handleProcess}
-                              disabled={isProcessing}
+                              disabled={!canAnalyze}
                               className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white"
                           >
                             {isProcessing ? (
@@ -414,7 +515,7 @@ const ImageRecognition: React.FC = () => {
 
                           <Button
                               onClick={handleQuickProcess}
-                              disabled={isProcessing}
+                              disabled={!canAnalyze}
                               className="bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white"
                           >
                             {isProcessing ? (
@@ -441,6 +542,22 @@ const ImageRecognition: React.FC = () => {
                       </div>
                   )}
 
+                  {configErrors.length > 0 && (
+                      <p className="mt-3 text-xs text-red-400">Corrige los parámetros de detección para analizar.</p>
+                  )}
+
+                  <div className="mt-6">
+                    <ProcessingConfigPanel mode="image" disabled={isProcessing} />
+                  </div>
+
+                  <Link
+                      to="/recognition/image/batch"
+                      className="mt-4 flex items-center justify-center space-x-2 text-sm text-blue-300 hover:text-blue-200"
+                  >
+                    <Layers className="w-4 h-4" />
+                    <span>¿Muchas imágenes? Procesar en lote</span>
+                  </Link>
+
                   {/* Características */}
                   <div className="mt-6 bg-white/5 rounded-lg p-4">
                     <h4 className="text-white font-semibold mb-2 text-sm">Características</h4>
@@ -463,7 +580,25 @@ const ImageRecognition: React.FC = () => {
               {/* Image Preview */}
               <Card className="lg:col-span-2 bg-white/10 border-white/20 backdrop-blur-sm">
                 <CardContent className="p-6">
-                  <h3 className="text-lg font-bold text-white mb-4">Preview de Imagen</h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-bold text-white">Preview de Imagen</h3>
+                    {plateBoxes.length > 0 && annotatedImageUrl && !isProcessing && (
+                        <div className="flex bg-white/5 rounded-md p-0.5 text-xs">
+                          <button
+                              onClick={() => setPreviewMode('overlay')}
+                              className={`px-2 py-1 rounded ${previewMode === 'overlay' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                          >
+                            Cajas interactivas
+                          </button>
+                          <button
+                              onClick={() => setPreviewMode('annotated')}
+                              className={`px-2 py-1 rounded ${previewMode === 'annotated' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                          >
+                            Imagen anotada
+                          </button>
+                        </div>
+                    )}
+                  </div>
 
                   {!selectedImage ? (
                       <div className="bg-black/30 rounded-lg aspect-video flex items-center justify-center">
@@ -474,26 +609,40 @@ const ImageRecognition: React.FC = () => {
                       </div>
                   ) : (
                       <div className="space-y-4">
-                        <div className="bg-black rounded-lg overflow-hidden relative">
-                          <img
-                              src={annotatedImageUrl || selectedImage}
-                              alt="Preview"
-                              className="w-full h-auto max-h-96 object-contain mx-auto"
-                          />
-                          {annotatedImageUrl && (
-                              <div className="absolute top-2 right-2 bg-green-600/80 text-white px-2 py-1 rounded text-xs">
-                                Imagen Anotada
-                              </div>
-                          )}
-                          {isProcessing && (
-                              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                                <div className="text-center">
-                                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto mb-4"></div>
-                                  <p className="text-white">Analizando imagen...</p>
-                                </div>
-                              </div>
-                          )}
-                        </div>
+                        {showOverlay ? (
+                            <div className="space-y-2">
+                              <DetectionOverlay
+                                  image={loadedImage}
+                                  boxes={plateBoxes}
+                                  highlighted={highlightedPlate}
+                                  onHighlight={setHighlightedPlate}
+                              />
+                              <p className="text-xs text-gray-500">
+                                Rueda para acercar, arrastrar para mover y doble clic para encajar. Pasa el cursor por una placa para verla en los resultados.
+                              </p>
+                            </div>
+                        ) : (
+                            <div className="bg-black rounded-lg overflow-hidden relative">
+                              <img
+                                  src={annotatedImageUrl || analyzedImageUrl || selectedImage}
+                                  alt="Preview"
+                                  className="w-full h-auto max-h-96 object-contain mx-auto"
+                              />
+                              {annotatedImageUrl && (
+                                  <div className="absolute top-2 right-2 bg-green-600/80 text-white px-2 py-1 rounded text-xs">
+                                    Imagen Anotada
+                                  </div>
+                              )}
+                              {isProcessing && (
+                                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                    <div className="text-center">
+                                      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto mb-4"></div>
+                                      <p className="text-white">Analizando imagen...</p>
+                                    </div>
+                                  </div>
+                              )}
+                            </div>
+                        )}
 
                         {fileInfo && (
                             <div className="bg-white/5 rounded-lg p-3">
@@ -527,6 +676,26 @@ const ImageRecognition: React.FC = () => {
               </Card>
             </div>
 
+            {/* Preprocesado */}
+            {selectedFile && selectedImage && (
+                <Card className="bg-white/10 border-white/20 backdrop-blur-sm mt-8">
+                  <CardContent className="p-6">
+                    <ImagePreprocessPanel
+                        file={selectedFile}
+                        originalUrl={selectedImage}
+                        options={preprocessOptions}
+                        onChange={handlePreprocessChange}
+                        result={preprocessing.result}
+                        previewUrl={preprocessing.previewUrl}
+                        isProcessing={preprocessing.isProcessing}
+                        error={preprocessing.error}
+                        usesWorker={imagePreprocessor.usesWorker}
+                        disabled={isProcessing}
+                    />
+                  </CardContent>
+                </Card>
+            )}
+
             {/* Results Section */}
             {(isProcessing || results.length > 0) && (
                 <Card className="bg-white/10 border-white/20 backdrop-blur-sm mt-8">
@@ -580,13 +749,25 @@ const ImageRecognition: React.FC = () => {
 
                           {/* Mejor resultado */}
                           {bestResult && (
-                              <div className="bg-gradient-to-r from-green-600/10 to-blue-600/10 rounded-lg border border-green-500/20 p-6">
+                              <div
+                                  className={`bg-gradient-to-r from-green-600/10 to-blue-600/10 rounded-lg border p-6 transition-all ${
+                                      bestResultPlate && highlightedPlate === bestResultPlate ? 'border-blue-400' : 'border-green-500/20'
+                                  }`}
+                                  onMouseEnter={() => setHighlightedPlate(bestResultPlate)}
+                                  onMouseLeave={() => setHighlightedPlate(null)}
+                              >
                                 <h4 className="text-white font-semibold mb-3 flex items-center">
                                   <Target className="w-5 h-5 mr-2 text-green-400" />
                                   Mejor Resultado
                                 </h4>
                                 <div className="flex items-center justify-between mb-4">
-                                  <span className="text-white font-mono text-2xl">{bestResult.plate_text}</span>
+                                  <div className="flex items-center space-x-3">
+                                    <span className="text-white font-mono text-2xl">{bestResult.plate_text}</span>
+                                    <PlateFormatBadge
+                                        plateText={bestResult.plate_text}
+                                        characterConfidences={bestResult.character_confidences}
+                                    />
+                                  </div>
                                   <div className="flex items-center space-x-3">
                                     {bestResult.is_six_char_valid && (
                                         <div className="flex items-center space-x-1 text-green-400">
@@ -633,8 +814,11 @@ const ImageRecognition: React.FC = () => {
                                       .map((result, index) => (
                                           <div
                                               key={`${result.plate_text}-${index}`}
+                                              onMouseEnter={() => setHighlightedPlate(result)}
+                                              onMouseLeave={() => setHighlightedPlate(null)}
                                               className={`
                                   bg-white/5 rounded-lg p-4 border transition-all
+                                  ${result === highlightedPlate ? 'ring-2 ring-blue-400' : ''}
                                   ${result.is_six_char_valid
                                                   ? 'border-green-500/30 bg-green-500/5'
                                                   : result.is_valid_plate
@@ -657,6 +841,10 @@ const ImageRecognition: React.FC = () => {
                                                       <CheckCircle className="w-4 h-4 text-yellow-400" />
                                                   )}
                                                 </div>
+                                                <PlateFormatBadge
+                                                    plateText={result.plate_text}
+                                                    characterConfidences={result.character_confidences}
+                                                />
                                               </div>
                                               <span className={`text-sm font-semibold ${getConfidenceColor(result.overall_confidence)}`}>
                                     {(result.overall_confidence * 100).toFixed(1)}%
@@ -668,6 +856,28 @@ const ImageRecognition: React.FC = () => {
                               </div>
                           )}
 
+                          {/* Recortes generados en el navegador a partir del bbox */}
+                          {loadedImage && plateBoxes.length > 0 && (
+                              <div>
+                                <h4 className="text-white font-semibold mb-3 flex items-center">
+                                  <Crop className="w-5 h-5 mr-2 text-blue-400" />
+                                  Recortes de Placas
+                                </h4>
+                                <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                                  {plateBoxes.map(({ plate, rect }, index) => (
+                                      <PlateCropPreview
+                                          key={`${plate.plate_text}-${index}`}
+                                          image={loadedImage}
+                                          plate={plate}
+                                          rect={rect}
+                                          highlighted={plate === highlightedPlate}
+                                          onHighlight={setHighlightedPlate}
+                                      />
+                                  ))}
+                                </div>
+                              </div>
+                          )}
+
                           {/* Resumen y exportar */}
                           <div className="mt-6 p-4 bg-gradient-to-r from-blue-600/10 to-green-600/10 rounded-lg border border-white/10">
                             <div className="flex items-center justify-between">
@@ -0,0 +1,200 @@
+// src/pages/Monitor.tsx
+// ✅ MONITOR MULTICÁMARA: grid de 4 a 16 celdas, cada una con su sesión, y feed unificado de placas
+
+import React, { useState, useRef, useCallback, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, LayoutGrid, Target, Trash2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import MonitorTile from "../components/MonitorTile";
+import { streamingApi } from "../services/streamingApi";
+import { useBackendConfig } from "../hooks/useBackendConfig";
+import { getConfidenceColor, type UniquePlate } from "../types/streaming";
+import type { CameraSource } from "../types/alpr";
+
+// Tamaños de grid disponibles y sus columnas (clases fijas para que Tailwind las genere)
+const GRID_LAYOUTS: Record<number, string> = {
+  4: 'md:grid-cols-2',
+  6: 'md:grid-cols-3',
+  9: 'md:grid-cols-3',
+  12: 'md:grid-cols-4',
+  16: 'md:grid-cols-4'
+};
+
+const MAX_FEED_ENTRIES = 200;
+
+interface PlateFeedEntry {
+  key: string;
+  plate_text: string;
+  confidence: number;
+  detection_count: number;
+  tileId: string;
+  sourceLabel: string;
+  seenAt: number;
+}
+
+const Monitor: React.FC = () => {
+  const backend = useBackendConfig();
+  const [gridSize, setGridSize] = useState<number>(4);
+  const [cameraSources, setCameraSources] = useState<CameraSource[]>([]);
+  const [feed, setFeed] = useState<PlateFeedEntry[]>([]);
+
+  // Último detection_count visto por celda y placa, para detectar apariciones nuevas
+  const seenCountsRef = useRef<Map<string, Map<string, number>>>(new Map());
+
+  useEffect(() => {
+    streamingApi.listCameraSources()
+        .then(response => setCameraSources(response.sources))
+        .catch(() => setCameraSources([]));
+  }, [backend.apiBaseUrl]);
+
+  // 🔀 FUSIONAR LAS PLACAS DE TODAS LAS CELDAS EN UN SOLO FEED
+  const handlePlatesChange = useCallback((tileId: string, sourceLabel: string, plates: UniquePlate[]) => {
+    if (plates.length === 0) {
+      seenCountsRef.current.delete(tileId);
+      return;
+    }
+
+    const seen = seenCountsRef.current.get(tileId) || new Map<string, number>();
+    seenCountsRef.current.set(tileId, seen);
+
+    const now = Date.now();
+    const updates = plates
+        .filter(plate => (seen.get(plate.plate_text) ?? 0) < plate.detection_count)
+        .map(plate => {
+          seen.set(plate.plate_text, plate.detection_count);
+          return {
+            key: `${tileId}:${plate.plate_text}`,
+            plate_text: plate.plate_text,
+            confidence: plate.best_confidence,
+            detection_count: plate.detection_count,
+            tileId,
+            sourceLabel,
+            seenAt: now
+          };
+        });
+
+    if (updates.length === 0) return;
+
+    // Una placa ya listada en la misma celda sube al principio en lugar de duplicarse
+    setFeed(prev => {
+      const updatedKeys = new Set(updates.map(entry => entry.key));
+      return [...updates, ...prev.filter(entry => !updatedKeys.has(entry.key))].slice(0, MAX_FEED_ENTRIES);
+    });
+  }, []);
+
+  const handleClearFeed = () => {
+    setFeed([]);
+  };
+
+  const tileIds = Array.from({ length: gridSize }, (_, index) => `tile-${index + 1}`);
+  const activeTiles = new Set(feed.map(entry => entry.tileId)).size;
+
+  return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
+        {/* Header */}
+        <header className="bg-black/20 backdrop-blur-sm border-b border-white/10">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link to="/recognition" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <ArrowLeft className="w-5 h-5 text-white" />
+                <span className="text-white">Volver a métodos</span>
+              </Link>
+
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-red-500 to-purple-600 rounded-lg flex items-center justify-center">
+                  <LayoutGrid className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-lg font-bold text-white">Monitor Multicámara</span>
+              </div>
+
+              {/* Tamaño del grid */}
+              <div className="flex items-center space-x-1">
+                {Object.keys(GRID_LAYOUTS).map(Number).map(size => (
+                    <Button
+                        key={size}
+                        onClick={() => setGridSize(size)}
+                        size="sm"
+                        variant="ghost"
+                        className={gridSize === size ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}
+                    >
+                      {size}
+                    </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-8">
+          <div className="grid lg:grid-cols-4 gap-6">
+            {/* Grid de cámaras */}
+            <div className={`lg:col-span-3 grid grid-cols-1 ${GRID_LAYOUTS[gridSize]} gap-4 content-start`}>
+              {tileIds.map((tileId, index) => (
+                  <MonitorTile
+                      key={tileId}
+                      tileId={tileId}
+                      title={`Celda ${index + 1}`}
+                      cameraSources={cameraSources}
+                      onPlatesChange={handlePlatesChange}
+                  />
+              ))}
+            </div>
+
+            {/* Feed unificado de placas */}
+            <Card className="bg-white/10 border-white/20 backdrop-blur-sm h-fit">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h3 className="text-lg font-bold text-white">Placas</h3>
+                    <p className="text-xs text-gray-400">
+                      {feed.length} lecturas de {activeTiles} celda{activeTiles !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  {feed.length > 0 && (
+                      <Button
+                          onClick={handleClearFeed}
+                          size="sm"
+                          variant="ghost"
+                          className="text-gray-400 hover:text-red-400"
+                          title="Vaciar feed"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                  )}
+                </div>
+
+                {feed.length === 0 ? (
+                    <div className="text-center py-8">
+                      <Target className="w-10 h-10 text-gray-600 mx-auto mb-2" />
+                      <p className="text-gray-400 text-sm">Asigna una cámara o un video a una celda</p>
+                    </div>
+                ) : (
+                    <div className="space-y-2 max-h-[70vh] overflow-y-auto pr-1">
+                      {feed.map(entry => (
+                          <div key={entry.key} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-white font-mono font-bold">{entry.plate_text}</span>
+                              <span className={`text-xs ${getConfidenceColor(entry.confidence)}`}>
+                            {(entry.confidence * 100).toFixed(0)}%
+                          </span>
+                            </div>
+                            <div className="flex items-center justify-between text-xs text-gray-400 mt-1">
+                              <span className="truncate">{entry.sourceLabel}</span>
+                              <span>
+                            {new Date(entry.seenAt).toLocaleTimeString()} · {entry.detection_count}x
+                          </span>
+                            </div>
+                          </div>
+                      ))}
+                    </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default Monitor;
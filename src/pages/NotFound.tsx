@@ -3,15 +3,13 @@ import { useEffect } from "react";
 import { Target, AlertTriangle, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { logger } from "@/services/logger";
 
 const NotFound = () => {
   const location = useLocation();
 
   useEffect(() => {
-    console.error(
-      "404 Error: User attempted to access non-existent route:",
-      location.pathname
-    );
+    logger.warn("Router", "404: ruta inexistente", location.pathname);
   }, [location.pathname]);
 
   return (
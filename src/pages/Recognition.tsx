@@ -1,7 +1,7 @@
 // src/pages/Recognition.tsx - Versión sin Streaming Live
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Image, Video, Target } from "lucide-react";
+import { ArrowLeft, Image, Video, Target, Settings, LayoutGrid, History } from "lucide-react";
 import { Link } from "react-router-dom";
 
 const Recognition = () => {
@@ -15,11 +15,28 @@ const Recognition = () => {
                 <ArrowLeft className="w-5 h-5 text-white" />
                 <span className="text-white">Volver al inicio</span>
               </Link>
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-green-500 rounded-lg flex items-center justify-center">
-                  <Target className="w-5 h-5 text-white" />
+              <div className="flex items-center space-x-4">
+                <Link to="/monitor" title="Monitor multicámara">
+                  <Button size="sm" variant="ghost" className="text-gray-400 hover:text-white">
+                    <LayoutGrid className="w-4 h-4" />
+                  </Button>
+                </Link>
+                <Link to="/history" title="Historial de detecciones">
+                  <Button size="sm" variant="ghost" className="text-gray-400 hover:text-white">
+                    <History className="w-4 h-4" />
+                  </Button>
+                </Link>
+                <Link to="/settings" title="Configuración del backend">
+                  <Button size="sm" variant="ghost" className="text-gray-400 hover:text-white">
+                    <Settings className="w-4 h-4" />
+                  </Button>
+                </Link>
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-green-500 rounded-lg flex items-center justify-center">
+                    <Target className="w-5 h-5 text-white" />
+                  </div>
+                  <span className="text-lg font-bold text-white">CARID</span>
                 </div>
-                <span className="text-lg font-bold text-white">CARID</span>
               </div>
             </div>
           </div>
@@ -8,20 +8,44 @@ import { toast } from "sonner";
 import {
   ArrowLeft, Video, Settings, Wifi, WifiOff, Upload,
   Play, Pause, Square, Download, Eye, AlertCircle, CheckCircle,
-  Activity, Target, Zap, RefreshCw, Monitor, Clock, Terminal, Shield
+  Activity, Target, Zap, RefreshCw, Monitor, Clock, Terminal, Shield,
+  Camera, CameraOff, Radio, Cctv, Plus, Trash2,
+  SignalHigh, SignalMedium, SignalLow, SignalZero, Circle, FolderOpen, Film
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useStreamingWebSocket } from "../hooks/useStreamingWebSocket";
+import { useWebcamCapture } from "../hooks/useWebcamCapture";
 import {
   isUploadProgressData,
   isSystemMessageData,
+  STREAMING_CONSTANTS,
   type PlateDetection,
   type UniquePlate,
-  type StreamingStatus
+  type StreamingStatus,
+  type ConnectionQuality
 } from "../types/streaming";
 import { streamingApi } from "../services/streamingApi";
+import { useBackendConfig } from "../hooks/useBackendConfig";
 import { StreamingDebugConsole } from "../components/StreamingDebugConsole";
 import PlatesSummaryCard from "../components/PlatesSummaryCard.tsx";
+import UploadProgressBar from "../components/UploadProgressBar";
+import CameraSourceForm from "../components/CameraSourceForm";
+import type { CameraSource, CameraSourceInput } from "../types/alpr";
+import { ApiError } from "../services/apiClient";
+import { logger } from "../services/logger";
+import { parseSessionRecording, REPLAY_SPEEDS } from "../services/sessionRecorder";
+import { playAlertSound } from "../services/alertSound";
+import WatchlistManager from "../components/WatchlistManager";
+import { WatchlistAlertBanner, WatchlistHitsLog } from "../components/WatchlistAlerts";
+import type { WatchlistHit, WatchlistPriority } from "../types/watchlist";
+import { detectionHistory, summarizeStreamingRun, HISTORY_THUMBNAIL } from "../services/detectionHistory";
+import { useBestFrameThumbnails } from "../hooks/useBestFrameThumbnails";
+import type { HistorySource } from "../types/history";
+
+// Toasts por tanda de alertas de vigilancia (el resto queda en el registro)
+const MAX_WATCHLIST_TOASTS = 3;
+
+const WATCHLIST_PRIORITY_ORDER: WatchlistPriority[] = ['high', 'medium', 'low'];
 
 // ✅ INTERFACES CORREGIDAS Y ESPECÍFICAS
 interface StatusInfo {
@@ -31,6 +55,14 @@ interface StatusInfo {
   bgColor: string;
 }
 
+// 📶 INDICADOR DE CALIDAD DE CONEXIÓN (RTT del heartbeat)
+const CONNECTION_QUALITY_INFO: Record<ConnectionQuality, Omit<StatusInfo, 'bgColor'>> = {
+  excellent: { color: 'text-green-400', icon: SignalHigh, text: 'Excelente' },
+  good: { color: 'text-yellow-400', icon: SignalMedium, text: 'Buena' },
+  poor: { color: 'text-red-400', icon: SignalLow, text: 'Inestable' },
+  offline: { color: 'text-gray-500', icon: SignalZero, text: 'Sin conexión' }
+};
+
 interface ServerHealth {
   status: 'healthy' | 'warning' | 'error';
   timestamp: number;
@@ -194,13 +226,14 @@ interface AllPlatesSummary {
 
 const StreamingRecognition: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
 
   // Estado local
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [serverHealth, setServerHealth] = useState<ServerHealth | null>(null);
   const [activeSessions, setActiveSessions] = useState<ActiveSession[]>([]);
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [showDebugConsole, setShowDebugConsole] = useState<boolean>(true);
+  const [replaySpeed, setReplaySpeedChoice] = useState<number>(1);
   const [streamingSettings, setStreamingSettings] = useState<StreamingSettings>({
     confidence_threshold: 0.3,
     frame_skip: 2,
@@ -215,6 +248,25 @@ const StreamingRecognition: React.FC = () => {
   const [allUniquePlates, setAllUniquePlates] = useState<UniquePlate[]>([]);
   const [spatialRegions, setSpatialRegions] = useState<Record<string, number>>({});
 
+  // 📷 MODO CÁMARA WEB
+  const [showWebcam, setShowWebcam] = useState<boolean>(false);
+  const [liveFrameRate, setLiveFrameRate] = useState<number>(STREAMING_CONSTANTS.LIVE_CAPTURE.DEFAULT_FRAME_RATE);
+
+  // 📹 CÁMARAS IP REGISTRADAS EN EL BACKEND
+  const [cameraSources, setCameraSources] = useState<CameraSource[]>([]);
+  const [showCameraForm, setShowCameraForm] = useState<boolean>(false);
+
+  // 🚨 Banner de la última placa vigilada y alertas acumuladas desde que se descartó
+  const [bannerHit, setBannerHit] = useState<WatchlistHit | null>(null);
+  const [unseenHitCount, setUnseenHitCount] = useState<number>(0);
+  const lastNotifiedHitRef = useRef<string | null>(null);
+
+  // 🗂️ Fuente del análisis lanzado desde esta página (null: nada pendiente de guardar en el historial)
+  const historySourceRef = useRef<HistorySource | null>(null);
+
+  // Endpoints activos (cambian sin recargar al seleccionar otro perfil)
+  const backend = useBackendConfig();
+
   // Hook de WebSocket
   const {
     // Estado
@@ -229,6 +281,16 @@ const StreamingRecognition: React.FC = () => {
     uniquePlates,
     progress,
     processingSpeed,
+    uploadProgress,
+    isLive,
+    cameraSourceId,
+    connectionMetrics,
+    frameTransport,
+    renderStats,
+    isRecording,
+    recordedMessages,
+    replay,
+    watchlistHits,
 
     // Helpers de estado
     canStart,
@@ -239,6 +301,10 @@ const StreamingRecognition: React.FC = () => {
 
     // Acciones
     startStreaming,
+    cancelUpload,
+    startLiveStreaming,
+    sendLiveFrame,
+    startCameraStreaming,
     pauseStreaming,
     resumeStreaming,
     stopStreaming,
@@ -247,29 +313,45 @@ const StreamingRecognition: React.FC = () => {
     clearError,
     onMessage,
     connect,
-    disconnect
+    disconnect,
+    startRecording,
+    stopRecording,
+    downloadRecording,
+    startReplay,
+    setReplaySpeed,
+    stopReplay,
+    clearWatchlistHits
   } = useStreamingWebSocket({
-    wsBaseUrl: streamingApi.wsBaseUrl,
-    apiBaseUrl: streamingApi.baseUrl,
+    wsBaseUrl: backend.wsBaseUrl,
+    apiBaseUrl: backend.apiBaseUrl,
     reconnectInterval: 3000,
     maxReconnectAttempts: 5
   });
 
-  // Función de debug helper
-  const debugLog = useCallback((type: string, category: string, message: string, data?: unknown) => {
-    const windowWithDebug = window as typeof window & {
-      streamingDebug?: {
-        [key: string]: (category: string, message: string, data?: string) => void;
-      };
-    };
+  const {
+    videoRef: webcamVideoRef,
+    isSupported: isWebcamSupported,
+    isCameraOn,
+    error: webcamError,
+    devices: webcamDevices,
+    stats: webcamStats,
+    startCamera,
+    stopCamera,
+    startCapture,
+    stopCapture,
+    getFrameSize
+  } = useWebcamCapture({
+    frameRate: liveFrameRate,
+    onFrame: sendLiveFrame
+  });
 
-    if (windowWithDebug.streamingDebug && windowWithDebug.streamingDebug[type]) {
-      const debugFunction = windowWithDebug.streamingDebug[type];
-      if (typeof debugFunction === 'function') {
-        debugFunction(category, message, JSON.stringify(data));
-      }
-    }
-  }, []);
+  const bestFrameThumbnails = useBestFrameThumbnails(allUniquePlates, currentFrame);
+
+  // Cada inicio deja pendiente un análisis para el historial
+  const beginHistoryRun = useCallback((source: HistorySource) => {
+    historySourceRef.current = source;
+    bestFrameThumbnails.reset();
+  }, [bestFrameThumbnails]);
 
   // ✅ FUNCIÓN CORREGIDA PARA OBTENER INFORMACIÓN VISUAL DEL ESTADO
   const getStatusInfo = useCallback((currentStatus: StreamingStatus): StatusInfo => {
@@ -335,6 +417,8 @@ const StreamingRecognition: React.FC = () => {
 
   const statusInfo = getStatusInfo(status);
   const StatusIcon = statusInfo.icon;
+  const qualityInfo = CONNECTION_QUALITY_INFO[connectionMetrics.quality];
+  const QualityIcon = qualityInfo.icon;
 
   // ✅ FUNCIONES HELPER CORREGIDAS PARA PLACAS
   const getSixCharPlates = useCallback((): UniquePlate[] => {
@@ -396,7 +480,7 @@ const StreamingRecognition: React.FC = () => {
   // Cargar información del servidor
   const loadServerInfo = useCallback(async () => {
     try {
-      debugLog('info', 'API', 'Cargando información del servidor');
+      logger.info('API', 'Cargando información del servidor');
 
       const [healthData, sessionsData] = await Promise.all([
         streamingApi.getStreamingHealth(),
@@ -406,22 +490,33 @@ const StreamingRecognition: React.FC = () => {
       setServerHealth(healthData);
       setActiveSessions(sessionsData.sessions || []);
 
-      debugLog('success', 'API', 'Información del servidor cargada', {
+      logger.info('API', 'Información del servidor cargada', {
         health: healthData.status,
         sessions: sessionsData.sessions?.length || 0
       });
     } catch (err) {
-      debugLog('error', 'API', 'Error cargando info del servidor', err);
-      console.error('Error cargando info del servidor:', err);
+      logger.error('API', 'Error cargando info del servidor', err);
     }
-  }, [debugLog]);
+  }, []);
+
+  // Cargar cámaras IP (un backend sin soporte simplemente no muestra ninguna)
+  const loadCameraSources = useCallback(async () => {
+    try {
+      const response = await streamingApi.listCameraSources();
+      setCameraSources(response.sources);
+      logger.info('Cameras', `Cámaras registradas: ${response.total}`);
+    } catch (err) {
+      setCameraSources([]);
+      logger.warn('Cameras', 'No se pudieron cargar las cámaras IP', err);
+    }
+  }, []);
 
   // Manejar selección de archivo
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    debugLog('info', 'Upload', `Archivo seleccionado: ${file.name}`, {
+    logger.info('Upload', `Archivo seleccionado: ${file.name}`, {
       name: file.name,
       size: file.size,
       type: file.type
@@ -430,7 +525,7 @@ const StreamingRecognition: React.FC = () => {
     // Validaciones
     const validTypes = ['video/mp4', 'video/avi', 'video/mov', 'video/mkv', 'video/webm'];
     if (!validTypes.includes(file.type)) {
-      debugLog('error', 'Upload', `Formato no soportado: ${file.type}`);
+      logger.error('Upload', `Formato no soportado: ${file.type}`);
       toast.error('Formato no soportado', {
         description: 'Use MP4, AVI, MOV, MKV o WebM'
       });
@@ -439,7 +534,7 @@ const StreamingRecognition: React.FC = () => {
 
     const maxSizeBytes = 150 * 1024 * 1024; // 150MB
     if (file.size > maxSizeBytes) {
-      debugLog('error', 'Upload', `Archivo muy grande: ${file.size} bytes`);
+      logger.error('Upload', `Archivo muy grande: ${file.size} bytes`);
       toast.error('Archivo muy grande', {
         description: 'Máximo 150MB permitido'
       });
@@ -451,13 +546,13 @@ const StreamingRecognition: React.FC = () => {
     setAllPlatesSummary(null);
     setEnhancementStats(null);
     setSpatialRegions({});
+    beginHistoryRun({ name: file.name, size_bytes: file.size, type: file.type });
 
     // Iniciar streaming
     try {
       clearError();
-      setUploadProgress(0);
 
-      debugLog('info', 'Upload', 'Iniciando proceso de streaming mejorado (ROI + 6 chars)');
+      logger.info('Upload', 'Iniciando proceso de streaming mejorado (ROI + 6 chars)');
 
       toast.info('Iniciando streaming mejorado', {
         description: `Subiendo ${file.name} con ROI central y filtro 6 caracteres...`
@@ -465,46 +560,208 @@ const StreamingRecognition: React.FC = () => {
 
       await startStreaming(file, streamingSettings);
 
-      debugLog('success', 'Upload', 'Video cargado exitosamente para procesamiento mejorado');
+      logger.info('Upload', 'Video cargado exitosamente para procesamiento mejorado');
       toast.success('Video cargado exitosamente', {
         description: 'El procesamiento con ROI y filtro 6 caracteres comenzará en breve'
       });
 
     } catch (err) {
-      debugLog('error', 'Upload', 'Error iniciando streaming', err);
-      console.error('Error iniciando streaming:', err);
+      if (err instanceof ApiError && err.isAborted) {
+        logger.warn('Upload', 'Subida cancelada por el usuario');
+        toast.info('Subida cancelada');
+        return;
+      }
+      logger.error('Upload', 'Error iniciando streaming', err);
       toast.error('Error al iniciar streaming', {
         description: err instanceof Error ? err.message : 'Error desconocido'
       });
     }
   };
 
+  // 📷 Abrir o cerrar la cámara web
+  const handleToggleWebcam = async () => {
+    if (showWebcam) {
+      stopCamera();
+      setShowWebcam(false);
+      logger.info('Webcam', 'Cámara apagada');
+      return;
+    }
+
+    setShowWebcam(true);
+    const opened = await startCamera();
+    if (opened) {
+      logger.info('Webcam', 'Cámara abierta');
+    } else {
+      logger.error('Webcam', 'No se pudo abrir la cámara');
+    }
+  };
+
+  const handleWebcamDeviceChange = async (deviceId: string) => {
+    logger.info('Webcam', `Cambiando a la cámara ${deviceId}`);
+    await startCamera(deviceId);
+  };
+
+  // Iniciar sesión en vivo con los frames de la cámara
+  const handleStartLive = () => {
+    const { width, height } = getFrameSize();
+    if (!width) {
+      toast.error('La cámara todavía no está lista');
+      return;
+    }
+
+    setAllUniquePlates([]);
+    setAllPlatesSummary(null);
+    setEnhancementStats(null);
+    setSpatialRegions({});
+    clearError();
+
+    try {
+      const started = startLiveStreaming({
+        ...streamingSettings,
+        frame_rate: liveFrameRate,
+        width,
+        height
+      });
+      if (!started) {
+        toast.error('No se pudo iniciar el modo en vivo');
+        return;
+      }
+      startCapture();
+      beginHistoryRun({ name: 'Cámara web', size_bytes: null, type: 'webcam' });
+      logger.info('Webcam', `Modo en vivo iniciado a ${liveFrameRate} fps (${width}x${height})`);
+      toast.success('Modo en vivo iniciado', {
+        description: `Enviando ${liveFrameRate} frames por segundo con ROI y filtro 6 caracteres`
+      });
+    } catch (err) {
+      logger.error('Webcam', 'Error iniciando modo en vivo', err);
+      toast.error('Error al iniciar modo en vivo', {
+        description: err instanceof Error ? err.message : 'Error desconocido'
+      });
+    }
+  };
+
+  // La captura sigue a la sesión: se detiene al pausar/terminar y se reanuda sin reiniciar la numeración
+  useEffect(() => {
+    if (isLive && !isPaused) {
+      startCapture(false);
+    } else {
+      stopCapture();
+    }
+  }, [isLive, isPaused, startCapture, stopCapture]);
+
+  // 📹 Registrar, eliminar e iniciar cámaras IP
+  const handleCreateCamera = async (input: CameraSourceInput) => {
+    const source = await streamingApi.createCameraSource(input);
+    logger.info('Cameras', `Cámara registrada: ${source.name}`, { source_id: source.source_id, protocol: source.protocol });
+    toast.success('Cámara registrada', { description: source.name });
+    setShowCameraForm(false);
+    await loadCameraSources();
+  };
+
+  const handleDeleteCamera = async (source: CameraSource) => {
+    try {
+      await streamingApi.deleteCameraSource(source.source_id);
+      setCameraSources(prev => prev.filter(camera => camera.source_id !== source.source_id));
+      logger.info('Cameras', `Cámara eliminada: ${source.name}`);
+      toast.success('Cámara eliminada', { description: source.name });
+    } catch (err) {
+      logger.error('Cameras', `Error eliminando la cámara ${source.name}`, err);
+      toast.error('No se pudo eliminar la cámara', {
+        description: err instanceof Error ? err.message : 'Error desconocido'
+      });
+    }
+  };
+
+  const handleStartCamera = async (source: CameraSource) => {
+    setAllUniquePlates([]);
+    setAllPlatesSummary(null);
+    setEnhancementStats(null);
+    setSpatialRegions({});
+    clearError();
+
+    try {
+      logger.info('Cameras', `Iniciando cámara ${source.name}`, source.defaults);
+      await startCameraStreaming(source, {
+        adaptive_quality: streamingSettings.adaptive_quality,
+        enable_thumbnails: streamingSettings.enable_thumbnails,
+        max_duration: streamingSettings.max_duration
+      });
+      beginHistoryRun({ name: source.name, size_bytes: null, type: source.protocol });
+      toast.success('Cámara conectada', {
+        description: `El servidor está leyendo ${source.name}`
+      });
+    } catch (err) {
+      logger.error('Cameras', `Error iniciando la cámara ${source.name}`, err);
+      toast.error('No se pudo iniciar la cámara', {
+        description: err instanceof Error ? err.message : 'Error desconocido'
+      });
+    }
+  };
+
+  const activeCamera = cameraSources.find(source => source.source_id === cameraSourceId) || null;
+
   // Manejar descarga
   const handleDownload = async (format: 'json' | 'csv') => {
     try {
-      debugLog('info', 'Download', `Iniciando descarga ${format.toUpperCase()}`);
+      logger.info('Download', `Iniciando descarga ${format.toUpperCase()}`);
       await downloadResults(format);
-      debugLog('success', 'Download', `Descarga ${format.toUpperCase()} completada`);
+      logger.info('Download', `Descarga ${format.toUpperCase()} completada`);
       toast.success(`Descarga ${format.toUpperCase()} completada`);
     } catch (err) {
-      debugLog('error', 'Download', `Error descargando ${format.toUpperCase()}`, err);
-      console.error(`Error descargando ${format}:`, err);
+      logger.error('Download', `Error descargando ${format.toUpperCase()}`, err);
       toast.error(`Error descargando ${format.toUpperCase()}`);
     }
   };
 
+  // 🎬 GRABACIÓN Y REPRODUCCIÓN DE LA SESIÓN
+  const handleDownloadRecording = async () => {
+    try {
+      await downloadRecording();
+      toast.success('Grabación descargada', { description: `${recordedMessages} mensajes` });
+    } catch (err) {
+      logger.error('Recording', 'Error descargando la grabación', err);
+      toast.error('No se pudo descargar la grabación', {
+        description: err instanceof Error ? err.message : 'Error desconocido'
+      });
+    }
+  };
+
+  const handleRecordingFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseSessionRecording(await file.text());
+      startReplay(recording, replaySpeed);
+      toast.success('Reproduciendo grabación', {
+        description: `${recording.messages.length} mensajes · ${Math.round(recording.duration_ms / 1000)} s`
+      });
+    } catch (err) {
+      logger.error('Recording', `Grabación inválida: ${file.name}`, err);
+      toast.error('No se pudo cargar la grabación', {
+        description: err instanceof Error ? err.message : 'Error desconocido'
+      });
+    }
+  };
+
+  const handleReplaySpeedChange = (speed: number) => {
+    setReplaySpeedChoice(speed);
+    if (replay) setReplaySpeed(speed);
+  };
+
   // Manejar configuración
   const handleSettingsChange = (key: keyof StreamingSettings, value: boolean | number) => {
     setStreamingSettings(prev => ({
       ...prev,
       [key]: value
     }));
-    debugLog('info', 'Settings', `Configuración actualizada: ${key} = ${value}`);
+    logger.info('Settings', `Configuración actualizada: ${key} = ${value}`);
   };
 
   // Refrescar conexión
   const handleReconnect = () => {
-    debugLog('info', 'Connection', 'Iniciando reconexión manual');
+    logger.info('Connection', 'Iniciando reconexión manual');
     disconnect();
     setTimeout(() => {
       connect();
@@ -517,7 +774,7 @@ const StreamingRecognition: React.FC = () => {
   // Limpiar sesión
   const handleClearSession = async () => {
     try {
-      debugLog('info', 'Session', 'Limpiando sesión actual');
+      logger.info('Session', 'Limpiando sesión actual');
       if (sessionId) {
         await streamingApi.disconnectSession(sessionId);
       }
@@ -530,10 +787,9 @@ const StreamingRecognition: React.FC = () => {
       setSpatialRegions({});
 
       toast.success('Sesión limpiada');
-      debugLog('success', 'Session', 'Sesión limpiada exitosamente');
+      logger.info('Session', 'Sesión limpiada exitosamente');
     } catch (err) {
-      debugLog('error', 'Session', 'Error limpiando sesión', err);
-      console.error('Error limpiando sesión:', err);
+      logger.error('Session', 'Error limpiando sesión', err);
     }
   };
 
@@ -541,16 +797,16 @@ const StreamingRecognition: React.FC = () => {
   useEffect(() => {
     // Handler para updates de progreso de subida
     const unsubscribeUpload = onMessage('upload_progress', (data: unknown) => {
+      // El progreso real lo reporta la subida HTTP; el mensaje del servidor solo se registra
       if (isUploadProgressData(data)) {
-        setUploadProgress(data.progress);
-        debugLog('info', 'Upload Progress', `Progreso: ${data.progress}%`);
+        logger.info('Upload Progress', `Progreso reportado por el servidor: ${data.progress}%`);
       }
     });
 
     // Handler para mensajes de sistema
     const unsubscribeSystem = onMessage('system_message', (data: unknown) => {
       if (isSystemMessageData(data)) {
-        debugLog('websocket', 'System Message', data.message, data);
+        logger.debug('System Message', data.message, data);
         if (data.type === 'info') {
           toast.info(data.title || 'Info', {
             description: data.message
@@ -567,7 +823,7 @@ const StreamingRecognition: React.FC = () => {
     const unsubscribeStreaming = onMessage('streaming_update', (data: unknown) => {
       const streamingData = data as StreamingUpdateData;
 
-      debugLog('websocket', 'Streaming Update', 'Actualización recibida', {
+      logger.debug('Streaming Update', 'Actualización recibida', {
         frame: streamingData?.frame_info?.frame_number || 0,
         detections: Array.isArray(streamingData?.current_detections) ? streamingData.current_detections.length : 0,
         progress: streamingData?.progress?.progress_percent || 0,
@@ -606,7 +862,7 @@ const StreamingRecognition: React.FC = () => {
         };
         setAllPlatesSummary(summary);
 
-        debugLog('websocket', 'All Plates Update', `Todas las placas actualizadas: ${completeList.length}`, {
+        logger.debug('All Plates Update', `Todas las placas actualizadas: ${completeList.length}`, {
           total: completeList.length,
           sixChar: completeList.filter(p => p.is_six_char_valid).length,
           valid: completeList.filter(p => p.is_valid_format).length
@@ -621,7 +877,7 @@ const StreamingRecognition: React.FC = () => {
       // ✅ FALLBACK: Si no hay all_plates_summary, usar detection_summary
       if (!streamingData?.all_plates_summary?.complete_list && streamingData?.detection_summary?.best_plates) {
         setAllUniquePlates(streamingData.detection_summary.best_plates);
-        debugLog('websocket', 'Fallback Plates Update', `Fallback placas: ${streamingData.detection_summary.best_plates.length}`);
+        logger.debug('Fallback Plates Update', `Fallback placas: ${streamingData.detection_summary.best_plates.length}`);
       }
     });
 
@@ -630,20 +886,83 @@ const StreamingRecognition: React.FC = () => {
       unsubscribeSystem();
       unsubscribeStreaming();
     };
-  }, [onMessage, debugLog]);
+  }, [onMessage]);
+
+  // Las cámaras dependen del backend activo
+  useEffect(() => {
+    loadCameraSources();
+  }, [loadCameraSources, backend.apiBaseUrl]);
 
   // Cargar info inicial
   useEffect(() => {
     loadServerInfo();
-    debugLog('info', 'App', 'Aplicación de streaming mejorado inicializada');
+    logger.info('App', 'Aplicación de streaming mejorado inicializada');
 
     const interval = setInterval(loadServerInfo, 30000);
     return () => clearInterval(interval);
-  }, [loadServerInfo, debugLog]);
+  }, [loadServerInfo]);
+
+  // 🚨 Avisar de cada alerta nueva de la lista de vigilancia (llegan al principio de watchlistHits)
+  useEffect(() => {
+    const lastIndex = watchlistHits.findIndex(hit => hit.id === lastNotifiedHitRef.current);
+    const newHits = lastIndex === -1 ? watchlistHits : watchlistHits.slice(0, lastIndex);
+    if (newHits.length === 0) return;
+    lastNotifiedHitRef.current = newHits[0].id;
+
+    newHits.slice(0, MAX_WATCHLIST_TOASTS).forEach(hit => {
+      toast.error(`🚨 Placa vigilada: ${hit.plate_text}`, {
+        description: (
+            <div className="space-y-1">
+              <div>{hit.label || `Patrón ${hit.pattern}`} · {(hit.confidence * 100).toFixed(1)}%</div>
+              {hit.snapshot && <img src={hit.snapshot} alt={hit.plate_text} className="max-h-24 rounded" />}
+            </div>
+        ),
+        duration: hit.priority === 'high' ? 15000 : 8000
+      });
+    });
+
+    const topPriority = WATCHLIST_PRIORITY_ORDER.find(priority => newHits.some(hit => hit.priority === priority));
+    playAlertSound(topPriority);
+    setBannerHit(newHits[0]);
+    setUnseenHitCount(count => count + newHits.length);
+  }, [watchlistHits]);
+
+  const dismissWatchlistBanner = useCallback(() => {
+    setBannerHit(null);
+    setUnseenHitCount(0);
+  }, []);
+
+  const handleClearWatchlistHits = useCallback(() => {
+    clearWatchlistHits();
+    dismissWatchlistBanner();
+  }, [clearWatchlistHits, dismissWatchlistBanner]);
+
+  // 🗂️ Guardar en el historial el análisis lanzado aquí al terminar (no las reproducciones ni sesiones reanudadas)
+  useEffect(() => {
+    const source = historySourceRef.current;
+    if (!source || replay || (status !== 'completed' && status !== 'stopped')) return;
+    historySourceRef.current = null;
+    if (allUniquePlates.length === 0) return;
+
+    const plates = [...allUniquePlates].sort((a, b) => b.best_confidence - a.best_confidence);
+    const run = {
+      mode: 'streaming' as const,
+      source,
+      session_id: sessionId,
+      summary: summarizeStreamingRun(allUniquePlates, progress.processed),
+      processing_time: null,
+      params: { ...streamingSettings, frame_transport: frameTransport, ...(isLive ? { frame_rate: liveFrameRate } : {}) },
+      plates
+    };
+
+    bestFrameThumbnails.collect(plates.slice(0, HISTORY_THUMBNAIL.MAX_PER_RUN))
+        .then(thumbnails => detectionHistory.save({ ...run, thumbnails }))
+        .catch(err => logger.warn('History', 'No se pudo guardar el streaming en el historial', err));
+  }, [status, replay, allUniquePlates, sessionId, progress.processed, streamingSettings, frameTransport, isLive, liveFrameRate, bestFrameThumbnails]);
 
   // Logging de cambios de estado
   useEffect(() => {
-    debugLog('info', 'State', `Estado cambiado a: ${status}`, {
+    logger.info('State', `Estado cambiado a: ${status}`, {
       isConnected,
       isStreaming,
       sessionId,
@@ -653,7 +972,7 @@ const StreamingRecognition: React.FC = () => {
       sixCharPlates: getSixCharPlates().length,
       autoFormattedPlates: getAutoFormattedPlates().length
     });
-  }, [status, isConnected, isStreaming, sessionId, detections.length, uniquePlates.length, allUniquePlates.length, getSixCharPlates, getAutoFormattedPlates, debugLog]);
+  }, [status, isConnected, isStreaming, sessionId, detections.length, uniquePlates.length, allUniquePlates.length, getSixCharPlates, getAutoFormattedPlates]);
 
   // Formatear tiempo
   const formatDuration = useCallback((seconds: number): string => {
@@ -747,6 +1066,27 @@ const StreamingRecognition: React.FC = () => {
                   )}
                 </div>
 
+                {/* Reproducción offline de una grabación */}
+                {replay && (
+                    <div className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-purple-600/20 border border-purple-500/30">
+                      <Film className="w-4 h-4 text-purple-400" />
+                      <span className="text-xs text-purple-300">REPRODUCCIÓN x{replay.speed}</span>
+                    </div>
+                )}
+
+                {/* Calidad de la conexión: RTT y mensajes por segundo */}
+                <div
+                    className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-white/10 border border-white/20"
+                    title={`Calidad: ${qualityInfo.text} · Frames: ${frameTransport === 'binary' ? 'binario' : 'JSON'}`}
+                >
+                  <QualityIcon className={`w-4 h-4 ${qualityInfo.color}`} />
+                  <span className="text-xs text-gray-300 font-mono">
+                    {connectionMetrics.quality === 'offline'
+                        ? (connectionMetrics.reconnectAttempt > 0 ? `Reintento ${connectionMetrics.reconnectAttempt}` : '—')
+                        : `${connectionMetrics.rttMs !== null ? `${connectionMetrics.rttMs} ms` : '— ms'} · ${connectionMetrics.messageRate} msg/s`}
+                  </span>
+                </div>
+
                 {/* Session ID y controles */}
                 {sessionId && (
                     <div className="flex items-center space-x-2">
@@ -831,6 +1171,11 @@ const StreamingRecognition: React.FC = () => {
                 </div>
             )}
 
+            {/* 🚨 Placa de la lista de vigilancia */}
+            {bannerHit && (
+                <WatchlistAlertBanner hit={bannerHit} pendingCount={unseenHitCount} onDismiss={dismissWatchlistBanner} />
+            )}
+
             <div className="grid lg:grid-cols-3 gap-8">
               {/* Panel de Control */}
               <div className="space-y-6">
@@ -881,20 +1226,93 @@ const StreamingRecognition: React.FC = () => {
                         </span>
                           </Button>
 
-                          {/* Progreso de subida */}
-                          {isUploading && uploadProgress > 0 && (
-                              <div className="space-y-2">
-                                <div className="flex justify-between text-sm">
-                                  <span className="text-gray-400">Subiendo</span>
-                                  <span className="text-white">{uploadProgress.toFixed(1)}%</span>
-                                </div>
-                                <div className="w-full bg-white/10 rounded-full h-2">
-                                  <div
-                                      className="bg-gradient-to-r from-purple-500 to-blue-500 h-2 rounded-full transition-all"
-                                      style={{ width: `${uploadProgress}%` }}
-                                  />
+                          <Button
+                              onClick={handleToggleWebcam}
+                              disabled={!isWebcamSupported || isUploading}
+                              variant="outline"
+                              className="w-full bg-transparent border-white/20 text-white hover:bg-white/10 py-3 flex items-center justify-center space-x-2"
+                              title={!isWebcamSupported ? 'La cámara requiere HTTPS o localhost' : undefined}
+                          >
+                            {showWebcam ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+                            <span>{showWebcam ? 'Apagar Cámara Web' : 'Usar Cámara Web'}</span>
+                          </Button>
+
+                          {/* 📹 Cámaras IP */}
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-gray-300">Cámaras IP</span>
+                              <Button
+                                  onClick={() => setShowCameraForm(!showCameraForm)}
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-gray-400 hover:text-white"
+                                  title="Registrar cámara"
+                              >
+                                <Plus className="w-4 h-4" />
+                              </Button>
+                            </div>
+
+                            {cameraSources.map(source => (
+                                <div
+                                    key={source.source_id}
+                                    className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2"
+                                >
+                                  <div className="flex items-center space-x-2 min-w-0">
+                                    <Cctv className={`w-4 h-4 shrink-0 ${
+                                        source.status === 'error' || source.status === 'offline' ? 'text-red-400' :
+                                            source.status === 'streaming' ? 'text-green-400' : 'text-gray-400'
+                                    }`} />
+                                    <div className="min-w-0">
+                                      <p className="text-white text-sm truncate">{source.name}</p>
+                                      <p className="text-xs text-gray-500 font-mono truncate" title={source.last_error || source.url}>
+                                        {source.protocol.toUpperCase()} · {source.url}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <div className="flex items-center shrink-0">
+                                    <Button
+                                        onClick={() => handleStartCamera(source)}
+                                        disabled={!canStart}
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-green-400 hover:text-green-300"
+                                        title="Iniciar"
+                                    >
+                                      <Play className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        onClick={() => handleDeleteCamera(source)}
+                                        size="sm"
+                                        variant="ghost"
+                                        className="text-gray-400 hover:text-red-400"
+                                        title="Eliminar"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </div>
                                 </div>
-                              </div>
+                            ))}
+
+                            {cameraSources.length === 0 && !showCameraForm && (
+                                <p className="text-xs text-gray-500">Sin cámaras registradas</p>
+                            )}
+
+                            {showCameraForm && (
+                                <CameraSourceForm
+                                    onSubmit={handleCreateCamera}
+                                    onCancel={() => setShowCameraForm(false)}
+                                />
+                            )}
+                          </div>
+
+                          {/* Progreso de subida */}
+                          {isUploading && (
+                              <UploadProgressBar
+                                  progress={uploadProgress}
+                                  completedLabel="Subida completa, iniciando sesión..."
+                                  barClassName="bg-gradient-to-r from-purple-500 to-blue-500"
+                                  onCancel={cancelUpload}
+                              />
                           )}
 
                           <div className="text-center text-sm text-gray-400">
@@ -915,6 +1333,12 @@ const StreamingRecognition: React.FC = () => {
                         </div>
                     ) : (
                         <div className="space-y-3">
+                          {activeCamera && (
+                              <div className="flex items-center space-x-2 text-sm text-gray-300 bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                                <Cctv className="w-4 h-4 text-green-400" />
+                                <span className="truncate">Cámara: {activeCamera.name}</span>
+                              </div>
+                          )}
                           <div className="grid grid-cols-2 gap-3">
                             {!isPaused ? (
                                 <Button
@@ -967,6 +1391,88 @@ const StreamingRecognition: React.FC = () => {
                   </CardContent>
                 </Card>
 
+                {/* 📷 Cámara web */}
+                {(showWebcam || isLive) && (
+                    <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                      <CardContent className="p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                          <h3 className="text-lg font-bold text-white">Cámara Web</h3>
+                          {isLive && (
+                              <div className="flex items-center space-x-1 bg-red-600/20 border border-red-500/30 rounded px-2 py-1">
+                                <Radio className="w-3 h-3 text-red-400 animate-pulse" />
+                                <span className="text-xs text-red-400">EN VIVO</span>
+                              </div>
+                          )}
+                        </div>
+
+                        <div className="bg-black rounded-lg aspect-video overflow-hidden">
+                          <video
+                              ref={webcamVideoRef}
+                              autoPlay
+                              muted
+                              playsInline
+                              className="w-full h-full object-contain"
+                          />
+                        </div>
+
+                        {webcamError && (
+                            <div className="text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-red-400 flex items-center space-x-2">
+                              <AlertCircle className="w-4 h-4" />
+                              <span>{webcamError}</span>
+                            </div>
+                        )}
+
+                        {webcamDevices.length > 1 && !isLive && (
+                            <div>
+                              <label className="text-gray-400 text-sm">Dispositivo</label>
+                              <select
+                                  onChange={(e) => handleWebcamDeviceChange(e.target.value)}
+                                  className="w-full mt-2 bg-white/10 border border-white/20 rounded px-2 py-1 text-white text-sm"
+                              >
+                                {webcamDevices.map(device => (
+                                    <option key={device.deviceId} value={device.deviceId} className="text-black">
+                                      {device.label}
+                                    </option>
+                                ))}
+                              </select>
+                            </div>
+                        )}
+
+                        <div>
+                          <label className="text-gray-400 text-sm">Frames por segundo enviados</label>
+                          <input
+                              type="range"
+                              min={STREAMING_CONSTANTS.LIVE_CAPTURE.MIN_FRAME_RATE}
+                              max={STREAMING_CONSTANTS.LIVE_CAPTURE.MAX_FRAME_RATE}
+                              step="1"
+                              value={liveFrameRate}
+                              onChange={(e) => setLiveFrameRate(parseInt(e.target.value))}
+                              className="w-full mt-2"
+                          />
+                          <span className="text-white text-sm">{liveFrameRate} fps</span>
+                        </div>
+
+                        {isLive ? (
+                            <div className="flex justify-between text-xs text-gray-400">
+                              <span>Enviados: {webcamStats.sent}</span>
+                              <span className={webcamStats.dropped > 0 ? 'text-yellow-400' : ''}>
+                            Descartados: {webcamStats.dropped}
+                          </span>
+                            </div>
+                        ) : (
+                            <Button
+                                onClick={handleStartLive}
+                                disabled={!canStart || !isCameraOn}
+                                className="w-full bg-gradient-to-r from-red-600 to-purple-600 hover:from-red-700 hover:to-purple-700 disabled:opacity-50 text-white py-3 flex items-center justify-center space-x-2"
+                            >
+                              <Radio className="w-5 h-5" />
+                              <span>Iniciar en Vivo</span>
+                            </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                )}
+
                 {/* Configuración */}
                 {showSettings && (
                     <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
@@ -1171,6 +1677,106 @@ const StreamingRecognition: React.FC = () => {
                     </Card>
                 )}
 
+                {/* 🚨 Lista de vigilancia y registro de alertas */}
+                <WatchlistManager />
+                {watchlistHits.length > 0 && (
+                    <WatchlistHitsLog hits={watchlistHits} onClear={handleClearWatchlistHits} />
+                )}
+
+                {/* 🎬 Grabación de la sesión y reproducción offline */}
+                <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-lg font-bold text-white">Grabación</h3>
+                      {isRecording && (
+                          <div className="flex items-center space-x-1 bg-red-600/20 border border-red-500/30 rounded px-2 py-1">
+                            <Circle className="w-3 h-3 text-red-400 fill-red-400 animate-pulse" />
+                            <span className="text-xs text-red-400">REC</span>
+                          </div>
+                      )}
+                    </div>
+
+                    <div className="text-sm text-gray-400">
+                      {recordedMessages} mensajes grabados
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                          onClick={isRecording ? stopRecording : startRecording}
+                          disabled={!isRecording && (!isConnected || !!replay)}
+                          className={`${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 hover:bg-gray-700'} text-white flex items-center justify-center space-x-2`}
+                      >
+                        {isRecording ? <Square className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                        <span>{isRecording ? 'Detener' : 'Grabar'}</span>
+                      </Button>
+                      <Button
+                          onClick={handleDownloadRecording}
+                          disabled={recordedMessages === 0}
+                          variant="outline"
+                          className="text-gray-300 border-gray-600 hover:text-white hover:border-gray-400 flex items-center justify-center space-x-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        <span>Descargar</span>
+                      </Button>
+                    </div>
+
+                    <div className="border-t border-white/10 pt-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm text-gray-300">Velocidad</label>
+                        <select
+                            value={replaySpeed}
+                            onChange={(e) => handleReplaySpeedChange(Number(e.target.value))}
+                            className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm text-white"
+                        >
+                          {REPLAY_SPEEDS.map(speed => (
+                              <option key={speed} value={speed} className="bg-gray-800">x{speed}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <input
+                          ref={recordingInputRef}
+                          type="file"
+                          accept="application/json,.json"
+                          onChange={handleRecordingFile}
+                          className="hidden"
+                      />
+
+                      {replay ? (
+                          <div className="space-y-2">
+                            <div className="flex justify-between text-xs text-gray-400">
+                              <span>{replay.played >= replay.total ? 'Reproducción finalizada' : 'Reproduciendo...'}</span>
+                              <span>{replay.played}/{replay.total}</span>
+                            </div>
+                            <div className="w-full bg-gray-700 rounded-full h-2">
+                              <div
+                                  className="bg-purple-500 h-2 rounded-full transition-all"
+                                  style={{ width: `${replay.total > 0 ? (replay.played / replay.total) * 100 : 100}%` }}
+                              />
+                            </div>
+                            <Button
+                                onClick={stopReplay}
+                                variant="outline"
+                                className="w-full text-gray-300 border-gray-600 hover:text-white hover:border-gray-400"
+                            >
+                              Salir de la reproducción
+                            </Button>
+                          </div>
+                      ) : (
+                          <Button
+                              onClick={() => recordingInputRef.current?.click()}
+                              disabled={isStreaming}
+                              variant="outline"
+                              className="w-full text-gray-300 border-gray-600 hover:text-white hover:border-gray-400 flex items-center justify-center space-x-2"
+                          >
+                            <FolderOpen className="w-4 h-4" />
+                            <span>Reproducir grabación</span>
+                          </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
                 {/* ✅ DESCARGAR RESULTADOS MEJORADO CON INFO COMPLETA */}
                 {dynamicStats.totalPlates > 0 && (
                     <Card className="bg-white/10 border-white/20 backdrop-blur-sm">
@@ -1230,6 +1836,15 @@ const StreamingRecognition: React.FC = () => {
                                 <Monitor className="w-4 h-4" />
                                 <span>Frame {currentFrame.frameNumber}</span>
                               </div>
+                              {renderStats.framesDropped > 0 && (
+                                  <div
+                                      className="flex items-center space-x-2 text-yellow-400"
+                                      title={`${renderStats.framesRendered} mostrados de ${renderStats.framesReceived} recibidos${renderStats.backpressureRequests > 0 ? ` · ${renderStats.backpressureRequests} ajustes pedidos al servidor` : ''}`}
+                                  >
+                                    <Zap className="w-4 h-4" />
+                                    <span>{renderStats.framesDropped} descartados</span>
+                                  </div>
+                              )}
                             </div>
                         )}
                         {/* Indicador de ROI en video */}
@@ -1291,7 +1906,9 @@ const StreamingRecognition: React.FC = () => {
                             <div className="text-center">
                               <Eye className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                               <p className="text-gray-400 text-lg">
-                                {isStreaming ? 'Procesando frames con ROI...' :
+                                {isLive ? 'Transmitiendo cámara, esperando resultados...' :
+                                    cameraSourceId ? 'Conectando con la cámara IP...' :
+                                    isStreaming ? 'Procesando frames con ROI...' :
                                     isUploading ? 'Subiendo video...' :
                                         isInitializing ? 'Inicializando ROI + 6 chars...' :
                                             !isConnected ? 'Conectando al servidor...' :
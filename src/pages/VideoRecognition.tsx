@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
@@ -7,103 +7,50 @@ import {
   AlertCircle, CheckCircle, Zap, Eye, Clock, Film, Shield
 } from "lucide-react";
 import { Link } from "react-router-dom";
-import { streamingApi } from "@/services/streamingApi.ts";
-
-// Interfaces TypeScript bien definidas
-interface UniquePlate {
-  plate_text: string;
-  detection_count: number;
-  best_confidence: number;
-  is_valid_format: boolean;
-  is_six_char_valid?: boolean;
-  frame_numbers?: number[];
-  first_detection_time?: number;
-  last_detection_time?: number;
-  first_seen_frame?: number;
-  last_seen_frame?: number;
-  best_frame?: number;
-  avg_confidence?: number;
-  stability_score?: number;
-  duration_frames?: number;
-  char_count?: number;
-  processing_method?: string;
-}
-
-interface ProcessingSummary {
-  frames_processed: number;
-  frames_with_detections: number;
-  total_detections: number;
-  unique_plates_found: number;
-  valid_plates?: number;
-  six_char_plates?: number;
-}
-
-interface VideoInfo {
-  duration_seconds: number;
-  frame_count: number;
-  fps: number;
-  resolution?: string;
-  width?: number;
-  height?: number;
-  frames_to_process?: number;
-  file_size_mb?: number;
-}
-
-interface EnhancementInfo {
-  roi_enabled: boolean;
-  six_char_filter: boolean;
-  roi_percentage: number;
-}
-
-interface FileInfo {
-  filename: string;
-  size_mb: number;
-  dimensions?: {
-    width: number;
-    height: number;
-  };
-  format?: string;
-}
+import { apiClient, ApiError } from "@/services/apiClient";
+import { logger } from "@/services/logger";
+import type { UniquePlate, ProcessingSummary, VideoInfo, EnhancementInfo, UploadProgress } from "@/types/alpr";
+import UploadProgressBar from "@/components/UploadProgressBar";
+import ProcessingConfigPanel from "@/components/ProcessingConfigPanel";
+import PlateFormatBadge from "@/components/PlateFormatBadge";
+import { detectionHistory, createThumbnail, HISTORY_THUMBNAIL } from "@/services/detectionHistory";
+import { processingConfig, toRequestParams, validateProcessingConfig } from "@/services/processingConfig";
+import { useProcessingConfig } from "@/hooks/useProcessingConfig";
+import type { HistoryThumbnail, VideoHistoryRun } from "@/types/history";
+
+// La detección rápida usa la configuración del panel, pero salta al menos 5 frames y no pasa de 60 s
+const QUICK_LIMITS = {
+  MIN_FRAME_SKIP: 5,
+  MAX_DURATION: 60
+};
 
-interface ResultUrls {
-  annotated_video_url?: string;
-  best_frames_urls?: string[];
-  original?: string;
-}
+type VideoRunResult = Pick<VideoHistoryRun, 'plates' | 'video_info' | 'summary' | 'processing_time' | 'params'>;
 
-interface VideoDetectionResponse {
-  success: boolean;
-  message: string;
-  data?: {
-    success: boolean;
-    unique_plates: UniquePlate[];
-    best_plate?: UniquePlate;
-    processing_time: number;
-    processing_summary: ProcessingSummary;
-    video_info: VideoInfo;
-    file_info: FileInfo;
-    result_urls?: ResultUrls;
-    enhancement_info?: EnhancementInfo;
-  };
-  // Campos de compatibilidad para respuestas directas
-  unique_plates?: UniquePlate[];
-  processing_summary?: ProcessingSummary;
-  video_info?: VideoInfo;
-  result_urls?: ResultUrls;
-  enhancement_info?: EnhancementInfo;
-  timestamp?: string;
+// 🖼️ Miniaturas de los mejores frames que guardó el servidor (las que no se pueden descargar se omiten)
+async function fetchBestFrameThumbnails(urls: string[], signal?: AbortSignal): Promise<HistoryThumbnail[]> {
+  const thumbnails = await Promise.all(urls.slice(0, HISTORY_THUMBNAIL.MAX_PER_RUN).map(async url => {
+    try {
+      const blob = await createThumbnail(await apiClient.fetchBlob(url, { signal }));
+      return blob ? { plate_text: null, frame_number: null, blob } : null;
+    } catch {
+      return null;
+    }
+  }));
+  return thumbnails.filter((thumbnail): thumbnail is HistoryThumbnail => thumbnail !== null);
 }
 
-interface QuickVideoResponse {
-  success: boolean;
-  unique_plates_count: number;
-  best_plate_text: string;
-  best_confidence: number;
-  detection_count: number;
-  is_valid_format: boolean;
-  processing_time: number;
-  frames_processed: number;
-  message?: string;
+// 🗂️ Guardar el análisis en el historial local; si falla solo se registra
+async function saveToHistory(file: File, result: VideoRunResult, bestFrameUrls: string[] = [], signal?: AbortSignal): Promise<void> {
+  try {
+    await detectionHistory.save({
+      mode: 'video',
+      source: { name: file.name, size_bytes: file.size, type: file.type },
+      thumbnails: await fetchBestFrameThumbnails(bestFrameUrls, signal),
+      ...result
+    });
+  } catch (err) {
+    logger.warn('History', 'No se pudo guardar el análisis en el historial', err);
+  }
 }
 
 const VideoRecognition: React.FC = () => {
@@ -111,7 +58,7 @@ const VideoRecognition: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [progress, setProgress] = useState<number>(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [results, setResults] = useState<UniquePlate[]>([]);
   const [processingStats, setProcessingStats] = useState<ProcessingSummary | null>(null);
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
@@ -122,20 +69,20 @@ const VideoRecognition: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [enhancementInfo, setEnhancementInfo] = useState<EnhancementInfo | null>(null);
   const [processingTime, setProcessingTime] = useState<number>(0);
+  // Parámetros con los que se hizo el último análisis (van al historial y a la exportación)
+  const [runParams, setRunParams] = useState<Record<string, unknown> | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const API_BASE_URL = streamingApi.baseUrl;
+  const { configs } = useProcessingConfig();
+  const configErrors = useMemo(() => Object.values(validateProcessingConfig(configs.video, 'video')), [configs.video]);
+  const canAnalyze = !isProcessing && configErrors.length === 0;
 
   // Cleanup effect mejorado
   useEffect(() => {
     return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
@@ -173,7 +120,7 @@ const VideoRecognition: React.FC = () => {
       resetResults();
       setError(null);
     } catch (err) {
-      console.error('Error seleccionando archivo:', err);
+      logger.error('Video', 'Error seleccionando archivo', err);
       setError('Error al seleccionar el archivo');
     }
 
@@ -186,36 +133,13 @@ const VideoRecognition: React.FC = () => {
   const resetResults = useCallback(() => {
     setResults([]);
     setError(null);
-    setProgress(0);
+    setUploadProgress(null);
     setProcessingStats(null);
     setVideoInfo(null);
     setAnnotatedVideoUrl(null);
     setEnhancementInfo(null);
     setProcessingTime(0);
-  }, []);
-
-  const simulateProgress = useCallback((targetProgress: number, duration: number) => {
-    const steps = Math.max(10, Math.min(50, duration / 100)); // Entre 10 y 50 pasos
-    const increment = targetProgress / steps;
-    const interval = duration / steps;
-    let currentStep = 0;
-
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
-
-    progressIntervalRef.current = setInterval(() => {
-      currentStep++;
-      setProgress(prev => {
-        const newProgress = prev + increment;
-        return Math.min(newProgress, targetProgress);
-      });
-
-      if (currentStep >= steps && progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
-    }, interval);
+    setRunParams(null);
   }, []);
 
   const handleProcess = useCallback(async () => {
@@ -230,98 +154,61 @@ const VideoRecognition: React.FC = () => {
     setIsProcessing(true);
     resetResults();
 
+    const params = { ...toRequestParams(processingConfig.getConfig('video'), 'video'), save_best_frames: true };
+    const recorded = processingConfig.recordedParams('video', params);
+
     try {
-      simulateProgress(20, 1000);
-
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('confidence_threshold', '0.4');
-      formData.append('iou_threshold', '0.4');
-      formData.append('frame_skip', '3');
-      formData.append('max_duration', '300');
-      formData.append('save_results', 'true');
-      formData.append('save_best_frames', 'true');
-      formData.append('create_annotated_video', 'true');
-      formData.append('min_detection_frames', '2');
-
-      simulateProgress(80, 2000);
-
-      console.log('🚀 Enviando video a:', `${API_BASE_URL}/api/v1/video/detect`);
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/video/detect`, {
-        method: 'POST',
-        body: formData,
+      logger.info('Video', '🚀 Enviando video a', `${apiClient.baseUrl}/api/v1/video/detect`);
+
+      const data = await apiClient.detectVideo(selectedFile, params, {
         signal: abortControllerRef.current.signal,
-        headers: {
-          'ngrok-skip-browser-warning': 'true'
-        }
+        onUploadProgress: setUploadProgress
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Error de respuesta:', response.status, errorText);
-        throw new Error(`Error HTTP ${response.status}: ${errorText}`);
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        const responseText = await response.text();
-        console.error('❌ Respuesta no es JSON:', responseText);
-        throw new Error('La respuesta del servidor no es válida');
-      }
-
-      const data: VideoDetectionResponse = await response.json();
-      console.log('✅ Respuesta recibida:', data);
-
-      setProgress(100);
+      logger.debug('Video', '✅ Respuesta recibida', data);
 
       if (data.success) {
-        // Manejo robusto de respuesta anidada o directa con validaciones seguras
-        const uniquePlates = data.data?.unique_plates || data.unique_plates || [];
-        const processingSummary = data.data?.processing_summary || data.processing_summary || null;
-        const videoInfoData = data.data?.video_info || data.video_info || null;
-        const resultUrls = data.data?.result_urls || data.result_urls || null;
-        const enhancementData = data.data?.enhancement_info || data.enhancement_info || null;
+        // La respuesta ya viene normalizada (anidada en data) por el esquema del cliente
+        const uniquePlates = data.data?.unique_plates || [];
+        const processingSummary = data.data?.processing_summary || null;
+        const videoInfoData = data.data?.video_info || null;
+        const resultUrls = data.data?.result_urls || null;
+        const enhancementData = data.data?.enhancement_info || null;
         const processingTimeData = data.data?.processing_time || 0;
 
-        // Log para debugging de la estructura de datos
-        console.log('🔍 Estructura de data completa:', data);
-        console.log('📹 Video info extraído:', videoInfoData);
-        console.log('📊 Processing summary extraído:', processingSummary);
-
-        // Verificar si hay video_info en la estructura anidada
-        if (data.data && typeof data.data === 'object') {
-          console.log('🔍 Claves en data.data:', Object.keys(data.data));
-          if (data.data.video_info) {
-            console.log('📹 Video info encontrado en data.data:', data.data.video_info);
-          }
-        }
-
-        // Verificar si hay video_info directamente
-        if (data.video_info) {
-          console.log('📹 Video info encontrado directamente:', data.video_info);
+        if (!videoInfoData) {
+          logger.warn('Video', '⚠️ La respuesta no incluye video_info');
         }
 
-        console.log('📊 Placas encontradas:', uniquePlates.length);
-        console.log('📈 Stats:', processingSummary);
+        logger.info('Video', '📊 Placas encontradas', uniquePlates.length);
+        logger.debug('Video', '📈 Stats', processingSummary);
 
         setResults(uniquePlates);
         setProcessingStats(processingSummary || null);
         setVideoInfo(videoInfoData || null);
         setEnhancementInfo(enhancementData || null);
         setProcessingTime(processingTimeData);
+        setRunParams(recorded);
 
         if (resultUrls?.annotated_video_url) {
-          setAnnotatedVideoUrl(`${API_BASE_URL}${resultUrls.annotated_video_url}`);
+          setAnnotatedVideoUrl(apiClient.resolveUrl(resultUrls.annotated_video_url));
         }
 
+        void saveToHistory(selectedFile, {
+          plates: uniquePlates,
+          video_info: videoInfoData,
+          summary: processingSummary || { total_detections: uniquePlates.reduce((sum, p) => sum + p.detection_count, 0) },
+          processing_time: processingTimeData,
+          params: recorded
+        }, resultUrls?.best_frames_urls, abortControllerRef.current?.signal);
+
         const sixCharCount = uniquePlates.filter(p => p.is_six_char_valid).length;
         toast.success('Análisis completado', {
           description: `${uniquePlates.length} placas detectadas${sixCharCount > 0 ? ` (${sixCharCount} con 6 caracteres válidos)` : ''}`
         });
       } else {
         const errorMsg = data.message || 'Error desconocido en el procesamiento';
-        console.error('❌ Error en procesamiento:', errorMsg);
+        logger.error('Video', '❌ Error en procesamiento', errorMsg);
         setError(errorMsg);
         toast.error('Error en el procesamiento', {
           description: errorMsg
@@ -329,13 +216,13 @@ const VideoRecognition: React.FC = () => {
       }
 
     } catch (err) {
-      console.error('💥 Error completo:', err);
-
-      if (err instanceof Error && err.name === 'AbortError') {
-        console.log('🛑 Procesamiento cancelado');
+      if (err instanceof ApiError && err.isAborted) {
+        logger.info('Video', '🛑 Procesamiento cancelado');
         return;
       }
 
+      logger.error('Video', '💥 Error completo', err);
+
       const errorMessage = err instanceof Error ? err.message : 'Error de conexión con el servidor';
       setError(errorMessage);
       toast.error('Error de conexión', {
@@ -343,12 +230,8 @@ const VideoRecognition: React.FC = () => {
       });
     } finally {
       setIsProcessing(false);
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
     }
-  }, [selectedFile, isProcessing, resetResults, simulateProgress, API_BASE_URL]);
+  }, [selectedFile, isProcessing, resetResults]);
 
   const handleQuickProcess = useCallback(async () => {
     if (!selectedFile || isProcessing) return;
@@ -362,34 +245,23 @@ const VideoRecognition: React.FC = () => {
     setIsProcessing(true);
     resetResults();
 
-    try {
-      simulateProgress(100, 3000);
-
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('confidence_threshold', '0.5');
-      formData.append('frame_skip', '5');
-      formData.append('max_duration', '60');
+    const config = processingConfig.getConfig('video');
+    const params = {
+      confidence_threshold: config.confidence_threshold,
+      frame_skip: Math.max(config.frame_skip, QUICK_LIMITS.MIN_FRAME_SKIP),
+      max_duration: Math.min(config.max_duration, QUICK_LIMITS.MAX_DURATION)
+    };
+    const recorded = { ...processingConfig.recordedParams('video', params), quick: true };
 
-      console.log('⚡ Enviando para detección rápida...');
+    try {
+      logger.info('Video', '⚡ Enviando para detección rápida...');
 
-      const response = await fetch(`${API_BASE_URL}/api/v1/video/detect/quick`, {
-        method: 'POST',
-        body: formData,
+      const data = await apiClient.detectVideoQuick(selectedFile, params, {
         signal: abortControllerRef.current.signal,
-        headers: {
-          'ngrok-skip-browser-warning': 'true'
-        }
+        onUploadProgress: setUploadProgress
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Error en detección rápida:', response.status, errorText);
-        throw new Error(`Error HTTP ${response.status}: ${errorText}`);
-      }
-
-      const data: QuickVideoResponse = await response.json();
-      console.log('⚡ Respuesta rápida:', data);
+      logger.debug('Video', '⚡ Respuesta rápida', data);
 
       if (data.success && data.best_plate_text) {
         const quickResult: UniquePlate = {
@@ -402,16 +274,27 @@ const VideoRecognition: React.FC = () => {
           processing_method: "quick"
         };
 
-        setResults([quickResult]);
-        setProcessingStats({
+        const quickSummary: ProcessingSummary = {
           frames_processed: data.frames_processed,
           unique_plates_found: data.unique_plates_count,
           total_detections: data.detection_count,
           frames_with_detections: data.detection_count > 0 ? 1 : 0,
           valid_plates: data.is_valid_format ? 1 : 0,
           six_char_plates: 0
-        });
+        };
+
+        setResults([quickResult]);
+        setProcessingStats(quickSummary);
         setProcessingTime(data.processing_time);
+        setRunParams(recorded);
+
+        void saveToHistory(selectedFile, {
+          plates: [quickResult],
+          video_info: null,
+          summary: quickSummary,
+          processing_time: data.processing_time,
+          params: recorded
+        });
 
         toast.success('Detección rápida completada', {
           description: data.best_plate_text ? `Placa encontrada: ${data.best_plate_text}` : 'No se detectaron placas'
@@ -425,13 +308,13 @@ const VideoRecognition: React.FC = () => {
       }
 
     } catch (err) {
-      console.error('💥 Error en detección rápida:', err);
-
-      if (err instanceof Error && err.name === 'AbortError') {
-        console.log('🛑 Detección rápida cancelada');
+      if (err instanceof ApiError && err.isAborted) {
+        logger.info('Video', '🛑 Detección rápida cancelada');
         return;
       }
 
+      logger.error('Video', '💥 Error en detección rápida', err);
+
       const errorMessage = err instanceof Error ? err.message : 'Error de conexión con el servidor';
       setError(errorMessage);
       toast.error('Error en detección rápida', {
@@ -440,7 +323,14 @@ const VideoRecognition: React.FC = () => {
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedFile, isProcessing, resetResults, simulateProgress, API_BASE_URL]);
+  }, [selectedFile, isProcessing, resetResults]);
+
+  // Cancela la subida/procesamiento en curso (el catch ignora el error de cancelación)
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setUploadProgress(null);
+    toast.info('Procesamiento cancelado');
+  }, []);
 
   const handleVideoTimeUpdate = useCallback(() => {
     if (videoRef.current && !isNaN(videoRef.current.currentTime) && !isNaN(videoRef.current.duration)) {
@@ -455,7 +345,7 @@ const VideoRecognition: React.FC = () => {
         videoRef.current.pause();
       } else {
         videoRef.current.play().catch(err => {
-          console.error('Error reproduciendo video:', err);
+          logger.error('Video', 'Error reproduciendo video', err);
         });
       }
       setIsPlaying(!isPlaying);
@@ -498,6 +388,7 @@ const VideoRecognition: React.FC = () => {
         processing_stats: processingStats,
         enhancement_info: enhancementInfo,
         processing_time: processingTime,
+        params: runParams,
         unique_plates: results,
         total_unique_plates: results.length,
         six_char_plates: results.filter(p => p.is_six_char_valid).length,
@@ -516,10 +407,10 @@ const VideoRecognition: React.FC = () => {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
     } catch (err) {
-      console.error('Error exportando resultados:', err);
+      logger.error('Video', 'Error exportando resultados', err);
       toast.error('Error al exportar resultados');
     }
-  }, [videoInfo, processingStats, enhancementInfo, processingTime, results]);
+  }, [videoInfo, processingStats, enhancementInfo, processingTime, runParams, results]);
 
   // Helper functions con tipos explícitos
   const getConfidenceColor = useCallback((confidence: number): string => {
@@ -546,10 +437,10 @@ const VideoRecognition: React.FC = () => {
     return null;
   }, []);
 
-  const getProgressMessage = useCallback((progress: number): string => {
-    if (progress < 30) return "Preparando video con ROI...";
-    if (progress < 80) return "Analizando frames (ROI + 6 chars)...";
-    return "Finalizando procesamiento...";
+  const getProgressMessage = useCallback((progress: UploadProgress | null): string => {
+    if (!progress) return "Preparando video con ROI...";
+    if (progress.loaded < progress.total) return "Subiendo video al servidor...";
+    return "Analizando frames (ROI + 6 chars)...";
   }, []);
 
   const formatFileSize = useCallback((bytes: number): string => {
@@ -657,7 +548,7 @@ const VideoRecognition: React.FC = () => {
                         <div className="grid grid-cols-2 gap-3">
                           <Button
                               onClick={handleProcess}
-                              disabled={isProcessing}
+                              disabled={!canAnalyze}
                               className="bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white disabled:opacity-50"
                           >
                             {isProcessing ? (
@@ -675,7 +566,7 @@ const VideoRecognition: React.FC = () => {
 
                           <Button
                               onClick={handleQuickProcess}
-                              disabled={isProcessing}
+                              disabled={!canAnalyze}
                               className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white disabled:opacity-50"
                           >
                             {isProcessing ? (
@@ -706,22 +597,26 @@ const VideoRecognition: React.FC = () => {
                   {/* Progreso */}
                   {isProcessing && (
                       <div className="mt-4">
-                        <div className="flex justify-between text-sm mb-2">
-                          <span className="text-gray-400">Progreso</span>
-                          <span className="text-white">{progress.toFixed(0)}%</span>
-                        </div>
-                        <div className="w-full bg-white/10 rounded-full h-2">
-                          <div
-                              className="bg-gradient-to-r from-green-500 to-blue-500 h-2 rounded-full transition-all duration-300"
-                              style={{ width: `${Math.min(progress, 100)}%` }}
-                          />
-                        </div>
+                        <UploadProgressBar
+                            progress={uploadProgress}
+                            label="Subiendo video"
+                            completedLabel="Video subido, analizando..."
+                            onCancel={handleCancel}
+                        />
                         <p className="text-gray-400 text-xs mt-2">
-                          {getProgressMessage(progress)}
+                          {getProgressMessage(uploadProgress)}
                         </p>
                       </div>
                   )}
 
+                  {configErrors.length > 0 && (
+                      <p className="mt-3 text-xs text-red-400">Corrige los parámetros de detección para analizar.</p>
+                  )}
+
+                  <div className="mt-6">
+                    <ProcessingConfigPanel mode="video" disabled={isProcessing} />
+                  </div>
+
                   {/* Características */}
                   <div className="mt-6 bg-white/5 rounded-lg p-4">
                     <h4 className="text-white font-semibold mb-2 text-sm">Características Mejoradas</h4>
@@ -764,10 +659,10 @@ const VideoRecognition: React.FC = () => {
                               onPlay={() => setIsPlaying(true)}
                               onPause={() => setIsPlaying(false)}
                               onLoadedData={() => {
-                                console.log('✅ Video cargado correctamente');
+                                logger.info('Video', '✅ Video cargado correctamente');
                               }}
                               onError={(e) => {
-                                console.error('❌ Error cargando video:', e);
+                                logger.error('Video', '❌ Error cargando video', e);
                               }}
                               tabIndex={0}
                           />
@@ -831,12 +726,12 @@ const VideoRecognition: React.FC = () => {
                       </div>
                     </div>
 
-                    {progress < 100 && isProcessing ? (
+                    {isProcessing ? (
                         <div className="text-center py-8">
                           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-400 mx-auto mb-4"></div>
                           <p className="text-white">Analizando frames del video...</p>
                           <p className="text-gray-400 text-sm">
-                            {getProgressMessage(progress)}
+                            {getProgressMessage(uploadProgress)}
                           </p>
                         </div>
                     ) : results.length > 0 ? (
@@ -923,6 +818,11 @@ const VideoRecognition: React.FC = () => {
                                             )}
                                           </div>
 
+                                          <PlateFormatBadge
+                                              plateText={result.plate_text}
+                                              characterConfidences={result.character_confidences}
+                                          />
+
                                           {/* Info de caracteres */}
                                           <div className="bg-white/10 rounded px-2 py-1">
                                   <span className="text-xs text-gray-300">
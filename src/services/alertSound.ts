@@ -0,0 +1,52 @@
+// src/services/alertSound.ts
+// ✅ AVISO SONORO DE LA LISTA DE VIGILANCIA: pitidos generados con Web Audio, sin archivos de audio
+
+import type { WatchlistPriority } from '../types/watchlist';
+import { logger } from './logger';
+
+// Más pitidos y más agudos cuanto mayor es la prioridad
+const BEEP_PATTERNS: Record<WatchlistPriority, { frequency: number; beeps: number }> = {
+    high: { frequency: 1320, beeps: 3 },
+    medium: { frequency: 990, beeps: 2 },
+    low: { frequency: 660, beeps: 1 }
+};
+
+const BEEP_SECONDS = 0.15;
+const GAP_SECONDS = 0.1;
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+    const AudioContextClass = window.AudioContext ||
+        (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    if (!context) context = new AudioContextClass();
+    return context;
+}
+
+// El navegador bloquea el audio hasta que el usuario interactúa con la página; en ese caso se omite
+export function playAlertSound(priority: WatchlistPriority = 'medium'): void {
+    try {
+        const audio = getContext();
+        if (!audio) return;
+        if (audio.state === 'suspended') void audio.resume();
+
+        const { frequency, beeps } = BEEP_PATTERNS[priority];
+        const start = audio.currentTime;
+
+        for (let i = 0; i < beeps; i++) {
+            const at = start + i * (BEEP_SECONDS + GAP_SECONDS);
+            const oscillator = audio.createOscillator();
+            const gain = audio.createGain();
+            oscillator.type = 'square';
+            oscillator.frequency.value = frequency;
+            gain.gain.setValueAtTime(0.15, at);
+            gain.gain.exponentialRampToValueAtTime(0.001, at + BEEP_SECONDS);
+            oscillator.connect(gain).connect(audio.destination);
+            oscillator.start(at);
+            oscillator.stop(at + BEEP_SECONDS);
+        }
+    } catch (error) {
+        logger.warn('Watchlist', 'No se pudo reproducir el aviso sonoro', error);
+    }
+}
@@ -0,0 +1,56 @@
+// src/services/apiClient.test.ts
+// ✅ TESTS DEL CLIENTE REST: headers del backend en recursos binarios
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient } from './apiClient';
+
+const BASE_URL = 'http://alpr.test';
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function headersOfLastCall(): Record<string, string> {
+    const [, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1] as [string, RequestInit];
+    return init.headers as Record<string, string>;
+}
+
+beforeEach(() => {
+    fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+        if (init?.signal?.aborted) throw new DOMException('Cancelada', 'AbortError');
+        return new Response(new Uint8Array([0xff, 0xd8]), { status: 200, headers: { 'content-type': 'image/jpeg' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+});
+
+describe('fetchBlob', () => {
+    it('envía los headers del backend a sus rutas relativas', async () => {
+        await new ApiClient(BASE_URL).fetchBlob('/static/frames/1.jpg');
+
+        expect(fetchMock).toHaveBeenCalledWith(`${BASE_URL}/static/frames/1.jpg`, expect.any(Object));
+        expect(headersOfLastCall()).toEqual({ 'Accept': '*/*', 'ngrok-skip-browser-warning': 'true' });
+    });
+
+    it('envía los headers del backend a una URL absoluta bajo baseUrl', async () => {
+        await new ApiClient(`${BASE_URL}/`).fetchBlob(`${BASE_URL}/static/frames/1.jpg`);
+
+        expect(headersOfLastCall()['ngrok-skip-browser-warning']).toBe('true');
+    });
+
+    it('no envía los headers del backend a URLs de terceros', async () => {
+        const client = new ApiClient(BASE_URL);
+
+        await client.fetchBlob('https://cdn.example.com/placa.jpg');
+        expect(headersOfLastCall()).toEqual({ 'Accept': '*/*' });
+
+        // Mismo prefijo, otro host
+        await client.fetchBlob('http://alpr.test.example.com/placa.jpg');
+        expect(headersOfLastCall()).toEqual({ 'Accept': '*/*' });
+    });
+
+    it('conserva la cancelación para URLs de terceros', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(new ApiClient(BASE_URL).fetchBlob('https://cdn.example.com/placa.jpg', { signal: controller.signal }))
+            .rejects.toMatchObject({ code: 'aborted' });
+    });
+});
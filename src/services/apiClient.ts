@@ -0,0 +1,665 @@
+// src/services/apiClient.ts
+// ✅ CLIENTE REST ÚNICO PARA IMAGEN, VIDEO Y STREAMING
+
+import type { z } from 'zod';
+import { backendConfig } from './backendConfig';
+import { logger } from './logger';
+import type {
+    ImageDetectionResponse,
+    VideoDetectionResponse,
+    QuickDetectionResponse,
+    QuickVideoResponse,
+    DetectionRequestParams,
+    StreamingUploadResponse,
+    SessionListResponse,
+    SessionInfoResponse,
+    StreamingHealthResponse,
+    ConnectionTestResponse,
+    UploadProgress,
+    ChunkedUploadPurpose,
+    ChunkedUploadStatus
+} from '../types/alpr';
+import type { StreamingOptions } from '../types/streaming';
+import {
+    ImageDetectionResponseSchema,
+    VideoDetectionResponseSchema,
+    QuickDetectionResponseSchema,
+    QuickVideoResponseSchema,
+    StreamingUploadResponseSchema,
+    SessionListResponseSchema,
+    SessionInfoResponseSchema,
+    StreamingHealthResponseSchema,
+    ConnectionTestResponseSchema,
+    ChunkedUploadStatusSchema,
+    parsePayload
+} from '../types/schemas';
+import {
+    CHUNKED_UPLOAD,
+    computeChunkChecksum,
+    getFileFingerprint,
+    resumableUploads,
+    retryDelay,
+    waitUnlessAborted
+} from './chunkedUpload';
+
+export type ApiErrorCode = 'http' | 'timeout' | 'aborted' | 'network' | 'invalid_response';
+
+// ❌ ERROR NORMALIZADO PARA TODAS LAS LLAMADAS
+export class ApiError extends Error {
+    readonly code: ApiErrorCode;
+    readonly status: number | null;
+    readonly endpoint: string;
+    readonly details?: unknown;
+
+    constructor(code: ApiErrorCode, message: string, endpoint: string, status: number | null = null, details?: unknown) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.status = status;
+        this.endpoint = endpoint;
+        this.details = details;
+    }
+
+    get isAborted(): boolean {
+        return this.code === 'aborted';
+    }
+}
+
+export interface ApiRequestOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    // Solo para cuerpos multipart: activa la subida por XMLHttpRequest con progreso real
+    onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+interface XhrUploadInit {
+    method?: string;
+    headers?: Record<string, string>;
+    // Bytes enviados del cuerpo actual (para sumar el progreso de varias partes)
+    onBytesSent?: (loaded: number, total: number) => void;
+}
+
+// Subida por partes ya completa en el servidor, pendiente de usarse en el endpoint final
+interface CompletedChunkedUpload {
+    uploadId: string;
+    fingerprint: string;
+}
+
+// ⏱️ TIMEOUTS POR DEFECTO (ms)
+export const API_TIMEOUTS = {
+    DEFAULT: 30_000,
+    IMAGE: 60_000,
+    IMAGE_QUICK: 30_000,
+    VIDEO: 15 * 60_000,
+    VIDEO_QUICK: 5 * 60_000,
+    UPLOAD: 10 * 60_000,
+    CHUNK: 2 * 60_000
+} as const;
+
+const NGROK_HEADERS = { 'ngrok-skip-browser-warning': 'true' };
+
+// Valores que el backend espera en el formulario de /streaming/upload
+const DEFAULT_STREAMING_OPTIONS: Required<StreamingOptions> = {
+    confidence_threshold: 0.3,
+    iou_threshold: 0.4,
+    frame_skip: 2,
+    max_duration: 600,
+    send_all_frames: false,
+    adaptive_quality: true,
+    enable_thumbnails: true,
+    roi_enabled: false,
+    six_char_filter: false,
+    auto_dash_formatting: false,
+    roi_percentage: 0,
+    min_detection_frames: 0
+};
+
+// ⏱️ VELOCIDAD SUAVIZADA (media móvil exponencial) PARA QUE EL ETA NO SALTE
+const SPEED_SAMPLE_MS = 250;
+const SPEED_SMOOTHING = 0.3;
+
+function createUploadProgressTracker(): (loaded: number, total: number) => UploadProgress {
+    let lastTime = Date.now();
+    let lastLoaded = 0;
+    let bytesPerSecond = 0;
+
+    return (loaded, total) => {
+        const now = Date.now();
+        const elapsedMs = now - lastTime;
+
+        if (elapsedMs >= SPEED_SAMPLE_MS || (loaded >= total && elapsedMs > 0)) {
+            const instantSpeed = ((loaded - lastLoaded) * 1000) / elapsedMs;
+            bytesPerSecond = bytesPerSecond === 0
+                ? instantSpeed
+                : bytesPerSecond * (1 - SPEED_SMOOTHING) + instantSpeed * SPEED_SMOOTHING;
+            lastTime = now;
+            lastLoaded = loaded;
+        }
+
+        const remaining = Math.max(0, total - loaded);
+        return {
+            loaded,
+            total,
+            percent: total > 0 ? Math.min(100, (loaded / total) * 100) : 0,
+            bytesPerSecond,
+            etaSeconds: remaining === 0 ? 0 : bytesPerSecond > 0 ? remaining / bytesPerSecond : null
+        };
+    };
+}
+
+// Backends sin /api/v1/uploads: se recuerda para no volver a intentarlo en cada subida
+const chunkedUploadUnsupported = new Set<string>();
+
+function isRetryableUploadError(error: unknown): boolean {
+    if (!(error instanceof ApiError)) return false;
+    if (error.code === 'network' || error.code === 'timeout') return true;
+    // 408/429: reintentar más tarde · 409: offset desincronizado · 422: checksum no coincide
+    return error.code === 'http' && error.status !== null &&
+        (error.status >= 500 || [408, 409, 422, 429].includes(error.status));
+}
+
+function extractErrorMessage(body: unknown, fallback: string): string {
+    if (body && typeof body === 'object') {
+        const data = body as { detail?: unknown; message?: unknown };
+        if (data.detail && typeof data.detail === 'object' && typeof (data.detail as { message?: unknown }).message === 'string') {
+            return (data.detail as { message: string }).message;
+        }
+        if (typeof data.detail === 'string') return data.detail;
+        if (typeof data.message === 'string') return data.message;
+    }
+    return fallback;
+}
+
+// 🐞 PAYLOAD QUE NO COINCIDE CON SU ESQUEMA (REST, mensajes WebSocket, archivos importados)
+export function reportSchemaMismatch(source: string, issues: string[], raw: unknown): void {
+    logger.warn('Schema', `Respuesta con formato inesperado (${source})`, { issues, raw });
+}
+
+export class ApiClient {
+    private readonly _customBaseUrl?: string;
+
+    constructor(baseUrl?: string) {
+        this._customBaseUrl = baseUrl;
+    }
+
+    get baseUrl(): string {
+        return this.getApiBaseUrl(this._customBaseUrl);
+    }
+
+    // 🎯 URL RESUELTA EN CADA LLAMADA (cambia al seleccionar otro perfil)
+    protected getApiBaseUrl(customUrl?: string): string {
+        if (customUrl) return customUrl;
+        return backendConfig.apiBaseUrl;
+    }
+
+    // 🔄 NÚCLEO: headers ngrok, timeout, cancelación y errores normalizados
+    // backendHeaders: false para URLs de terceros, que no deben recibir los headers del backend
+    protected async send(
+        endpoint: string,
+        init: RequestInit = {},
+        options: ApiRequestOptions = {},
+        baseUrl: string = this.baseUrl,
+        backendHeaders: boolean = true
+    ): Promise<Response> {
+        const url = `${baseUrl}${endpoint}`;
+        const controller = new AbortController();
+        const timeoutMs = options.timeoutMs ?? API_TIMEOUTS.DEFAULT;
+        let timedOut = false;
+
+        const onExternalAbort = () => controller.abort();
+        if (options.signal?.aborted) {
+            controller.abort();
+        } else {
+            options.signal?.addEventListener('abort', onExternalAbort, { once: true });
+        }
+
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeoutMs)
+            : null;
+
+        const headers: Record<string, string> = {
+            ...(backendHeaders ? { 'Accept': 'application/json', ...NGROK_HEADERS } : {}),
+            ...(typeof init.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+            ...(init.headers as Record<string, string> | undefined)
+        };
+
+        try {
+            const response = await fetch(url, { ...init, headers, signal: controller.signal });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new ApiError('http', extractErrorMessage(body, `HTTP ${response.status}`), endpoint, response.status, body);
+            }
+
+            return response;
+        } catch (error) {
+            if (error instanceof ApiError) throw error;
+            if (timedOut) {
+                throw new ApiError('timeout', `Tiempo de espera agotado (${Math.round(timeoutMs / 1000)}s)`, endpoint);
+            }
+            if (controller.signal.aborted) {
+                throw new ApiError('aborted', 'Solicitud cancelada', endpoint);
+            }
+            throw new ApiError('network', 'Error de conexión con el servidor', endpoint, null, error);
+        } finally {
+            if (timer) clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onExternalAbort);
+        }
+    }
+
+    protected async request<T>(endpoint: string, init: RequestInit = {}, options: ApiRequestOptions = {}, baseUrl?: string): Promise<T> {
+        const response = await this.send(endpoint, init, options, baseUrl);
+
+        if (response.status === 204) {
+            return undefined as T;
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (!contentType.includes('application/json')) {
+            const text = await response.text().catch(() => '');
+            throw new ApiError('invalid_response', 'La respuesta del servidor no es válida', endpoint, response.status, text.slice(0, 500));
+        }
+
+        return response.json() as Promise<T>;
+    }
+
+    // 🧪 PETICIÓN VALIDADA: el payload se normaliza con su esquema o se rechaza
+    protected async requestParsed<T>(
+        schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+        endpoint: string,
+        init: RequestInit = {},
+        options: ApiRequestOptions = {},
+        baseUrl?: string
+    ): Promise<T> {
+        const raw = options.onUploadProgress && init.body instanceof FormData
+            ? await this.sendWithUploadProgress(endpoint, init.body, options, baseUrl)
+            : await this.request<unknown>(endpoint, init, options, baseUrl);
+        return this.parseResponse(schema, raw, endpoint);
+    }
+
+    protected parseResponse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: unknown, endpoint: string): T {
+        const result = parsePayload(schema, raw);
+
+        if (!result.success) {
+            reportSchemaMismatch(endpoint, result.issues, raw);
+            throw new ApiError(
+                'invalid_response',
+                `Formato de respuesta inesperado: ${result.issues[0]}`,
+                endpoint,
+                null,
+                result.error.issues
+            );
+        }
+        return result.data;
+    }
+
+    // 📤 SUBIDA CON PROGRESO REAL: fetch no expone el progreso del cuerpo, XMLHttpRequest sí
+    protected sendWithUploadProgress(
+        endpoint: string,
+        body: FormData | Blob,
+        options: ApiRequestOptions = {},
+        baseUrl: string = this.baseUrl,
+        init: XhrUploadInit = {}
+    ): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(new ApiError('aborted', 'Solicitud cancelada', endpoint));
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            const timeoutMs = options.timeoutMs ?? API_TIMEOUTS.DEFAULT;
+            const trackProgress = createUploadProgressTracker();
+            const onBytesSent = init.onBytesSent
+                ?? ((loaded: number, total: number) => options.onUploadProgress?.(trackProgress(loaded, total)));
+
+            const onExternalAbort = () => xhr.abort();
+            const settle = (callback: () => void) => {
+                options.signal?.removeEventListener('abort', onExternalAbort);
+                callback();
+            };
+
+            xhr.open(init.method || 'POST', `${baseUrl}${endpoint}`);
+            xhr.timeout = Math.max(0, timeoutMs);
+            Object.entries({ 'Accept': 'application/json', ...NGROK_HEADERS, ...init.headers }).forEach(([name, value]) => {
+                xhr.setRequestHeader(name, value);
+            });
+
+            xhr.upload.onprogress = (event) => {
+                if (event.lengthComputable) {
+                    onBytesSent(event.loaded, event.total);
+                }
+            };
+
+            xhr.onload = () => settle(() => {
+                const contentType = xhr.getResponseHeader('content-type') || '';
+                let data: unknown = null;
+                let isJson = false;
+                if (contentType.includes('application/json')) {
+                    try {
+                        data = JSON.parse(xhr.responseText);
+                        isJson = true;
+                    } catch {
+                        isJson = false;
+                    }
+                }
+
+                if (xhr.status < 200 || xhr.status >= 300) {
+                    reject(new ApiError('http', extractErrorMessage(data, `HTTP ${xhr.status}`), endpoint, xhr.status, data));
+                } else if (xhr.status === 204) {
+                    resolve(undefined);
+                } else if (!isJson) {
+                    reject(new ApiError('invalid_response', 'La respuesta del servidor no es válida', endpoint, xhr.status, xhr.responseText.slice(0, 500)));
+                } else {
+                    resolve(data);
+                }
+            });
+            xhr.onerror = () => settle(() => reject(new ApiError('network', 'Error de conexión con el servidor', endpoint)));
+            xhr.ontimeout = () => settle(() => reject(new ApiError('timeout', `Tiempo de espera agotado (${Math.round(timeoutMs / 1000)}s)`, endpoint)));
+            xhr.onabort = () => settle(() => reject(new ApiError('aborted', 'Solicitud cancelada', endpoint)));
+
+            options.signal?.addEventListener('abort', onExternalAbort, { once: true });
+            xhr.send(body);
+        });
+    }
+
+    // 🧩 SUBIDA POR PARTES REANUDABLE
+    // Devuelve el upload_id a referenciar en el endpoint final, o null para usar el POST único
+    protected async uploadInChunks(file: File, purpose: ChunkedUploadPurpose, options: ApiRequestOptions = {}): Promise<CompletedChunkedUpload | null> {
+        if (file.size < CHUNKED_UPLOAD.THRESHOLD_BYTES || chunkedUploadUnsupported.has(this.baseUrl)) {
+            return null;
+        }
+
+        const fingerprint = getFileFingerprint(file, purpose);
+        let status = await this.resumeOrCreateUpload(file, purpose, fingerprint, options);
+        if (!status) return null;
+
+        const trackProgress = createUploadProgressTracker();
+        const reportBytes = (loaded: number) => {
+            options.onUploadProgress?.(trackProgress(Math.min(loaded, file.size), file.size));
+        };
+
+        let failures = 0;
+        let needsResync = false;
+
+        while (true) {
+            try {
+                // Tras un fallo se pregunta al servidor desde dónde seguir:
+                // la parte pudo llegar aunque se perdiera la respuesta
+                if (needsResync) {
+                    status = await this.getUploadStatus(status.upload_id, options);
+                    needsResync = false;
+                }
+                if (status.completed) break;
+
+                const offset = status.next_chunk_index * status.chunk_size;
+                const chunk = file.slice(offset, Math.min(offset + status.chunk_size, file.size));
+                reportBytes(offset);
+
+                status = await this.sendChunk(status, chunk, offset, options, loaded => reportBytes(offset + loaded));
+                failures = 0;
+            } catch (error) {
+                if (!isRetryableUploadError(error) || failures >= CHUNKED_UPLOAD.MAX_RETRIES) {
+                    throw error;
+                }
+                failures += 1;
+                logger.warn('Upload', `Subida por partes interrumpida (reintento ${failures}/${CHUNKED_UPLOAD.MAX_RETRIES})`, error);
+
+                await waitUnlessAborted(retryDelay(failures), options.signal).catch(() => {
+                    throw new ApiError('aborted', 'Solicitud cancelada', `/api/v1/uploads/${status.upload_id}`);
+                });
+                needsResync = true;
+            }
+        }
+
+        reportBytes(file.size);
+        return { uploadId: status.upload_id, fingerprint };
+    }
+
+    private async resumeOrCreateUpload(
+        file: File,
+        purpose: ChunkedUploadPurpose,
+        fingerprint: string,
+        options: ApiRequestOptions
+    ): Promise<ChunkedUploadStatus | null> {
+        const baseUrl = this.baseUrl;
+        const storedId = resumableUploads.get(fingerprint, baseUrl);
+
+        if (storedId) {
+            try {
+                const status = await this.getUploadStatus(storedId, options);
+                if (status.size === file.size) {
+                    logger.info('Upload', `Reanudando subida ${storedId} desde ${status.received_bytes} bytes`);
+                    return status;
+                }
+            } catch (error) {
+                if (error instanceof ApiError && error.isAborted) throw error;
+                // Subida expirada o desconocida en el servidor: se empieza de nuevo
+            }
+            resumableUploads.remove(fingerprint);
+        }
+
+        try {
+            const status = await this.requestParsed(ChunkedUploadStatusSchema, '/api/v1/uploads', {
+                method: 'POST',
+                body: JSON.stringify({
+                    filename: file.name,
+                    size: file.size,
+                    content_type: file.type || 'application/octet-stream',
+                    chunk_size: CHUNKED_UPLOAD.CHUNK_SIZE,
+                    purpose,
+                    fingerprint
+                })
+            }, { signal: options.signal });
+
+            resumableUploads.save(fingerprint, baseUrl, status.upload_id);
+            return status;
+        } catch (error) {
+            if (error instanceof ApiError && error.code === 'http' && [404, 405, 501].includes(error.status ?? 0)) {
+                logger.info('Upload', 'El backend no soporta subidas por partes, usando POST único');
+                chunkedUploadUnsupported.add(baseUrl);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async sendChunk(
+        status: ChunkedUploadStatus,
+        chunk: Blob,
+        offset: number,
+        options: ApiRequestOptions,
+        onBytesSent: (loaded: number) => void
+    ): Promise<ChunkedUploadStatus> {
+        const endpoint = `/api/v1/uploads/${status.upload_id}/chunks/${status.next_chunk_index}`;
+        const raw = await this.sendWithUploadProgress(endpoint, chunk, {
+            signal: options.signal,
+            timeoutMs: API_TIMEOUTS.CHUNK
+        }, this.baseUrl, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                'X-Chunk-Offset': String(offset),
+                'X-Chunk-Checksum': await computeChunkChecksum(chunk)
+            },
+            onBytesSent
+        });
+        return this.parseResponse(ChunkedUploadStatusSchema, raw, endpoint);
+    }
+
+    // 🔎 CONSULTA DE OFFSET PARA REANUDAR
+    async getUploadStatus(uploadId: string, options: ApiRequestOptions = {}): Promise<ChunkedUploadStatus> {
+        return this.requestParsed(ChunkedUploadStatusSchema, `/api/v1/uploads/${uploadId}`, {}, { signal: options.signal });
+    }
+
+    // 📦 POST DE VIDEO: el archivo completo o, si se subió por partes, solo su upload_id
+    private async postVideo<T>(
+        schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+        endpoint: string,
+        file: File,
+        params: object,
+        purpose: ChunkedUploadPurpose,
+        options: ApiRequestOptions
+    ): Promise<T> {
+        const upload = await this.uploadInChunks(file, purpose, options);
+        if (!upload) {
+            return this.requestParsed(schema, endpoint, {
+                method: 'POST',
+                body: this.buildFormData(file, params)
+            }, options);
+        }
+
+        const result = await this.requestParsed(schema, endpoint, {
+            method: 'POST',
+            body: this.buildFormData(null, { ...params, upload_id: upload.uploadId })
+        }, { ...options, onUploadProgress: undefined });
+
+        // El registro local solo se borra cuando el endpoint final aceptó la subida
+        resumableUploads.remove(upload.fingerprint);
+        return result;
+    }
+
+    protected buildFormData(file: Blob | null, params: object, fileName?: string): FormData {
+        const formData = new FormData();
+        if (file && fileName) {
+            formData.append('file', file, fileName);
+        } else if (file) {
+            formData.append('file', file);
+        }
+        Object.entries(params).forEach(([key, value]) => {
+            if (value !== undefined && value !== null) {
+                formData.append(key, String(value));
+            }
+        });
+        return formData;
+    }
+
+    // 🖼️ DETECCIÓN EN IMAGEN
+    async detectImage(file: File, params: DetectionRequestParams = {}, options: ApiRequestOptions = {}): Promise<ImageDetectionResponse> {
+        return this.requestParsed(ImageDetectionResponseSchema, '/api/v1/detect/image', {
+            method: 'POST',
+            body: this.buildFormData(file, params)
+        }, { timeoutMs: API_TIMEOUTS.IMAGE, ...options });
+    }
+
+    async detectImageQuick(file: File, params: DetectionRequestParams = {}, options: ApiRequestOptions = {}): Promise<QuickDetectionResponse> {
+        return this.requestParsed(QuickDetectionResponseSchema, '/api/v1/detect/image/quick', {
+            method: 'POST',
+            body: this.buildFormData(file, params)
+        }, { timeoutMs: API_TIMEOUTS.IMAGE_QUICK, ...options });
+    }
+
+    // 🎬 DETECCIÓN EN VIDEO
+    async detectVideo(file: File, params: DetectionRequestParams = {}, options: ApiRequestOptions = {}): Promise<VideoDetectionResponse> {
+        return this.postVideo(VideoDetectionResponseSchema, '/api/v1/video/detect', file, params, 'video_detect', {
+            timeoutMs: API_TIMEOUTS.VIDEO,
+            ...options
+        });
+    }
+
+    async detectVideoQuick(file: File, params: DetectionRequestParams = {}, options: ApiRequestOptions = {}): Promise<QuickVideoResponse> {
+        return this.postVideo(QuickVideoResponseSchema, '/api/v1/video/detect/quick', file, params, 'video_detect', {
+            timeoutMs: API_TIMEOUTS.VIDEO_QUICK,
+            ...options
+        });
+    }
+
+    // 📤 SUBIR VIDEO PARA STREAMING
+    async uploadVideoForStreaming(sessionId: string, file: File, streamingOptions: StreamingOptions = {}, options: ApiRequestOptions = {}): Promise<StreamingUploadResponse> {
+        const params = { session_id: sessionId, ...DEFAULT_STREAMING_OPTIONS, ...streamingOptions };
+
+        return this.postVideo(StreamingUploadResponseSchema, '/api/v1/streaming/upload', file, params, 'streaming', {
+            timeoutMs: API_TIMEOUTS.UPLOAD,
+            ...options
+        });
+    }
+
+    // 📋 OBTENER SESIONES ACTIVAS
+    async getActiveSessions(options: ApiRequestOptions = {}): Promise<SessionListResponse> {
+        return this.requestParsed(SessionListResponseSchema, '/api/v1/streaming/sessions', {}, options);
+    }
+
+    // 📄 OBTENER INFO DE SESIÓN ESPECÍFICA
+    async getSessionInfo(sessionId: string, options: ApiRequestOptions = {}): Promise<SessionInfoResponse> {
+        return this.requestParsed(SessionInfoResponseSchema, `/api/v1/streaming/sessions/${sessionId}`, {}, options);
+    }
+
+    // 🗑️ CERRAR SESIÓN
+    async disconnectSession(sessionId: string, options: ApiRequestOptions = {}): Promise<void> {
+        await this.send(`/api/v1/streaming/sessions/${sessionId}`, { method: 'DELETE' }, options);
+    }
+
+    // 🏥 HEALTH CHECK
+    async getStreamingHealth(options: ApiRequestOptions = {}): Promise<StreamingHealthResponse> {
+        return this.requestParsed(StreamingHealthResponseSchema, '/api/v1/streaming/health', {}, options);
+    }
+
+    // 🏥 HEALTH CHECK CONTRA OTRO BACKEND (para probar perfiles antes de activarlos)
+    async getStreamingHealthAt(apiBaseUrl: string, options: ApiRequestOptions = {}): Promise<StreamingHealthResponse> {
+        return this.requestParsed(StreamingHealthResponseSchema, '/api/v1/streaming/health', {}, options, apiBaseUrl);
+    }
+
+    // 🧪 TEST DE CONECTIVIDAD
+    async testConnection(options: ApiRequestOptions = {}): Promise<ConnectionTestResponse> {
+        return this.requestParsed(ConnectionTestResponseSchema, '/api/v1/streaming/test-connection', {}, options);
+    }
+
+    // 🧪 MÉTODO DE PRUEBA PARA NGROK
+    async testNgrok(options: ApiRequestOptions = {}): Promise<Record<string, unknown>> {
+        return this.request<Record<string, unknown>>('/api/v1/test-ngrok', {}, options);
+    }
+
+    // 📥 DESCARGAR RESULTADOS
+    async downloadResults(sessionId: string, format: 'json' | 'csv' = 'json', options: ApiRequestOptions = {}): Promise<void> {
+        const response = await this.send(
+            `/api/v1/streaming/sessions/${sessionId}/download?format=${format}&include_timeline=true`,
+            { headers: { 'Accept': '*/*' } },
+            options
+        );
+
+        const blob = await response.blob();
+        const downloadUrl = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = downloadUrl;
+        a.download = `streaming_results_${sessionId}_${Date.now()}.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(downloadUrl);
+    }
+
+    // 🌐 IMAGEN REMOTA DESCARGADA POR EL BACKEND (para URLs que no permiten CORS desde el navegador)
+    async fetchRemoteImage(url: string, options: ApiRequestOptions = {}): Promise<Blob> {
+        const response = await this.send('/api/v1/images/fetch', {
+            method: 'POST',
+            body: JSON.stringify({ url }),
+            headers: { 'Accept': 'image/*' }
+        }, options);
+        return response.blob();
+    }
+
+    // 🖼️ RECURSO BINARIO DEVUELTO POR EL BACKEND (frames guardados): mismo timeout y cancelación;
+    // los headers del backend solo van si la URL es suya
+    async fetchBlob(path: string, options: ApiRequestOptions = {}): Promise<Blob> {
+        const url = this.resolveUrl(path);
+        const response = await this.send(url, { headers: { 'Accept': '*/*' } }, options, '', this.isBackendUrl(url));
+        return response.blob();
+    }
+
+    // 🔗 URL ABSOLUTA PARA RECURSOS DEVUELTOS POR EL BACKEND (anotados, frames)
+    resolveUrl(path: string): string {
+        return /^https?:\/\//i.test(path) ? path : `${this.baseUrl}${path}`;
+    }
+
+    // La URL está bajo baseUrl (no basta con que empiece igual: http://api.test.otro.com no es http://api.test)
+    private isBackendUrl(url: string): boolean {
+        const base = this.baseUrl.replace(/\/+$/, '');
+        return url === base || url.startsWith(`${base}/`);
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const apiClient = new ApiClient();
@@ -0,0 +1,45 @@
+// src/services/backendConfig.test.ts
+// ✅ TESTS DE LA RESOLUCIÓN DE ENDPOINTS: config.json, variables VITE_* y perfiles
+
+import { describe, expect, it, vi } from 'vitest';
+import { BackendConfigService } from './backendConfig';
+import shippedConfig from '../../public/config.json';
+
+function serveConfig(body: unknown): void {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => body
+    }));
+}
+
+describe('BackendConfigService', () => {
+    it('el config.json del repositorio no fija una URL de primer nivel', () => {
+        expect(shippedConfig).not.toHaveProperty('apiBaseUrl');
+        expect(shippedConfig).not.toHaveProperty('wsBaseUrl');
+    });
+
+    it('usa VITE_API_BASE_URL cuando config.json solo trae perfiles', async () => {
+        vi.stubEnv('VITE_API_BASE_URL', 'https://build.example.com/');
+        serveConfig({ profiles: [{ id: 'staging', name: 'Staging', apiBaseUrl: 'https://staging.example.com' }] });
+
+        const service = new BackendConfigService();
+        await service.loadRuntimeConfig();
+
+        const snapshot = service.getSnapshot();
+        expect(snapshot.source).toBe('env');
+        expect(snapshot.apiBaseUrl).toBe('https://build.example.com');
+        expect(snapshot.wsBaseUrl).toBe('wss://build.example.com');
+        expect(snapshot.profiles.map(p => p.id)).toContain('staging');
+    });
+
+    it('una URL de primer nivel en config.json tiene prioridad sobre VITE_*', async () => {
+        vi.stubEnv('VITE_API_BASE_URL', 'https://build.example.com');
+        serveConfig({ apiBaseUrl: 'https://deploy.example.com' });
+
+        const service = new BackendConfigService();
+        await service.loadRuntimeConfig();
+
+        expect(service.getSnapshot()).toMatchObject({ source: 'runtime', apiBaseUrl: 'https://deploy.example.com' });
+    });
+});
@@ -0,0 +1,272 @@
+// src/services/backendConfig.ts
+// ✅ RESOLUCIÓN DE ENDPOINTS: override del usuario > config.json > variables VITE_* > ubicación actual
+
+import type {
+    BackendConfigSnapshot,
+    BackendConfigSource,
+    BackendProfile,
+    RuntimeConfigFile
+} from '../types/config';
+import { logger } from './logger';
+
+const STORAGE_KEYS = {
+    PROFILES: 'carid.backend.profiles',
+    ACTIVE_PROFILE: 'carid.backend.activeProfile'
+} as const;
+
+const RUNTIME_CONFIG_URL = '/config.json';
+
+// Perfil integrado para desarrollo con el backend en la misma máquina
+const BUILT_IN_PROFILES: BackendProfile[] = [
+    {
+        id: 'local',
+        name: 'Local',
+        apiBaseUrl: 'http://localhost:8000',
+        wsBaseUrl: 'ws://localhost:8000',
+        description: 'Backend ejecutándose en esta máquina',
+        readOnly: true
+    }
+];
+
+// 🔧 HELPERS DE URL
+function stripTrailingSlash(url: string): string {
+    return url.trim().replace(/\/+$/, '');
+}
+
+export function deriveWsBaseUrl(apiBaseUrl: string): string {
+    return stripTrailingSlash(apiBaseUrl)
+        .replace(/^https:/i, 'wss:')
+        .replace(/^http:/i, 'ws:');
+}
+
+export function isValidBackendUrl(url: string, protocols: string[] = ['http:', 'https:']): boolean {
+    try {
+        const parsed = new URL(url);
+        return protocols.includes(parsed.protocol);
+    } catch {
+        return false;
+    }
+}
+
+function normalizeProfile(profile: Partial<BackendProfile> & { id: string; apiBaseUrl: string }, readOnly: boolean): BackendProfile {
+    const apiBaseUrl = stripTrailingSlash(profile.apiBaseUrl);
+    return {
+        id: profile.id,
+        name: profile.name || profile.id,
+        apiBaseUrl,
+        wsBaseUrl: profile.wsBaseUrl ? stripTrailingSlash(profile.wsBaseUrl) : deriveWsBaseUrl(apiBaseUrl),
+        description: profile.description,
+        readOnly
+    };
+}
+
+// 🎯 URL POR DEFECTO SEGÚN DÓNDE SE SIRVE EL FRONTEND
+function getLocationApiBaseUrl(): string {
+    if (window.location.hostname !== 'localhost' &&
+        window.location.hostname !== '127.0.0.1') {
+        return `${window.location.protocol}//${window.location.hostname}`;
+    }
+    return 'http://localhost:8000';
+}
+
+function getLocationWsBaseUrl(): string {
+    if (window.location.hostname !== 'localhost' &&
+        window.location.hostname !== '127.0.0.1') {
+        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+        return `${protocol}//${window.location.hostname}`;
+    }
+    return 'ws://localhost:8000';
+}
+
+function readStorage<T>(key: string, fallback: T): T {
+    try {
+        const raw = window.localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+function writeStorage(key: string, value: unknown): void {
+    try {
+        if (value === null || value === undefined) {
+            window.localStorage.removeItem(key);
+        } else {
+            window.localStorage.setItem(key, JSON.stringify(value));
+        }
+    } catch (error) {
+        logger.warn('Config', 'No se pudo guardar la configuración del backend', error);
+    }
+}
+
+export class BackendConfigService {
+    private runtimeConfig: RuntimeConfigFile | null = null;
+    private runtimeConfigLoaded = false;
+    private userProfiles: BackendProfile[];
+    private activeProfileId: string | null;
+    private listeners = new Set<() => void>();
+    private snapshot: BackendConfigSnapshot;
+
+    constructor() {
+        this.userProfiles = readStorage<BackendProfile[]>(STORAGE_KEYS.PROFILES, [])
+            .filter(p => p && typeof p.id === 'string' && typeof p.apiBaseUrl === 'string')
+            .map(p => normalizeProfile(p, false));
+        this.activeProfileId = readStorage<string | null>(STORAGE_KEYS.ACTIVE_PROFILE, null);
+        this.snapshot = this.buildSnapshot();
+    }
+
+    // 📥 CARGAR /config.json (opcional, se ignora si no existe)
+    async loadRuntimeConfig(): Promise<void> {
+        try {
+            const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+            const contentType = response.headers.get('content-type') || '';
+            if (response.ok && contentType.includes('application/json')) {
+                this.runtimeConfig = await response.json() as RuntimeConfigFile;
+            }
+        } catch (error) {
+            logger.warn('Config', 'config.json no disponible, usando variables de entorno', error);
+        } finally {
+            this.runtimeConfigLoaded = true;
+            this.emitChange();
+        }
+    }
+
+    getSnapshot = (): BackendConfigSnapshot => this.snapshot;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    get apiBaseUrl(): string {
+        return this.snapshot.apiBaseUrl;
+    }
+
+    get wsBaseUrl(): string {
+        return this.snapshot.wsBaseUrl;
+    }
+
+    // 🔀 SELECCIONAR PERFIL (null = volver a la configuración por defecto)
+    setActiveProfile(profileId: string | null): void {
+        if (profileId !== null && !this.snapshot.profiles.some(p => p.id === profileId)) {
+            throw new Error(`Perfil de backend desconocido: ${profileId}`);
+        }
+        this.activeProfileId = profileId;
+        writeStorage(STORAGE_KEYS.ACTIVE_PROFILE, profileId);
+        this.emitChange();
+    }
+
+    // 💾 GUARDAR PERFIL DEL USUARIO (crea o reemplaza por id)
+    saveProfile(profile: Omit<BackendProfile, 'id' | 'readOnly' | 'wsBaseUrl'> & { id?: string; wsBaseUrl?: string }): BackendProfile {
+        if (!isValidBackendUrl(profile.apiBaseUrl)) {
+            throw new Error('La URL de la API debe comenzar con http:// o https://');
+        }
+        if (profile.wsBaseUrl && !isValidBackendUrl(profile.wsBaseUrl, ['ws:', 'wss:'])) {
+            throw new Error('La URL del WebSocket debe comenzar con ws:// o wss://');
+        }
+
+        const id = profile.id || `user_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+        if (this.getReadOnlyProfiles().some(p => p.id === id)) {
+            throw new Error('No se puede sobrescribir un perfil predefinido');
+        }
+
+        const saved = normalizeProfile({ ...profile, id }, false);
+        const index = this.userProfiles.findIndex(p => p.id === id);
+        this.userProfiles = index > -1
+            ? this.userProfiles.map(p => p.id === id ? saved : p)
+            : [...this.userProfiles, saved];
+
+        writeStorage(STORAGE_KEYS.PROFILES, this.userProfiles);
+        this.emitChange();
+        return saved;
+    }
+
+    // 🗑️ ELIMINAR PERFIL DEL USUARIO
+    deleteProfile(profileId: string): void {
+        this.userProfiles = this.userProfiles.filter(p => p.id !== profileId);
+        writeStorage(STORAGE_KEYS.PROFILES, this.userProfiles);
+
+        if (this.activeProfileId === profileId) {
+            this.activeProfileId = null;
+            writeStorage(STORAGE_KEYS.ACTIVE_PROFILE, null);
+        }
+        this.emitChange();
+    }
+
+    private getReadOnlyProfiles(): BackendProfile[] {
+        const runtimeProfiles = (this.runtimeConfig?.profiles || [])
+            .filter(p => p && typeof p.id === 'string' && typeof p.apiBaseUrl === 'string')
+            .map(p => normalizeProfile(p, true));
+
+        const builtIns = BUILT_IN_PROFILES.filter(b => !runtimeProfiles.some(p => p.id === b.id));
+        return [...builtIns, ...runtimeProfiles];
+    }
+
+    private resolveDefault(): { apiBaseUrl: string; wsBaseUrl: string; source: BackendConfigSource } {
+        const runtimeApi = this.runtimeConfig?.apiBaseUrl;
+        if (runtimeApi) {
+            return {
+                apiBaseUrl: stripTrailingSlash(runtimeApi),
+                wsBaseUrl: this.runtimeConfig?.wsBaseUrl ? stripTrailingSlash(this.runtimeConfig.wsBaseUrl) : deriveWsBaseUrl(runtimeApi),
+                source: 'runtime'
+            };
+        }
+
+        const envApi = import.meta.env.VITE_API_BASE_URL;
+        if (envApi) {
+            const envWs = import.meta.env.VITE_WS_BASE_URL;
+            return {
+                apiBaseUrl: stripTrailingSlash(envApi),
+                wsBaseUrl: envWs ? stripTrailingSlash(envWs) : deriveWsBaseUrl(envApi),
+                source: 'env'
+            };
+        }
+
+        return {
+            apiBaseUrl: getLocationApiBaseUrl(),
+            wsBaseUrl: getLocationWsBaseUrl(),
+            source: 'location'
+        };
+    }
+
+    private buildSnapshot(): BackendConfigSnapshot {
+        const profiles = [...this.getReadOnlyProfiles(), ...this.userProfiles.filter(
+            p => !this.getReadOnlyProfiles().some(r => r.id === p.id)
+        )];
+        const activeProfile = profiles.find(p => p.id === this.activeProfileId) || null;
+
+        if (activeProfile) {
+            return {
+                apiBaseUrl: activeProfile.apiBaseUrl,
+                wsBaseUrl: activeProfile.wsBaseUrl,
+                source: 'user',
+                activeProfileId: activeProfile.id,
+                profiles,
+                runtimeConfigLoaded: this.runtimeConfigLoaded
+            };
+        }
+
+        return {
+            ...this.resolveDefault(),
+            activeProfileId: null,
+            profiles,
+            runtimeConfigLoaded: this.runtimeConfigLoaded
+        };
+    }
+
+    private emitChange(): void {
+        const previous = this.snapshot;
+        this.snapshot = this.buildSnapshot();
+
+        if (previous.apiBaseUrl !== this.snapshot.apiBaseUrl || previous.wsBaseUrl !== this.snapshot.wsBaseUrl) {
+            logger.info('Config', `API: ${this.snapshot.apiBaseUrl} · WebSocket: ${this.snapshot.wsBaseUrl}`);
+        }
+
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const backendConfig = new BackendConfigService();
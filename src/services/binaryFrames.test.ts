@@ -0,0 +1,65 @@
+// src/services/binaryFrames.test.ts
+// ✅ TESTS DEL PARSER DEL TRANSPORTE BINARIO DE FRAMES
+
+import { describe, expect, it } from 'vitest';
+import { decodeBinaryFrame } from './binaryFrames';
+import { encodeBinaryFrame } from '../test/fixtures';
+
+const header = { type: 'streaming_update', data: { frame_info: { frame_number: 7 } } };
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+
+describe('decodeBinaryFrame', () => {
+    it('separa la cabecera JSON del JPEG', async () => {
+        const frame = decodeBinaryFrame(encodeBinaryFrame(header, jpeg));
+
+        expect(frame?.header).toEqual(header);
+        expect(frame?.jpeg?.type).toBe('image/jpeg');
+        expect(new Uint8Array(await frame?.jpeg?.arrayBuffer())).toEqual(jpeg);
+    });
+
+    it('un mensaje solo con cabecera no trae JPEG', () => {
+        const frame = decodeBinaryFrame(encodeBinaryFrame(header));
+
+        expect(frame).toEqual({ header, jpeg: null });
+    });
+
+    it('acepta cabeceras con texto UTF-8', () => {
+        const frame = decodeBinaryFrame(encodeBinaryFrame({ type: 'system_message', data: { message: 'Sesión ñandú' } }));
+
+        expect(frame?.header).toEqual({ type: 'system_message', data: { message: 'Sesión ñandú' } });
+    });
+
+    it('descarta mensajes más cortos que el largo de la cabecera', () => {
+        expect(decodeBinaryFrame(new ArrayBuffer(0))).toBeNull();
+        expect(decodeBinaryFrame(new Uint8Array([0, 0, 1]).buffer)).toBeNull();
+    });
+
+    it('descarta una cabecera de largo cero', () => {
+        expect(decodeBinaryFrame(new Uint8Array([0, 0, 0, 0, 0xff, 0xd8]).buffer)).toBeNull();
+    });
+
+    it('descarta un mensaje truncado antes del final de la cabecera', () => {
+        const complete = new Uint8Array(encodeBinaryFrame(header, jpeg));
+        const headerLength = new DataView(complete.buffer).getUint32(0, false);
+
+        expect(decodeBinaryFrame(complete.slice(0, 4 + headerLength - 1).buffer)).toBeNull();
+        // Cortado justo tras la cabecera sigue siendo válido: solo falta el JPEG
+        expect(decodeBinaryFrame(complete.slice(0, 4 + headerLength).buffer)).toEqual({ header, jpeg: null });
+    });
+
+    it('descarta un largo de cabecera que apunta más allá del mensaje', () => {
+        const bytes = new Uint8Array(encodeBinaryFrame(header, jpeg));
+        new DataView(bytes.buffer).setUint32(0, 0xffffffff, false);
+
+        expect(decodeBinaryFrame(bytes.buffer)).toBeNull();
+    });
+
+    it('descarta una cabecera que no es JSON', () => {
+        const text = new TextEncoder().encode('{type: streaming_update');
+        const bytes = new Uint8Array(4 + text.length);
+        new DataView(bytes.buffer).setUint32(0, text.length, false);
+        bytes.set(text, 4);
+
+        expect(decodeBinaryFrame(bytes.buffer)).toBeNull();
+    });
+});
@@ -0,0 +1,39 @@
+// src/services/binaryFrames.ts
+// ✅ TRANSPORTE BINARIO DE FRAMES: cabecera JSON + JPEG en un solo mensaje WebSocket
+//
+// Formato 'header-jpeg-v1':
+//   [uint32 big-endian: largo de la cabecera][cabecera JSON UTF-8][bytes JPEG]
+// La cabecera es un mensaje WebSocket normal ({type, data}) sin frame_data.image_base64.
+
+export const BINARY_FRAME_FORMAT = 'header-jpeg-v1';
+
+const HEADER_LENGTH_BYTES = 4;
+
+export interface DecodedBinaryFrame {
+    header: unknown;
+    // null si el mensaje solo trae la cabecera
+    jpeg: Blob | null;
+}
+
+const textDecoder = new TextDecoder();
+
+// null si el mensaje no respeta el formato (se descarta sin romper el socket)
+export function decodeBinaryFrame(buffer: ArrayBuffer): DecodedBinaryFrame | null {
+    if (buffer.byteLength < HEADER_LENGTH_BYTES) return null;
+
+    const headerLength = new DataView(buffer).getUint32(0, false);
+    const payloadStart = HEADER_LENGTH_BYTES + headerLength;
+    if (headerLength === 0 || payloadStart > buffer.byteLength) return null;
+
+    try {
+        const header = JSON.parse(textDecoder.decode(new Uint8Array(buffer, HEADER_LENGTH_BYTES, headerLength)));
+        return {
+            header,
+            jpeg: payloadStart < buffer.byteLength
+                ? new Blob([buffer.slice(payloadStart)], { type: 'image/jpeg' })
+                : null
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,231 @@
+// src/services/chunkedUpload.test.ts
+// ✅ TESTS DEL PROTOCOLO DE SUBIDAS POR PARTES CONTRA UN BACKEND SIMULADO EN MEMORIA
+//
+// fetch (crear, consultar offset, endpoint final) y XMLHttpRequest (partes) se atienden en el mismo test.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient } from './apiClient';
+import { CHUNKED_UPLOAD, computeChunkChecksum, getFileFingerprint, resumableUploads } from './chunkedUpload';
+
+// Sin esperas entre reintentos
+vi.mock('./chunkedUpload', async importOriginal => ({
+    ...(await importOriginal<typeof import('./chunkedUpload')>()),
+    retryDelay: () => 0
+}));
+
+const CHUNK = CHUNKED_UPLOAD.CHUNK_SIZE;
+const FILE_SIZE = 2 * CHUNK + 1024;
+
+interface FakeUpload {
+    id: string;
+    size: number;
+    received: number;
+}
+
+type ChunkFault = 'drop_after_store' | 'checksum_mismatch';
+
+// 🖥️ BACKEND SIMULADO
+class FakeUploadBackend {
+    uploads = new Map<string, FakeUpload>();
+    // Fallos a provocar la primera vez que llega cada parte
+    faults = new Map<number, ChunkFault>();
+    supportsChunks = true;
+    chunkRequests: Array<{ index: number; offset: number; checksumOk: boolean }> = [];
+    finalForms: FormData[] = [];
+    created = 0;
+
+    status(upload: FakeUpload) {
+        return {
+            upload_id: upload.id,
+            size: upload.size,
+            chunk_size: CHUNK,
+            received_bytes: upload.received,
+            next_chunk_index: Math.floor(upload.received / CHUNK),
+            completed: upload.received >= upload.size
+        };
+    }
+
+    async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+        const path = new URL(url).pathname;
+        const method = init.method || 'GET';
+
+        if (method === 'POST' && path === '/api/v1/uploads') {
+            if (!this.supportsChunks) return json(404, { detail: 'Not Found' });
+            const body = JSON.parse(String(init.body));
+            const upload = { id: `up-${++this.created}`, size: body.size, received: 0 };
+            this.uploads.set(upload.id, upload);
+            return json(201, this.status(upload));
+        }
+
+        const statusMatch = path.match(/^\/api\/v1\/uploads\/([^/]+)$/);
+        if (method === 'GET' && statusMatch) {
+            const upload = this.uploads.get(statusMatch[1]);
+            return upload ? json(200, this.status(upload)) : json(404, { detail: 'Subida desconocida' });
+        }
+
+        if (method === 'POST' && path === '/api/v1/video/detect') {
+            this.finalForms.push(init.body as FormData);
+            return json(200, { success: true, message: 'ok', data: { unique_plates: [] } });
+        }
+        return json(404, { detail: `Ruta no simulada: ${method} ${path}` });
+    }
+
+    // Respuesta a un PUT de parte: [status, body] o null para cortar la conexión
+    async receiveChunk(path: string, headers: Record<string, string>, chunk: Blob): Promise<[number, unknown] | null> {
+        const match = path.match(/^\/api\/v1\/uploads\/([^/]+)\/chunks\/(\d+)$/);
+        const upload = match ? this.uploads.get(match[1]) : undefined;
+        if (!upload) return [404, { detail: 'Subida desconocida' }];
+
+        const chunkIndex = Number(match[2]);
+        const offset = Number(headers['X-Chunk-Offset']);
+        const checksumOk = headers['X-Chunk-Checksum'] === await computeChunkChecksum(chunk);
+        this.chunkRequests.push({ index: chunkIndex, offset, checksumOk });
+
+        if (chunkIndex !== Math.floor(upload.received / CHUNK) || offset !== chunkIndex * CHUNK) {
+            return [409, { detail: { message: 'Parte fuera de orden' } }];
+        }
+
+        const fault = this.faults.get(chunkIndex);
+        this.faults.delete(chunkIndex);
+        if (fault === 'checksum_mismatch' || !checksumOk) {
+            return [422, { detail: { message: `Checksum inválido en la parte ${chunkIndex}` } }];
+        }
+
+        upload.received = offset + chunk.size;
+        // La parte llegó pero la respuesta se pierde: el cliente debe resincronizar, no reenviarla
+        if (fault === 'drop_after_store') return null;
+        return [200, this.status(upload)];
+    }
+}
+
+function json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+let backend: FakeUploadBackend;
+
+// 📡 XMLHttpRequest MÍNIMO QUE ENVÍA LAS PARTES AL BACKEND SIMULADO
+class FakeXhr {
+    status = 0;
+    responseText = '';
+    timeout = 0;
+    upload: { onprogress: ((event: ProgressEvent) => void) | null } = { onprogress: null };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+    ontimeout: (() => void) | null = null;
+    private method = 'GET';
+    private url = '';
+    private headers: Record<string, string> = {};
+
+    open(method: string, url: string) {
+        this.method = method;
+        this.url = url;
+    }
+
+    setRequestHeader(name: string, value: string) {
+        this.headers[name] = value;
+    }
+
+    getResponseHeader(name: string) {
+        return name.toLowerCase() === 'content-type' ? 'application/json' : null;
+    }
+
+    abort() {
+        this.onabort?.();
+    }
+
+    send(body: Blob) {
+        expect(this.method).toBe('PUT');
+        backend.receiveChunk(new URL(this.url).pathname, this.headers, body).then(response => {
+            if (!response) {
+                this.onerror?.();
+                return;
+            }
+            [this.status] = response;
+            this.responseText = JSON.stringify(response[1]);
+            this.onload?.();
+        });
+    }
+}
+
+let nextBackend = 0;
+function createClient(): ApiClient {
+    // Cada test con su propia URL: el cliente recuerda por URL los backends sin subidas por partes
+    return new ApiClient(`http://uploads-${++nextBackend}.test`);
+}
+
+const videoFile = () => new File([new Uint8Array(FILE_SIZE)], 'clip.mp4', { type: 'video/mp4', lastModified: 1 });
+
+beforeEach(() => {
+    backend = new FakeUploadBackend();
+    vi.stubGlobal('fetch', vi.fn((url: string, init?: RequestInit) => backend.fetch(url, init)));
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+});
+
+describe('subida por partes', () => {
+    it('envía cada parte con su offset y checksum y referencia el upload_id en el endpoint final', async () => {
+        const client = createClient();
+        const file = videoFile();
+
+        await client.detectVideo(file);
+
+        expect(backend.chunkRequests).toEqual([
+            { index: 0, offset: 0, checksumOk: true },
+            { index: 1, offset: CHUNK, checksumOk: true },
+            { index: 2, offset: 2 * CHUNK, checksumOk: true }
+        ]);
+        const [form] = backend.finalForms;
+        expect(form.get('upload_id')).toBe('up-1');
+        expect(form.get('file')).toBeNull();
+        // Aceptada por el endpoint final: ya no hay nada que reanudar
+        expect(resumableUploads.get(getFileFingerprint(file, 'video_detect'), client.baseUrl)).toBeNull();
+    });
+
+    it('tras perder la respuesta de una parte resincroniza y sigue sin reenviarla', async () => {
+        backend.faults.set(1, 'drop_after_store');
+
+        await createClient().detectVideo(videoFile());
+
+        expect(backend.chunkRequests.map(request => request.index)).toEqual([0, 1, 2]);
+        expect(backend.created).toBe(1);
+    });
+
+    it('reintenta la parte que el servidor rechaza por checksum', async () => {
+        backend.faults.set(1, 'checksum_mismatch');
+
+        await createClient().detectVideo(videoFile());
+
+        expect(backend.chunkRequests.map(request => request.index)).toEqual([0, 1, 1, 2]);
+        expect(backend.finalForms).toHaveLength(1);
+    });
+
+    it('retoma una subida guardada en carid.uploads.resumable desde el offset del servidor', async () => {
+        const client = createClient();
+        const file = videoFile();
+        backend.uploads.set('up-previa', { id: 'up-previa', size: FILE_SIZE, received: CHUNK });
+        resumableUploads.save(getFileFingerprint(file, 'video_detect'), client.baseUrl, 'up-previa');
+        expect(window.localStorage.getItem('carid.uploads.resumable')).toContain('up-previa');
+
+        await client.detectVideo(file);
+
+        expect(backend.created).toBe(0);
+        expect(backend.chunkRequests.map(request => request.index)).toEqual([1, 2]);
+        expect(backend.finalForms[0].get('upload_id')).toBe('up-previa');
+    });
+
+    it('usa un único POST multipart si el backend no soporta subidas por partes', async () => {
+        backend.supportsChunks = false;
+        const client = createClient();
+
+        await client.detectVideo(videoFile());
+        await client.detectVideo(videoFile());
+
+        expect(backend.chunkRequests).toEqual([]);
+        expect(backend.finalForms).toHaveLength(2);
+        expect(backend.finalForms[0].get('file')).toBeInstanceOf(File);
+        // El segundo intento ya no pregunta por /api/v1/uploads
+        const createCalls = vi.mocked(fetch).mock.calls.filter(([url]) => String(url).endsWith('/api/v1/uploads'));
+        expect(createCalls).toHaveLength(1);
+    });
+});
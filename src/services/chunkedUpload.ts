@@ -0,0 +1,130 @@
+// src/services/chunkedUpload.ts
+// ✅ UTILIDADES PARA SUBIDAS POR PARTES REANUDABLES (checksum, huella del archivo, estado persistido)
+
+import type { ChunkedUploadPurpose } from '../types/alpr';
+import { logger } from './logger';
+
+export const CHUNKED_UPLOAD = {
+    // Por debajo de este tamaño se usa un único POST multipart
+    THRESHOLD_BYTES: 8 * 1024 * 1024,
+    // Tamaño sugerido; el servidor puede imponer otro al crear la subida
+    CHUNK_SIZE: 4 * 1024 * 1024,
+    // Reintentos consecutivos sin avanzar antes de rendirse
+    MAX_RETRIES: 5,
+    RETRY_BASE_DELAY_MS: 1000,
+    RETRY_MAX_DELAY_MS: 15_000
+} as const;
+
+const STORAGE_KEY = 'carid.uploads.resumable';
+
+// Subidas pendientes que se pueden retomar tras una caída del túnel o una recarga
+interface ResumableUploadRecord {
+    uploadId: string;
+    baseUrl: string;
+    createdAt: number;
+}
+
+// Las subidas abandonadas se olvidan después de un día
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 🔑 HUELLA DEL ARCHIVO: mismo archivo + mismo destino = misma subida
+export function getFileFingerprint(file: File, purpose: ChunkedUploadPurpose): string {
+    return [purpose, file.name, file.size, file.lastModified].join(':');
+}
+
+// 🔢 CHECKSUM POR PARTE
+// SHA-256 cuando hay WebCrypto (contextos seguros); CRC32 cuando el frontend se sirve por HTTP en la LAN
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function computeChunkChecksum(chunk: Blob): Promise<string> {
+    const bytes = new Uint8Array(await chunk.arrayBuffer());
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+        return `sha256=${toHex(await crypto.subtle.digest('SHA-256', bytes))}`;
+    }
+    return `crc32=${crc32(bytes).toString(16).padStart(8, '0')}`;
+}
+
+// 💾 ESTADO PERSISTIDO
+function readRecords(): Record<string, ResumableUploadRecord> {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const records = raw ? JSON.parse(raw) as Record<string, ResumableUploadRecord> : {};
+        const now = Date.now();
+        return Object.fromEntries(
+            Object.entries(records).filter(([, record]) => record && now - record.createdAt < RECORD_TTL_MS)
+        );
+    } catch {
+        return {};
+    }
+}
+
+function writeRecords(records: Record<string, ResumableUploadRecord>): void {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    } catch (error) {
+        logger.warn('Upload', 'No se pudo guardar el estado de la subida', error);
+    }
+}
+
+export const resumableUploads = {
+    get(fingerprint: string, baseUrl: string): string | null {
+        const record = readRecords()[fingerprint];
+        return record && record.baseUrl === baseUrl ? record.uploadId : null;
+    },
+
+    save(fingerprint: string, baseUrl: string, uploadId: string): void {
+        writeRecords({ ...readRecords(), [fingerprint]: { uploadId, baseUrl, createdAt: Date.now() } });
+    },
+
+    remove(fingerprint: string): void {
+        const records = readRecords();
+        delete records[fingerprint];
+        writeRecords(records);
+    }
+};
+
+// ⏱️ ESPERA CANCELABLE ENTRE REINTENTOS
+export function retryDelay(attempt: number): number {
+    const delay = CHUNKED_UPLOAD.RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+    return Math.min(delay, CHUNKED_UPLOAD.RETRY_MAX_DELAY_MS);
+}
+
+export function waitUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,77 @@
+// src/services/connectionHealth.test.ts
+// ✅ TESTS DE LA SALUD DE LA CONEXIÓN: backoff, jitter, tasa de mensajes y calidad
+
+import { describe, expect, it } from 'vitest';
+import { CONNECTION_HEALTH, MessageRateMeter, backoffDelay, classifyConnectionQuality } from './connectionHealth';
+
+// ⏱️ BACKOFF
+describe('backoffDelay', () => {
+    const lowest = () => 0;
+    const highest = () => 1;
+
+    it('duplica el retardo en cada intento a partir del intervalo base', () => {
+        expect([1, 2, 3, 4].map(attempt => backoffDelay(attempt, 1000, 60_000, highest))).toEqual([1000, 2000, 4000, 8000]);
+    });
+
+    it('no baja del intento 1 ni supera el máximo', () => {
+        expect(backoffDelay(0, 1000, 60_000, highest)).toBe(1000);
+        expect(backoffDelay(-3, 1000, 60_000, highest)).toBe(1000);
+        expect(backoffDelay(20, 1000, 30_000, highest)).toBe(30_000);
+        expect(backoffDelay(1000, 1000, 30_000, highest)).toBe(30_000);
+    });
+
+    it('el jitter queda entre la mitad y el total del retardo exponencial', () => {
+        expect(backoffDelay(3, 1000, 60_000, lowest)).toBe(2000);
+        expect(backoffDelay(3, 1000, 60_000, () => 0.5)).toBe(3000);
+        expect(backoffDelay(3, 1000, 60_000, highest)).toBe(4000);
+
+        for (let i = 0; i < 200; i++) {
+            const delay = backoffDelay(5, 1000, CONNECTION_HEALTH.MAX_RECONNECT_DELAY_MS);
+            expect(delay).toBeGreaterThanOrEqual(8000);
+            expect(delay).toBeLessThanOrEqual(16_000);
+        }
+    });
+});
+
+// 📈 TASA DE MENSAJES
+describe('MessageRateMeter', () => {
+    it('cuenta solo los mensajes dentro de la ventana', () => {
+        const meter = new MessageRateMeter(2000);
+        [0, 500, 1000, 1500].forEach(at => meter.record(at));
+
+        expect(meter.rate(1500)).toBe(2);
+        // A los 3000 ms quedan los de 1000 y 1500
+        expect(meter.rate(3000)).toBe(1);
+        expect(meter.rate(10_000)).toBe(0);
+    });
+
+    it('reset() vacía la ventana', () => {
+        const meter = new MessageRateMeter(1000);
+        meter.record(0);
+        meter.reset();
+        expect(meter.rate(0)).toBe(0);
+    });
+});
+
+// 📶 CALIDAD
+describe('classifyConnectionQuality', () => {
+    const { RTT_GOOD_MS, RTT_POOR_MS } = CONNECTION_HEALTH;
+
+    it('sin conexión es offline aunque haya RTT', () => {
+        expect(classifyConnectionQuality(false, 50, 0)).toBe('offline');
+    });
+
+    it('aplica los umbrales de RTT en sus bordes', () => {
+        expect(classifyConnectionQuality(true, null, 0)).toBe('excellent');
+        expect(classifyConnectionQuality(true, RTT_GOOD_MS - 1, 0)).toBe('excellent');
+        expect(classifyConnectionQuality(true, RTT_GOOD_MS, 0)).toBe('good');
+        expect(classifyConnectionQuality(true, RTT_POOR_MS - 1, 0)).toBe('good');
+        expect(classifyConnectionQuality(true, RTT_POOR_MS, 0)).toBe('poor');
+    });
+
+    it('un pong pendiente que tarda más que el RTT medido empeora la calidad', () => {
+        expect(classifyConnectionQuality(true, 50, RTT_POOR_MS)).toBe('poor');
+        expect(classifyConnectionQuality(true, 50, RTT_GOOD_MS)).toBe('good');
+        expect(classifyConnectionQuality(true, RTT_POOR_MS, 0)).toBe('poor');
+    });
+});
@@ -0,0 +1,58 @@
+// src/services/connectionHealth.ts
+// ✅ SALUD DE LA CONEXIÓN WEBSOCKET: backoff con jitter, tasa de mensajes y calidad a partir del RTT
+
+import type { ConnectionQuality } from '../types/streaming';
+
+export const CONNECTION_HEALTH = {
+    // Cada cuánto se envía un ping de aplicación
+    HEARTBEAT_INTERVAL_MS: 10_000,
+    // Sin ningún mensaje durante este tiempo el socket se da por muerto (túnel medio abierto)
+    HEARTBEAT_TIMEOUT_MS: 30_000,
+    MAX_RECONNECT_DELAY_MS: 30_000,
+    // Ventana para calcular mensajes por segundo
+    RATE_WINDOW_MS: 5_000,
+    // Umbrales de RTT para la calidad
+    RTT_GOOD_MS: 300,
+    RTT_POOR_MS: 1_000
+} as const;
+
+// ⏱️ BACKOFF EXPONENCIAL CON JITTER
+// La mitad del retardo es fija y la otra mitad aleatoria, para que varias pestañas
+// (o las celdas del monitor) no reconecten todas en el mismo instante
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+    const exponential = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// 📈 MENSAJES POR SEGUNDO EN UNA VENTANA DESLIZANTE
+export class MessageRateMeter {
+    private timestamps: number[] = [];
+
+    constructor(private readonly windowMs: number = CONNECTION_HEALTH.RATE_WINDOW_MS) {}
+
+    record(now: number = Date.now()): void {
+        this.timestamps.push(now);
+    }
+
+    rate(now: number = Date.now()): number {
+        const cutoff = now - this.windowMs;
+        while (this.timestamps.length > 0 && this.timestamps[0] < cutoff) {
+            this.timestamps.shift();
+        }
+        return this.timestamps.length / (this.windowMs / 1000);
+    }
+
+    reset(): void {
+        this.timestamps = [];
+    }
+}
+
+// 📶 CALIDAD DE LA CONEXIÓN
+export function classifyConnectionQuality(isConnected: boolean, rttMs: number | null, awaitingPongMs: number): ConnectionQuality {
+    if (!isConnected) return 'offline';
+    // Un pong que tarda más que el umbral malo cuenta igual que un RTT malo
+    const effectiveRtt = Math.max(rttMs ?? 0, awaitingPongMs);
+    if (effectiveRtt >= CONNECTION_HEALTH.RTT_POOR_MS) return 'poor';
+    if (effectiveRtt >= CONNECTION_HEALTH.RTT_GOOD_MS) return 'good';
+    return 'excellent';
+}
@@ -0,0 +1,100 @@
+// src/services/detectionHistory.test.ts
+// ✅ TESTS DEL HISTORIAL: filtros, filas de placas y resumen de un streaming
+
+import { describe, expect, it } from 'vitest';
+import { filterHistoryRuns, historyPlateRows, summarizeStreamingRun, EMPTY_HISTORY_FILTERS } from './detectionHistory';
+import type { HistoryRun } from '../types/history';
+import { makeUniquePlate } from '../test/fixtures';
+
+const SUMMARY = {
+    frames_processed: 1,
+    frames_with_detections: 1,
+    total_detections: 1,
+    unique_plates_found: 1,
+    valid_plates: 1,
+    six_char_plates: 1
+};
+
+function makeRun(overrides: Partial<HistoryRun>): HistoryRun {
+    return {
+        id: 'run',
+        created_at: new Date(2026, 2, 10, 12).getTime(),
+        source: { name: 'auto.jpg', size_bytes: 1000, type: 'image/jpeg' },
+        summary: SUMMARY,
+        processing_time: 1.2,
+        params: {},
+        thumbnails: [],
+        plate_texts: [],
+        mode: 'image',
+        plates: [],
+        best_plate: null,
+        file_info: null,
+        ...overrides
+    } as HistoryRun;
+}
+
+describe('filterHistoryRuns', () => {
+    const runs = [
+        makeRun({ id: 'a', plate_texts: ['ABC-123'], created_at: new Date(2026, 2, 10, 23, 30).getTime() }),
+        makeRun({ id: 'b', mode: 'video', plates: [], video_info: null, plate_texts: ['F2M-906', 'B7K-482'] } as Partial<HistoryRun>),
+        makeRun({ id: 'c', plate_texts: [], created_at: new Date(2026, 2, 12, 8).getTime() })
+    ];
+    const ids = (filtered: HistoryRun[]) => filtered.map(run => run.id);
+
+    it('sin filtros devuelve todo', () => {
+        expect(ids(filterHistoryRuns(runs, EMPTY_HISTORY_FILTERS))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('busca por texto de placa sin importar guion ni mayúsculas', () => {
+        expect(ids(filterHistoryRuns(runs, { ...EMPTY_HISTORY_FILTERS, query: 'abc123' }))).toEqual(['a']);
+        expect(ids(filterHistoryRuns(runs, { ...EMPTY_HISTORY_FILTERS, query: '482' }))).toEqual(['b']);
+    });
+
+    it('filtra por modo', () => {
+        expect(ids(filterHistoryRuns(runs, { ...EMPTY_HISTORY_FILTERS, mode: 'video' }))).toEqual(['b']);
+    });
+
+    it('el rango de fechas incluye el día completo de ambos extremos', () => {
+        expect(ids(filterHistoryRuns(runs, { ...EMPTY_HISTORY_FILTERS, from: '2026-03-10', to: '2026-03-10' })))
+            .toEqual(['a', 'b']);
+        expect(ids(filterHistoryRuns(runs, { ...EMPTY_HISTORY_FILTERS, from: '2026-03-11' }))).toEqual(['c']);
+    });
+});
+
+describe('historyPlateRows', () => {
+    it('unifica las placas de imagen (una detección cada una)', () => {
+        const run = makeRun({
+            plates: [{ plate_text: 'ABC-123', overall_confidence: 0.8, is_valid_plate: true, character_confidences: [0.9] }]
+        } as Partial<HistoryRun>);
+
+        expect(historyPlateRows(run)).toEqual([
+            { plate_text: 'ABC-123', confidence: 0.8, detection_count: 1, is_valid: true, character_confidences: [0.9] }
+        ]);
+    });
+
+    it('unifica las placas de streaming', () => {
+        const run = makeRun({ mode: 'streaming', session_id: 's', plates: [makeUniquePlate('ABC-123', { detection_count: 2, best_confidence: 0.9 })] } as Partial<HistoryRun>);
+
+        expect(historyPlateRows(run)).toEqual([
+            { plate_text: 'ABC-123', confidence: 0.9, detection_count: 2, is_valid: true }
+        ]);
+    });
+});
+
+describe('summarizeStreamingRun', () => {
+    it('cuenta frames distintos con detecciones y placas válidas', () => {
+        const summary = summarizeStreamingRun([
+            makeUniquePlate('ABC-123', { frame_history: [1, 3], detection_count: 2, is_six_char_valid: true }),
+            makeUniquePlate('XYZ-9', { frame_history: [3, 5], detection_count: 2, is_valid_format: false })
+        ], 40);
+
+        expect(summary).toEqual({
+            frames_processed: 40,
+            frames_with_detections: 3,
+            total_detections: 4,
+            unique_plates_found: 2,
+            valid_plates: 1,
+            six_char_plates: 1
+        });
+    });
+});
@@ -0,0 +1,247 @@
+// src/services/detectionHistory.ts
+// ✅ HISTORIAL LOCAL DE DETECCIONES: cada análisis de imagen, video o streaming guardado en IndexedDB
+//
+// Se guarda todo lo necesario para volver a ver los resultados sin el servidor: resumen, placas,
+// parámetros y miniaturas JPEG de los mejores frames (Blob, no base64, para no inflar la base).
+
+import type { ProcessingSummary } from '../types/alpr';
+import type {
+    HistoryFilters,
+    HistoryMode,
+    HistoryPlateRow,
+    HistoryRun,
+    HistoryRunInput
+} from '../types/history';
+import type { UniquePlate as StreamingUniquePlate } from '../types/streaming';
+import { logger } from './logger';
+
+const DB_NAME = 'carid-history';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+// Al superar este número de análisis se borran los más antiguos
+const MAX_RUNS = 200;
+
+export const HISTORY_THUMBNAIL = {
+    MAX_WIDTH: 320,
+    QUALITY: 0.7,
+    // Miniaturas por análisis
+    MAX_PER_RUN: 12
+} as const;
+
+export const HISTORY_MODE_LABELS: Record<HistoryMode, string> = {
+    image: 'Imagen',
+    video: 'Video',
+    streaming: 'Streaming'
+};
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { query: '', mode: 'all', from: '', to: '' };
+
+// 🔧 HELPERS DE INDEXEDDB
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transacción cancelada'));
+    });
+}
+
+function compactPlate(text: string): string {
+    return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function createRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// 🔍 FILTRAR (texto de placa, modo y rango de fechas locales)
+export function filterHistoryRuns(runs: HistoryRun[], filters: HistoryFilters): HistoryRun[] {
+    const query = compactPlate(filters.query);
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+    return runs.filter(run =>
+        (filters.mode === 'all' || run.mode === filters.mode) &&
+        run.created_at >= from && run.created_at <= to &&
+        (!query || run.plate_texts.some(text => compactPlate(text).includes(query)))
+    );
+}
+
+// 📋 PLACAS DE CUALQUIER MODO EN UNA FILA COMÚN
+export function historyPlateRows(run: HistoryRun): HistoryPlateRow[] {
+    switch (run.mode) {
+        case 'image':
+            return run.plates.map(plate => ({
+                plate_text: plate.plate_text,
+                confidence: plate.overall_confidence,
+                detection_count: 1,
+                is_valid: plate.is_valid_plate,
+                character_confidences: plate.character_confidences
+            }));
+        case 'video':
+            return run.plates.map(plate => ({
+                plate_text: plate.plate_text,
+                confidence: plate.best_confidence,
+                detection_count: plate.detection_count,
+                is_valid: plate.is_valid_format,
+                character_confidences: plate.character_confidences
+            }));
+        case 'streaming':
+            return run.plates.map(plate => ({
+                plate_text: plate.plate_text,
+                confidence: plate.best_confidence,
+                detection_count: plate.detection_count,
+                is_valid: plate.is_valid_format
+            }));
+    }
+}
+
+// El streaming no entrega un ProcessingSummary: se arma con las placas únicas y el progreso
+export function summarizeStreamingRun(plates: StreamingUniquePlate[], framesProcessed: number): ProcessingSummary {
+    const framesWithDetections = new Set(plates.flatMap(plate => plate.frame_history || []));
+    return {
+        frames_processed: framesProcessed,
+        frames_with_detections: framesWithDetections.size,
+        total_detections: plates.reduce((sum, plate) => sum + plate.detection_count, 0),
+        unique_plates_found: plates.length,
+        valid_plates: plates.filter(plate => plate.is_valid_format).length,
+        six_char_plates: plates.filter(plate => plate.is_six_char_valid).length
+    };
+}
+
+// 🖼️ MINIATURA JPEG de una imagen (File/Blob o URL); null si no se pudo decodificar
+export async function createThumbnail(source: Blob | string, maxWidth: number = HISTORY_THUMBNAIL.MAX_WIDTH): Promise<Blob | null> {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    try {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.src = url;
+        await image.decode();
+
+        const scale = Math.min(1, maxWidth / (image.naturalWidth || maxWidth));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', HISTORY_THUMBNAIL.QUALITY));
+    } catch (error) {
+        logger.warn('History', 'No se pudo crear la miniatura', error);
+        return null;
+    } finally {
+        if (typeof source !== 'string') URL.revokeObjectURL(url);
+    }
+}
+
+export class DetectionHistoryStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private listeners = new Set<() => void>();
+
+    // Avisa de cada cambio (guardar, borrar) para que las vistas abiertas recarguen
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    async save(input: HistoryRunInput): Promise<HistoryRun> {
+        const run = {
+            ...input,
+            id: createRunId(),
+            created_at: Date.now(),
+            thumbnails: input.thumbnails.slice(0, HISTORY_THUMBNAIL.MAX_PER_RUN),
+            plate_texts: input.plates.map(plate => plate.plate_text)
+        } as HistoryRun;
+
+        const db = await this.open();
+        const transaction = db.transaction(RUNS_STORE, 'readwrite');
+        const store = transaction.objectStore(RUNS_STORE);
+        store.put(run);
+
+        // Podar los más antiguos dentro de la misma transacción
+        const count = await requestResult(store.count());
+        if (count > MAX_RUNS) {
+            const oldestKeys = await requestResult(store.index('created_at').getAllKeys(null, count - MAX_RUNS));
+            oldestKeys.forEach(key => store.delete(key));
+        }
+        await transactionDone(transaction);
+
+        logger.info('History', `Análisis de ${run.mode} guardado en el historial (${run.plates.length} placas)`);
+        this.emitChange();
+        return run;
+    }
+
+    // Del más reciente al más antiguo
+    async list(): Promise<HistoryRun[]> {
+        const db = await this.open();
+        const store = db.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE);
+        const runs = await requestResult(store.index('created_at').getAll() as IDBRequest<HistoryRun[]>);
+        return runs.reverse();
+    }
+
+    async get(id: string): Promise<HistoryRun | null> {
+        const db = await this.open();
+        const store = db.transaction(RUNS_STORE, 'readonly').objectStore(RUNS_STORE);
+        return (await requestResult(store.get(id) as IDBRequest<HistoryRun | undefined>)) || null;
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(RUNS_STORE, 'readwrite');
+        transaction.objectStore(RUNS_STORE).delete(id);
+        await transactionDone(transaction);
+        this.emitChange();
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(RUNS_STORE, 'readwrite');
+        transaction.objectStore(RUNS_STORE).clear();
+        await transactionDone(transaction);
+        this.emitChange();
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.isSupported()) {
+            return Promise.reject(new Error('Este navegador no permite guardar el historial (IndexedDB no disponible)'));
+        }
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+                    store.createIndex('created_at', 'created_at');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+                request.onblocked = () => reject(new Error('El historial está abierto con otra versión en otra pestaña'));
+            }).catch(error => {
+                // Permite reintentar en la próxima llamada
+                this.dbPromise = null;
+                throw error;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private emitChange(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const detectionHistory = new DetectionHistoryStore();
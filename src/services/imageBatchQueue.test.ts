@@ -0,0 +1,146 @@
+// src/services/imageBatchQueue.test.ts
+// ✅ TESTS DE LA COLA EN LOTE: concurrencia, pausa, cancelación, reintentos y exportación
+
+import { describe, expect, it } from 'vitest';
+import { ImageBatchQueue, batchCounts, batchToCsv, isSupportedImage } from './imageBatchQueue';
+import type { BatchFileInput, BatchItemResult } from '../types/batch';
+
+interface PendingCall {
+    file: File;
+    signal: AbortSignal;
+    resolve: (result: BatchItemResult) => void;
+    reject: (error: Error) => void;
+}
+
+// Procesador controlado desde el test: cada llamada queda pendiente hasta resolverla
+function createProcessor() {
+    const calls: PendingCall[] = [];
+    const processor = (file: File, signal: AbortSignal) => new Promise<BatchItemResult>((resolve, reject) => {
+        calls.push({ file, signal, resolve, reject });
+    });
+    return { calls, processor };
+}
+
+function files(...names: string[]): BatchFileInput[] {
+    return names.map(name => ({ file: new File(['x'], name, { type: 'image/jpeg', lastModified: 1 }), path: name }));
+}
+
+const RESULT: BatchItemResult = {
+    plates: [{ plate_text: 'ABC-123', overall_confidence: 0.91, is_valid_plate: true, is_six_char_valid: true }],
+    best_plate: { plate_text: 'ABC-123', overall_confidence: 0.91, is_valid_plate: true, is_six_char_valid: true },
+    processing_time: 0.4
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ImageBatchQueue', () => {
+    it('no procesa más archivos a la vez que la concurrencia y termina en idle', async () => {
+        const { calls, processor } = createProcessor();
+        const queue = new ImageBatchQueue(processor, 2);
+        queue.add(files('a.jpg', 'b.jpg', 'c.jpg'));
+        queue.start();
+
+        expect(calls.map(call => call.file.name)).toEqual(['a.jpg', 'b.jpg']);
+        calls[0].resolve(RESULT);
+        await flush();
+        expect(calls.map(call => call.file.name)).toEqual(['a.jpg', 'b.jpg', 'c.jpg']);
+
+        calls[1].reject(new Error('HTTP 500'));
+        calls[2].resolve({ ...RESULT, plates: [] });
+        await flush();
+
+        const { items, state } = queue.getSnapshot();
+        expect(state).toBe('idle');
+        expect(items.map(item => item.status)).toEqual(['done', 'error', 'done']);
+        expect(items[1].error).toBe('HTTP 500');
+    });
+
+    it('ignora archivos repetidos', () => {
+        const queue = new ImageBatchQueue(createProcessor().processor);
+        expect(queue.add(files('a.jpg', 'b.jpg'))).toBe(2);
+        expect(queue.add(files('a.jpg', 'c.jpg'))).toBe(1);
+        expect(queue.getSnapshot().items).toHaveLength(3);
+    });
+
+    it('al pausar deja terminar lo que está en curso sin lanzar más', async () => {
+        const { calls, processor } = createProcessor();
+        const queue = new ImageBatchQueue(processor, 1);
+        queue.add(files('a.jpg', 'b.jpg'));
+        queue.start();
+        queue.pause();
+
+        calls[0].resolve(RESULT);
+        await flush();
+        expect(calls).toHaveLength(1);
+        expect(queue.getSnapshot().state).toBe('paused');
+
+        queue.start();
+        expect(calls).toHaveLength(2);
+    });
+
+    it('cancelar aborta lo que está en curso y descarta lo pendiente', async () => {
+        const { calls, processor } = createProcessor();
+        const queue = new ImageBatchQueue(processor, 1);
+        queue.add(files('a.jpg', 'b.jpg'));
+        queue.start();
+        queue.cancel();
+
+        expect(calls[0].signal.aborted).toBe(true);
+        calls[0].reject(new Error('Solicitud cancelada'));
+        await flush();
+
+        expect(queue.getSnapshot().state).toBe('idle');
+        expect(queue.getSnapshot().items.map(item => item.status)).toEqual(['cancelled', 'cancelled']);
+    });
+
+    it('reintentar vuelve a procesar el archivo y cuenta el intento', async () => {
+        const { calls, processor } = createProcessor();
+        const queue = new ImageBatchQueue(processor, 1);
+        queue.add(files('a.jpg'));
+        queue.start();
+        calls[0].reject(new Error('timeout'));
+        await flush();
+
+        queue.retryFailed();
+        expect(queue.getSnapshot().state).toBe('running');
+        calls[1].resolve(RESULT);
+        await flush();
+
+        expect(queue.getSnapshot().items[0]).toMatchObject({ status: 'done', attempts: 2, error: null });
+    });
+});
+
+describe('isSupportedImage', () => {
+    it('acepta por tipo MIME o, sin tipo, por extensión', () => {
+        expect(isSupportedImage(new File(['x'], 'a.png', { type: 'image/png' }))).toBe(true);
+        expect(isSupportedImage(new File(['x'], 'a.JPG'))).toBe(true);
+        expect(isSupportedImage(new File(['x'], 'a.gif', { type: 'image/gif' }))).toBe(false);
+        expect(isSupportedImage(new File(['x'], 'notas.txt'))).toBe(false);
+    });
+});
+
+describe('exportación', () => {
+    it('una fila por placa y también por archivo sin placas o con error', async () => {
+        const { calls, processor } = createProcessor();
+        const queue = new ImageBatchQueue(processor, 3);
+        queue.add([
+            ...files('a.jpg'),
+            { file: new File(['x'], 'b.jpg', { type: 'image/jpeg' }), path: 'porton, norte/b.jpg' },
+            ...files('c.jpg')
+        ]);
+        queue.start();
+        calls[0].resolve(RESULT);
+        calls[1].resolve({ ...RESULT, plates: [], best_plate: null });
+        calls[2].reject(new Error('HTTP 502'));
+        await flush();
+
+        const items = queue.getSnapshot().items;
+        expect(batchCounts(items)).toMatchObject({ done: 2, error: 1, plates: 1 });
+        expect(batchToCsv(items).split('\n')).toEqual([
+            'archivo,estado,placa,confianza,formato_valido,seis_caracteres,mejor_resultado,tiempo_s,error',
+            'a.jpg,done,ABC-123,0.910,true,true,true,0.4,',
+            '"porton, norte/b.jpg",done,,,,,,0.4,',
+            'c.jpg,error,,,,,,,HTTP 502'
+        ]);
+    });
+});
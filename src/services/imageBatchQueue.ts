@@ -0,0 +1,316 @@
+// src/services/imageBatchQueue.ts
+// ✅ COLA DE IMÁGENES EN LOTE: concurrencia configurable, pausa, cancelación y reintento por archivo
+//
+// La cola no conoce la API: recibe el procesador (normalmente apiClient.detectImage) al crearse.
+// Pausar deja terminar lo que está en curso; cancelar lo aborta.
+
+import type {
+    BatchFileInput,
+    BatchItem,
+    BatchItemStatus,
+    BatchProcessor,
+    BatchQueueSnapshot,
+    BatchQueueState
+} from '../types/batch';
+import { logger } from './logger';
+
+export const BATCH_QUEUE = {
+    DEFAULT_CONCURRENCY: 2,
+    MAX_CONCURRENCY: 6
+} as const;
+
+// Mismos límites que la carga de una sola imagen
+export const BATCH_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+const BATCH_IMAGE_EXTENSIONS = /\.(jpe?g|png|webp)$/i;
+export const BATCH_MAX_FILE_BYTES = 50 * 1024 * 1024;
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+    pending: 'En cola',
+    processing: 'Procesando',
+    done: 'Completada',
+    error: 'Error',
+    cancelled: 'Cancelada'
+};
+
+// Algunos sistemas no informan el tipo MIME de los archivos de una carpeta soltada
+export function isSupportedImage(file: File): boolean {
+    const typeOk = file.type ? BATCH_IMAGE_TYPES.includes(file.type) : BATCH_IMAGE_EXTENSIONS.test(file.name);
+    return typeOk && file.size <= BATCH_MAX_FILE_BYTES;
+}
+
+function fileKey(file: File, path: string): string {
+    return [path, file.size, file.lastModified].join(':');
+}
+
+function createItemId(): string {
+    return `batch_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// 📂 ARCHIVOS SOLTADOS (incluye carpetas, recorridas de forma recursiva)
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries entrega los hijos por tandas: hay que llamarlo hasta que devuelva vacío
+    return new Promise((resolve, reject) => {
+        const readBatch = () => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                resolve(entries);
+                return;
+            }
+            entries.push(...batch);
+            readBatch();
+        }, reject);
+        readBatch();
+    });
+}
+
+async function collectEntry(entry: FileSystemEntry): Promise<BatchFileInput[]> {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ file, path: entry.fullPath.replace(/^\//, '') }];
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        return (await Promise.all(children.map(collectEntry))).flat();
+    }
+    return [];
+}
+
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<BatchFileInput[]> {
+    // Las entradas se piden antes de cualquier await: el DataTransfer deja de ser válido al terminar el evento
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.() ?? null);
+
+    if (entries.length === 0 || entries.some(entry => entry === null)) {
+        return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+    }
+    return (await Promise.all(entries.map(collectEntry))).flat();
+}
+
+// Archivos de un <input> (con webkitdirectory traen webkitRelativePath)
+export function filesFromInput(files: FileList | null): BatchFileInput[] {
+    return Array.from(files || []).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+// 📊 CONTEO POR ESTADO
+export function batchCounts(items: BatchItem[]): Record<BatchItemStatus, number> & { plates: number } {
+    const counts = { pending: 0, processing: 0, done: 0, error: 0, cancelled: 0, plates: 0 };
+    items.forEach(item => {
+        counts[item.status]++;
+        counts.plates += item.result?.plates.length || 0;
+    });
+    return counts;
+}
+
+// 📤 EXPORTACIÓN: una fila por placa y archivo; los archivos sin placas o con error también aparecen
+function csvCell(value: string | number | boolean | null | undefined): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function batchToCsv(items: BatchItem[]): string {
+    const header = ['archivo', 'estado', 'placa', 'confianza', 'formato_valido', 'seis_caracteres', 'mejor_resultado', 'tiempo_s', 'error'];
+    const rows = items.flatMap(item => {
+        const base = { archivo: item.path, estado: item.status, tiempo: item.result?.processing_time ?? null, error: item.error };
+        const plates = item.result?.plates || [];
+        if (plates.length === 0) {
+            return [[base.archivo, base.estado, '', '', '', '', '', base.tiempo, base.error]];
+        }
+        return plates.map(plate => [
+            base.archivo,
+            base.estado,
+            plate.plate_text,
+            plate.overall_confidence.toFixed(3),
+            plate.is_valid_plate,
+            plate.is_six_char_valid ?? false,
+            plate.plate_text === item.result?.best_plate?.plate_text,
+            base.tiempo,
+            base.error
+        ]);
+    });
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function batchToJson(items: BatchItem[]): string {
+    return JSON.stringify({
+        exported_at: new Date().toISOString(),
+        total_files: items.length,
+        files: items.map(item => ({
+            path: item.path,
+            size_bytes: item.file.size,
+            status: item.status,
+            attempts: item.attempts,
+            error: item.error,
+            processing_time: item.result?.processing_time ?? null,
+            best_plate: item.result?.best_plate ?? null,
+            plates: item.result?.plates || []
+        }))
+    }, null, 2);
+}
+
+export class ImageBatchQueue {
+    private items: BatchItem[] = [];
+    private state: BatchQueueState = 'idle';
+    private concurrency: number;
+    private controllers = new Map<string, AbortController>();
+    private listeners = new Set<() => void>();
+    private snapshot: BatchQueueSnapshot;
+
+    constructor(private readonly processor: BatchProcessor, concurrency: number = BATCH_QUEUE.DEFAULT_CONCURRENCY) {
+        this.concurrency = Math.min(BATCH_QUEUE.MAX_CONCURRENCY, Math.max(1, concurrency));
+        this.snapshot = this.buildSnapshot();
+    }
+
+    // Para useSyncExternalStore
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    getSnapshot = (): BatchQueueSnapshot => this.snapshot;
+
+    // Devuelve cuántos se agregaron (los repetidos se ignoran)
+    add(files: BatchFileInput[]): number {
+        const known = new Set(this.items.map(item => fileKey(item.file, item.path)));
+        const added: BatchItem[] = [];
+        files.forEach(({ file, path }) => {
+            const key = fileKey(file, path);
+            if (known.has(key)) return;
+            known.add(key);
+            added.push({ id: createItemId(), file, path, status: 'pending', attempts: 0, error: null, result: null });
+        });
+
+        if (added.length > 0) {
+            this.items = [...this.items, ...added];
+            this.emitChange();
+            this.pump();
+        }
+        return added.length;
+    }
+
+    start(): void {
+        if (this.state === 'running' || !this.items.some(item => item.status === 'pending')) return;
+        this.state = 'running';
+        this.emitChange();
+        this.pump();
+    }
+
+    pause(): void {
+        if (this.state !== 'running') return;
+        this.state = 'paused';
+        this.emitChange();
+    }
+
+    cancel(): void {
+        this.controllers.forEach(controller => controller.abort());
+        this.controllers.clear();
+        this.items = this.items.map(item =>
+            item.status === 'pending' || item.status === 'processing' ? { ...item, status: 'cancelled' } : item
+        );
+        this.state = 'idle';
+        this.emitChange();
+    }
+
+    retry(id: string): void {
+        this.requeue(item => item.id === id);
+    }
+
+    retryFailed(): void {
+        this.requeue(item => item.status === 'error');
+    }
+
+    remove(id: string): void {
+        this.controllers.get(id)?.abort();
+        this.controllers.delete(id);
+        this.items = this.items.filter(item => item.id !== id);
+        this.emitChange();
+        this.pump();
+    }
+
+    clear(): void {
+        this.cancel();
+        this.items = [];
+        this.emitChange();
+    }
+
+    setConcurrency(concurrency: number): void {
+        this.concurrency = Math.min(BATCH_QUEUE.MAX_CONCURRENCY, Math.max(1, Math.round(concurrency)));
+        this.emitChange();
+        this.pump();
+    }
+
+    private requeue(predicate: (item: BatchItem) => boolean): void {
+        let changed = false;
+        this.items = this.items.map(item => {
+            if ((item.status !== 'error' && item.status !== 'cancelled') || !predicate(item)) return item;
+            changed = true;
+            return { ...item, status: 'pending', error: null };
+        });
+        if (!changed) return;
+        // Reintentar reanuda una cola detenida; una pausada sigue esperando a que se reanude
+        if (this.state === 'idle') this.state = 'running';
+        this.emitChange();
+        this.pump();
+    }
+
+    // Lanza tantos archivos como permita la concurrencia; sin nada en curso ni por hacer vuelve a idle
+    private pump(): void {
+        if (this.state === 'running') {
+            while (this.controllers.size < this.concurrency) {
+                const next = this.items.find(item => item.status === 'pending');
+                if (!next) break;
+                void this.process(next);
+            }
+        }
+
+        const hasPending = this.items.some(item => item.status === 'pending');
+        if (this.state !== 'idle' && this.controllers.size === 0 && !hasPending) {
+            this.state = 'idle';
+            this.emitChange();
+        }
+    }
+
+    private async process(item: BatchItem): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(item.id, controller);
+        this.updateItem(item.id, { status: 'processing', attempts: item.attempts + 1, error: null });
+
+        try {
+            const result = await this.processor(item.file, controller.signal);
+            if (!controller.signal.aborted) {
+                this.updateItem(item.id, { status: 'done', result });
+            }
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                logger.warn('Batch', `Error procesando ${item.path}`, error);
+                this.updateItem(item.id, {
+                    status: 'error',
+                    error: error instanceof Error ? error.message : 'Error desconocido'
+                });
+            }
+        } finally {
+            // Tras cancelar y reintentar, el id puede tener ya otro controlador
+            if (this.controllers.get(item.id) === controller) {
+                this.controllers.delete(item.id);
+            }
+            this.pump();
+        }
+    }
+
+    private updateItem(id: string, patch: Partial<BatchItem>): void {
+        this.items = this.items.map(item => (item.id === id ? { ...item, ...patch } : item));
+        this.emitChange();
+    }
+
+    private buildSnapshot(): BatchQueueSnapshot {
+        return { items: this.items, state: this.state, concurrency: this.concurrency };
+    }
+
+    private emitChange(): void {
+        this.snapshot = this.buildSnapshot();
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -0,0 +1,74 @@
+// src/services/imageOverlay.test.ts
+// ✅ TESTS DE LA GEOMETRÍA DEL VISOR: reescalado de bbox, recortes, selección y zoom
+
+import { describe, expect, it } from 'vitest';
+import { boxAtPoint, clampView, overlayBoxes, paddedCrop, screenToImage, toImageRect, zoomAround } from './imageOverlay';
+import type { PlateDetection } from '../types/alpr';
+
+const IMAGE = { width: 1000, height: 500 };
+const VIEWPORT = { width: 500, height: 250 };
+
+function plate(text: string, bbox?: PlateDetection['bbox']): PlateDetection {
+    return { plate_text: text, overall_confidence: 0.9, is_valid_plate: true, bbox };
+}
+
+describe('toImageRect', () => {
+    it('reescala cuando el servidor informó otras dimensiones', () => {
+        expect(toImageRect({ x: 100, y: 50, width: 200, height: 100 }, IMAGE, { width: 2000, height: 1000 }))
+            .toEqual({ x: 50, y: 25, width: 100, height: 50 });
+    });
+
+    it('recorta a los bordes de la imagen y descarta cajas fuera de ella', () => {
+        expect(toImageRect({ x: 900, y: 450, width: 200, height: 100 }, IMAGE)).toEqual({ x: 900, y: 450, width: 100, height: 50 });
+        expect(toImageRect({ x: 1200, y: 10, width: 50, height: 20 }, IMAGE)).toBeNull();
+    });
+});
+
+describe('overlayBoxes', () => {
+    it('omite las placas sin bbox', () => {
+        const withBox = plate('ABC-123', { x: 10, y: 10, width: 50, height: 20 });
+        expect(overlayBoxes([withBox, plate('XYZ-999')], IMAGE).map(box => box.plate)).toEqual([withBox]);
+    });
+});
+
+describe('paddedCrop', () => {
+    it('agrega margen sin salirse de la imagen', () => {
+        expect(paddedCrop({ x: 100, y: 100, width: 100, height: 40 }, IMAGE, 0.1)).toEqual({ x: 90, y: 96, width: 120, height: 48 });
+        expect(paddedCrop({ x: 0, y: 0, width: 100, height: 40 }, IMAGE, 0.1)).toEqual({ x: 0, y: 0, width: 110, height: 44 });
+    });
+});
+
+describe('boxAtPoint', () => {
+    it('con cajas solapadas elige la más pequeña', () => {
+        const boxes = overlayBoxes([
+            plate('GRANDE', { x: 0, y: 0, width: 400, height: 200 }),
+            plate('CHICA', { x: 100, y: 100, width: 50, height: 20 })
+        ], IMAGE);
+
+        expect(boxAtPoint(boxes, { x: 120, y: 110 })?.plate.plate_text).toBe('CHICA');
+        expect(boxAtPoint(boxes, { x: 300, y: 50 })?.plate.plate_text).toBe('GRANDE');
+        expect(boxAtPoint(boxes, { x: 900, y: 400 })).toBeNull();
+    });
+});
+
+describe('zoom y desplazamiento', () => {
+    it('sin zoom la imagen queda centrada', () => {
+        expect(clampView({ zoom: 1, offsetX: 80, offsetY: -30 }, IMAGE, VIEWPORT)).toEqual({ zoom: 1, offsetX: 0, offsetY: 0 });
+        expect(clampView({ zoom: 1, offsetX: 0, offsetY: 0 }, IMAGE, { width: 500, height: 400 }))
+            .toEqual({ zoom: 1, offsetX: 0, offsetY: 75 });
+    });
+
+    it('el punto bajo el cursor no se mueve al acercar', () => {
+        const anchor = { x: 100, y: 50 };
+        const before = screenToImage({ zoom: 1, offsetX: 0, offsetY: 0 }, anchor, IMAGE, VIEWPORT);
+        const view = zoomAround({ zoom: 1, offsetX: 0, offsetY: 0 }, 2, anchor, IMAGE, VIEWPORT);
+
+        expect(view).toEqual({ zoom: 2, offsetX: -100, offsetY: -50 });
+        expect(screenToImage(view, anchor, IMAGE, VIEWPORT)).toEqual(before);
+    });
+
+    it('limita el zoom y no deja bordes vacíos al desplazar', () => {
+        expect(zoomAround({ zoom: 1, offsetX: 0, offsetY: 0 }, 50, { x: 0, y: 0 }, IMAGE, VIEWPORT).zoom).toBe(8);
+        expect(clampView({ zoom: 2, offsetX: 100, offsetY: -1000 }, IMAGE, VIEWPORT)).toEqual({ zoom: 2, offsetX: 0, offsetY: -250 });
+    });
+});
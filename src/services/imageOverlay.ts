@@ -0,0 +1,130 @@
+// src/services/imageOverlay.ts
+// ✅ GEOMETRÍA DEL VISOR DE DETECCIONES: bbox → píxeles de la imagen, recortes, zoom y desplazamiento
+//
+// El bbox de /detect/image viene en píxeles de la imagen que analizó el servidor ({x, y} es la esquina
+// superior izquierda). Si file_info.dimensions no coincide con la imagen cargada se reescala.
+
+import type { PlateDetection } from '../types/alpr';
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export type Rect = NonNullable<PlateDetection['bbox']>;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Placa con su rectángulo ya en píxeles de la imagen cargada
+export interface OverlayBox {
+    plate: PlateDetection;
+    rect: Rect;
+}
+
+// pantalla = offset + imagen * fitScale * zoom (en píxeles CSS del canvas)
+export interface ViewTransform {
+    zoom: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+export const OVERLAY_ZOOM = {
+    MIN: 1,
+    MAX: 8,
+    // Factor por clic en +/- (la rueda usa pasos más finos)
+    STEP: 1.5
+} as const;
+
+// Margen del recorte alrededor de la placa, en fracción del bbox
+export const CROP_PADDING = 0.15;
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+// 📐 BBOX DEL SERVIDOR → RECTÁNGULO DENTRO DE LA IMAGEN CARGADA (null si queda vacío)
+export function toImageRect(bbox: Rect, natural: Size, reported?: Size | null): Rect | null {
+    const scaleX = reported?.width ? natural.width / reported.width : 1;
+    const scaleY = reported?.height ? natural.height / reported.height : 1;
+
+    const x1 = clamp(bbox.x * scaleX, 0, natural.width);
+    const y1 = clamp(bbox.y * scaleY, 0, natural.height);
+    const x2 = clamp((bbox.x + bbox.width) * scaleX, 0, natural.width);
+    const y2 = clamp((bbox.y + bbox.height) * scaleY, 0, natural.height);
+
+    if (x2 - x1 < 1 || y2 - y1 < 1) return null;
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+export function overlayBoxes(plates: PlateDetection[], natural: Size, reported?: Size | null): OverlayBox[] {
+    return plates.flatMap(plate => {
+        const rect = plate.bbox ? toImageRect(plate.bbox, natural, reported) : null;
+        return rect ? [{ plate, rect }] : [];
+    });
+}
+
+// ✂️ ZONA A RECORTAR: el bbox con margen, sin salirse de la imagen
+export function paddedCrop(rect: Rect, natural: Size, padding: number = CROP_PADDING): Rect {
+    const padX = rect.width * padding;
+    const padY = rect.height * padding;
+    const x = clamp(rect.x - padX, 0, natural.width);
+    const y = clamp(rect.y - padY, 0, natural.height);
+    return {
+        x,
+        y,
+        width: clamp(rect.x + rect.width + padX, 0, natural.width) - x,
+        height: clamp(rect.y + rect.height + padY, 0, natural.height) - y
+    };
+}
+
+// 🎯 CAJA BAJO EL CURSOR (coordenadas de imagen); con solapes gana la más pequeña
+export function boxAtPoint(boxes: OverlayBox[], point: Point): OverlayBox | null {
+    let found: OverlayBox | null = null;
+    for (const box of boxes) {
+        const { x, y, width, height } = box.rect;
+        const inside = point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height;
+        if (inside && (!found || width * height < found.rect.width * found.rect.height)) {
+            found = box;
+        }
+    }
+    return found;
+}
+
+// 🔍 ZOOM Y DESPLAZAMIENTO
+export function fitScale(natural: Size, viewport: Size): number {
+    if (!natural.width || !natural.height) return 1;
+    return Math.min(viewport.width / natural.width, viewport.height / natural.height);
+}
+
+// Imagen centrada si cabe en el visor; si no, sin dejar bordes vacíos
+export function clampView(view: ViewTransform, natural: Size, viewport: Size): ViewTransform {
+    const zoom = clamp(view.zoom, OVERLAY_ZOOM.MIN, OVERLAY_ZOOM.MAX);
+    const scale = fitScale(natural, viewport) * zoom;
+    const clampAxis = (offset: number, imageSize: number, viewportSize: number) =>
+        imageSize <= viewportSize ? (viewportSize - imageSize) / 2 : clamp(offset, viewportSize - imageSize, 0);
+
+    return {
+        zoom,
+        offsetX: clampAxis(view.offsetX, natural.width * scale, viewport.width),
+        offsetY: clampAxis(view.offsetY, natural.height * scale, viewport.height)
+    };
+}
+
+// Cambia el zoom manteniendo fijo el punto indicado (en píxeles del visor)
+export function zoomAround(view: ViewTransform, nextZoom: number, anchor: Point, natural: Size, viewport: Size): ViewTransform {
+    const zoom = clamp(nextZoom, OVERLAY_ZOOM.MIN, OVERLAY_ZOOM.MAX);
+    const ratio = zoom / view.zoom;
+    return clampView({
+        zoom,
+        offsetX: anchor.x - (anchor.x - view.offsetX) * ratio,
+        offsetY: anchor.y - (anchor.y - view.offsetY) * ratio
+    }, natural, viewport);
+}
+
+export function screenToImage(view: ViewTransform, point: Point, natural: Size, viewport: Size): Point {
+    const scale = fitScale(natural, viewport) * view.zoom;
+    return { x: (point.x - view.offsetX) / scale, y: (point.y - view.offsetY) / scale };
+}
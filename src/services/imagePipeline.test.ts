@@ -0,0 +1,134 @@
+// src/services/imagePipeline.test.ts
+// ✅ TESTS DEL PREPROCESADO: orientación EXIF, geometría del recorte/reducción y ajustes de píxeles
+
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PREPROCESS_OPTIONS, applyAdjustments, cropToPixels, readExifOrientation, scaledSize } from './imagePipeline';
+import { ImagePreprocessor, preprocessParams, toUploadFile } from './imagePreprocessing';
+import type { PreprocessRequest, PreprocessResponse, PreprocessResult } from '../types/preprocessing';
+
+// JPEG mínimo: SOI + APP1 "Exif" con un IFD0 de una sola entrada (Orientation)
+function jpegWithOrientation(orientation: number, littleEndian: boolean): ArrayBuffer {
+    const buffer = new ArrayBuffer(2 + 2 + 2 + 6 + 8 + 2 + 12 + 4);
+    const view = new DataView(buffer);
+    view.setUint16(0, 0xffd8);
+    view.setUint16(2, 0xffe1);
+    view.setUint16(4, buffer.byteLength - 4);
+    view.setUint32(6, 0x45786966);
+    view.setUint16(10, 0);
+
+    const tiff = 12;
+    view.setUint16(tiff, littleEndian ? 0x4949 : 0x4d4d);
+    view.setUint16(tiff + 2, 42, littleEndian);
+    view.setUint32(tiff + 4, 8, littleEndian);
+    view.setUint16(tiff + 8, 1, littleEndian);
+    view.setUint16(tiff + 10, 0x0112, littleEndian);
+    view.setUint16(tiff + 12, 3, littleEndian);
+    view.setUint32(tiff + 14, 1, littleEndian);
+    view.setUint16(tiff + 18, orientation, littleEndian);
+    return buffer;
+}
+
+function pixels(values: number[][]): Uint8ClampedArray {
+    return new Uint8ClampedArray(values.flatMap(([r, g, b, a = 255]) => [r, g, b, a]));
+}
+
+describe('readExifOrientation', () => {
+    it('lee la orientación en TIFF big-endian y little-endian', () => {
+        expect(readExifOrientation(jpegWithOrientation(6, false))).toBe(6);
+        expect(readExifOrientation(jpegWithOrientation(8, true))).toBe(8);
+    });
+
+    it('devuelve 1 si no es JPEG o el valor no es válido', () => {
+        expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(12, true))).toBe(1);
+    });
+});
+
+describe('geometría', () => {
+    it('convierte la región normalizada a píxeles sin salirse de la imagen', () => {
+        expect(cropToPixels(null, 800, 600)).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+        expect(cropToPixels({ x: 0.25, y: 0.5, width: 0.5, height: 0.25 }, 800, 600)).toEqual({ x: 200, y: 300, width: 400, height: 150 });
+        expect(cropToPixels({ x: 0.9, y: 0.9, width: 0.5, height: 0.5 }, 100, 100)).toEqual({ x: 90, y: 90, width: 10, height: 10 });
+    });
+
+    it('reduce por el lado mayor y nunca amplía', () => {
+        expect(scaledSize(4000, 3000, 1920)).toEqual({ width: 1920, height: 1440 });
+        expect(scaledSize(1000, 2000, 1024)).toEqual({ width: 512, height: 1024 });
+        expect(scaledSize(800, 600, 1920)).toEqual({ width: 800, height: 600 });
+        expect(scaledSize(4000, 3000, null)).toEqual({ width: 4000, height: 3000 });
+    });
+});
+
+describe('applyAdjustments', () => {
+    it('aplica brillo y contraste sin tocar el alfa', () => {
+        const brighter = pixels([[100, 100, 100, 40]]);
+        applyAdjustments(brighter, 1, 1, { brightness: 20, contrast: 0, sharpen: 0 });
+        expect(Array.from(brighter)).toEqual([151, 151, 151, 40]);
+
+        const contrasted = pixels([[64, 128, 192]]);
+        applyAdjustments(contrasted, 1, 1, { brightness: 0, contrast: 50, sharpen: 0 });
+        expect(contrasted[0]).toBeLessThan(64);
+        expect(contrasted[1]).toBe(128);
+        expect(contrasted[2]).toBeGreaterThan(192);
+    });
+
+    it('el enfoque realza el píxel central y deja el borde igual', () => {
+        const grid = pixels([
+            [50, 50, 50], [50, 50, 50], [50, 50, 50],
+            [50, 50, 50], [100, 100, 100], [50, 50, 50],
+            [50, 50, 50], [50, 50, 50], [50, 50, 50]
+        ]);
+        applyAdjustments(grid, 3, 3, { brightness: 0, contrast: 0, sharpen: 50 });
+        expect(grid[16]).toBe(200);
+        expect(grid[0]).toBe(50);
+        expect(grid[19]).toBe(255);
+    });
+});
+
+describe('subida y parámetros', () => {
+    const result = (blob: Blob, orientation = 1, unchanged = false): PreprocessResult => ({
+        blob, unchanged, width: 10, height: 10, original_width: 10, original_height: 10, orientation, elapsed_ms: 1
+    });
+
+    it('sube el original si no hubo cambios y un .jpg si los hubo', () => {
+        const original = new File(['png'], 'auto.png', { type: 'image/png' });
+        expect(toUploadFile(original, result(original, 1, true))).toBe(original);
+
+        const processed = toUploadFile(original, result(new Blob(['jpeg'], { type: 'image/jpeg' })));
+        expect(processed.name).toBe('auto.jpg');
+        expect(processed.type).toBe('image/jpeg');
+    });
+
+    it('sube el original aunque el worker devuelva una copia del blob', async () => {
+        // postMessage clona el Blob en ambos sentidos: lo que vuelve nunca es el mismo objeto
+        class CloningWorker {
+            onmessage: ((event: MessageEvent<PreprocessResponse>) => void) | null = null;
+            onerror: ((event: ErrorEvent) => void) | null = null;
+            postMessage(request: PreprocessRequest) {
+                const copy = new Blob([request.file], { type: request.file.type });
+                const response: PreprocessResponse = { id: request.id, result: result(copy, 1, true) };
+                queueMicrotask(() => this.onmessage?.(new MessageEvent('message', { data: response })));
+            }
+            terminate() {}
+        }
+        vi.stubGlobal('Worker', CloningWorker);
+        vi.stubGlobal('OffscreenCanvas', class {});
+
+        const original = new File(['png'], 'auto.png', { type: 'image/png' });
+        const preprocessor = new ImagePreprocessor();
+        expect(preprocessor.usesWorker).toBe(true);
+
+        const processed = await preprocessor.process(original, DEFAULT_PREPROCESS_OPTIONS);
+        expect(processed.blob).not.toBe(original);
+        expect(toUploadFile(original, processed)).toBe(original);
+        preprocessor.dispose();
+    });
+
+    it('solo registra las opciones que cambian algo', () => {
+        expect(preprocessParams(DEFAULT_PREPROCESS_OPTIONS, null)).toEqual({});
+        expect(preprocessParams(
+            { ...DEFAULT_PREPROCESS_OPTIONS, maxDimension: 1280, crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.5 } },
+            result(new Blob(), 6)
+        )).toEqual({ preprocess_max_dimension: 1280, preprocess_crop: '0.100,0.200,0.500,0.500', preprocess_exif_orientation: 6 });
+    });
+});
@@ -0,0 +1,175 @@
+// src/services/imagePipeline.ts
+// ✅ PREPROCESADO DE IMÁGENES ANTES DE SUBIRLAS: orientación EXIF, recorte, reducción y ajustes de color
+//
+// Se ejecuta dentro del Web Worker (OffscreenCanvas) y, si el navegador no lo permite, en el hilo
+// principal con un <canvas>. Por eso este módulo no importa nada que dependa de window.
+
+import type { CropRegion, PreprocessOptions, PreprocessResult } from '../types/preprocessing';
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: null,
+    crop: null,
+    brightness: 0,
+    contrast: 0,
+    sharpen: 0,
+    quality: 0.9
+};
+
+// Lado mayor ofrecido en la interfaz (null = tamaño original)
+export const MAX_DIMENSION_CHOICES: Array<number | null> = [null, 2560, 1920, 1280, 1024];
+
+// La cabecera EXIF va al principio del JPEG
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+export type CanvasFactory = (width: number, height: number) => OffscreenCanvas | HTMLCanvasElement;
+
+// 🧭 ORIENTACIÓN EXIF (tag 0x0112 del IFD0); 1 si no es JPEG o no la trae
+function readTiffOrientation(view: DataView, tiffStart: number): number {
+    if (tiffStart + 8 > view.byteLength) return 1;
+    const littleEndian = view.getUint16(tiffStart) === 0x4949;
+    const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+    if (ifdStart + 2 > view.byteLength) return 1;
+
+    const entries = view.getUint16(ifdStart, littleEndian);
+    for (let i = 0; i < entries; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const value = view.getUint16(entry + 8, littleEndian);
+            return value >= 1 && value <= 8 ? value : 1;
+        }
+    }
+    return 1;
+}
+
+export function readExifOrientation(buffer: ArrayBuffer): number {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+        const length = view.getUint16(offset + 2);
+        // APP1 con cabecera "Exif\0\0"
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength &&
+            view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            return readTiffOrientation(view, offset + 10);
+        }
+        offset += 2 + length;
+    }
+    return 1;
+}
+
+// 📐 GEOMETRÍA
+export function cropToPixels(crop: CropRegion | null, width: number, height: number): { x: number; y: number; width: number; height: number } {
+    if (!crop) return { x: 0, y: 0, width, height };
+    const x = Math.round(Math.min(1, Math.max(0, crop.x)) * width);
+    const y = Math.round(Math.min(1, Math.max(0, crop.y)) * height);
+    return {
+        x,
+        y,
+        width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+        height: Math.max(1, Math.min(height - y, Math.round(crop.height * height)))
+    };
+}
+
+export function scaledSize(width: number, height: number, maxDimension: number | null): { width: number; height: number } {
+    const longest = Math.max(width, height);
+    if (!maxDimension || longest <= maxDimension) return { width, height };
+    const scale = maxDimension / longest;
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export function hasAdjustments(options: PreprocessOptions): boolean {
+    return options.brightness !== 0 || options.contrast !== 0 || options.sharpen > 0;
+}
+
+// 🎨 BRILLO, CONTRASTE Y ENFOQUE sobre píxeles RGBA (modifica el array; el alfa no se toca)
+export function applyAdjustments(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    { brightness, contrast, sharpen }: Pick<PreprocessOptions, 'brightness' | 'contrast' | 'sharpen'>
+): void {
+    if (brightness !== 0 || contrast !== 0) {
+        const offset = brightness * 2.55;
+        const c = contrast * 2.55;
+        const factor = (259 * (c + 255)) / (255 * (259 - c));
+        // Mismo ajuste para los tres canales: tabla de 256 valores
+        const table = new Uint8ClampedArray(256);
+        for (let value = 0; value < 256; value++) {
+            table[value] = factor * (value + offset - 128) + 128;
+        }
+        for (let i = 0; i < pixels.length; i += 4) {
+            pixels[i] = table[pixels[i]];
+            pixels[i + 1] = table[pixels[i + 1]];
+            pixels[i + 2] = table[pixels[i + 2]];
+        }
+    }
+
+    // Enfoque con núcleo laplaciano de 3x3; el borde de 1 px queda igual
+    if (sharpen > 0 && width > 2 && height > 2) {
+        const amount = sharpen / 100;
+        const source = pixels.slice();
+        const row = width * 4;
+        for (let y = 1; y < height - 1; y++) {
+            for (let x = 1; x < width - 1; x++) {
+                const base = y * row + x * 4;
+                for (let channel = 0; channel < 3; channel++) {
+                    const i = base + channel;
+                    const neighbours = source[i - 4] + source[i + 4] + source[i - row] + source[i + row];
+                    pixels[i] = source[i] * (1 + 4 * amount) - amount * neighbours;
+                }
+            }
+        }
+    }
+}
+
+function canvasToBlob(canvas: OffscreenCanvas | HTMLCanvasElement, quality: number): Promise<Blob> {
+    if ('convertToBlob' in canvas) {
+        return canvas.convertToBlob({ type: 'image/jpeg', quality });
+    }
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('No se pudo codificar la imagen'))), 'image/jpeg', quality);
+    });
+}
+
+// 🛠️ PIPELINE COMPLETO
+// Sin nada que cambiar (orientación normal, sin recorte, sin reducir, sin ajustes) devuelve el archivo tal cual
+export async function preprocessImage(file: Blob, options: PreprocessOptions, createCanvas: CanvasFactory): Promise<PreprocessResult> {
+    const startedAt = performance.now();
+    const orientation = readExifOrientation(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    // from-image aplica la rotación EXIF al decodificar: los píxeles del canvas ya quedan derechos
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    try {
+        const crop = cropToPixels(options.crop, bitmap.width, bitmap.height);
+        const size = scaledSize(crop.width, crop.height, options.maxDimension);
+        const base = { original_width: bitmap.width, original_height: bitmap.height, orientation };
+
+        const unchanged = orientation === 1 && !options.crop && !hasAdjustments(options) &&
+            size.width === bitmap.width && size.height === bitmap.height;
+        if (unchanged) {
+            return { ...base, blob: file, unchanged: true, width: bitmap.width, height: bitmap.height, elapsed_ms: performance.now() - startedAt };
+        }
+
+        const canvas = createCanvas(size.width, size.height);
+        const context = (canvas as HTMLCanvasElement).getContext('2d');
+        if (!context) throw new Error('El navegador no permite dibujar en canvas');
+
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+
+        if (hasAdjustments(options)) {
+            const imageData = context.getImageData(0, 0, size.width, size.height);
+            applyAdjustments(imageData.data, size.width, size.height, options);
+            context.putImageData(imageData, 0, 0);
+        }
+
+        const blob = await canvasToBlob(canvas, options.quality);
+        return { ...base, blob, unchanged: false, width: size.width, height: size.height, elapsed_ms: performance.now() - startedAt };
+    } finally {
+        bitmap.close();
+    }
+}
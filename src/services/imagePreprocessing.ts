@@ -0,0 +1,130 @@
+// src/services/imagePreprocessing.ts
+// ✅ CLIENTE DEL WORKER DE PREPROCESADO + opciones guardadas del operador
+//
+// Con Worker y OffscreenCanvas el trabajo pesado sale del hilo principal; si faltan, el mismo
+// pipeline corre con un <canvas> normal.
+
+import type { PreprocessOptions, PreprocessRequest, PreprocessResponse, PreprocessResult } from '../types/preprocessing';
+import { DEFAULT_PREPROCESS_OPTIONS, hasAdjustments, preprocessImage } from './imagePipeline';
+import { logger } from './logger';
+
+// El recorte es de cada imagen: no se guarda
+const STORAGE_KEY = 'carid.preprocess';
+
+type PendingRequest = {
+    resolve: (result: PreprocessResult) => void;
+    reject: (error: Error) => void;
+};
+
+// 💾 OPCIONES PERSISTIDAS
+export function loadPreprocessOptions(): PreprocessOptions {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const stored = raw ? JSON.parse(raw) as Partial<PreprocessOptions> : {};
+        return { ...DEFAULT_PREPROCESS_OPTIONS, ...stored, crop: null };
+    } catch {
+        return DEFAULT_PREPROCESS_OPTIONS;
+    }
+}
+
+export function savePreprocessOptions(options: PreprocessOptions): void {
+    try {
+        const { crop: _crop, ...persisted } = options;
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+    } catch (error) {
+        logger.warn('Preprocess', 'No se pudieron guardar las opciones de preprocesado', error);
+    }
+}
+
+// Archivo a subir: el original si no hubo cambios, o el JPEG generado con el mismo nombre base
+export function toUploadFile(original: File, result: PreprocessResult): File {
+    if (result.unchanged) return original;
+    const name = original.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return new File([result.blob], name, { type: 'image/jpeg', lastModified: original.lastModified });
+}
+
+// Parámetros del preprocesado que se guardan junto al análisis (solo los que cambian algo)
+export function preprocessParams(options: PreprocessOptions, result: PreprocessResult | null): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+    if (options.maxDimension) params.preprocess_max_dimension = options.maxDimension;
+    if (options.crop) {
+        const { x, y, width, height } = options.crop;
+        params.preprocess_crop = [x, y, width, height].map(value => value.toFixed(3)).join(',');
+    }
+    if (hasAdjustments(options)) {
+        params.preprocess_brightness = options.brightness;
+        params.preprocess_contrast = options.contrast;
+        params.preprocess_sharpen = options.sharpen;
+    }
+    if (result && result.orientation !== 1) params.preprocess_exif_orientation = result.orientation;
+    return params;
+}
+
+export class ImagePreprocessor {
+    private worker: Worker | null = null;
+    private workerFailed = false;
+    private nextId = 1;
+    private pending = new Map<number, PendingRequest>();
+
+    get usesWorker(): boolean {
+        return !this.workerFailed && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+    }
+
+    process(file: Blob, options: PreprocessOptions): Promise<PreprocessResult> {
+        if (!this.usesWorker) {
+            return preprocessImage(file, options, (width, height) => {
+                const canvas = document.createElement('canvas');
+                canvas.width = width;
+                canvas.height = height;
+                return canvas;
+            });
+        }
+
+        const worker = this.getWorker();
+        const id = this.nextId++;
+        return new Promise<PreprocessResult>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            const request: PreprocessRequest = { id, file, options };
+            worker.postMessage(request);
+        });
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.rejectAll(new Error('Preprocesado cancelado'));
+    }
+
+    private getWorker(): Worker {
+        if (this.worker) return this.worker;
+
+        const worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+            const response = event.data;
+            const request = this.pending.get(response.id);
+            if (!request) return;
+            this.pending.delete(response.id);
+            if (response.error) {
+                request.reject(new Error(response.error));
+            } else {
+                request.resolve(response.result);
+            }
+        };
+        // Un worker que no arranca (CSP, navegador antiguo) no se reintenta: se pasa al hilo principal
+        worker.onerror = event => {
+            logger.warn('Preprocess', 'El worker de preprocesado falló; se usará el hilo principal', event.message);
+            this.workerFailed = true;
+            this.dispose();
+        };
+        this.worker = worker;
+        return worker;
+    }
+
+    private rejectAll(error: Error): void {
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const imagePreprocessor = new ImagePreprocessor();
@@ -0,0 +1,81 @@
+// src/services/imageSources.test.ts
+// ✅ TESTS DE LOS ORÍGENES DE IMAGEN: validación, nombres, portapapeles e importación por URL
+
+import { describe, expect, it, vi } from 'vitest';
+import { apiClient } from './apiClient';
+import {
+    fileNameFromUrl,
+    imageFromClipboard,
+    importImageFromUrl,
+    isValidImageUrl,
+    timestampedName,
+    validateImageFile
+} from './imageSources';
+
+function clipboard(items: Array<{ kind: string; type: string; file?: File }>): DataTransfer {
+    return {
+        items: items.map(item => ({ kind: item.kind, type: item.type, getAsFile: () => item.file ?? null }))
+    } as unknown as DataTransfer;
+}
+
+describe('validateImageFile', () => {
+    it('acepta JPG/PNG/WEBP hasta 50MB', () => {
+        expect(validateImageFile(new Blob(['x'], { type: 'image/png' }))).toBeNull();
+        expect(validateImageFile(new Blob(['x'], { type: 'image/gif' }))).toMatch('Formato');
+        const huge = { type: 'image/jpeg', size: 51 * 1024 * 1024 } as Blob;
+        expect(validateImageFile(huge)).toMatch('50MB');
+    });
+});
+
+describe('nombres de archivo', () => {
+    it('usa la fecha y la extensión del tipo', () => {
+        expect(timestampedName('camara', 'image/jpeg', new Date('2024-03-05T14:07:09Z'))).toBe('camara_20240305-140709.jpg');
+        expect(timestampedName('portapapeles', 'image/png', new Date('2024-03-05T14:07:09Z'))).toBe('portapapeles_20240305-140709.png');
+    });
+
+    it('toma el último segmento de la URL y completa la extensión', () => {
+        expect(fileNameFromUrl('https://cctv.local/frames/cam%201.jpg?t=5', 'image/jpeg')).toBe('cam 1.jpg');
+        expect(fileNameFromUrl('https://cctv.local/snapshot', 'image/webp')).toBe('snapshot.webp');
+        expect(fileNameFromUrl('https://cctv.local/', 'image/png')).toMatch(/^url_\d{8}-\d{6}\.png$/);
+    });
+
+    it('solo admite URLs http y https', () => {
+        expect(isValidImageUrl(' https://cctv.local/a.jpg ')).toBe(true);
+        expect(isValidImageUrl('ftp://cctv.local/a.jpg')).toBe(false);
+        expect(isValidImageUrl('captura.jpg')).toBe(false);
+    });
+});
+
+describe('imageFromClipboard', () => {
+    it('devuelve la primera imagen e ignora el texto', () => {
+        const png = new File(['png'], 'image.png', { type: 'image/png' });
+        const file = imageFromClipboard(clipboard([{ kind: 'string', type: 'text/plain' }, { kind: 'file', type: 'image/png', file: png }]));
+        expect(file?.name).toMatch(/^portapapeles_.*\.png$/);
+        expect(file?.type).toBe('image/png');
+        expect(imageFromClipboard(clipboard([{ kind: 'string', type: 'text/plain' }]))).toBeNull();
+        expect(imageFromClipboard(null)).toBeNull();
+    });
+});
+
+describe('importImageFromUrl', () => {
+    it('descarga directa cuando el origen permite CORS', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, blob: async () => new Blob(['jpg'], { type: 'image/jpeg' }) }));
+        const viaBackend = vi.spyOn(apiClient, 'fetchRemoteImage');
+
+        const file = await importImageFromUrl('https://cctv.local/frame.jpg');
+        expect(file.name).toBe('frame.jpg');
+        expect(viaBackend).not.toHaveBeenCalled();
+    });
+
+    it('usa el backend si la descarga directa falla y valida el tipo recibido', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+        const viaBackend = vi.spyOn(apiClient, 'fetchRemoteImage').mockResolvedValue(new Blob(['png'], { type: 'image/png' }));
+
+        const file = await importImageFromUrl('https://cctv.local/live');
+        expect(viaBackend).toHaveBeenCalledWith('https://cctv.local/live', { signal: undefined });
+        expect(file.name).toBe('live.png');
+
+        viaBackend.mockResolvedValue(new Blob(['<html>'], { type: 'text/html' }));
+        await expect(importImageFromUrl('https://cctv.local/live')).rejects.toThrow('Formato');
+    });
+});
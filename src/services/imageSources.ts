@@ -0,0 +1,102 @@
+// src/services/imageSources.ts
+// ✅ ORÍGENES DE IMAGEN ADEMÁS DEL SELECTOR: portapapeles, URL remota y foto de la cámara
+//
+// Todos terminan en un File que pasa por la misma validación que el selector de archivos.
+
+import { FILE_VALIDATION } from '../types/alpr';
+import { apiClient, ApiError } from './apiClient';
+import { logger } from './logger';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/jpg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp'
+};
+
+// ✅ MISMA VALIDACIÓN PARA TODOS LOS ORÍGENES (null = válida)
+export function validateImageFile(file: Blob): string | null {
+    const { validTypes, maxSize } = FILE_VALIDATION.IMAGE;
+    if (!validTypes.includes(file.type)) {
+        return 'Formato de imagen no soportado. Use JPG, PNG o WEBP';
+    }
+    if (file.size > maxSize) {
+        return `El archivo es muy grande. Máximo ${Math.round(maxSize / (1024 * 1024))}MB permitido`;
+    }
+    return null;
+}
+
+// Nombre para imágenes sin archivo de origen: "portapapeles_20240101-120000.png"
+export function timestampedName(prefix: string, type: string, date: Date = new Date()): string {
+    const stamp = date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+    return `${prefix}_${stamp}.${EXTENSIONS[type] ?? 'jpg'}`;
+}
+
+// Último segmento de la ruta; si no tiene extensión de imagen se le agrega la del tipo recibido
+export function fileNameFromUrl(url: string, type: string): string {
+    try {
+        const segment = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+        if (!segment) return timestampedName('url', type);
+        return /\.(jpe?g|png|webp)$/i.test(segment) ? segment : `${segment}.${EXTENSIONS[type] ?? 'jpg'}`;
+    } catch {
+        return timestampedName('url', type);
+    }
+}
+
+export function isValidImageUrl(url: string): boolean {
+    try {
+        const parsed = new URL(url.trim());
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+// 📋 PORTAPAPELES: primera imagen copiada (captura del visor CCTV, imagen copiada del navegador...)
+export function imageFromClipboard(data: DataTransfer | null): File | null {
+    if (!data) return null;
+    for (const item of Array.from(data.items || [])) {
+        if (item.kind !== 'file' || !item.type.startsWith('image/')) continue;
+        const blob = item.getAsFile();
+        if (blob) return new File([blob], timestampedName('portapapeles', blob.type), { type: blob.type });
+    }
+    return null;
+}
+
+async function fetchDirect(url: string, signal?: AbortSignal): Promise<Blob | null> {
+    try {
+        const response = await fetch(url, { mode: 'cors', signal });
+        if (!response.ok) return null;
+        const blob = await response.blob();
+        return blob.type.startsWith('image/') ? blob : null;
+    } catch (error) {
+        if (signal?.aborted) throw new ApiError('aborted', 'Solicitud cancelada', url);
+        // TypeError = CORS o red: se reintenta a través del backend
+        logger.debug('ImageSource', 'Descarga directa no permitida, se usará el backend', error);
+        return null;
+    }
+}
+
+// 🌐 URL: directa si el servidor de origen permite CORS; si no, la descarga el backend
+export async function importImageFromUrl(url: string, signal?: AbortSignal): Promise<File> {
+    const trimmed = url.trim();
+    if (!isValidImageUrl(trimmed)) {
+        throw new Error('La URL debe comenzar con http:// o https://');
+    }
+
+    let blob = await fetchDirect(trimmed, signal);
+    if (!blob) {
+        try {
+            blob = await apiClient.fetchRemoteImage(trimmed, { signal });
+        } catch (error) {
+            if (error instanceof ApiError && error.isAborted) throw error;
+            logger.warn('ImageSource', 'El backend no pudo descargar la imagen', error);
+            throw new Error('No se pudo descargar la imagen (ni directamente ni a través del servidor)');
+        }
+    }
+
+    const file = new File([blob], fileNameFromUrl(trimmed, blob.type), { type: blob.type });
+    const error = validateImageFile(file);
+    if (error) throw new Error(error);
+    return file;
+}
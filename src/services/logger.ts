@@ -0,0 +1,272 @@
+// src/services/logger.ts
+// ✅ LOGGER ESTRUCTURADO: niveles, categorías y sinks (consola, buffer de la consola de debug, NDJSON)
+
+import { DEFAULT_ADVANCED_CONFIG, type AdvancedStreamingConfig } from '../types/streaming';
+
+export type DebugConfig = AdvancedStreamingConfig['debug'];
+export type LogLevel = DebugConfig['log_level'];
+
+export interface LogEntry {
+    id: number;
+    timestamp: number;
+    level: LogLevel;
+    category: string;
+    message: string;
+    data?: unknown;
+}
+
+export interface LogSink {
+    write: (entry: LogEntry) => void;
+}
+
+export interface ScopedLogger {
+    debug: (message: string, data?: unknown) => void;
+    info: (message: string, data?: unknown) => void;
+    warn: (message: string, data?: unknown) => void;
+    error: (message: string, data?: unknown) => void;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Categorías de alto volumen que se activan aparte (enable_frame_logging / enable_detection_logging)
+export const LOG_CATEGORIES = {
+    FRAMES: 'Frames',
+    DETECTIONS: 'Detections'
+} as const;
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const STORAGE_KEY = 'carid.debug.config';
+const RING_BUFFER_CAPACITY = 500;
+const NDJSON_MAX_LINES = 5000;
+
+// En producción solo advertencias y errores, salvo que el usuario suba el nivel desde la consola de debug
+const BUILD_DEFAULT_CONFIG: DebugConfig = import.meta.env.PROD
+    ? { ...DEFAULT_ADVANCED_CONFIG.debug, log_level: 'warn' }
+    : DEFAULT_ADVANCED_CONFIG.debug;
+
+// 🔧 SERIALIZACIÓN SEGURA (Error, Event y referencias circulares no pasan por JSON.stringify)
+export function serializeLogData(data: unknown): unknown {
+    if (data === undefined) return undefined;
+    if (data instanceof Error) return { name: data.name, message: data.message, stack: data.stack };
+    if (typeof Event !== 'undefined' && data instanceof Event) return { type: data.type };
+    try {
+        return JSON.parse(JSON.stringify(data));
+    } catch {
+        return String(data);
+    }
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[1].slice(0, -1);
+}
+
+// 🖥️ CONSOLA DEL NAVEGADOR
+export const consoleSink: LogSink = {
+    write(entry) {
+        const method = entry.level === 'debug' ? console.debug
+            : entry.level === 'info' ? console.info
+                : entry.level === 'warn' ? console.warn
+                    : console.error;
+        const line = `[${formatTime(entry.timestamp)}] [${entry.category}] ${entry.message}`;
+        if (entry.data === undefined) {
+            method(line);
+        } else {
+            method(line, entry.data);
+        }
+    }
+};
+
+// 🧾 BUFFER CIRCULAR PARA LA CONSOLA DE DEBUG (suscribible con useSyncExternalStore)
+export class RingBufferSink implements LogSink {
+    private snapshot: LogEntry[] = [];
+    private listeners = new Set<() => void>();
+    private notifyScheduled = false;
+
+    constructor(private readonly capacity: number = RING_BUFFER_CAPACITY) {}
+
+    write(entry: LogEntry): void {
+        const kept = this.snapshot.length >= this.capacity ? this.snapshot.slice(1 - this.capacity) : this.snapshot;
+        this.snapshot = [...kept, { ...entry, data: serializeLogData(entry.data) }];
+        this.scheduleNotify();
+    }
+
+    // Se avisa fuera de la llamada: hay logs dentro de updaters de setState y no se puede re-renderizar ahí
+    private scheduleNotify(): void {
+        if (this.notifyScheduled) return;
+        this.notifyScheduled = true;
+        queueMicrotask(() => {
+            this.notifyScheduled = false;
+            this.listeners.forEach(listener => listener());
+        });
+    }
+
+    getSnapshot = (): LogEntry[] => this.snapshot;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    clear(): void {
+        this.snapshot = [];
+        this.scheduleNotify();
+    }
+}
+
+// 📥 REGISTRO NDJSON DESCARGABLE (una línea JSON por entrada, más largo que el buffer visible)
+export class NdjsonSink implements LogSink {
+    private lines: string[] = [];
+
+    constructor(private readonly maxLines: number = NDJSON_MAX_LINES) {}
+
+    write(entry: LogEntry): void {
+        this.lines.push(JSON.stringify({
+            ts: new Date(entry.timestamp).toISOString(),
+            level: entry.level,
+            category: entry.category,
+            message: entry.message,
+            data: serializeLogData(entry.data)
+        }));
+        if (this.lines.length > this.maxLines) this.lines.splice(0, this.lines.length - this.maxLines);
+    }
+
+    toString(): string {
+        return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+    }
+
+    download(filename: string = `carid_log_${Date.now()}.ndjson`): void {
+        const url = URL.createObjectURL(new Blob([this.toString()], { type: 'application/x-ndjson' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+
+    clear(): void {
+        this.lines = [];
+    }
+}
+
+function readStoredConfig(): Partial<DebugConfig> {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) as Partial<DebugConfig> : {};
+    } catch {
+        return {};
+    }
+}
+
+export class Logger {
+    private config: DebugConfig;
+    private sinks = new Set<LogSink>();
+    private listeners = new Set<() => void>();
+    private nextId = 1;
+
+    constructor(private readonly defaults: DebugConfig = BUILD_DEFAULT_CONFIG) {
+        const stored = readStoredConfig();
+        this.config = {
+            ...defaults,
+            ...stored,
+            log_level: LOG_LEVELS.includes(stored.log_level as LogLevel) ? stored.log_level : defaults.log_level
+        };
+    }
+
+    addSink(sink: LogSink): () => void {
+        this.sinks.add(sink);
+        return () => {
+            this.sinks.delete(sink);
+        };
+    }
+
+    // ⚙️ CONFIGURACIÓN (AdvancedStreamingConfig.debug); se guarda para que sobreviva a la recarga
+    configure(patch: Partial<DebugConfig>): void {
+        this.config = { ...this.config, ...patch };
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+        } catch {
+            // Sin localStorage la configuración dura lo que la pestaña
+        }
+        this.listeners.forEach(listener => listener());
+    }
+
+    resetConfig(): void {
+        try {
+            window.localStorage.removeItem(STORAGE_KEY);
+        } catch {
+            // Nada que borrar
+        }
+        this.config = { ...this.defaults };
+        this.listeners.forEach(listener => listener());
+    }
+
+    getConfig = (): DebugConfig => this.config;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    isEnabled(level: LogLevel, category: string): boolean {
+        if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[this.config.log_level]) return false;
+        if (category === LOG_CATEGORIES.FRAMES && !this.config.enable_frame_logging) return false;
+        if (category === LOG_CATEGORIES.DETECTIONS && !this.config.enable_detection_logging) return false;
+        return true;
+    }
+
+    log(level: LogLevel, category: string, message: string, data?: unknown): void {
+        if (!this.isEnabled(level, category)) return;
+
+        const entry: LogEntry = { id: this.nextId++, timestamp: Date.now(), level, category, message, data };
+        this.sinks.forEach(sink => {
+            if (sink === consoleSink && !this.config.enable_console_logs) return;
+            try {
+                sink.write(entry);
+            } catch {
+                // Un sink roto no puede tumbar a quien registra
+            }
+        });
+    }
+
+    debug(category: string, message: string, data?: unknown): void {
+        this.log('debug', category, message, data);
+    }
+
+    info(category: string, message: string, data?: unknown): void {
+        this.log('info', category, message, data);
+    }
+
+    warn(category: string, message: string, data?: unknown): void {
+        this.log('warn', category, message, data);
+    }
+
+    error(category: string, message: string, data?: unknown): void {
+        this.log('error', category, message, data);
+    }
+
+    // Logger con la categoría fija, para módulos que siempre registran en la misma
+    scope(category: string): ScopedLogger {
+        return {
+            debug: (message, data) => this.log('debug', category, message, data),
+            info: (message, data) => this.log('info', category, message, data),
+            warn: (message, data) => this.log('warn', category, message, data),
+            error: (message, data) => this.log('error', category, message, data)
+        };
+    }
+}
+
+// 🌐 INSTANCIAS GLOBALES
+export const debugLogBuffer = new RingBufferSink();
+export const ndjsonLog = new NdjsonSink();
+
+export const logger = new Logger();
+logger.addSink(consoleSink);
+logger.addSink(debugLogBuffer);
+logger.addSink(ndjsonLog);
@@ -0,0 +1,97 @@
+// src/services/plateFormats.test.ts
+// ✅ TESTS DEL CATÁLOGO DE FORMATOS PERUANOS Y LA CORRECCIÓN OCR
+
+import { describe, expect, it } from 'vitest';
+import { PERUVIAN_PLATE_FORMATS, analyzePlate } from './plateFormats';
+
+describe('analyzePlate: clasificación', () => {
+    it.each([
+        ['ABC-123', 'particular', 'particular'],
+        ['A1B-234', 'particular_mixed', 'particular'],
+        ['1234-AB', 'motorcycle', 'motorcycle'],
+        ['CD-1234', 'diplomatic', 'diplomatic'],
+        ['OI-4821', 'international', 'diplomatic'],
+        ['EP-0457', 'police', 'police'],
+        ['PT-9001', 'temporary', 'temporary']
+    ])('%s es %s (%s)', (text, formatId, category) => {
+        const analysis = analyzePlate(text);
+        expect(analysis.isValid).toBe(true);
+        expect(analysis.format?.id).toBe(formatId);
+        expect(analysis.category).toBe(category);
+        expect(analysis.suggestion).toBeNull();
+    });
+
+    it('cada ejemplo del catálogo encaja en su propio formato', () => {
+        PERUVIAN_PLATE_FORMATS.forEach(format => {
+            expect(analyzePlate(format.example).format?.id).toBe(format.id);
+        });
+    });
+
+    it('normaliza mayúsculas, espacios y el guion ausente', () => {
+        const analysis = analyzePlate(' abc 123 ');
+        expect(analysis.text).toBe('ABC-123');
+        expect(analysis.category).toBe('particular');
+    });
+
+    it('sin guion antepone los formatos con prefijo fijo', () => {
+        expect(analyzePlate('CD1234').category).toBe('diplomatic');
+    });
+
+    it('respeta la posición del guion leído', () => {
+        // Con el guion tras el tercer carácter ya no es diplomática sino un particular mal leído
+        const analysis = analyzePlate('CD1-234');
+        expect(analysis.isValid).toBe(false);
+        expect(analysis.category).toBe('particular');
+        expect(analysis.suggestion?.text).toBe('CDI-234');
+    });
+
+    it('devuelve desconocida si nada encaja ni corrigiendo', () => {
+        const analysis = analyzePlate('ZZ-99');
+        expect(analysis.isValid).toBe(false);
+        expect(analysis.category).toBe('unknown');
+        expect(analysis.suggestion).toBeNull();
+    });
+});
+
+describe('analyzePlate: corrección de confusiones OCR', () => {
+    it('corrige dígitos leídos en posiciones de letra y viceversa', () => {
+        const analysis = analyzePlate('A8C-I23');
+        expect(analysis.isValid).toBe(false);
+        expect(analysis.category).toBe('particular');
+        expect(analysis.suggestion?.text).toBe('A8C-123');
+        expect(analysis.suggestion?.changes).toEqual([{ index: 3, from: 'I', to: '1', confidence: null }]);
+    });
+
+    it('corrige 0/O y 5/S en el número y el prefijo', () => {
+        expect(analyzePlate('C4D-51O').suggestion?.text).toBe('C4D-510');
+        expect(analyzePlate('5AB-123').suggestion?.text).toBe('SAB-123');
+    });
+
+    it('no cambia caracteres de los que el OCR está seguro', () => {
+        const analysis = analyzePlate('C4D-51O', [0.95, 0.94, 0.93, 0.92, 0.91, 0.97]);
+        expect(analysis.isValid).toBe(false);
+        expect(analysis.suggestion).toBeNull();
+    });
+
+    it('la confianza de la corrección crece cuanto más dudó el OCR', () => {
+        const doubtful = analyzePlate('C4D-51O', [0.95, 0.94, 0.93, 0.92, 0.91, 0.2]);
+        const almostSure = analyzePlate('C4D-51O', [0.95, 0.94, 0.93, 0.92, 0.91, 0.85]);
+        expect(doubtful.suggestion?.confidence).toBeCloseTo(0.8);
+        expect(almostSure.suggestion?.confidence).toBeCloseTo(0.15);
+    });
+
+    it('propone la lectura alternativa de una placa válida con un carácter dudoso', () => {
+        const analysis = analyzePlate('A8C-123', [0.93, 0.41, 0.9, 0.92, 0.95, 0.94]);
+        expect(analysis.isValid).toBe(true);
+        expect(analysis.format?.id).toBe('particular_mixed');
+        expect(analysis.suggestion?.text).toBe('ABC-123');
+        expect(analysis.suggestion?.format.id).toBe('particular');
+        expect(analysis.suggestion?.changes).toEqual([{ index: 1, from: '8', to: 'B', confidence: 0.41 }]);
+    });
+
+    it('ignora character_confidences que no cuadran con el largo de la placa', () => {
+        const analysis = analyzePlate('A8C-123', [0.2, 0.2]);
+        expect(analysis.isValid).toBe(true);
+        expect(analysis.suggestion).toBeNull();
+    });
+});
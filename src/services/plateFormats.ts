@@ -0,0 +1,221 @@
+// src/services/plateFormats.ts
+// ✅ FORMATOS DE PLACA PERUANOS: catálogo, clasificación por categoría y corrección de confusiones OCR
+//
+// El servidor solo dice si la lectura es válida (is_valid_plate / is_six_char_valid). Este módulo
+// reconoce además qué tipo de placa es y, cuando la lectura no encaja o el OCR dudó de un carácter
+// confundible, propone la lectura corregida que sí encaja en el catálogo.
+
+export type PlateCategory = 'particular' | 'motorcycle' | 'diplomatic' | 'police' | 'temporary' | 'unknown';
+
+export interface PlateFormat {
+    id: string;
+    category: Exclude<PlateCategory, 'unknown'>;
+    label: string;
+    example: string;
+    // '@' letra, '#' dígito, '*' letra o dígito, '-' separador; cualquier otro carácter es literal
+    template: string;
+}
+
+export interface PlateCharacterChange {
+    // Posición en el texto sin guion (la misma que character_confidences)
+    index: number;
+    from: string;
+    to: string;
+    // Confianza del OCR en el carácter leído; null si el backend no la envió
+    confidence: number | null;
+}
+
+export interface PlateCorrection {
+    text: string;
+    format: PlateFormat;
+    changes: PlateCharacterChange[];
+    // 0-1: alta cuando el OCR dudó de los caracteres que se cambian
+    confidence: number;
+}
+
+export interface PlateAnalysis {
+    // Lectura normalizada (mayúsculas, guion en la posición del formato si encaja)
+    text: string;
+    // Formato que cumple la lectura tal cual; null si no encaja en ninguno
+    format: PlateFormat | null;
+    // Categoría del formato, o la de la corrección sugerida si la lectura no encaja
+    category: PlateCategory;
+    isValid: boolean;
+    suggestion: PlateCorrection | null;
+}
+
+// 📚 CATÁLOGO: los formatos con prefijo fijo van primero para ganar a los genéricos
+export const PERUVIAN_PLATE_FORMATS: PlateFormat[] = [
+    { id: 'diplomatic', category: 'diplomatic', label: 'Cuerpo diplomático', example: 'CD-1234', template: 'CD-####' },
+    { id: 'consular', category: 'diplomatic', label: 'Cuerpo consular', example: 'CC-1234', template: 'CC-####' },
+    { id: 'international', category: 'diplomatic', label: 'Organismo internacional', example: 'OI-1234', template: 'OI-####' },
+    { id: 'police', category: 'police', label: 'Policía Nacional', example: 'EP-1234', template: 'EP-####' },
+    { id: 'temporary', category: 'temporary', label: 'Placa temporal', example: 'PT-1234', template: 'PT-####' },
+    { id: 'particular', category: 'particular', label: 'Vehículo', example: 'ABC-123', template: '@@@-###' },
+    { id: 'particular_mixed', category: 'particular', label: 'Vehículo', example: 'A1B-234', template: '@#@-###' },
+    { id: 'motorcycle', category: 'motorcycle', label: 'Vehículo menor', example: '1234-AB', template: '####-**' }
+];
+
+export const PLATE_CATEGORY_LABELS: Record<PlateCategory, string> = {
+    particular: 'Particular',
+    motorcycle: 'Moto',
+    diplomatic: 'Diplomática',
+    police: 'Policial',
+    temporary: 'Temporal',
+    unknown: 'Desconocida'
+};
+
+// 🔤 CONFUSIONES TÍPICAS DEL OCR (en ambos sentidos)
+export const OCR_CONFUSIONS: Record<string, string> = {
+    '0': 'O', 'O': '0',
+    '1': 'I', 'I': '1',
+    '8': 'B', 'B': '8',
+    '5': 'S', 'S': '5'
+};
+
+export const PLATE_FORMAT_THRESHOLDS = {
+    // Con esta confianza o más el carácter no se corrige aunque no encaje
+    LOCKED_CONFIDENCE: 0.9,
+    // Por debajo de esta confianza se ofrece la lectura alternativa aunque la original sea válida
+    SUSPECT_CONFIDENCE: 0.6,
+    // Confianza asumida para los caracteres sin character_confidences
+    UNKNOWN_CONFIDENCE: 0.5
+} as const;
+
+interface NormalizedPlate {
+    // Mayúsculas, sin espacios ni símbolos salvo el guion
+    cleaned: string;
+    compact: string;
+    // Posición del guion en el texto leído; null si venía sin guion
+    dashIndex: number | null;
+}
+
+interface TemplateMatch {
+    text: string;
+    format: PlateFormat;
+    changes: PlateCharacterChange[];
+}
+
+function normalizePlate(plateText: string): NormalizedPlate {
+    const cleaned = plateText.toUpperCase().replace(/[^A-Z0-9-]/g, '');
+    const dashIndex = cleaned.indexOf('-');
+    return {
+        cleaned,
+        compact: cleaned.replace(/-/g, ''),
+        dashIndex: dashIndex > 0 && cleaned.lastIndexOf('-') === dashIndex ? dashIndex : null
+    };
+}
+
+function fitsSlot(char: string, slot: string): boolean {
+    if (slot === '@') return /^[A-Z]$/.test(char);
+    if (slot === '#') return /^[0-9]$/.test(char);
+    if (slot === '*') return /^[A-Z0-9]$/.test(char);
+    return char === slot;
+}
+
+function withDash(compact: string, template: string): string {
+    const dash = template.indexOf('-');
+    return dash < 0 ? compact : `${compact.slice(0, dash)}-${compact.slice(dash)}`;
+}
+
+// Encaja la lectura en un formato cambiando solo caracteres confundibles de los que el OCR no está seguro
+function matchFormat(plate: NormalizedPlate, format: PlateFormat, confidences: number[] | null): TemplateMatch | null {
+    const slots = format.template.replace(/-/g, '');
+    if (plate.compact.length !== slots.length) return null;
+    if (plate.dashIndex !== null && plate.dashIndex !== format.template.indexOf('-')) return null;
+
+    const chars: string[] = [];
+    const changes: PlateCharacterChange[] = [];
+    for (let i = 0; i < slots.length; i++) {
+        const char = plate.compact[i];
+        if (fitsSlot(char, slots[i])) {
+            chars.push(char);
+            continue;
+        }
+
+        const alternative = OCR_CONFUSIONS[char];
+        const confidence = confidences ? confidences[i] : null;
+        if (!alternative || !fitsSlot(alternative, slots[i])) return null;
+        if (confidence !== null && confidence >= PLATE_FORMAT_THRESHOLDS.LOCKED_CONFIDENCE) return null;
+
+        chars.push(alternative);
+        changes.push({ index: i, from: char, to: alternative, confidence });
+    }
+
+    return { text: withDash(chars.join(''), format.template), format, changes };
+}
+
+function findExactFormat(plate: NormalizedPlate): TemplateMatch | null {
+    for (const format of PERUVIAN_PLATE_FORMATS) {
+        const match = matchFormat(plate, format, null);
+        if (match && match.changes.length === 0) return match;
+    }
+    return null;
+}
+
+// Lectura alternativa de una placa válida: se cambian los caracteres confundibles de los que el OCR dudó
+// y se ofrece solo si el resultado también encaja en algún formato
+function suspectAlternative(plate: NormalizedPlate, confidences: number[]): TemplateMatch | null {
+    const changes: PlateCharacterChange[] = [];
+    const compact = plate.compact.split('').map((char, i) => {
+        const alternative = OCR_CONFUSIONS[char];
+        if (!alternative || confidences[i] >= PLATE_FORMAT_THRESHOLDS.SUSPECT_CONFIDENCE) return char;
+        changes.push({ index: i, from: char, to: alternative, confidence: confidences[i] });
+        return alternative;
+    }).join('');
+
+    if (changes.length === 0) return null;
+    const match = findExactFormat({ ...plate, compact });
+    return match ? { ...match, changes } : null;
+}
+
+function changedCharsConfidence(changes: PlateCharacterChange[]): number {
+    return changes.reduce((sum, change) => sum + (change.confidence ?? PLATE_FORMAT_THRESHOLDS.UNKNOWN_CONFIDENCE), 0);
+}
+
+function toCorrection(match: TemplateMatch): PlateCorrection {
+    const doubt = match.changes.length - changedCharsConfidence(match.changes);
+    return {
+        text: match.text,
+        format: match.format,
+        changes: match.changes,
+        confidence: Number((doubt / match.changes.length).toFixed(3))
+    };
+}
+
+// 🔍 ANALIZAR UNA LECTURA
+// character_confidences se usa solo si trae un valor por carácter (sin contar el guion)
+export function analyzePlate(plateText: string, characterConfidences?: number[] | null): PlateAnalysis {
+    const plate = normalizePlate(plateText);
+    const confidences = characterConfidences && characterConfidences.length === plate.compact.length
+        ? characterConfidences
+        : null;
+
+    const exact = findExactFormat(plate);
+    if (exact) {
+        const alternative = confidences ? suspectAlternative(plate, confidences) : null;
+        return {
+            text: exact.text,
+            format: exact.format,
+            category: exact.format.category,
+            isValid: true,
+            suggestion: alternative ? toCorrection(alternative) : null
+        };
+    }
+
+    // Menos cambios primero; a igualdad, los caracteres de los que el OCR dudó más
+    const best = PERUVIAN_PLATE_FORMATS
+        .map(format => matchFormat(plate, format, confidences))
+        .filter((match): match is TemplateMatch => match !== null)
+        .sort((a, b) =>
+            a.changes.length - b.changes.length || changedCharsConfidence(a.changes) - changedCharsConfidence(b.changes)
+        )[0];
+
+    return {
+        text: plate.cleaned,
+        format: null,
+        category: best ? best.format.category : 'unknown',
+        isValid: false,
+        suggestion: best ? toCorrection(best) : null
+    };
+}
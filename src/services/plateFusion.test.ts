@@ -0,0 +1,113 @@
+// src/services/plateFusion.test.ts
+// ✅ TESTS DE LA CONSOLIDACIÓN DE PLACAS POR VOTACIÓN DE CARACTERES
+
+import { describe, expect, it } from 'vitest';
+import { consolidatePlates, editDistance, isSameVehicle } from './plateFusion';
+import { makeUniquePlate as plate } from '../test/fixtures';
+
+describe('editDistance', () => {
+    it('cuenta sustituciones, inserciones y borrados', () => {
+        expect(editDistance('ABC123', 'ABC123')).toBe(0);
+        expect(editDistance('ABC123', 'A8C123')).toBe(1);
+        expect(editDistance('ABC123', 'ABC12')).toBe(1);
+        expect(editDistance('ABC123', 'XYZ789')).toBe(6);
+    });
+});
+
+describe('isSameVehicle', () => {
+    it('une lecturas parecidas, simultáneas y en el mismo sitio', () => {
+        expect(isSameVehicle(plate('ABC-123'), plate('A8C-123'))).toBe(true);
+    });
+
+    it('separa textos con más de una diferencia', () => {
+        expect(isSameVehicle(plate('ABC-123'), plate('A8C-I23'))).toBe(false);
+    });
+
+    it('separa lecturas alejadas en el tiempo', () => {
+        expect(isSameVehicle(
+            plate('ABC-123'),
+            plate('A8C-123', { first_seen_frame: 120, last_seen_frame: 150 })
+        )).toBe(false);
+    });
+
+    it('separa lecturas en zonas distintas del cuadro', () => {
+        expect(isSameVehicle(
+            plate('ABC-123'),
+            plate('A8C-123', { avg_bbox: [900, 200, 980, 230] })
+        )).toBe(false);
+    });
+
+    it('sin avg_bbox decide solo por texto y tiempo', () => {
+        expect(isSameVehicle(plate('ABC-123', { avg_bbox: undefined }), plate('A8C-123', { avg_bbox: [900, 200, 980, 230] }))).toBe(true);
+    });
+});
+
+describe('consolidatePlates', () => {
+    it('fusiona por votación ponderada y conserva los miembros', () => {
+        const strong = plate('ABC-123', { detection_count: 10, avg_confidence: 0.9 });
+        const misread = plate('A8C-123', { detection_count: 2, avg_confidence: 0.6, first_seen_frame: 30, last_seen_frame: 60 });
+        const [fused] = consolidatePlates([misread, strong]);
+
+        expect(fused.plate_text).toBe('ABC-123');
+        expect(fused.members).toEqual([strong, misread]);
+        expect(fused.detection_count).toBe(12);
+        expect(fused.first_seen_frame).toBe(10);
+        expect(fused.last_seen_frame).toBe(60);
+        expect(fused.best_confidence).toBeCloseTo(0.95);
+        expect(fused.total_confidence).toBeCloseTo(10.2);
+        expect(fused.avg_confidence).toBeCloseTo(0.85);
+        expect(fused.character_agreement[0]).toBe(1);
+        expect(fused.character_agreement[1]).toBeCloseTo(9 / 10.2);
+    });
+
+    it('la votación puede combinar caracteres de lecturas distintas', () => {
+        // Cada lectura falla en un carácter distinto; la mayoría en cada posición da el texto correcto
+        const [fused] = consolidatePlates([
+            plate('A8C-123'),
+            plate('ABC-I23'),
+            plate('ABC-128', { avg_confidence: 0.5 }),
+            plate('ABC-123', { avg_confidence: 0.3 })
+        ], { maxEditDistance: 2, maxFrameGap: 15, maxBboxDistance: 1.5 });
+
+        expect(fused.plate_text).toBe('ABC-123');
+        expect(fused.members).toHaveLength(4);
+    });
+
+    it('vota solo entre las lecturas del largo dominante', () => {
+        const [fused] = consolidatePlates([
+            plate('ABC-123', { detection_count: 8 }),
+            plate('ABC-12', { detection_count: 1 })
+        ]);
+
+        expect(fused.plate_text).toBe('ABC-123');
+        expect(fused.members).toHaveLength(2);
+    });
+
+    it('deja intactas las placas sin pareja, en el orden de llegada', () => {
+        const first = plate('B7K-482', { first_seen_frame: 0, last_seen_frame: 20 });
+        const second = plate('F2M-906', { first_seen_frame: 200, last_seen_frame: 240 });
+        const consolidated = consolidatePlates([first, second]);
+
+        expect(consolidated.map(p => p.plate_text)).toEqual(['B7K-482', 'F2M-906']);
+        expect(consolidated[0]).toMatchObject(first);
+        expect(consolidated[0].members).toEqual([first]);
+        expect(consolidated[0].character_agreement).toEqual([1, 1, 1, 1, 1, 1]);
+    });
+
+    it('agrupa cadenas por enlace simple', () => {
+        // A y C no se parecen lo bastante entre sí, pero ambas se parecen a B
+        const consolidated = consolidatePlates([
+            plate('ABC-123', { first_seen_frame: 0, last_seen_frame: 20 }),
+            plate('ABC-128', { first_seen_frame: 30, last_seen_frame: 50 }),
+            plate('ABC-188', { first_seen_frame: 60, last_seen_frame: 80 })
+        ]);
+
+        expect(consolidated).toHaveLength(1);
+        expect(consolidated[0].first_seen_frame).toBe(0);
+        expect(consolidated[0].last_seen_frame).toBe(80);
+    });
+
+    it('devuelve una lista vacía sin placas', () => {
+        expect(consolidatePlates([])).toEqual([]);
+    });
+});
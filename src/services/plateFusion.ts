@@ -0,0 +1,182 @@
+// src/services/plateFusion.ts
+// ✅ CONSOLIDACIÓN DE PLACAS: agrupa lecturas casi iguales del mismo vehículo y las fusiona por votación
+//
+// El servidor ya fusiona las detecciones idénticas, pero una lectura OCR confundida (ABC-123 / A8C-123)
+// llega como otra placa. Dos placas se agrupan si su texto difiere en pocos caracteres, aparecen en
+// frames solapados o cercanos y, cuando hay avg_bbox, en el mismo sitio del cuadro. El texto del grupo
+// se decide carácter a carácter, votando con el peso de confianza de cada lectura.
+
+import type { UniquePlate } from '../types/streaming';
+
+export interface ConsolidatedPlate extends UniquePlate {
+    cluster_id: string;
+    // Lecturas del servidor que forman el grupo, de mayor a menor peso
+    members: UniquePlate[];
+    // Proporción del peso que votó por el carácter ganador en cada posición (texto sin guion)
+    character_agreement: number[];
+}
+
+export interface PlateFusionOptions {
+    // Ediciones (Levenshtein) toleradas entre dos lecturas del mismo vehículo
+    maxEditDistance: number;
+    // Frames que pueden separar el final de una lectura del inicio de la otra
+    maxFrameGap: number;
+    // Distancia máxima entre centros de avg_bbox, en anchos de placa
+    maxBboxDistance: number;
+}
+
+export const DEFAULT_FUSION_OPTIONS: PlateFusionOptions = {
+    maxEditDistance: 1,
+    maxFrameGap: 15,
+    maxBboxDistance: 1.5
+};
+
+function compactText(text: string): string {
+    return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Peso de una lectura en la votación: confianza acumulada de todas sus detecciones
+function voteWeight(plate: UniquePlate): number {
+    return plate.total_confidence || plate.avg_confidence * plate.detection_count || plate.best_confidence;
+}
+
+function framesAreClose(a: UniquePlate, b: UniquePlate, maxGap: number): boolean {
+    const gap = Math.max(a.first_seen_frame, b.first_seen_frame) - Math.min(a.last_seen_frame, b.last_seen_frame);
+    return gap <= maxGap;
+}
+
+// Sin avg_bbox en alguna de las dos el criterio espacial no descarta nada
+function bboxesAreClose(a: UniquePlate, b: UniquePlate, maxDistance: number): boolean {
+    if (!a.avg_bbox || !b.avg_bbox) return true;
+    const [ax1, ay1, ax2, ay2] = a.avg_bbox;
+    const [bx1, by1, bx2, by2] = b.avg_bbox;
+    const plateWidth = Math.max(ax2 - ax1, bx2 - bx1, 1);
+    const dx = (ax1 + ax2) / 2 - (bx1 + bx2) / 2;
+    const dy = (ay1 + ay2) / 2 - (by1 + by2) / 2;
+    return Math.hypot(dx, dy) <= maxDistance * plateWidth;
+}
+
+export function isSameVehicle(a: UniquePlate, b: UniquePlate, options: PlateFusionOptions = DEFAULT_FUSION_OPTIONS): boolean {
+    return editDistance(compactText(a.plate_text), compactText(b.plate_text)) <= options.maxEditDistance &&
+        framesAreClose(a, b, options.maxFrameGap) &&
+        bboxesAreClose(a, b, options.maxBboxDistance);
+}
+
+// 🗳️ VOTACIÓN POR CARÁCTER entre las lecturas del largo más votado
+function voteText(members: UniquePlate[]): { compact: string; agreement: number[] } {
+    const weightByLength = new Map<number, number>();
+    members.forEach(member => {
+        const length = compactText(member.plate_text).length;
+        weightByLength.set(length, (weightByLength.get(length) || 0) + voteWeight(member));
+    });
+    const length = [...weightByLength.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const voters = members.filter(member => compactText(member.plate_text).length === length);
+
+    const chars: string[] = [];
+    const agreement: number[] = [];
+    for (let i = 0; i < length; i++) {
+        const tally = new Map<string, number>();
+        voters.forEach(voter => {
+            const char = compactText(voter.plate_text)[i];
+            tally.set(char, (tally.get(char) || 0) + voteWeight(voter));
+        });
+        const [winner, winnerWeight] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0];
+        const totalWeight = [...tally.values()].reduce((sum, weight) => sum + weight, 0);
+        chars.push(winner);
+        agreement.push(totalWeight > 0 ? Number((winnerWeight / totalWeight).toFixed(3)) : 1);
+    }
+
+    return { compact: chars.join(''), agreement };
+}
+
+function fuseCluster(members: UniquePlate[]): ConsolidatedPlate {
+    const sorted = [...members].sort((a, b) => voteWeight(b) - voteWeight(a));
+    const lead = sorted[0];
+
+    if (sorted.length === 1) {
+        return {
+            ...lead,
+            cluster_id: `cluster_${lead.plate_text}_${lead.first_seen_frame}`,
+            members: sorted,
+            character_agreement: compactText(lead.plate_text).split('').map(() => 1)
+        };
+    }
+
+    const { compact, agreement } = voteText(sorted);
+    // Las banderas (formato válido, 6 caracteres...) son las de una lectura con el texto ganador, si la hay
+    const representative = sorted.find(member => compactText(member.plate_text) === compact) || lead;
+    const dash = representative.plate_text.indexOf('-');
+    const plateText = dash > 0 && dash < compact.length ? `${compact.slice(0, dash)}-${compact.slice(dash)}` : compact;
+
+    const first = sorted.reduce((min, member) => member.first_seen_frame < min.first_seen_frame ? member : min);
+    const last = sorted.reduce((max, member) => member.last_seen_frame > max.last_seen_frame ? member : max);
+    const best = sorted.reduce((top, member) => member.best_confidence > top.best_confidence ? member : top);
+    const detectionCount = sorted.reduce((sum, member) => sum + member.detection_count, 0);
+    const totalConfidence = sorted.reduce((sum, member) => sum + voteWeight(member), 0);
+
+    return {
+        ...representative,
+        plate_text: plateText,
+        raw_plate_text: undefined,
+        char_count: compact.length,
+        first_seen_frame: first.first_seen_frame,
+        first_seen_timestamp: first.first_seen_timestamp,
+        last_seen_frame: last.last_seen_frame,
+        last_seen_timestamp: last.last_seen_timestamp,
+        duration_frames: last.last_seen_frame - first.first_seen_frame + 1,
+        detection_count: detectionCount,
+        total_confidence: totalConfidence,
+        avg_confidence: detectionCount > 0 ? totalConfidence / detectionCount : representative.avg_confidence,
+        best_confidence: best.best_confidence,
+        best_frame: best.best_frame,
+        best_timestamp: best.best_timestamp,
+        frame_history: [...new Set(sorted.flatMap(member => member.frame_history || []))].sort((a, b) => a - b),
+        cluster_id: `cluster_${plateText}_${first.first_seen_frame}`,
+        members: sorted,
+        character_agreement: agreement
+    };
+}
+
+// 🔗 CONSOLIDAR: grupos por enlace simple (basta parecerse a un miembro), en el orden de llegada
+export function consolidatePlates(plates: UniquePlate[], options: PlateFusionOptions = DEFAULT_FUSION_OPTIONS): ConsolidatedPlate[] {
+    const parent = plates.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]];
+            index = parent[index];
+        }
+        return index;
+    };
+
+    for (let i = 0; i < plates.length; i++) {
+        for (let j = i + 1; j < plates.length; j++) {
+            const rootI = find(i);
+            const rootJ = find(j);
+            // La raíz es siempre el índice menor, así los grupos salen en el orden de su primera lectura
+            if (rootI !== rootJ && isSameVehicle(plates[i], plates[j], options)) {
+                parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+            }
+        }
+    }
+
+    const clusters = new Map<number, UniquePlate[]>();
+    plates.forEach((plate, index) => {
+        const root = find(index);
+        clusters.set(root, [...(clusters.get(root) || []), plate]);
+    });
+
+    return [...clusters.values()].map(fuseCluster);
+}
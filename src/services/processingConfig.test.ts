@@ -0,0 +1,82 @@
+// src/services/processingConfig.test.ts
+// ✅ TESTS DE LA CONFIGURACIÓN DE DETECCIÓN: campos por modo, validación, presets y persistencia
+
+import { describe, expect, it } from 'vitest';
+import {
+    ProcessingConfigService,
+    defaultProcessingConfig,
+    sanitizeProcessingConfig,
+    toRequestParams,
+    validateProcessingConfig
+} from './processingConfig';
+
+describe('configuración por modo', () => {
+    it('cada modo envía solo sus campos', () => {
+        expect(toRequestParams(defaultProcessingConfig('image'), 'image')).toEqual({
+            confidence_threshold: 0.5,
+            iou_threshold: 0.4,
+            max_detections: 5,
+            enhance_image: true,
+            return_visualization: true,
+            save_results: true
+        });
+        const video = toRequestParams(defaultProcessingConfig('video'), 'video');
+        expect(video).toMatchObject({ confidence_threshold: 0.4, frame_skip: 3, max_duration: 300, min_detection_frames: 2 });
+        expect(video).not.toHaveProperty('max_detections');
+    });
+
+    it('valida rangos, enteros y tipos', () => {
+        const config = { ...defaultProcessingConfig('video'), confidence_threshold: 1.5, frame_skip: 2.5, max_duration: Number.NaN };
+        expect(Object.keys(validateProcessingConfig(config, 'video')).sort())
+            .toEqual(['confidence_threshold', 'frame_skip', 'max_duration']);
+        expect(validateProcessingConfig(defaultProcessingConfig('image'), 'image')).toEqual({});
+    });
+
+    it('los valores guardados inválidos vuelven al valor por defecto', () => {
+        const sanitized = sanitizeProcessingConfig({ confidence_threshold: 0.7, max_detections: 500, enhance_image: 'si' as never }, 'image');
+        expect(sanitized).toEqual({ ...defaultProcessingConfig('image'), confidence_threshold: 0.7 });
+    });
+});
+
+describe('ProcessingConfigService', () => {
+    it('aplica un preset integrado con los campos de cada modo y lo pierde al ajustar a mano', () => {
+        const service = new ProcessingConfigService();
+        service.applyPreset('video', 'night');
+        expect(service.getConfig('video')).toMatchObject({ confidence_threshold: 0.35, frame_skip: 2, min_detection_frames: 3 });
+        expect(service.recordedParams('video', { frame_skip: 2 })).toEqual({ frame_skip: 2, preset: 'Noche' });
+
+        service.update('video', { frame_skip: 4 });
+        expect(service.activePreset('video')).toBeNull();
+        expect(service.getConfig('video').frame_skip).toBe(4);
+    });
+
+    it('guarda presets del usuario, los reemplaza por nombre y protege los integrados', () => {
+        const service = new ProcessingConfigService();
+        service.update('image', { confidence_threshold: 0.65 });
+        const first = service.savePreset('image', 'Peaje');
+        service.update('image', { max_detections: 8 });
+        const second = service.savePreset('image', ' peaje ');
+
+        expect(second.id).toBe(first.id);
+        expect(service.getSnapshot().presets.filter(p => !p.readOnly)).toHaveLength(1);
+        expect(() => service.savePreset('image', 'Noche')).toThrow('predefinido');
+        expect(() => service.deletePreset('night')).toThrow('predefinido');
+
+        service.update('image', { max_detections: 0 });
+        expect(() => service.savePreset('image', 'Roto')).toThrow('Máx. detecciones');
+    });
+
+    it('recupera configuración y presets de localStorage', () => {
+        const service = new ProcessingConfigService();
+        service.update('image', { iou_threshold: 0.3 });
+        const preset = service.savePreset('image', 'Garita');
+
+        const restored = new ProcessingConfigService();
+        expect(restored.getConfig('image').iou_threshold).toBe(0.3);
+        expect(restored.activePreset('image')?.id).toBe(preset.id);
+
+        restored.deletePreset(preset.id);
+        expect(restored.activePreset('image')).toBeNull();
+        expect(new ProcessingConfigService().getSnapshot().presets.some(p => p.id === preset.id)).toBe(false);
+    });
+});
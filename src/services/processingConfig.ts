@@ -0,0 +1,293 @@
+// src/services/processingConfig.ts
+// ✅ CONFIGURACIÓN DE DETECCIÓN POR MODO (imagen / video) + presets guardados en el navegador
+//
+// Cada modo envía solo sus campos de ProcessingConfig; un preset guarda únicamente lo que cambia
+// y se completa con la configuración por defecto del modo al aplicarlo.
+
+import { DEFAULT_PROCESSING_CONFIG, type DetectionRequestParams, type ProcessingConfig } from '../types/alpr';
+import type {
+    ProcessingConfigErrors,
+    ProcessingConfigSnapshot,
+    ProcessingField,
+    ProcessingFieldSpec,
+    ProcessingMode,
+    ProcessingPreset
+} from '../types/processing';
+import { logger } from './logger';
+
+const STORAGE_KEYS = {
+    CONFIG: 'carid.processing.config',
+    PRESETS: 'carid.processing.presets'
+} as const;
+
+export const PROCESSING_FIELDS: Record<ProcessingField, ProcessingFieldSpec> = {
+    confidence_threshold: { label: 'Confianza mínima', kind: 'number', min: 0.1, max: 0.95, step: 0.05 },
+    iou_threshold: { label: 'Umbral IoU', kind: 'number', min: 0.1, max: 0.9, step: 0.05, hint: 'Solape para fusionar cajas' },
+    max_detections: { label: 'Máx. detecciones', kind: 'number', min: 1, max: 20, step: 1, integer: true },
+    frame_skip: { label: 'Saltar frames', kind: 'number', min: 1, max: 30, step: 1, integer: true, hint: 'Analiza 1 de cada N' },
+    max_duration: { label: 'Duración máxima (s)', kind: 'number', min: 10, max: 600, step: 10, integer: true },
+    min_detection_frames: { label: 'Frames mínimos por placa', kind: 'number', min: 1, max: 10, step: 1, integer: true },
+    enhance_image: { label: 'Mejorar imagen', kind: 'boolean' },
+    return_visualization: { label: 'Imagen anotada', kind: 'boolean' },
+    save_results: { label: 'Guardar en el servidor', kind: 'boolean' },
+    create_annotated_video: { label: 'Video anotado', kind: 'boolean' }
+};
+
+// Campos que acepta cada endpoint, en el orden en que se muestran
+export const MODE_FIELDS: Record<ProcessingMode, ProcessingField[]> = {
+    image: ['confidence_threshold', 'iou_threshold', 'max_detections', 'enhance_image', 'return_visualization', 'save_results'],
+    video: ['confidence_threshold', 'iou_threshold', 'frame_skip', 'max_duration', 'min_detection_frames', 'save_results', 'create_annotated_video']
+};
+
+// En video cada placa se confirma en varios frames: se admite una confianza menor por frame
+const MODE_OVERRIDES: Record<ProcessingMode, Partial<ProcessingConfig>> = {
+    image: {},
+    video: { confidence_threshold: 0.4 }
+};
+
+const BUILT_IN_PRESETS: ProcessingPreset[] = [
+    {
+        id: 'night',
+        name: 'Noche',
+        description: 'Poca luz: umbral más bajo, mejora de imagen y más frames por placa para descartar ruido',
+        config: { confidence_threshold: 0.35, enhance_image: true, frame_skip: 2, min_detection_frames: 3 },
+        readOnly: true
+    },
+    {
+        id: 'highway',
+        name: 'Carretera',
+        description: 'Vehículos rápidos: se analiza cada frame y se admiten más placas por imagen',
+        config: { confidence_threshold: 0.5, max_detections: 10, frame_skip: 1, min_detection_frames: 2 },
+        readOnly: true
+    },
+    {
+        id: 'parking',
+        name: 'Estacionamiento',
+        description: 'Muchos vehículos quietos: umbral alto, hasta 20 placas y menos frames analizados',
+        config: { confidence_threshold: 0.6, iou_threshold: 0.3, max_detections: 20, frame_skip: 10, min_detection_frames: 1 },
+        readOnly: true
+    }
+];
+
+interface StoredConfig {
+    configs?: Partial<Record<ProcessingMode, Partial<ProcessingConfig>>>;
+    activePresetIds?: Partial<Record<ProcessingMode, string | null>>;
+}
+
+// 🔧 HELPERS
+function pickModeFields(config: Partial<ProcessingConfig>, mode: ProcessingMode): Partial<ProcessingConfig> {
+    const picked: Partial<ProcessingConfig> = {};
+    MODE_FIELDS[mode].forEach(field => {
+        if (config[field] !== undefined) (picked as Record<string, unknown>)[field] = config[field];
+    });
+    return picked;
+}
+
+function fieldError(field: ProcessingField, value: unknown): string | null {
+    const spec = PROCESSING_FIELDS[field];
+    if (spec.kind === 'boolean') {
+        return typeof value === 'boolean' ? null : `${spec.label}: debe activarse o desactivarse`;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `${spec.label}: debe ser un número`;
+    if (spec.integer && !Number.isInteger(value)) return `${spec.label}: debe ser un número entero`;
+    // Un límite sin definir no restringe ese extremo
+    const min = spec.min ?? -Infinity;
+    const max = spec.max ?? Infinity;
+    if (value >= min && value <= max) return null;
+    if (spec.min === undefined) return `${spec.label}: como máximo ${spec.max}`;
+    if (spec.max === undefined) return `${spec.label}: como mínimo ${spec.min}`;
+    return `${spec.label}: entre ${spec.min} y ${spec.max}`;
+}
+
+export function defaultProcessingConfig(mode: ProcessingMode): ProcessingConfig {
+    return pickModeFields({ ...DEFAULT_PROCESSING_CONFIG, ...MODE_OVERRIDES[mode] }, mode) as ProcessingConfig;
+}
+
+// ✅ VALIDACIÓN: solo los campos del modo
+export function validateProcessingConfig(config: Partial<ProcessingConfig>, mode: ProcessingMode): ProcessingConfigErrors {
+    const errors: ProcessingConfigErrors = {};
+    MODE_FIELDS[mode].forEach(field => {
+        const error = fieldError(field, config[field]);
+        if (error) errors[field] = error;
+    });
+    return errors;
+}
+
+// Valores guardados o importados: los campos inválidos vuelven al valor por defecto
+export function sanitizeProcessingConfig(config: Partial<ProcessingConfig> | undefined, mode: ProcessingMode): ProcessingConfig {
+    const sanitized: Partial<ProcessingConfig> = defaultProcessingConfig(mode);
+    MODE_FIELDS[mode].forEach(field => {
+        const value = config?.[field];
+        if (value !== undefined && !fieldError(field, value)) (sanitized as Record<string, unknown>)[field] = value;
+    });
+    return sanitized as ProcessingConfig;
+}
+
+export function resolvePreset(preset: ProcessingPreset, mode: ProcessingMode): ProcessingConfig {
+    return sanitizeProcessingConfig({ ...defaultProcessingConfig(mode), ...pickModeFields(preset.config, mode) }, mode);
+}
+
+// Parámetros de formulario para el endpoint del modo
+export function toRequestParams(config: ProcessingConfig, mode: ProcessingMode): DetectionRequestParams {
+    return pickModeFields(config, mode);
+}
+
+function readStorage<T>(key: string, fallback: T): T {
+    try {
+        const raw = window.localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+function writeStorage(key: string, value: unknown): void {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        logger.warn('Processing', 'No se pudo guardar la configuración de detección', error);
+    }
+}
+
+export class ProcessingConfigService {
+    private configs: Record<ProcessingMode, ProcessingConfig>;
+    private activePresetIds: Record<ProcessingMode, string | null>;
+    private userPresets: ProcessingPreset[];
+    private listeners = new Set<() => void>();
+    private snapshot: ProcessingConfigSnapshot;
+
+    constructor() {
+        const stored = readStorage<StoredConfig>(STORAGE_KEYS.CONFIG, {});
+        this.userPresets = readStorage<ProcessingPreset[]>(STORAGE_KEYS.PRESETS, [])
+            .filter(p => p && typeof p.id === 'string' && typeof p.name === 'string' && p.config && typeof p.config === 'object')
+            .map(p => ({ id: p.id, name: p.name, config: p.config }));
+        this.configs = {
+            image: sanitizeProcessingConfig(stored.configs?.image, 'image'),
+            video: sanitizeProcessingConfig(stored.configs?.video, 'video')
+        };
+        this.activePresetIds = {
+            image: this.knownPresetId(stored.activePresetIds?.image),
+            video: this.knownPresetId(stored.activePresetIds?.video)
+        };
+        this.snapshot = this.buildSnapshot();
+    }
+
+    getSnapshot = (): ProcessingConfigSnapshot => this.snapshot;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    getConfig(mode: ProcessingMode): ProcessingConfig {
+        return this.configs[mode];
+    }
+
+    activePreset(mode: ProcessingMode): ProcessingPreset | null {
+        return this.snapshot.presets.find(p => p.id === this.activePresetIds[mode]) ?? null;
+    }
+
+    // Lo que se guarda junto al resultado: los parámetros enviados y el preset en uso
+    recordedParams(mode: ProcessingMode, params: object): Record<string, unknown> {
+        const preset = this.activePreset(mode);
+        return preset ? { ...params, preset: preset.name } : { ...params };
+    }
+
+    // ✏️ AJUSTE MANUAL (deja de estar en un preset). No valida: el panel muestra los errores
+    update(mode: ProcessingMode, changes: Partial<ProcessingConfig>): void {
+        this.configs = { ...this.configs, [mode]: { ...this.configs[mode], ...pickModeFields(changes, mode) } };
+        this.activePresetIds = { ...this.activePresetIds, [mode]: null };
+        this.persistConfig();
+    }
+
+    reset(mode: ProcessingMode): void {
+        this.configs = { ...this.configs, [mode]: defaultProcessingConfig(mode) };
+        this.activePresetIds = { ...this.activePresetIds, [mode]: null };
+        this.persistConfig();
+    }
+
+    applyPreset(mode: ProcessingMode, presetId: string): void {
+        const preset = this.snapshot.presets.find(p => p.id === presetId);
+        if (!preset) {
+            throw new Error(`Preset desconocido: ${presetId}`);
+        }
+        this.configs = { ...this.configs, [mode]: resolvePreset(preset, mode) };
+        this.activePresetIds = { ...this.activePresetIds, [mode]: preset.id };
+        this.persistConfig();
+    }
+
+    // 💾 GUARDAR LA CONFIGURACIÓN ACTUAL DEL MODO COMO PRESET (mismo nombre = se reemplaza)
+    savePreset(mode: ProcessingMode, name: string): ProcessingPreset {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            throw new Error('El preset necesita un nombre');
+        }
+        if (BUILT_IN_PRESETS.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+            throw new Error('No se puede sobrescribir un preset predefinido');
+        }
+        const errors = Object.values(validateProcessingConfig(this.configs[mode], mode));
+        if (errors.length > 0) {
+            throw new Error(errors[0]);
+        }
+
+        const existing = this.userPresets.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+        const preset: ProcessingPreset = {
+            id: existing?.id ?? `preset_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+            name: trimmed,
+            config: { ...existing?.config, ...this.configs[mode] }
+        };
+        this.userPresets = existing
+            ? this.userPresets.map(p => p.id === preset.id ? preset : p)
+            : [...this.userPresets, preset];
+        writeStorage(STORAGE_KEYS.PRESETS, this.userPresets);
+
+        this.activePresetIds = { ...this.activePresetIds, [mode]: preset.id };
+        this.persistConfig();
+        logger.info('Processing', `Preset "${preset.name}" guardado desde ${mode}`);
+        return preset;
+    }
+
+    // 🗑️ ELIMINAR PRESET DEL USUARIO (la configuración en uso se conserva)
+    deletePreset(presetId: string): void {
+        if (BUILT_IN_PRESETS.some(p => p.id === presetId)) {
+            throw new Error('No se puede eliminar un preset predefinido');
+        }
+        this.userPresets = this.userPresets.filter(p => p.id !== presetId);
+        writeStorage(STORAGE_KEYS.PRESETS, this.userPresets);
+
+        this.activePresetIds = {
+            image: this.activePresetIds.image === presetId ? null : this.activePresetIds.image,
+            video: this.activePresetIds.video === presetId ? null : this.activePresetIds.video
+        };
+        this.persistConfig();
+    }
+
+    private knownPresetId(presetId: string | null | undefined): string | null {
+        if (!presetId) return null;
+        return [...BUILT_IN_PRESETS, ...this.userPresets].some(p => p.id === presetId) ? presetId : null;
+    }
+
+    private persistConfig(): void {
+        const stored: StoredConfig = { configs: this.configs, activePresetIds: this.activePresetIds };
+        writeStorage(STORAGE_KEYS.CONFIG, stored);
+        this.emitChange();
+    }
+
+    private buildSnapshot(): ProcessingConfigSnapshot {
+        return {
+            configs: this.configs,
+            activePresetIds: this.activePresetIds,
+            presets: [...BUILT_IN_PRESETS, ...this.userPresets]
+        };
+    }
+
+    private emitChange(): void {
+        this.snapshot = this.buildSnapshot();
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const processingConfig = new ProcessingConfigService();
@@ -0,0 +1,48 @@
+// src/services/sessionRecorder.test.ts
+// ✅ TESTS DEL GRABADOR DE SESIONES: límite por tamaño y frames binarios en base64
+
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder } from './sessionRecorder';
+
+const update = (image_base64: string) => ({ type: 'streaming_update', data: { frame_data: { image_base64 } } });
+
+describe('SessionRecorder', () => {
+    it('se llena por tamaño acumulado, no por cantidad de mensajes', () => {
+        const recorder = new SessionRecorder(1000);
+        recorder.start('s');
+
+        expect(recorder.record(update('A'.repeat(400)))).toBe(true);
+        expect(recorder.record(update('B'.repeat(400)))).toBe(true);
+        expect(recorder.isFull).toBe(false);
+
+        // El tercero no cabe: no se agrega y la grabación queda llena
+        expect(recorder.record(update('C'.repeat(400)))).toBe(false);
+        expect(recorder.isFull).toBe(true);
+        expect(recorder.size).toBe(2);
+        expect(recorder.record({ type: 'pong' })).toBe(false);
+    });
+
+    it('cuenta los frames binarios por su tamaño en base64', async () => {
+        const recorder = new SessionRecorder(1000);
+        recorder.start('s');
+
+        expect(recorder.record({ type: 'streaming_update' }, new Blob([new Uint8Array(600)], { type: 'image/jpeg' }))).toBe(true);
+        expect(recorder.byteSize).toBeGreaterThanOrEqual(800);
+        expect(recorder.record({ type: 'streaming_update' }, new Blob([new Uint8Array(600)], { type: 'image/jpeg' }))).toBe(false);
+
+        const recording = await recorder.toRecording();
+        expect(recording.messages).toHaveLength(1);
+        expect(recording.messages[0].frame_base64).toHaveLength(800);
+    });
+
+    it('start() reinicia el tamaño acumulado', () => {
+        const recorder = new SessionRecorder(100);
+        recorder.start('s');
+        recorder.record(update('A'.repeat(200)));
+        expect(recorder.isFull).toBe(true);
+
+        recorder.start('s2');
+        expect(recorder.isFull).toBe(false);
+        expect(recorder.byteSize).toBe(0);
+    });
+});
@@ -0,0 +1,223 @@
+// src/services/sessionRecorder.ts
+// ✅ GRABACIÓN Y REPRODUCCIÓN DE SESIONES WEBSOCKET: captura los mensajes con su instante y los reproduce sin backend
+
+import { parsePayload, SessionRecordingSchema } from '../types/schemas';
+import { reportSchemaMismatch } from './apiClient';
+import type { RecordedMessage, SessionRecording, WebSocketMessage } from '../types/streaming';
+
+export const RECORDING_FORMAT = 'carid-ws-recording';
+export const RECORDING_VERSION = 1;
+
+// Límite de tamaño por grabación, medido como JSON (los frames en base64 son casi todo el peso;
+// download() vuelve a duplicarlo al serializar, así que una sesión larga no debe agotar la memoria)
+export const MAX_RECORDING_BYTES = 64 * 1024 * 1024;
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10] as const;
+
+// 🔧 CONVERSIÓN BLOB <-> BASE64 (frames del transporte binario)
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const result = String(reader.result);
+            resolve(result.slice(result.indexOf(',') + 1));
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+export function base64ToBlob(base64: string, type: string = 'image/jpeg'): Blob {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type });
+}
+
+// 🎬 GRABADOR
+export class SessionRecorder {
+    private entries: RecordedMessage[] = [];
+    private pendingFrames: Promise<void>[] = [];
+    private startedAt = 0;
+    private sessionId = '';
+    private active = false;
+    private bytes = 0;
+    private full = false;
+
+    constructor(private readonly maxBytes: number = MAX_RECORDING_BYTES) {}
+
+    get isActive(): boolean {
+        return this.active;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    // Tamaño estimado del JSON grabado (frames binarios contados ya en base64)
+    get byteSize(): number {
+        return this.bytes;
+    }
+
+    get isFull(): boolean {
+        return this.full;
+    }
+
+    start(sessionId: string): void {
+        this.entries = [];
+        this.pendingFrames = [];
+        this.bytes = 0;
+        this.full = false;
+        this.startedAt = Date.now();
+        this.sessionId = sessionId;
+        this.active = true;
+    }
+
+    stop(): void {
+        this.active = false;
+    }
+
+    // false si no se grabó (grabador detenido o lleno); el mensaje que no cabe marca la grabación como llena
+    record(message: WebSocketMessage, frameBlob: Blob | null = null): boolean {
+        if (!this.active || this.full) return false;
+
+        const cost = JSON.stringify(message).length + (frameBlob ? Math.ceil(frameBlob.size / 3) * 4 : 0);
+        if (this.bytes + cost > this.maxBytes) {
+            this.full = true;
+            return false;
+        }
+        this.bytes += cost;
+
+        // La entrada se agrega ya para conservar el orden; el JPEG se completa al convertirse
+        const entry: RecordedMessage = { t: Date.now() - this.startedAt, message };
+        this.entries.push(entry);
+
+        if (frameBlob) {
+            this.pendingFrames.push(
+                blobToBase64(frameBlob)
+                    .then(base64 => {
+                        entry.frame_base64 = base64;
+                    })
+                    .catch(() => {
+                        // El mensaje se conserva sin imagen
+                    })
+            );
+        }
+        return true;
+    }
+
+    async toRecording(): Promise<SessionRecording> {
+        await Promise.all(this.pendingFrames);
+        const last = this.entries[this.entries.length - 1];
+        return {
+            format: RECORDING_FORMAT,
+            version: RECORDING_VERSION,
+            session_id: this.sessionId,
+            started_at: this.startedAt,
+            duration_ms: last ? last.t : 0,
+            messages: this.entries
+        };
+    }
+
+    async download(filename?: string): Promise<void> {
+        const recording = await this.toRecording();
+        const name = filename ?? `carid_ws_${recording.session_id || 'sesion'}_${new Date(recording.started_at).toISOString().replace(/[:.]/g, '-')}.json`;
+        const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+}
+
+// 📂 LEER UNA GRABACIÓN DESDE TEXTO (archivo elegido por el usuario)
+export function parseSessionRecording(text: string): SessionRecording {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es JSON válido');
+    }
+
+    const result = parsePayload(SessionRecordingSchema, raw);
+    if (!result.success) {
+        reportSchemaMismatch('grabación WebSocket', result.issues, raw);
+        throw new Error('El archivo no es una grabación de sesión válida');
+    }
+    if (result.data.version > RECORDING_VERSION) {
+        throw new Error(`Versión de grabación no soportada: ${result.data.version}`);
+    }
+    return result.data;
+}
+
+// ▶️ REPRODUCTOR: entrega cada mensaje respetando los intervalos originales divididos por la velocidad
+export class SessionReplayer {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private recording: SessionRecording | null = null;
+    private index = 0;
+    private speed = 1;
+    private onMessage: ((entry: RecordedMessage, index: number) => void) | null = null;
+    private onEnd: (() => void) | null = null;
+
+    get isActive(): boolean {
+        return this.recording !== null;
+    }
+
+    start(
+        recording: SessionRecording,
+        speed: number,
+        onMessage: (entry: RecordedMessage, index: number) => void,
+        onEnd: () => void
+    ): void {
+        this.stop();
+        this.recording = recording;
+        this.index = 0;
+        this.speed = speed > 0 ? speed : 1;
+        this.onMessage = onMessage;
+        this.onEnd = onEnd;
+        this.scheduleNext(0);
+    }
+
+    // Aplica al siguiente intervalo; lo ya entregado no cambia
+    setSpeed(speed: number): void {
+        if (speed > 0) this.speed = speed;
+    }
+
+    stop(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.recording = null;
+        this.onMessage = null;
+        this.onEnd = null;
+    }
+
+    private scheduleNext(delayMs: number): void {
+        this.timer = setTimeout(() => this.deliver(), Math.max(0, delayMs));
+    }
+
+    private deliver(): void {
+        const recording = this.recording;
+        if (!recording) return;
+
+        const entry = recording.messages[this.index];
+        if (!entry) {
+            const onEnd = this.onEnd;
+            this.stop();
+            onEnd?.();
+            return;
+        }
+
+        this.onMessage?.(entry, this.index);
+        this.index++;
+
+        // onMessage pudo detener la reproducción
+        if (this.recording !== recording) return;
+        const next = recording.messages[this.index];
+        this.scheduleNext(next ? (next.t - entry.t) / this.speed : 0);
+    }
+}
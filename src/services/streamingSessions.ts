@@ -0,0 +1,60 @@
+// src/services/streamingSessions.ts
+// ✅ SESIÓN DE STREAMING PERSISTIDA: permite re-enganchar la misma sesión tras recargar la página
+
+import { logger } from './logger';
+
+const STORAGE_PREFIX = 'carid.streaming.session';
+
+// Pasado este tiempo el servidor ya habrá descartado la sesión
+const RECORD_TTL_MS = 6 * 60 * 60 * 1000;
+
+interface SavedSessionRecord {
+    sessionId: string;
+    wsBaseUrl: string;
+    savedAt: number;
+}
+
+function storageKey(key: string): string {
+    return `${STORAGE_PREFIX}.${key}`;
+}
+
+function readRecord(key: string): SavedSessionRecord | null {
+    try {
+        const raw = window.localStorage.getItem(storageKey(key));
+        const record = raw ? JSON.parse(raw) as SavedSessionRecord : null;
+        if (!record?.sessionId || Date.now() - record.savedAt >= RECORD_TTL_MS) return null;
+        return record;
+    } catch {
+        return null;
+    }
+}
+
+export const savedStreamingSessions = {
+    // Solo se reanuda contra el mismo backend en el que se creó la sesión; la de otro backend se descarta
+    get(key: string, wsBaseUrl: string): string | null {
+        const record = readRecord(key);
+        if (!record) return null;
+        if (record.wsBaseUrl !== wsBaseUrl) {
+            savedStreamingSessions.remove(key);
+            return null;
+        }
+        return record.sessionId;
+    },
+
+    save(key: string, sessionId: string, wsBaseUrl: string): void {
+        try {
+            const record: SavedSessionRecord = { sessionId, wsBaseUrl, savedAt: Date.now() };
+            window.localStorage.setItem(storageKey(key), JSON.stringify(record));
+        } catch (error) {
+            logger.warn('Session', 'No se pudo guardar la sesión de streaming', error);
+        }
+    },
+
+    remove(key: string): void {
+        try {
+            window.localStorage.removeItem(storageKey(key));
+        } catch {
+            // Sin localStorage no hay nada que limpiar
+        }
+    }
+};
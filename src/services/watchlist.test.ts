@@ -0,0 +1,117 @@
+// src/services/watchlist.test.ts
+// ✅ TESTS DE LA LISTA DE VIGILANCIA: patrones, persistencia e importación
+
+import { describe, expect, it } from 'vitest';
+import { WatchlistService, isValidPattern, matchesPattern } from './watchlist';
+
+describe('matchesPattern', () => {
+    it.each([
+        ['ABC-123', 'ABC-123', true],
+        ['ABC123', 'ABC-123', true],
+        ['abc 123', 'ABC-123', true],
+        ['ABC-124', 'ABC-123', false],
+        ['ABC-124', 'ABC-*', true],
+        ['ABX-124', 'ABC-*', false],
+        ['ABC-124', 'ABC-12?', true],
+        ['ABC-1245', 'ABC-12?', false],
+        ['B7K-482', '*482', true]
+    ])('%s con %s → %s', (plate, pattern, expected) => {
+        expect(matchesPattern(plate, pattern)).toBe(expected);
+    });
+
+    it('una lectura vacía no encaja ni con *', () => {
+        expect(matchesPattern('--', '*')).toBe(false);
+    });
+});
+
+describe('isValidPattern', () => {
+    it('exige al menos un carácter y solo admite letras, números, guion y comodines', () => {
+        expect(isValidPattern('abc-*')).toBe(true);
+        expect(isValidPattern('*')).toBe(false);
+        expect(isValidPattern('AB.C')).toBe(false);
+        expect(isValidPattern('')).toBe(false);
+    });
+});
+
+describe('WatchlistService', () => {
+    it('agrega normalizando y persiste en localStorage', () => {
+        const service = new WatchlistService();
+        const entry = service.add({ pattern: ' abc-* ', label: ' Robado ' });
+
+        expect(entry).toMatchObject({ pattern: 'ABC-*', label: 'Robado', priority: 'medium' });
+        expect(new WatchlistService().getSnapshot()).toEqual([entry]);
+    });
+
+    it('rechaza patrones inválidos y repetidos (con o sin guion)', () => {
+        const service = new WatchlistService();
+        service.add({ pattern: 'ABC-123' });
+
+        expect(() => service.add({ pattern: 'ABC/123' })).toThrow('El patrón solo admite');
+        expect(() => service.add({ pattern: 'abc123' })).toThrow('ya está en la lista');
+    });
+
+    it('notifica a los suscriptores y quita entradas', () => {
+        const service = new WatchlistService();
+        let changes = 0;
+        const unsubscribe = service.subscribe(() => changes++);
+        const entry = service.add({ pattern: 'ABC-123' });
+        service.remove(entry.id);
+        unsubscribe();
+        service.add({ pattern: 'XYZ-999' });
+
+        expect(changes).toBe(2);
+        expect(service.getSnapshot().map(e => e.pattern)).toEqual(['XYZ-999']);
+    });
+
+    it('match devuelve las coincidencias de mayor a menor prioridad', () => {
+        const service = new WatchlistService();
+        service.add({ pattern: 'ABC-*', priority: 'low' });
+        service.add({ pattern: 'ABC-123', priority: 'high' });
+        service.add({ pattern: 'XYZ-*', priority: 'high' });
+
+        expect(service.match('ABC123').map(e => e.pattern)).toEqual(['ABC-123', 'ABC-*']);
+        expect(service.match('QQQ-000')).toEqual([]);
+    });
+
+    it('importa CSV con cabecera, comentarios, alias de prioridad y errores por línea', () => {
+        const service = new WatchlistService();
+        service.add({ pattern: 'ABC-123' });
+
+        const result = service.importText([
+            'patron,etiqueta,prioridad',
+            '# lista de la comisaría',
+            'ABC123,Duplicada,alta',
+            'F2M-906;Requisitoria;alta',
+            'B7K-*,Flota,baja',
+            'A?,Mala,urgente',
+            'AB.C,Inválida,media'
+        ].join('\n'));
+
+        expect(result).toEqual({
+            added: 2,
+            skipped: 1,
+            errors: ['Entrada 4: prioridad desconocida "urgente"', 'Entrada 5: patrón no válido "AB.C"']
+        });
+        expect(service.getSnapshot().slice(1)).toMatchObject([
+            { pattern: 'F2M-906', label: 'Requisitoria', priority: 'high' },
+            { pattern: 'B7K-*', label: 'Flota', priority: 'low' }
+        ]);
+    });
+
+    it('importa el JSON exportado por otra instancia', () => {
+        const source = new WatchlistService();
+        source.add({ pattern: 'ABC-*', label: 'Robado', priority: 'high' });
+        const exported = source.exportJson();
+        source.clear();
+
+        const target = new WatchlistService();
+        expect(target.importText(exported)).toEqual({ added: 1, skipped: 0, errors: [] });
+        expect(target.getSnapshot()).toMatchObject([{ pattern: 'ABC-*', label: 'Robado', priority: 'high' }]);
+    });
+
+    it('rechaza un JSON que no es una lista de vigilancia', () => {
+        const service = new WatchlistService();
+        expect(() => service.importText('{"plates": 3}')).toThrow('no es una lista de vigilancia válida');
+        expect(() => service.importText('[{"pattern": ')).toThrow('no es JSON válido');
+    });
+});
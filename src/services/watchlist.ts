@@ -0,0 +1,252 @@
+// src/services/watchlist.ts
+// ✅ LISTA DE VIGILANCIA: placas de interés guardadas en el navegador y comparadas con cada lectura
+//
+// Los patrones se comparan sin guion ni espacios, así "ABC-*" también encaja con una lectura "ABC12".
+// '*' acepta cualquier cantidad de caracteres y '?' exactamente uno.
+
+import { parsePayload, WatchlistImportSchema } from '../types/schemas';
+import type {
+    WatchlistEntry,
+    WatchlistEntryInput,
+    WatchlistImportResult,
+    WatchlistPriority
+} from '../types/watchlist';
+import { reportSchemaMismatch } from './apiClient';
+import { logger } from './logger';
+
+const STORAGE_KEY = 'carid.watchlist';
+
+export const WATCHLIST_EXPORT_FORMAT = 'carid-watchlist';
+
+export const WATCHLIST_PRIORITY_LABELS: Record<WatchlistPriority, string> = {
+    high: 'Alta',
+    medium: 'Media',
+    low: 'Baja'
+};
+
+const PRIORITY_RANK: Record<WatchlistPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Valores aceptados en la columna de prioridad de un CSV
+const PRIORITY_ALIASES: Record<string, WatchlistPriority> = {
+    high: 'high', alta: 'high',
+    medium: 'medium', media: 'medium',
+    low: 'low', baja: 'low'
+};
+
+// 🔧 PATRONES
+export function normalizePattern(pattern: string): string {
+    return pattern.toUpperCase().replace(/\s+/g, '');
+}
+
+function compactPlate(text: string): string {
+    return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidPattern(pattern: string): boolean {
+    const normalized = normalizePattern(pattern);
+    return /^[A-Z0-9*?-]+$/.test(normalized) && /[A-Z0-9]/.test(normalized);
+}
+
+function compactPattern(pattern: string): string {
+    return normalizePattern(pattern).replace(/-/g, '');
+}
+
+function compilePattern(pattern: string): RegExp {
+    const source = compactPattern(pattern)
+        .replace(/\*/g, '[A-Z0-9]*')
+        .replace(/\?/g, '[A-Z0-9]');
+    return new RegExp(`^${source}$`);
+}
+
+export function matchesPattern(plateText: string, pattern: string): boolean {
+    const plate = compactPlate(plateText);
+    return plate.length > 0 && compilePattern(pattern).test(plate);
+}
+
+function createId(): string {
+    return `watch_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function readEntries(): WatchlistEntry[] {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const entries = raw ? JSON.parse(raw) as WatchlistEntry[] : [];
+        return Array.isArray(entries)
+            ? entries.filter(entry => entry && typeof entry.id === 'string' && isValidPattern(entry.pattern || ''))
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+// 📄 CSV: "patrón,etiqueta,prioridad" por línea; admite ';' y omite comentarios (#) y la cabecera
+function parseCsv(text: string): WatchlistEntryInput[] {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => line.split(/[;,]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1')))
+        .filter(([pattern]) => !/^(pattern|patron|patrón|placa|plate)$/i.test(pattern))
+        .map(([pattern, label, priority]) => ({
+            pattern,
+            label,
+            priority: PRIORITY_ALIASES[(priority || '').toLowerCase()] ?? (priority as WatchlistPriority)
+        }));
+}
+
+export class WatchlistService {
+    private entries: WatchlistEntry[];
+    private listeners = new Set<() => void>();
+    // Patrones compilados por id; se regeneran al cambiar la lista
+    private compiled = new Map<string, RegExp>();
+
+    constructor() {
+        this.entries = readEntries();
+        this.compile();
+    }
+
+    getSnapshot = (): WatchlistEntry[] => this.entries;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    // ➕ AGREGAR (lanza Error si el patrón no es válido o ya está en la lista)
+    add(input: WatchlistEntryInput): WatchlistEntry {
+        const entry = this.buildEntry(input);
+        this.entries = [...this.entries, entry];
+        this.emitChange();
+        return entry;
+    }
+
+    remove(id: string): void {
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        this.emitChange();
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.emitChange();
+    }
+
+    // 📥 IMPORTAR: JSON (array o archivo exportado) o CSV; los repetidos se omiten y los inválidos se reportan
+    importText(text: string): WatchlistImportResult {
+        const trimmed = text.trim();
+        let inputs: WatchlistEntryInput[];
+
+        if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+            let raw: unknown;
+            try {
+                raw = JSON.parse(trimmed);
+            } catch {
+                throw new Error('El archivo no es JSON válido');
+            }
+            const result = parsePayload(WatchlistImportSchema, raw);
+            if (!result.success) {
+                reportSchemaMismatch('lista de vigilancia', result.issues, raw);
+                throw new Error('El archivo no es una lista de vigilancia válida');
+            }
+            inputs = result.data;
+        } else {
+            inputs = parseCsv(trimmed);
+        }
+
+        const result: WatchlistImportResult = { added: 0, skipped: 0, errors: [] };
+        const added: WatchlistEntry[] = [];
+
+        inputs.forEach((input, index) => {
+            if (!isValidPattern(input.pattern || '')) {
+                result.errors.push(`Entrada ${index + 1}: patrón no válido "${input.pattern || ''}"`);
+                return;
+            }
+            if (input.priority && !(input.priority in PRIORITY_RANK)) {
+                result.errors.push(`Entrada ${index + 1}: prioridad desconocida "${input.priority}"`);
+                return;
+            }
+            const compact = compactPattern(input.pattern);
+            if ([...this.entries, ...added].some(entry => compactPattern(entry.pattern) === compact)) {
+                result.skipped += 1;
+                return;
+            }
+            added.push(this.createEntry(input));
+        });
+
+        if (added.length > 0) {
+            this.entries = [...this.entries, ...added];
+            this.emitChange();
+        }
+        result.added = added.length;
+
+        logger.info('Watchlist', `Importadas ${result.added} placas (${result.skipped} repetidas, ${result.errors.length} con error)`);
+        return result;
+    }
+
+    exportJson(): string {
+        return JSON.stringify({
+            format: WATCHLIST_EXPORT_FORMAT,
+            exported_at: new Date().toISOString(),
+            entries: this.entries.map(({ pattern, label, priority }) => ({ pattern, label, priority }))
+        }, null, 2);
+    }
+
+    download(): void {
+        const url = URL.createObjectURL(new Blob([this.exportJson()], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `carid_watchlist_${new Date().toISOString().slice(0, 10)}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+
+    // 🎯 ENTRADAS QUE COINCIDEN CON UNA LECTURA, de mayor a menor prioridad
+    match(plateText: string): WatchlistEntry[] {
+        const plate = compactPlate(plateText);
+        if (!plate) return [];
+        return this.entries
+            .filter(entry => this.compiled.get(entry.id)?.test(plate))
+            .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+    }
+
+    private buildEntry(input: WatchlistEntryInput): WatchlistEntry {
+        if (!isValidPattern(input.pattern || '')) {
+            throw new Error('El patrón solo admite letras, números, guion y los comodines * y ?');
+        }
+        const compact = compactPattern(input.pattern);
+        if (this.entries.some(entry => compactPattern(entry.pattern) === compact)) {
+            throw new Error(`${normalizePattern(input.pattern)} ya está en la lista de vigilancia`);
+        }
+        return this.createEntry(input);
+    }
+
+    private createEntry(input: WatchlistEntryInput): WatchlistEntry {
+        return {
+            id: createId(),
+            pattern: normalizePattern(input.pattern),
+            label: (input.label || '').trim(),
+            priority: input.priority || 'medium',
+            created_at: Date.now()
+        };
+    }
+
+    private compile(): void {
+        this.compiled = new Map(this.entries.map(entry => [entry.id, compilePattern(entry.pattern)]));
+    }
+
+    private emitChange(): void {
+        this.compile();
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+        } catch (error) {
+            logger.warn('Watchlist', 'No se pudo guardar la lista de vigilancia', error);
+        }
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// 🌐 INSTANCIA GLOBAL
+export const watchlist = new WatchlistService();
@@ -0,0 +1,81 @@
+// src/test/fakeWebSocket.ts
+// ✅ WEBSOCKET FALSO PARA TESTS: el test decide cuándo abre, qué recibe y cómo se cierra
+
+type Listener = ((event: Event | MessageEvent | CloseEvent) => void) | null;
+
+export class FakeWebSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+
+    // Todas las instancias creadas, en orden; la última es la conexión vigente del hook
+    static instances: FakeWebSocket[] = [];
+
+    static latest(): FakeWebSocket {
+        const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+        if (!socket) throw new Error('No se creó ningún WebSocket');
+        return socket;
+    }
+
+    static reset(): void {
+        FakeWebSocket.instances = [];
+    }
+
+    readonly url: string;
+    readyState = FakeWebSocket.CONNECTING;
+    binaryType: BinaryType = 'blob';
+    bufferedAmount = 0;
+    sent: string[] = [];
+    closedWith: { code?: number; reason?: string } | null = null;
+
+    onopen: Listener = null;
+    onmessage: Listener = null;
+    onclose: Listener = null;
+    onerror: Listener = null;
+
+    constructor(url: string) {
+        this.url = url;
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+        if (this.readyState !== FakeWebSocket.OPEN) throw new Error('WebSocket no abierto');
+        this.sent.push(data);
+    }
+
+    // Cierre pedido por el cliente: como en el navegador, no vuelve a notificar al hook
+    close(code?: number, reason?: string): void {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.closedWith = { code, reason };
+    }
+
+    // 🎛️ CONTROLES DEL SERVIDOR SIMULADO
+    open(): void {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.(new Event('open'));
+    }
+
+    receive(message: Record<string, unknown>): void {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) }));
+    }
+
+    // Mensaje binario (con binaryType 'arraybuffer', como lo configura el hook)
+    receiveBinary(data: ArrayBuffer): void {
+        this.onmessage?.(new MessageEvent('message', { data }));
+    }
+
+    drop(code = 1006, reason = ''): void {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+    }
+
+    // Mensajes JSON enviados por el hook, ya parseados
+    sentMessages(): Array<{ type: string; data?: Record<string, unknown> }> {
+        return this.sent.map(raw => JSON.parse(raw));
+    }
+
+    sentTypes(): string[] {
+        return this.sentMessages().map(message => message.type);
+    }
+}
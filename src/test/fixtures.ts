@@ -0,0 +1,38 @@
+// src/test/fixtures.ts
+// ✅ DATOS DE PRUEBA COMPARTIDOS ENTRE TESTS
+
+import type { UniquePlate } from '../types/streaming';
+
+// Placa única de streaming con formato válido; las confianzas derivan de avg_confidence y detection_count
+export function makeUniquePlate(plate_text: string, overrides: Partial<UniquePlate> = {}): UniquePlate {
+    const detection_count = overrides.detection_count ?? 4;
+    const avg_confidence = overrides.avg_confidence ?? 0.8;
+    return {
+        plate_text,
+        first_seen_frame: 10,
+        first_seen_timestamp: 0.4,
+        last_seen_frame: 40,
+        last_seen_timestamp: 1.6,
+        detection_count,
+        best_confidence: avg_confidence + 0.05,
+        best_frame: 25,
+        best_timestamp: 1,
+        avg_confidence,
+        total_confidence: avg_confidence * detection_count,
+        is_valid_format: true,
+        frame_history: [10, 25, 40],
+        confidence_trend: [avg_confidence],
+        avg_bbox: [100, 200, 180, 230],
+        ...overrides
+    };
+}
+
+// Mensaje del transporte binario 'header-jpeg-v1': [uint32 BE largo][cabecera JSON][JPEG]
+export function encodeBinaryFrame(header: unknown, jpeg: Uint8Array = new Uint8Array()): ArrayBuffer {
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const bytes = new Uint8Array(4 + headerBytes.length + jpeg.length);
+    new DataView(bytes.buffer).setUint32(0, headerBytes.length, false);
+    bytes.set(headerBytes, 4);
+    bytes.set(jpeg, 4 + headerBytes.length);
+    return bytes.buffer;
+}
@@ -0,0 +1,30 @@
+// src/test/setup.ts
+// ✅ PREPARACIÓN COMÚN DE LOS TESTS (Vitest + Testing Library sobre jsdom)
+
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { logger } from '../services/logger';
+
+// Los tests verifican estado, no la salida de consola
+logger.configure({ enable_console_logs: false });
+
+// jsdom no implementa Blob.arrayBuffer (los navegadores soportados sí)
+if (!Blob.prototype.arrayBuffer) {
+    Blob.prototype.arrayBuffer = function arrayBuffer(this: Blob): Promise<ArrayBuffer> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as ArrayBuffer);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsArrayBuffer(this);
+        });
+    };
+}
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    window.localStorage.clear();
+});
@@ -16,7 +16,11 @@ export interface PlateDetection {
     processing_method?: string;
 }
 
-export interface UniquePlate extends PlateDetection {
+// Las placas de video reportan is_valid_format en lugar de is_valid_plate
+export interface UniquePlate extends Omit<PlateDetection, 'overall_confidence' | 'is_valid_plate'> {
+    overall_confidence?: number;
+    is_valid_plate?: boolean;
+    is_valid_format: boolean;
     detection_count: number;
     best_confidence: number;
     frame_numbers?: number[];
@@ -97,24 +101,25 @@ export interface ImageDetectionResponse extends BaseApiResponse {
     };
 }
 
+// Forma normalizada: las respuestas antiguas con los campos en la raíz se anidan en `data`
+// al validarlas (ver VideoDetectionResponseSchema)
 export interface VideoDetectionResponse extends BaseApiResponse {
     data?: {
         success: boolean;
         unique_plates: UniquePlate[];
         best_plate?: UniquePlate;
         processing_time: number;
-        processing_summary: ProcessingSummary;
-        video_info: VideoInfo;
-        file_info: FileInfo;
+        processing_summary?: ProcessingSummary;
+        video_info?: VideoInfo;
+        file_info?: FileInfo;
         result_urls?: ResultUrls;
         enhancement_info?: EnhancementInfo;
     };
-    // Campos de compatibilidad para respuestas directas
-    unique_plates?: UniquePlate[];
-    processing_summary?: ProcessingSummary;
-    video_info?: VideoInfo;
-    result_urls?: ResultUrls;
-    enhancement_info?: EnhancementInfo;
+}
+
+// Parámetros de formulario aceptados por los endpoints de detección
+export interface DetectionRequestParams extends Partial<ProcessingConfig> {
+    save_best_frames?: boolean;
 }
 
 export interface QuickDetectionResponse extends BaseApiResponse {
@@ -134,7 +139,150 @@ export interface QuickVideoResponse extends BaseApiResponse {
     frames_processed: number;
 }
 
+// Respuestas de la API de streaming (REST)
+export interface StreamingUploadResponse extends BaseApiResponse {
+    session_id: string;
+    file_info: {
+        filename: string;
+        size_mb: number;
+        file_type: string;
+        dimensions?: { width: number; height: number };
+    };
+    next_steps: string[];
+}
+
+export interface StreamingSessionSummary {
+    session_id: string;
+    status: string;
+    created_at: number;
+    uptime: number;
+    is_processing: boolean;
+    has_video: boolean;
+}
+
+export interface SessionListResponse {
+    success: boolean;
+    total_sessions: number;
+    sessions: StreamingSessionSummary[];
+    server_capacity: {
+        max_connections: number;
+        current_connections: number;
+        available_slots: number;
+    };
+}
+
+export interface SessionInfoResponse {
+    success: boolean;
+    session: StreamingSessionSummary & {
+        last_activity: number;
+        video_path: string | null;
+    };
+}
+
+export interface StreamingHealthResponse {
+    status: 'healthy' | 'warning' | 'error';
+    timestamp: number;
+    service: string;
+    version: string;
+    issues: string[];
+    sessions: {
+        active: number;
+        max: number;
+        capacity_usage: number;
+    };
+    models: {
+        loaded: boolean;
+        device: string;
+    };
+    capabilities: {
+        websocket_streaming: boolean;
+        real_time_processing: boolean;
+        video_upload: boolean;
+        session_management: boolean;
+    };
+}
+
+export interface ConnectionTestResponse {
+    success: boolean;
+    message: string;
+    endpoints: Record<string, string>;
+    example_usage: Record<string, string>;
+    timestamp: number;
+}
+
+// Cámaras IP registradas en el backend (/api/v1/streaming/cameras)
+export type CameraSourceProtocol = 'rtsp' | 'mjpeg';
+
+export type CameraSourceStatus = 'idle' | 'connecting' | 'streaming' | 'error' | 'offline';
+
+// Parámetros de procesamiento con los que arranca la cámara si no se indican otros
+export interface CameraSourceDefaults {
+    roi_enabled: boolean;
+    roi_percentage: number;
+    six_char_filter: boolean;
+    confidence_threshold: number;
+    frame_skip: number;
+}
+
+export interface CameraSourceInput {
+    name: string;
+    url: string;
+    username?: string;
+    password?: string;
+    defaults: CameraSourceDefaults;
+}
+
+export interface CameraSource {
+    source_id: string;
+    name: string;
+    // El backend devuelve la URL sin credenciales
+    url: string;
+    protocol: CameraSourceProtocol;
+    has_credentials: boolean;
+    status: CameraSourceStatus;
+    last_error: string | null;
+    created_at: number;
+    defaults: CameraSourceDefaults;
+    active_session_id: string | null;
+}
+
+export interface CameraSourceResponse extends BaseApiResponse {
+    source: CameraSource;
+}
+
+export interface CameraSourceListResponse {
+    success: boolean;
+    total: number;
+    sources: CameraSource[];
+}
+
+export interface CameraSourceStartResponse extends BaseApiResponse {
+    session_id: string;
+    source_id: string;
+}
+
+// Subidas por partes reanudables (/api/v1/uploads)
+export type ChunkedUploadPurpose = 'video_detect' | 'streaming';
+
+export interface ChunkedUploadStatus {
+    upload_id: string;
+    size: number;
+    chunk_size: number;
+    received_bytes: number;
+    next_chunk_index: number;
+    completed: boolean;
+}
+
 // Tipos para hooks y utilidades
+// Progreso real de una subida (bytes enviados, velocidad y tiempo restante)
+export interface UploadProgress {
+    loaded: number;
+    total: number;
+    percent: number;
+    bytesPerSecond: number;
+    etaSeconds: number | null;
+}
+
 export interface ConfidenceLevel {
     value: number;
     label: string;
@@ -0,0 +1,41 @@
+// src/types/batch.ts
+// ✅ TIPOS DE LA COLA DE IMÁGENES EN LOTE
+
+import type { PlateDetection } from './alpr';
+
+export type BatchItemStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+// idle: sin trabajo en curso (nunca iniciada, terminada o cancelada)
+export type BatchQueueState = 'idle' | 'running' | 'paused';
+
+export interface BatchItemResult {
+    plates: PlateDetection[];
+    best_plate: PlateDetection | null;
+    processing_time: number;
+}
+
+export interface BatchItem {
+    id: string;
+    file: File;
+    // Ruta relativa dentro de la carpeta soltada (o el nombre si se eligió el archivo suelto)
+    path: string;
+    status: BatchItemStatus;
+    attempts: number;
+    error: string | null;
+    result: BatchItemResult | null;
+}
+
+export interface BatchQueueSnapshot {
+    items: BatchItem[];
+    state: BatchQueueState;
+    concurrency: number;
+}
+
+// Procesa un archivo; debe rechazar si se aborta la señal
+export type BatchProcessor = (file: File, signal: AbortSignal) => Promise<BatchItemResult>;
+
+// Archivo con la ruta con que se agregó a la cola
+export interface BatchFileInput {
+    file: File;
+    path: string;
+}
@@ -0,0 +1,31 @@
+// src/types/config.ts
+// ✅ TIPOS PARA LA CONFIGURACIÓN DE ENDPOINTS DEL BACKEND
+
+// Origen del endpoint activo (en orden de prioridad ascendente)
+export type BackendConfigSource = 'location' | 'env' | 'runtime' | 'user';
+
+export interface BackendProfile {
+    id: string;
+    name: string;
+    apiBaseUrl: string;
+    wsBaseUrl: string;
+    description?: string;
+    // Los perfiles de config.json o integrados no se pueden eliminar desde la UI
+    readOnly?: boolean;
+}
+
+// Contenido de /config.json servido junto a index.html
+export interface RuntimeConfigFile {
+    apiBaseUrl?: string;
+    wsBaseUrl?: string;
+    profiles?: Array<Partial<BackendProfile> & { id: string; apiBaseUrl: string }>;
+}
+
+export interface BackendConfigSnapshot {
+    apiBaseUrl: string;
+    wsBaseUrl: string;
+    source: BackendConfigSource;
+    activeProfileId: string | null;
+    profiles: BackendProfile[];
+    runtimeConfigLoaded: boolean;
+}
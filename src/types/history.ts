@@ -0,0 +1,85 @@
+// src/types/history.ts
+// ✅ TIPOS DEL HISTORIAL LOCAL DE DETECCIONES (IndexedDB)
+
+import type {
+    FileInfo,
+    PlateDetection as ImagePlateDetection,
+    ProcessingSummary,
+    UniquePlate as VideoUniquePlate,
+    VideoInfo
+} from './alpr';
+import type { UniquePlate as StreamingUniquePlate } from './streaming';
+
+export type HistoryMode = 'image' | 'video' | 'streaming';
+
+// Archivo o fuente analizada (en streaming también puede ser la cámara web o una cámara IP)
+export interface HistorySource {
+    name: string;
+    size_bytes: number | null;
+    type: string | null;
+}
+
+// Miniatura JPEG reducida de un frame con placa
+export interface HistoryThumbnail {
+    plate_text: string | null;
+    frame_number: number | null;
+    blob: Blob;
+}
+
+interface HistoryRunBase {
+    id: string;
+    // ms (Date.now()) en que terminó el análisis
+    created_at: number;
+    source: HistorySource | null;
+    summary: ProcessingSummary;
+    // Segundos reportados por el servidor (null si no los informó)
+    processing_time: number | null;
+    // Parámetros con que se lanzó el análisis
+    params: Record<string, unknown>;
+    thumbnails: HistoryThumbnail[];
+    // Textos de todas las placas, para buscar sin recorrer cada modo
+    plate_texts: string[];
+}
+
+export interface ImageHistoryRun extends HistoryRunBase {
+    mode: 'image';
+    plates: ImagePlateDetection[];
+    best_plate: ImagePlateDetection | null;
+    file_info: FileInfo | null;
+}
+
+export interface VideoHistoryRun extends HistoryRunBase {
+    mode: 'video';
+    plates: VideoUniquePlate[];
+    video_info: VideoInfo | null;
+}
+
+export interface StreamingHistoryRun extends HistoryRunBase {
+    mode: 'streaming';
+    plates: StreamingUniquePlate[];
+    session_id: string;
+}
+
+export type HistoryRun = ImageHistoryRun | VideoHistoryRun | StreamingHistoryRun;
+
+// Lo que entrega cada página al guardar: id, fecha e índice de búsqueda los pone el almacén
+type OmitStored<T> = T extends unknown ? Omit<T, 'id' | 'created_at' | 'plate_texts'> : never;
+export type HistoryRunInput = OmitStored<HistoryRun>;
+
+export interface HistoryFilters {
+    // Texto de placa (sin importar guion ni mayúsculas)
+    query: string;
+    mode: HistoryMode | 'all';
+    // Fechas yyyy-mm-dd del <input type="date">, inclusivas
+    from: string;
+    to: string;
+}
+
+// Fila común para listar placas de cualquier modo
+export interface HistoryPlateRow {
+    plate_text: string;
+    confidence: number;
+    detection_count: number;
+    is_valid: boolean;
+    character_confidences?: number[];
+}
@@ -0,0 +1,50 @@
+// src/types/preprocessing.ts
+// ✅ TIPOS DEL PREPROCESADO DE IMÁGENES EN EL NAVEGADOR (antes de subirlas)
+
+// Región normalizada (0-1) sobre la imagen ya orientada
+export interface CropRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PreprocessOptions {
+    // Lado mayor máximo en píxeles (null = sin reducir)
+    maxDimension: number | null;
+    crop: CropRegion | null;
+    // -100..100 (0 = sin cambio)
+    brightness: number;
+    contrast: number;
+    // 0..100 (0 = sin enfoque)
+    sharpen: number;
+    // Calidad JPEG de salida (0-1)
+    quality: number;
+}
+
+export interface PreprocessResult {
+    blob: Blob;
+    // Nada que cambiar: blob es una copia del original (postMessage la clona, así que no se compara por identidad)
+    unchanged: boolean;
+    width: number;
+    height: number;
+    original_width: number;
+    original_height: number;
+    // Valor EXIF leído del archivo (1 = sin rotación)
+    orientation: number;
+    elapsed_ms: number;
+}
+
+// Mensajes entre la página y el worker
+export interface PreprocessRequest {
+    id: number;
+    file: Blob;
+    options: PreprocessOptions;
+}
+
+// Trae result o error, nunca ambos
+export interface PreprocessResponse {
+    id: number;
+    result?: PreprocessResult;
+    error?: string;
+}
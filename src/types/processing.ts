@@ -0,0 +1,39 @@
+// src/types/processing.ts
+// ✅ TIPOS DE LA CONFIGURACIÓN DE DETECCIÓN COMPARTIDA (imagen y video) Y SUS PRESETS
+
+import type { ProcessingConfig } from './alpr';
+
+export type ProcessingMode = 'image' | 'video';
+
+export type ProcessingField = keyof ProcessingConfig;
+
+export interface ProcessingPreset {
+    id: string;
+    name: string;
+    description?: string;
+    // Solo los valores que cambia; el resto sale de la configuración por defecto de cada modo
+    config: Partial<ProcessingConfig>;
+    // Los presets integrados no se pueden eliminar ni sobrescribir
+    readOnly?: boolean;
+}
+
+export interface ProcessingConfigSnapshot {
+    configs: Record<ProcessingMode, ProcessingConfig>;
+    // null = valores ajustados a mano
+    activePresetIds: Record<ProcessingMode, string | null>;
+    presets: ProcessingPreset[];
+}
+
+// Mensaje de error por campo (vacío = configuración válida)
+export type ProcessingConfigErrors = Partial<Record<ProcessingField, string>>;
+
+// Cómo se edita cada campo en el panel (los numéricos se validan contra min/max)
+export interface ProcessingFieldSpec {
+    label: string;
+    kind: 'number' | 'boolean';
+    min?: number;
+    max?: number;
+    step?: number;
+    integer?: boolean;
+    hint?: string;
+}
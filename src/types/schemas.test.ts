@@ -0,0 +1,99 @@
+// src/types/schemas.test.ts
+// ✅ TESTS DE LOS ESQUEMAS: sobre WebSocket, actualizaciones del streaming y reporte de diferencias
+
+import { describe, expect, it, vi } from 'vitest';
+import { ApiClient, ApiError } from '../services/apiClient';
+import { logger } from '../services/logger';
+import { StreamingUpdateDataSchema, WebSocketMessageSchema, parsePayload } from './schemas';
+
+const detection = {
+    frame_num: 12,
+    plate_text: 'ABC-123',
+    overall_confidence: 0.9,
+    plate_bbox: [10, 20, 110, 60]
+};
+
+const updateData = {
+    frame_info: { frame_number: 12, timestamp: 0.5 },
+    current_detections: [detection]
+};
+
+// 🔌 SOBRE DE LOS MENSAJES
+describe('WebSocketMessageSchema', () => {
+    it('normaliza un streaming_update plano igual que uno anidado en data', () => {
+        const nested = WebSocketMessageSchema.parse({ type: 'streaming_update', data: updateData, timestamp: 1000 });
+        const flat = WebSocketMessageSchema.parse({ type: 'streaming_update', ...updateData, timestamp: 1000 });
+
+        expect(flat).toEqual(nested);
+        expect(flat.data).toEqual(updateData);
+        expect(flat.timestamp).toBe(1000);
+    });
+
+    it('no inventa data cuando el mensaje plano solo trae el sobre', () => {
+        const message = WebSocketMessageSchema.parse({ type: 'pong', timestamp: '2024-01-01T00:00:00Z' });
+
+        expect(message.data).toBeUndefined();
+        expect(message.timestamp).toBe(Date.parse('2024-01-01T00:00:00Z'));
+    });
+
+    it('extrae el texto de un error con objeto { message }', () => {
+        expect(WebSocketMessageSchema.parse({ type: 'error', error: { message: 'Sesión no encontrada' } }).error)
+            .toBe('Sesión no encontrada');
+    });
+});
+
+// 📡 ACTUALIZACIONES DEL STREAMING
+describe('StreamingUpdateDataSchema', () => {
+    it('completa los campos derivados de cada detección', () => {
+        const [parsed] = StreamingUpdateDataSchema.parse(updateData).current_detections;
+
+        expect(parsed.detection_id).toBe('12_ABC-123');
+        expect(parsed.plate_confidence).toBe(0.9);
+        expect(parsed.char_count).toBe(6);
+        expect(parsed.bbox_area).toBe(4000);
+    });
+
+    it('current_detections null significa "frame sin detecciones" y se vuelve una lista vacía', () => {
+        const parsed = StreamingUpdateDataSchema.parse({ ...updateData, current_detections: null });
+
+        expect(parsed.current_detections).toEqual([]);
+    });
+
+    it('current_detections ausente significa "sin cambios" y no se completa', () => {
+        const parsed = StreamingUpdateDataSchema.parse({ frame_info: updateData.frame_info });
+
+        expect(parsed.current_detections).toBeUndefined();
+        expect('current_detections' in parsed).toBe(false);
+    });
+
+    it('rechaza una detección incompleta con la ruta del campo', () => {
+        const result = parsePayload(StreamingUpdateDataSchema, {
+            current_detections: [{ ...detection, plate_text: undefined }]
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.issues).toEqual(['current_detections.0.plate_text: Required']);
+    });
+});
+
+// 🐞 REPORTE DE DIFERENCIAS
+describe('payload rechazado', () => {
+    it('llega a reportSchemaMismatch y se convierte en ApiError invalid_response', async () => {
+        const raw = { success: true, session: { session_id: 's-1', status: 42 } };
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(raw), {
+            status: 200,
+            headers: { 'content-type': 'application/json' }
+        })));
+        const warn = vi.spyOn(logger, 'warn');
+
+        const error = await new ApiClient('http://schemas.test').getSessionInfo('s-1').catch(err => err);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.code).toBe('invalid_response');
+        expect(warn).toHaveBeenCalledWith(
+            'Schema',
+            expect.stringContaining('/api/v1/streaming/sessions/s-1'),
+            { issues: expect.arrayContaining([expect.stringMatching(/^session\./)]), raw }
+        );
+    });
+});
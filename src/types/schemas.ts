@@ -0,0 +1,653 @@
+// src/types/schemas.ts
+// ✅ ESQUEMAS ZOD PARA VALIDAR Y NORMALIZAR LAS RESPUESTAS REST Y LOS MENSAJES WEBSOCKET
+
+import { z } from 'zod';
+import type {
+    PlateDetection,
+    UniquePlate,
+    ImageDetectionResponse,
+    VideoDetectionResponse,
+    QuickDetectionResponse,
+    QuickVideoResponse,
+    StreamingUploadResponse,
+    SessionListResponse,
+    SessionInfoResponse,
+    StreamingHealthResponse,
+    ConnectionTestResponse,
+    CameraSourceResponse,
+    CameraSourceListResponse,
+    CameraSourceStartResponse,
+    ChunkedUploadStatus
+} from './alpr';
+import type {
+    PlateDetection as StreamingPlateDetection,
+    UniquePlate as StreamingUniquePlate,
+    StreamingUpdateData,
+    SessionSnapshotState,
+    HeartbeatPong,
+    TransportSelection,
+    SessionRecording,
+    WebSocketMessage
+} from './streaming';
+import type { WatchlistEntryInput } from './watchlist';
+
+// 🔧 HELPERS
+// Sin strictNullChecks zod infiere todas las claves como opcionales. `complete` solo quita esos `?`
+// (la presencia de cada clave ya la validó zod) y cada esquema comprueba con `satisfies` que su
+// salida cumple la interfaz que valida.
+type Complete<T> = T extends object ? { [K in keyof T]-?: Complete<T[K]> } : T;
+
+const complete = <T>(value: T): Complete<T> => value as Complete<T>;
+
+// El backend (Python) envía null donde el frontend espera un campo ausente
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+    schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+const withDefault = <T extends z.ZodTypeAny>(schema: T, fallback: z.output<T>) =>
+    schema.nullish().transform((value): z.output<T> => value ?? fallback);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Sin strictNullChecks zod tipa la tupla con un resto `...unknown[]`; se reconstruye con sus cuatro valores
+const bboxTuple = z.tuple([z.number(), z.number(), z.number(), z.number()])
+    .transform(([x1, y1, x2, y2]): [number, number, number, number] => [x1, y1, x2, y2]);
+
+const timestampField = z.union([z.string(), z.number()]).transform(String);
+
+// 📦 RESPUESTAS LEGACY: mueve a `data` los campos que llegan en la raíz
+// (los campos anidados tienen prioridad, igual que el fallback que hacía cada página)
+function nestLegacyFields(keys: readonly string[]) {
+    return (raw: unknown): unknown => {
+        if (!isRecord(raw)) return raw;
+
+        const nested = isRecord(raw.data) ? raw.data : null;
+        const lifted: Record<string, unknown> = {};
+        keys.forEach(key => {
+            if (raw[key] !== undefined && raw[key] !== null) lifted[key] = raw[key];
+        });
+
+        if (!nested && Object.keys(lifted).length === 0) return raw;
+
+        const root = Object.fromEntries(Object.entries(raw).filter(([key]) => !keys.includes(key)));
+        const definedNested = Object.fromEntries(
+            Object.entries(nested || {}).filter(([, value]) => value !== undefined && value !== null)
+        );
+        return { ...root, data: { success: raw.success, ...lifted, ...definedNested } };
+    };
+}
+
+// 🖼️ PLACAS (REST)
+const BBoxSchema = z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number()
+});
+
+const plateBaseShape = {
+    plate_text: z.string(),
+    is_six_char_valid: optional(z.boolean()),
+    char_count: optional(z.number()),
+    bbox: optional(BBoxSchema),
+    plate_region_confidence: optional(z.number()),
+    text_confidence: optional(z.number()),
+    character_confidences: optional(z.array(z.number())),
+    processing_method: optional(z.string()),
+    // Variantes de nombre según la versión del backend
+    overall_confidence: optional(z.number()),
+    confidence: optional(z.number()),
+    is_valid_plate: optional(z.boolean()),
+    is_valid_format: optional(z.boolean())
+};
+
+export const PlateDetectionSchema = z.object(plateBaseShape).passthrough()
+    .transform(({ confidence, is_valid_format, ...plate }) => complete({
+        ...plate,
+        overall_confidence: plate.overall_confidence ?? confidence ?? 0,
+        is_valid_plate: plate.is_valid_plate ?? is_valid_format ?? false
+    }) satisfies PlateDetection);
+
+export const UniquePlateSchema = z.object({
+    ...plateBaseShape,
+    detection_count: optional(z.number()),
+    best_confidence: optional(z.number()),
+    frame_numbers: optional(z.array(z.number())),
+    first_detection_time: optional(z.number()),
+    last_detection_time: optional(z.number()),
+    first_seen_frame: optional(z.number()),
+    last_seen_frame: optional(z.number()),
+    best_frame: optional(z.number()),
+    avg_confidence: optional(z.number()),
+    stability_score: optional(z.number()),
+    duration_frames: optional(z.number())
+}).passthrough()
+    .transform(({ confidence, ...plate }) => complete({
+        ...plate,
+        detection_count: plate.detection_count ?? 1,
+        best_confidence: plate.best_confidence ?? plate.overall_confidence ?? confidence ?? plate.avg_confidence ?? 0,
+        is_valid_format: plate.is_valid_format ?? plate.is_valid_plate ?? false
+    }) satisfies UniquePlate);
+
+// 📊 BLOQUES COMUNES
+const ProcessingSummarySchema = z.object({
+    frames_processed: optional(z.number()),
+    frames_with_detections: optional(z.number()),
+    total_detections: withDefault(z.number(), 0),
+    unique_plates_found: optional(z.number()),
+    valid_detections: optional(z.number()),
+    valid_plates: optional(z.number()),
+    six_char_plates: optional(z.number()),
+    processing_steps: optional(z.array(z.string())),
+    enhancement_applied: optional(z.boolean())
+}).passthrough();
+
+const VideoInfoSchema = z.object({
+    duration_seconds: z.number(),
+    frame_count: z.number(),
+    fps: z.number(),
+    resolution: optional(z.string()),
+    width: optional(z.number()),
+    height: optional(z.number()),
+    frames_to_process: optional(z.number()),
+    file_size_mb: optional(z.number())
+}).passthrough();
+
+const EnhancementInfoSchema = z.object({
+    roi_enabled: withDefault(z.boolean(), false),
+    six_char_filter: withDefault(z.boolean(), false),
+    roi_percentage: withDefault(z.number(), 0)
+}).passthrough();
+
+const FileInfoSchema = z.object({
+    filename: z.string(),
+    size_mb: z.number(),
+    dimensions: optional(z.object({ width: z.number(), height: z.number() })),
+    format: optional(z.string())
+}).passthrough();
+
+const ResultUrlsSchema = z.object({
+    annotated_image_url: optional(z.string()),
+    annotated_video_url: optional(z.string()),
+    cropped_plates_urls: optional(z.array(z.string())),
+    best_frames_urls: optional(z.array(z.string())),
+    original: optional(z.string())
+}).passthrough();
+
+const baseResponseShape = {
+    success: z.boolean(),
+    message: withDefault(z.string(), ''),
+    timestamp: optional(timestampField)
+};
+
+// 🖼️ RESPUESTAS DE IMAGEN
+export const ImageDetectionResponseSchema = z.preprocess(
+    nestLegacyFields(['best_result', 'final_results', 'plates_processed', 'processing_time', 'processing_summary', 'file_info', 'result_urls']),
+    z.object({
+        ...baseResponseShape,
+        data: optional(z.object({
+            success: withDefault(z.boolean(), true),
+            best_result: withDefault(PlateDetectionSchema, null),
+            final_results: withDefault(z.array(PlateDetectionSchema), []),
+            plates_processed: withDefault(z.number(), 0),
+            processing_time: withDefault(z.number(), 0),
+            processing_summary: withDefault(ProcessingSummarySchema, { total_detections: 0 }),
+            file_info: FileInfoSchema,
+            result_urls: optional(ResultUrlsSchema)
+        }).passthrough())
+    }).passthrough()
+).transform(response => complete(response) satisfies ImageDetectionResponse);
+
+export const QuickDetectionResponseSchema = z.object({
+    ...baseResponseShape,
+    plate_text: withDefault(z.string(), ''),
+    confidence: withDefault(z.number(), 0),
+    is_valid_format: withDefault(z.boolean(), false),
+    processing_time: withDefault(z.number(), 0)
+}).passthrough().transform(response => complete(response) satisfies QuickDetectionResponse);
+
+// 🎬 RESPUESTAS DE VIDEO
+export const VideoDetectionResponseSchema = z.preprocess(
+    nestLegacyFields(['unique_plates', 'best_plate', 'processing_time', 'processing_summary', 'video_info', 'file_info', 'result_urls', 'enhancement_info']),
+    z.object({
+        ...baseResponseShape,
+        data: optional(z.object({
+            success: withDefault(z.boolean(), true),
+            unique_plates: withDefault(z.array(UniquePlateSchema), []),
+            best_plate: optional(UniquePlateSchema),
+            processing_time: withDefault(z.number(), 0),
+            processing_summary: optional(ProcessingSummarySchema),
+            video_info: optional(VideoInfoSchema),
+            file_info: optional(FileInfoSchema),
+            result_urls: optional(ResultUrlsSchema),
+            enhancement_info: optional(EnhancementInfoSchema)
+        }).passthrough())
+    }).passthrough()
+).transform(response => complete(response) satisfies VideoDetectionResponse);
+
+export const QuickVideoResponseSchema = z.object({
+    ...baseResponseShape,
+    unique_plates_count: withDefault(z.number(), 0),
+    best_plate_text: withDefault(z.string(), ''),
+    best_confidence: withDefault(z.number(), 0),
+    detection_count: withDefault(z.number(), 0),
+    is_valid_format: withDefault(z.boolean(), false),
+    processing_time: withDefault(z.number(), 0),
+    frames_processed: withDefault(z.number(), 0)
+}).passthrough().transform(response => complete(response) satisfies QuickVideoResponse);
+
+// 📡 RESPUESTAS REST DEL STREAMING
+export const StreamingUploadResponseSchema = z.object({
+    ...baseResponseShape,
+    session_id: z.string(),
+    file_info: z.object({
+        filename: z.string(),
+        size_mb: z.number(),
+        file_type: z.string(),
+        dimensions: optional(z.object({ width: z.number(), height: z.number() }))
+    }).passthrough(),
+    next_steps: withDefault(z.array(z.string()), [])
+}).passthrough().transform(response => complete(response) satisfies StreamingUploadResponse);
+
+const StreamingSessionSummarySchema = z.object({
+    session_id: z.string(),
+    status: z.string(),
+    created_at: withDefault(z.number(), 0),
+    uptime: withDefault(z.number(), 0),
+    is_processing: withDefault(z.boolean(), false),
+    has_video: withDefault(z.boolean(), false)
+}).passthrough();
+
+export const SessionListResponseSchema = z.object({
+    success: z.boolean(),
+    total_sessions: withDefault(z.number(), 0),
+    sessions: withDefault(z.array(StreamingSessionSummarySchema), []),
+    server_capacity: z.object({
+        max_connections: z.number(),
+        current_connections: z.number(),
+        available_slots: z.number()
+    }).passthrough()
+}).passthrough().transform(response => complete(response) satisfies SessionListResponse);
+
+export const SessionInfoResponseSchema = z.object({
+    success: z.boolean(),
+    session: StreamingSessionSummarySchema.extend({
+        last_activity: withDefault(z.number(), 0),
+        video_path: withDefault(z.string(), null)
+    })
+}).passthrough().transform(response => complete(response) satisfies SessionInfoResponse);
+
+export const StreamingHealthResponseSchema = z.object({
+    status: z.enum(['healthy', 'warning', 'error']),
+    timestamp: withDefault(z.number(), 0),
+    service: withDefault(z.string(), ''),
+    version: withDefault(z.string(), ''),
+    issues: withDefault(z.array(z.string()), []),
+    sessions: z.object({
+        active: z.number(),
+        max: z.number(),
+        capacity_usage: z.number()
+    }).passthrough(),
+    models: z.object({
+        loaded: z.boolean(),
+        device: withDefault(z.string(), '')
+    }).passthrough(),
+    capabilities: withDefault(z.object({
+        websocket_streaming: withDefault(z.boolean(), false),
+        real_time_processing: withDefault(z.boolean(), false),
+        video_upload: withDefault(z.boolean(), false),
+        session_management: withDefault(z.boolean(), false)
+    }).passthrough(), {
+        websocket_streaming: false,
+        real_time_processing: false,
+        video_upload: false,
+        session_management: false
+    })
+}).passthrough().transform(response => complete(response) satisfies StreamingHealthResponse);
+
+export const ConnectionTestResponseSchema = z.object({
+    success: z.boolean(),
+    message: withDefault(z.string(), ''),
+    endpoints: withDefault(z.record(z.string()), {}),
+    example_usage: withDefault(z.record(z.string()), {}),
+    timestamp: withDefault(z.number(), 0)
+}).passthrough().transform(response => complete(response) satisfies ConnectionTestResponse);
+
+// 📹 CÁMARAS IP
+const CameraSourceSchema = z.object({
+    source_id: z.string(),
+    name: z.string(),
+    url: z.string(),
+    protocol: z.enum(['rtsp', 'mjpeg']),
+    has_credentials: withDefault(z.boolean(), false),
+    status: withDefault(z.enum(['idle', 'connecting', 'streaming', 'error', 'offline']), 'idle'),
+    last_error: withDefault(z.string(), null),
+    created_at: withDefault(z.number(), 0),
+    defaults: withDefault(z.object({
+        roi_enabled: withDefault(z.boolean(), true),
+        roi_percentage: withDefault(z.number(), 10),
+        six_char_filter: withDefault(z.boolean(), true),
+        confidence_threshold: withDefault(z.number(), 0.3),
+        frame_skip: withDefault(z.number(), 2)
+    }).passthrough(), { roi_enabled: true, roi_percentage: 10, six_char_filter: true, confidence_threshold: 0.3, frame_skip: 2 }),
+    active_session_id: withDefault(z.string(), null)
+}).passthrough();
+
+export const CameraSourceResponseSchema = z.object({
+    ...baseResponseShape,
+    source: CameraSourceSchema
+}).passthrough().transform(response => complete(response) satisfies CameraSourceResponse);
+
+export const CameraSourceListResponseSchema = z.object({
+    success: z.boolean(),
+    total: optional(z.number()),
+    sources: withDefault(z.array(CameraSourceSchema), [])
+}).passthrough().transform(response => complete({
+    ...response,
+    total: response.total ?? response.sources.length
+}) satisfies CameraSourceListResponse);
+
+export const CameraSourceStartResponseSchema = z.object({
+    ...baseResponseShape,
+    session_id: z.string(),
+    source_id: z.string()
+}).passthrough().transform(response => complete(response) satisfies CameraSourceStartResponse);
+
+// 🧩 SUBIDAS POR PARTES
+export const ChunkedUploadStatusSchema = z.object({
+    upload_id: z.string(),
+    size: z.number(),
+    chunk_size: z.number().positive(),
+    received_bytes: withDefault(z.number(), 0),
+    next_chunk_index: optional(z.number()),
+    completed: optional(z.boolean())
+}).passthrough().transform(status => complete({
+    ...status,
+    next_chunk_index: status.next_chunk_index ?? Math.floor(status.received_bytes / status.chunk_size),
+    completed: status.completed ?? status.received_bytes >= status.size
+}) satisfies ChunkedUploadStatus);
+
+// 🎯 PLACAS DEL STREAMING (WebSocket)
+export const StreamingPlateDetectionSchema = z.object({
+    detection_id: optional(z.union([z.string(), z.number()]).transform(String)),
+    frame_num: z.number(),
+    timestamp: withDefault(z.number(), 0),
+    plate_text: z.string(),
+    raw_plate_text: optional(z.string()),
+    overall_confidence: z.number(),
+    plate_confidence: optional(z.number()),
+    char_confidence: optional(z.number()),
+    plate_bbox: bboxTuple,
+    is_valid_plate: optional(z.boolean()),
+    is_valid_format: optional(z.boolean()),
+    char_count: optional(z.number()),
+    bbox_area: optional(z.number()),
+    six_char_validated: optional(z.boolean()),
+    is_six_char_format: optional(z.boolean()),
+    six_char_confidence: optional(z.number()),
+    auto_formatted: optional(z.boolean()),
+    is_auto_formatted: optional(z.boolean()),
+    validation_info: optional(z.record(z.unknown())),
+    processing_method: optional(z.string())
+}).passthrough()
+    .transform(({ is_valid_format, ...detection }) => {
+        const [x1, y1, x2, y2] = detection.plate_bbox;
+        const autoFormatted = detection.auto_formatted ?? detection.is_auto_formatted ?? false;
+        const sixCharValidated = detection.six_char_validated ?? detection.is_six_char_format ?? false;
+        return complete({
+            ...detection,
+            detection_id: detection.detection_id ?? `${detection.frame_num}_${detection.plate_text}`,
+            plate_confidence: detection.plate_confidence ?? detection.overall_confidence,
+            char_confidence: detection.char_confidence ?? detection.overall_confidence,
+            is_valid_plate: detection.is_valid_plate ?? is_valid_format ?? false,
+            char_count: detection.char_count ?? detection.plate_text.replace(/[-\s]/g, '').length,
+            bbox_area: detection.bbox_area ?? Math.max(0, x2 - x1) * Math.max(0, y2 - y1),
+            six_char_validated: sixCharValidated,
+            is_six_char_format: sixCharValidated,
+            auto_formatted: autoFormatted,
+            is_auto_formatted: autoFormatted
+        }) satisfies StreamingPlateDetection;
+    });
+
+export const StreamingUniquePlateSchema = z.object({
+    plate_text: z.string(),
+    raw_plate_text: optional(z.string()),
+    first_seen_frame: optional(z.number()),
+    first_seen_timestamp: optional(z.number()),
+    last_seen_frame: optional(z.number()),
+    last_seen_timestamp: optional(z.number()),
+    detection_count: z.number(),
+    best_confidence: z.number(),
+    best_frame: optional(z.number()),
+    best_timestamp: optional(z.number()),
+    avg_confidence: optional(z.number()),
+    total_confidence: optional(z.number()),
+    is_valid_format: optional(z.boolean()),
+    is_valid_plate: optional(z.boolean()),
+    frame_history: withDefault(z.array(z.number()), []),
+    confidence_trend: withDefault(z.array(z.number()), []),
+    status: optional(z.string()),
+    is_six_char_valid: optional(z.boolean()),
+    six_char_detection_count: optional(z.number()),
+    best_six_char_confidence: optional(z.number()),
+    six_char_validation_score: optional(z.number()),
+    auto_formatted: optional(z.boolean()),
+    is_auto_formatted: optional(z.boolean()),
+    spatial_key: optional(z.string()),
+    spatial_region: optional(z.string()),
+    avg_bbox: optional(bboxTuple),
+    region_rank: optional(z.number()),
+    char_count: optional(z.number()),
+    stability_score: optional(z.number()),
+    duration_frames: optional(z.number()),
+    processing_method: optional(z.string())
+}).passthrough()
+    .transform(({ is_valid_plate, ...plate }) => {
+        const bestFrame = plate.best_frame ?? plate.first_seen_frame ?? 0;
+        const bestTimestamp = plate.best_timestamp ?? plate.first_seen_timestamp ?? 0;
+        const avgConfidence = plate.avg_confidence ?? plate.best_confidence;
+        const autoFormatted = plate.auto_formatted ?? plate.is_auto_formatted ?? false;
+        return complete({
+            ...plate,
+            first_seen_frame: plate.first_seen_frame ?? bestFrame,
+            first_seen_timestamp: plate.first_seen_timestamp ?? bestTimestamp,
+            last_seen_frame: plate.last_seen_frame ?? bestFrame,
+            last_seen_timestamp: plate.last_seen_timestamp ?? bestTimestamp,
+            best_frame: bestFrame,
+            best_timestamp: bestTimestamp,
+            avg_confidence: avgConfidence,
+            total_confidence: plate.total_confidence ?? avgConfidence * plate.detection_count,
+            is_valid_format: plate.is_valid_format ?? is_valid_plate ?? false,
+            auto_formatted: autoFormatted,
+            is_auto_formatted: autoFormatted
+        }) satisfies StreamingUniquePlate;
+    });
+
+// 📡 ACTUALIZACIONES DEL STREAMING
+export const StreamingUpdateDataSchema = z.object({
+    frame_info: optional(z.object({
+        frame_number: z.number(),
+        timestamp: withDefault(z.number(), 0),
+        processing_time: withDefault(z.number(), 0),
+        success: withDefault(z.boolean(), true),
+        roi_used: optional(z.boolean()),
+        six_char_filter_applied: optional(z.boolean()),
+        six_char_detections_in_frame: optional(z.number()),
+        auto_formatted_detections_in_frame: optional(z.number())
+    }).passthrough()),
+    progress: optional(z.object({
+        processed_frames: withDefault(z.number(), 0),
+        total_frames: withDefault(z.number(), 0),
+        progress_percent: withDefault(z.number(), 0),
+        processing_speed: withDefault(z.number(), 0)
+    }).passthrough()),
+    // null significa "frame sin detecciones" y debe limpiar la lista; ausente significa "sin cambios"
+    current_detections: z.array(StreamingPlateDetectionSchema).nullable()
+        .transform(value => value ?? [])
+        .optional(),
+    detection_summary: optional(z.object({
+        total_detections: withDefault(z.number(), 0),
+        unique_plates_count: withDefault(z.number(), 0),
+        valid_plates_count: withDefault(z.number(), 0),
+        frames_with_detections: withDefault(z.number(), 0),
+        best_plates: withDefault(z.array(StreamingUniquePlateSchema), []),
+        latest_detections: withDefault(z.array(StreamingPlateDetectionSchema), []),
+        six_char_plates_count: optional(z.number()),
+        auto_formatted_plates_count: optional(z.number()),
+        best_six_char_plates: optional(z.array(StreamingUniquePlateSchema)),
+        best_auto_formatted_plates: optional(z.array(StreamingUniquePlateSchema)),
+        detection_density: optional(z.number()),
+        six_char_detection_rate: optional(z.number()),
+        auto_formatted_rate: optional(z.number()),
+        session_id: optional(z.string()),
+        spatial_regions_count: optional(z.number()),
+        spatial_distribution: optional(z.record(z.number()))
+    }).passthrough()),
+    frame_data: optional(z.object({
+        image_base64: z.string(),
+        thumbnail_base64: optional(z.string()),
+        original_size: withDefault(z.tuple([z.number(), z.number()]), [0, 0]),
+        compressed_size: optional(z.number()),
+        quality_used: withDefault(z.number(), 0)
+    }).passthrough().transform(frame => ({
+        ...frame,
+        original_size: frame.original_size as [number, number],
+        compressed_size: frame.compressed_size ?? frame.image_base64.length
+    }))),
+    timing: optional(z.object({
+        elapsed_time: withDefault(z.number(), 0),
+        estimated_remaining: withDefault(z.number(), 0)
+    }).passthrough()),
+    quality_info: optional(z.object({
+        current_quality: withDefault(z.number(), 0),
+        recommended_frame_skip: withDefault(z.number(), 0),
+        adaptive_enabled: withDefault(z.boolean(), false)
+    }).passthrough()),
+    enhancement_stats: optional(z.object({
+        roi_processing: optional(z.boolean()),
+        six_char_filter_active: optional(z.boolean()),
+        auto_dash_formatting: optional(z.boolean()),
+        total_six_char_detections: optional(z.number()),
+        total_auto_formatted_detections: optional(z.number()),
+        six_char_plates_found: optional(z.number()),
+        auto_formatted_plates_found: optional(z.number()),
+        six_char_detection_rate: optional(z.number()),
+        auto_formatted_rate: optional(z.number())
+    }).passthrough()),
+    all_plates_summary: optional(z.object({
+        complete_list: optional(z.array(StreamingUniquePlateSchema)),
+        count_by_confidence: optional(z.object({
+            high: z.number(),
+            medium: z.number(),
+            low: z.number()
+        })),
+        spatial_coverage: optional(z.object({
+            regions_active: z.number(),
+            distribution: z.record(z.number())
+        })),
+        detection_metrics: optional(z.object({
+            total_unique_plates: z.number(),
+            plates_per_region: z.number(),
+            avg_confidence: z.number()
+        }))
+    }).passthrough()),
+    spatial_analysis: optional(z.object({
+        regions_found: optional(z.record(z.number())),
+        region_count: optional(z.number()),
+        plates_by_region: optional(z.record(z.array(StreamingUniquePlateSchema)))
+    }).passthrough())
+}).passthrough().transform(update => complete(update) satisfies StreamingUpdateData);
+
+// 📸 ESTADO DE LA SESIÓN EN EL SNAPSHOT (el resto se valida con StreamingUpdateDataSchema)
+export const SessionSnapshotStateSchema = z.object({
+    status: optional(z.string()),
+    is_processing: optional(z.boolean()),
+    is_paused: optional(z.boolean())
+}).passthrough().transform(snapshot => complete(snapshot) satisfies SessionSnapshotState);
+
+// 💓 RESPUESTA AL PING DE HEARTBEAT
+export const HeartbeatPongSchema = z.object({
+    seq: optional(z.number()),
+    ts: optional(z.number())
+}).passthrough().transform(pong => complete(pong) satisfies HeartbeatPong);
+
+// 🧬 TRANSPORTE DE FRAMES NEGOCIADO (un valor desconocido cae al JSON)
+export const TransportSelectionSchema = z.object({
+    frame_transport: z.string().nullish().transform(value => (value === 'binary' ? 'binary' : 'json')),
+    binary_format: optional(z.string())
+}).passthrough().transform(selection => complete(selection) satisfies TransportSelection);
+
+// 🔌 SOBRE DE LOS MENSAJES WEBSOCKET
+const ENVELOPE_KEYS = ['type', 'data', 'error', 'timestamp'];
+
+// Los mensajes antiguos enviaban el contenido en la raíz en lugar de dentro de `data`
+function nestLegacyMessage(raw: unknown): unknown {
+    if (!isRecord(raw) || raw.data !== undefined) return raw;
+
+    const payload = Object.fromEntries(
+        Object.entries(raw).filter(([key]) => !ENVELOPE_KEYS.includes(key))
+    );
+    return Object.keys(payload).length > 0 ? { ...raw, data: payload } : raw;
+}
+
+export const WebSocketMessageSchema = z.preprocess(nestLegacyMessage, z.object({
+    type: withDefault(z.string(), 'unknown'),
+    data: optional(z.record(z.unknown())),
+    error: optional(z.union([
+        z.string(),
+        z.object({ message: z.string() }).passthrough().transform(error => error.message)
+    ])),
+    timestamp: optional(z.union([
+        z.number(),
+        z.string().transform(value => Date.parse(value)).pipe(z.number().finite())
+    ]))
+})).transform(message => complete(message) satisfies WebSocketMessage);
+
+// 🎬 GRABACIÓN DE UNA SESIÓN WEBSOCKET (archivo cargado por el usuario)
+export const SessionRecordingSchema = z.object({
+    format: z.literal('carid-ws-recording'),
+    version: z.number().int().positive(),
+    session_id: withDefault(z.string(), 'grabacion'),
+    started_at: withDefault(z.number(), 0),
+    duration_ms: withDefault(z.number(), 0),
+    messages: z.array(z.object({
+        t: z.number().nonnegative(),
+        message: WebSocketMessageSchema,
+        frame_base64: optional(z.string())
+    }))
+}).passthrough().transform(recording => complete(recording) satisfies SessionRecording);
+
+// 🚨 LISTA DE VIGILANCIA IMPORTADA: array de entradas o { entries: [...] } (el formato exportado)
+const WatchlistEntryInputSchema = z.object({
+    pattern: z.string().min(1),
+    label: optional(z.string()),
+    priority: optional(z.enum(['low', 'medium', 'high']))
+}).passthrough().transform(entry => complete(entry) satisfies WatchlistEntryInput);
+
+export const WatchlistImportSchema = z.union([
+    z.array(WatchlistEntryInputSchema),
+    z.object({ entries: z.array(WatchlistEntryInputSchema) }).transform(file => file.entries)
+]).transform(entries => complete(entries) satisfies WatchlistEntryInput[]);
+
+// 🐞 REPORTE DE DIFERENCIAS DE ESQUEMA
+export function formatSchemaIssues(error: z.ZodError, limit: number = 5): string[] {
+    const issues = error.issues.slice(0, limit).map(issue =>
+        `${issue.path.join('.') || '(raíz)'}: ${issue.message}`
+    );
+    if (error.issues.length > limit) {
+        issues.push(`... y ${error.issues.length - limit} más`);
+    }
+    return issues;
+}
+
+// Resultado de zod más las diferencias ya formateadas (vacías si coincide); quien parsea decide cómo registrarlas
+export type ParsedPayload<Output> = z.SafeParseReturnType<unknown, Output> & { issues: string[] };
+
+// ✅ PARSEAR UN PAYLOAD
+export function parsePayload<Output>(
+    schema: z.ZodType<Output, z.ZodTypeDef, unknown>,
+    raw: unknown
+): ParsedPayload<Output> {
+    const result = schema.safeParse(raw);
+    return { ...result, issues: result.success ? [] : formatSchemaIssues(result.error) };
+}
@@ -0,0 +1,184 @@
+// src/types/streaming.test.ts
+// ✅ TESTS DE LOS HELPERS Y TYPE GUARDS DEL STREAMING
+
+import { describe, expect, it } from 'vitest';
+import {
+    UniquePlate,
+    calculateDetectionStats,
+    calculateSpatialStats,
+    groupPlatesByConfidence,
+    isAllPlatesSummary,
+    isEnhancementStats,
+    isPlateDetection,
+    isStreamingUpdateData,
+    isSystemMessageData,
+    isUniquePlate,
+    isUploadProgressData,
+    sortPlatesByPriority,
+} from './streaming';
+import { makeUniquePlate as plate } from '../test/fixtures';
+
+const texts = (plates: UniquePlate[]) => plates.map(p => p.plate_text);
+
+// 🔧 TYPE GUARDS
+describe('type guards', () => {
+    it('isStreamingUpdateData acepta cualquier objeto y rechaza primitivos', () => {
+        expect(isStreamingUpdateData({})).toBe(true);
+        expect(isStreamingUpdateData({ frame_info: { frame_number: 1 } })).toBe(true);
+        expect(isStreamingUpdateData(null)).toBe(false);
+        expect(isStreamingUpdateData('update')).toBe(false);
+        expect(isStreamingUpdateData(undefined)).toBe(false);
+    });
+
+    it('isUploadProgressData exige progress numérico', () => {
+        expect(isUploadProgressData({ progress: 42 })).toBe(true);
+        expect(isUploadProgressData({ progress: '42' })).toBe(false);
+        expect(isUploadProgressData({})).toBe(false);
+        expect(isUploadProgressData(null)).toBe(false);
+    });
+
+    it('isSystemMessageData exige message de texto', () => {
+        expect(isSystemMessageData({ message: 'ok' })).toBe(true);
+        expect(isSystemMessageData({ message: 1 })).toBe(false);
+        expect(isSystemMessageData(42)).toBe(false);
+    });
+
+    it('isEnhancementStats exige los flags de ROI y filtro de 6 caracteres', () => {
+        expect(isEnhancementStats({ roi_processing: true, six_char_filter_active: false })).toBe(true);
+        expect(isEnhancementStats({ roi_processing: true })).toBe(false);
+        expect(isEnhancementStats(null)).toBe(false);
+    });
+
+    it('isAllPlatesSummary exige complete_list como arreglo', () => {
+        expect(isAllPlatesSummary({ complete_list: [] })).toBe(true);
+        expect(isAllPlatesSummary({ complete_list: {} })).toBe(false);
+        expect(isAllPlatesSummary({})).toBe(false);
+    });
+
+    it('isUniquePlate exige plate_text de texto y best_confidence', () => {
+        expect(isUniquePlate(plate('ABC-123'))).toBe(true);
+        expect(isUniquePlate({ plate_text: 'ABC-123' })).toBe(false);
+        expect(isUniquePlate({ plate_text: 123, best_confidence: 0.9 })).toBe(false);
+        expect(isUniquePlate(null)).toBe(false);
+    });
+
+    it('isPlateDetection exige detection_id de texto y plate_text', () => {
+        expect(isPlateDetection({ detection_id: 'det_1', plate_text: 'ABC-123' })).toBe(true);
+        expect(isPlateDetection({ detection_id: 1, plate_text: 'ABC-123' })).toBe(false);
+        expect(isPlateDetection({ detection_id: 'det_1' })).toBe(false);
+        expect(isPlateDetection(undefined)).toBe(false);
+    });
+});
+
+// 🥇 ORDEN POR PRIORIDAD
+describe('sortPlatesByPriority', () => {
+    it('antepone 6 caracteres válidos, luego auto-formateadas, luego formato válido', () => {
+        const sorted = sortPlatesByPriority([
+            plate('PLAIN', { is_valid_format: false, best_confidence: 0.99 }),
+            plate('VALID', { is_valid_format: true, best_confidence: 0.9 }),
+            plate('AUTO', { is_auto_formatted: true, best_confidence: 0.5 }),
+            plate('SIX', { is_six_char_valid: true, best_confidence: 0.4 })
+        ]);
+
+        expect(texts(sorted)).toEqual(['SIX', 'AUTO', 'VALID', 'PLAIN']);
+    });
+
+    it('trata auto_formatted e is_auto_formatted como equivalentes', () => {
+        const sorted = sortPlatesByPriority([
+            plate('NONE', { best_confidence: 0.95 }),
+            plate('LEGACY', { auto_formatted: true, best_confidence: 0.6 }),
+            plate('NEW', { is_auto_formatted: true, best_confidence: 0.7 })
+        ]);
+
+        expect(texts(sorted)).toEqual(['NEW', 'LEGACY', 'NONE']);
+    });
+
+    it('desempata por mayor confianza', () => {
+        const sorted = sortPlatesByPriority([
+            plate('LOW', { is_six_char_valid: true, best_confidence: 0.61 }),
+            plate('HIGH', { is_six_char_valid: true, best_confidence: 0.93 }),
+            plate('MID', { is_six_char_valid: true, best_confidence: 0.8 })
+        ]);
+
+        expect(texts(sorted)).toEqual(['HIGH', 'MID', 'LOW']);
+    });
+
+    it('ordena el mismo arreglo que recibe', () => {
+        const plates = [plate('B', { best_confidence: 0.5 }), plate('A', { best_confidence: 0.9 })];
+        expect(sortPlatesByPriority(plates)).toBe(plates);
+        expect(texts(plates)).toEqual(['A', 'B']);
+    });
+});
+
+// 📊 ESTADÍSTICAS
+describe('calculateDetectionStats', () => {
+    it('devuelve ceros sin placas', () => {
+        expect(calculateDetectionStats([])).toEqual({
+            totalPlates: 0,
+            sixCharPlates: 0,
+            validPlates: 0,
+            autoFormattedPlates: 0,
+            avgConfidence: 0,
+            avgDetectionCount: 0
+        });
+    });
+
+    it('cuenta por categoría y promedia confianza y detecciones', () => {
+        const stats = calculateDetectionStats([
+            plate('ABC-123', { is_six_char_valid: true, is_valid_format: true, auto_formatted: true, best_confidence: 0.9, detection_count: 6 }),
+            plate('B7K-482', { is_six_char_valid: true, is_valid_format: false, is_auto_formatted: true, best_confidence: 0.8, detection_count: 2 }),
+            plate('XY12', { is_valid_format: true, best_confidence: 0.4, detection_count: 1 })
+        ]);
+
+        expect(stats.totalPlates).toBe(3);
+        expect(stats.sixCharPlates).toBe(2);
+        expect(stats.validPlates).toBe(2);
+        expect(stats.autoFormattedPlates).toBe(2);
+        expect(stats.avgConfidence).toBeCloseTo(0.7);
+        expect(stats.avgDetectionCount).toBe(3);
+    });
+});
+
+describe('calculateSpatialStats', () => {
+    it('devuelve región nula sin datos', () => {
+        expect(calculateSpatialStats({})).toEqual({
+            totalRegions: 0,
+            avgPlatesPerRegion: 0,
+            mostActiveRegion: null,
+            maxPlatesInRegion: 0
+        });
+    });
+
+    it('identifica la región más activa y el promedio por región', () => {
+        expect(calculateSpatialStats({ left: 2, center: 5, right: 2 })).toEqual({
+            totalRegions: 3,
+            avgPlatesPerRegion: 3,
+            mostActiveRegion: 'center',
+            maxPlatesInRegion: 5
+        });
+    });
+
+    it('en empate conserva la primera región encontrada', () => {
+        expect(calculateSpatialStats({ left: 4, right: 4 }).mostActiveRegion).toBe('left');
+    });
+});
+
+describe('groupPlatesByConfidence', () => {
+    it('agrupa con umbrales 0.8 (alta) y 0.6 (media) inclusivos', () => {
+        const groups = groupPlatesByConfidence([
+            plate('H1', { best_confidence: 0.95 }),
+            plate('H2', { best_confidence: 0.8 }),
+            plate('M1', { best_confidence: 0.79 }),
+            plate('M2', { best_confidence: 0.6 }),
+            plate('L1', { best_confidence: 0.59 })
+        ]);
+
+        expect(texts(groups.high)).toEqual(['H1', 'H2']);
+        expect(texts(groups.medium)).toEqual(['M1', 'M2']);
+        expect(texts(groups.low)).toEqual(['L1']);
+    });
+
+    it('devuelve grupos vacíos sin placas', () => {
+        expect(groupPlatesByConfidence([])).toEqual({ high: [], medium: [], low: [] });
+    });
+});
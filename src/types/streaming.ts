@@ -1,6 +1,9 @@
 // src/types/streaming.ts
 // ✅ INTERFACES COMPLETAMENTE ACTUALIZADAS CON SOPORTE COMPLETO PARA PLACAS DE 6 CARACTERES
 
+import type { UploadProgress, CameraSource } from './alpr';
+import type { WatchlistHit } from './watchlist';
+
 export interface StreamingFrame {
     image: string;
     frameNumber: number;
@@ -87,12 +90,56 @@ export interface StreamingState {
     uniquePlates: UniquePlate[];
     progress: StreamingProgress;
     processingSpeed: number;
+    // Progreso real de la subida HTTP (null fuera de la fase 'uploading')
+    uploadProgress: UploadProgress | null;
+    // true mientras la fuente es la cámara del navegador en lugar de un video subido
+    isLive: boolean;
+    // Cámara IP que el servidor está leyendo para esta sesión (null con video o webcam)
+    cameraSourceId: string | null;
+    // Latencia, tasa de mensajes y calidad medidas con el heartbeat
+    connectionMetrics: ConnectionMetrics;
+    // Cómo llegan los frames: JSON con base64 o binario negociado al conectar
+    frameTransport: FrameTransport;
+    // Frames recibidos, pintados y descartados por el planificador de render
+    renderStats: RenderStats;
+    // Grabación de los mensajes entrantes y reproducción offline de una grabación
+    isRecording: boolean;
+    recordedMessages: number;
+    replay: ReplayProgress | null;
+    // Apariciones de placas de la lista de vigilancia, la más reciente primero
+    watchlistHits: WatchlistHit[];
     // ✅ NUEVOS CAMPOS PARA MANEJO COMPLETO DE PLACAS
     allUniquePlates?: UniquePlate[];
     spatialRegions?: Record<string, number>;
     enhancementStats?: EnhancementStats | null;
 }
 
+export type FrameTransport = 'json' | 'binary';
+
+// ✅ ESTADÍSTICAS DEL PLANIFICADOR DE RENDER (un render por animation frame)
+export interface RenderStats {
+    framesReceived: number;
+    framesRendered: number;
+    // Frames reemplazados por uno más nuevo antes de llegar a pintarse
+    framesDropped: number;
+    // Veces que se pidió al servidor aligerar el stream
+    backpressureRequests: number;
+}
+
+export type ConnectionQuality = 'excellent' | 'good' | 'poor' | 'offline';
+
+// ✅ MÉTRICAS DE LA CONEXIÓN WEBSOCKET
+export interface ConnectionMetrics {
+    // Último round-trip ping → pong (null hasta el primer pong)
+    rttMs: number | null;
+    // Mensajes recibidos por segundo en los últimos segundos
+    messageRate: number;
+    quality: ConnectionQuality;
+    lastMessageAt: number | null;
+    // Intento de reconexión en curso (0 con la conexión estable)
+    reconnectAttempt: number;
+}
+
 export type StreamingStatus =
     | 'disconnected'
     | 'connected'
@@ -324,6 +371,65 @@ export interface StreamingOptions {
     min_detection_frames?: number;
 }
 
+// 📸 SNAPSHOT DE SESIÓN (respuesta a get_status): estos campos + el contenido de un streaming_update
+export interface SessionSnapshotState {
+    status?: string;
+    is_processing?: boolean;
+    is_paused?: boolean;
+}
+
+// 💓 HEARTBEAT: el servidor devuelve el seq y el ts del ping que responde
+export interface HeartbeatPong {
+    seq?: number;
+    ts?: number;
+}
+
+// 🎬 GRABACIÓN DE SESIÓN: mensajes WebSocket con su instante relativo al inicio
+export interface RecordedMessage {
+    // ms desde el inicio de la grabación
+    t: number;
+    message: WebSocketMessage;
+    // JPEG de un frame binario (el transporte JSON ya lo trae en frame_data)
+    frame_base64?: string;
+}
+
+export interface SessionRecording {
+    format: 'carid-ws-recording';
+    version: number;
+    session_id: string;
+    started_at: number;
+    duration_ms: number;
+    messages: RecordedMessage[];
+}
+
+export interface ReplayProgress {
+    played: number;
+    total: number;
+    speed: number;
+}
+
+// 🧬 TRANSPORTE ELEGIDO POR EL SERVIDOR (respuesta a negotiate_transport)
+export interface TransportSelection {
+    frame_transport: FrameTransport;
+    binary_format?: string;
+}
+
+// 📷 MODO EN VIVO: frames capturados en el navegador y enviados por el mismo WebSocket
+export interface LiveStreamingOptions extends StreamingOptions {
+    frame_rate: number;
+    width: number;
+    height: number;
+}
+
+export interface LiveFrame {
+    frame_number: number;
+    timestamp: number;
+    // JPEG sin el prefijo data:
+    image_base64: string;
+    width: number;
+    height: number;
+}
+
 // 🔧 TIPO PARA MESSAGE HANDLER
 export type MessageHandler<T = Record<string, unknown>> = (data: T) => void;
 
@@ -360,6 +466,23 @@ export interface UseStreamingWebSocketConfig {
     apiBaseUrl?: string;
     reconnectInterval?: number;
     maxReconnectAttempts?: number;
+    // Tope del backoff exponencial entre reconexiones
+    maxReconnectDelay?: number;
+    // Cada cuánto se envía un ping y cuánto silencio se tolera antes de reconectar
+    heartbeatInterval?: number;
+    heartbeatTimeout?: number;
+    // false: no se ofrece el transporte binario y los frames llegan siempre en base64
+    binaryFrames?: boolean;
+    // false: los frames se siguen descartando pero no se pide al servidor que aligere el stream
+    adaptiveBackpressure?: boolean;
+    // Prefijo de los logs para distinguir instancias (por defecto 'WebSocket')
+    label?: string;
+    // false: solo advertencias y errores en la consola
+    verbose?: boolean;
+    // false: la conexión se abre con connect() en lugar de al montar
+    autoConnect?: boolean;
+    // false: no se guarda la sesión para reanudarla tras recargar la página
+    persistSession?: boolean;
 }
 
 // ✅ HELPERS DE ESTADO EXTENDIDOS
@@ -383,6 +506,18 @@ export interface StreamingActions {
     connect: () => void;
     disconnect: () => void;
     startStreaming: (file: File, options?: StreamingOptions) => Promise<void>;
+    cancelUpload: () => void;
+    startLiveStreaming: (options: LiveStreamingOptions) => boolean;
+    startCameraStreaming: (source: CameraSource, options?: StreamingOptions) => Promise<void>;
+    // false si el frame se descartó (socket cerrado o con demasiados datos pendientes)
+    sendLiveFrame: (frame: LiveFrame) => boolean;
+    startRecording: () => void;
+    stopRecording: () => void;
+    downloadRecording: () => Promise<void>;
+    // Cierra el socket y alimenta la grabación a handleWebSocketMessage sin backend
+    startReplay: (recording: SessionRecording, speed?: number) => void;
+    setReplaySpeed: (speed: number) => void;
+    stopReplay: () => void;
     pauseStreaming: () => void;
     resumeStreaming: () => void;
     stopStreaming: () => void;
@@ -391,6 +526,8 @@ export interface StreamingActions {
     sendMessage: (message: Record<string, unknown>) => void;
     onMessage: <T = Record<string, unknown>>(messageType: string, handler: MessageHandler<T>) => () => void;
     clearError: () => void;
+    // Vacía el registro de alertas de la lista de vigilancia y libera sus snapshots
+    clearWatchlistHits: () => void;
 }
 
 // ✅ TIPO PRINCIPAL DEL HOOK EXTENDIDO
@@ -668,6 +805,27 @@ export const STREAMING_CONSTANTS = {
         LOW: 0.4
     },
 
+    LIVE_CAPTURE: {
+        MIN_FRAME_RATE: 1,
+        MAX_FRAME_RATE: 10,
+        DEFAULT_FRAME_RATE: 3,
+        JPEG_QUALITY: 0.7,
+        MAX_WIDTH: 1280,
+        // Si el socket acumula más que esto sin enviar, se descartan frames en lugar de encolarlos
+        MAX_BUFFERED_BYTES: 1024 * 1024
+    },
+
+    RENDER_BACKPRESSURE: {
+        // Cada cuánto se evalúa la proporción de frames descartados
+        WINDOW_MS: 3000,
+        MIN_FRAMES: 10,
+        DROP_RATIO: 0.3,
+        // Tiempo mínimo entre dos pedidos al servidor
+        COOLDOWN_MS: 10_000,
+        MAX_FRAME_SKIP: 10,
+        QUALITY_STEP: 10
+    },
+
     QUALITY_SETTINGS: {
         MIN_QUALITY: 25,
         MAX_QUALITY: 85,
@@ -0,0 +1,47 @@
+// src/types/watchlist.ts
+// ✅ TIPOS DE LA LISTA DE VIGILANCIA: placas de interés y alertas cuando aparecen
+
+export type WatchlistPriority = 'low' | 'medium' | 'high';
+
+export interface WatchlistEntry {
+    id: string;
+    // Placa exacta o patrón con comodines: * = cualquier cantidad de caracteres, ? = uno solo
+    pattern: string;
+    label: string;
+    priority: WatchlistPriority;
+    created_at: number;
+}
+
+// Lo que se escribe en el formulario o llega en un archivo importado
+export interface WatchlistEntryInput {
+    pattern: string;
+    label?: string;
+    priority?: WatchlistPriority;
+}
+
+export interface WatchlistImportResult {
+    added: number;
+    // Patrones repetidos que ya estaban en la lista
+    skipped: number;
+    errors: string[];
+}
+
+// Qué actualización del stream disparó la alerta
+export type WatchlistHitSource = 'detection' | 'summary';
+
+export interface WatchlistHit {
+    id: string;
+    entry_id: string;
+    pattern: string;
+    label: string;
+    priority: WatchlistPriority;
+    plate_text: string;
+    confidence: number;
+    frame_number: number | null;
+    // ms (Date.now()) en que llegó la actualización
+    timestamp: number;
+    session_id: string;
+    // Object URL o data URL del frame en que apareció la placa (null si la actualización no traía imagen)
+    snapshot: string | null;
+    source: WatchlistHitSource;
+}
@@ -0,0 +1,17 @@
+// src/workers/imagePreprocess.worker.ts
+// ✅ WORKER DE PREPROCESADO: decodifica y reescala con OffscreenCanvas sin bloquear la interfaz
+
+import { preprocessImage } from '../services/imagePipeline';
+import type { PreprocessRequest, PreprocessResponse } from '../types/preprocessing';
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+    const { id, file, options } = event.data;
+    let response: PreprocessResponse;
+    try {
+        const result = await preprocessImage(file, options, (width, height) => new OffscreenCanvas(width, height));
+        response = { id, result };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : 'No se pudo preprocesar la imagen' };
+    }
+    self.postMessage(response);
+};